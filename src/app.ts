@@ -0,0 +1,128 @@
+/**
+ * Ticket Backend App
+ * 
+ * Builds the Fastify app with all plugins and routes. The server
+ * (server.ts) makes it listen; the tests inject requests into it.
+ * 
+ * Configuration comes from the environment, read when the modules
+ * are first imported (so set it before importing this file).
+ */
+
+import crypto from 'node:crypto';
+import Fastify, { FastifyInstance } from 'fastify';
+import { registerCors } from './plugins/cors.js';
+import { registerRateLimit } from './plugins/rateLimit.js';
+import { registerHelmet } from './plugins/helmet.js';
+import { registerAuth } from './plugins/auth.js';
+import { registerStorage } from './plugins/storage.js';
+import { registerEventCatalog } from './plugins/eventCatalog.js';
+import { registerMail } from './plugins/mail.js';
+import { registerPaymentGateway } from './plugins/paymentGateway.js';
+import { registerMetrics, registerMetricsRoute } from './plugins/metrics.js';
+import { checkoutRoutes } from './routes/checkout.js';
+import { webhookRoutes } from './routes/webhook.js';
+import { orderRoutes } from './routes/orders.js';
+import { transferRoutes } from './routes/transfers.js';
+import { checkinRoutes } from './routes/checkin.js';
+import { eventRoutes } from './routes/events.js';
+import { adminRoutes } from './routes/admin.js';
+import { adminOrderRoutes } from './routes/adminOrders.js';
+import { adminApiKeyRoutes } from './routes/adminApiKeys.js';
+import { adminCompRoutes } from './routes/adminComps.js';
+import { devPaymentRoutes } from './routes/devPayments.js';
+import { FakePaymentGateway } from './services/fakePaymentGateway.js';
+import { logger } from './services/logger.js';
+
+/**
+ * Register all plugins
+ */
+async function registerPlugins(app: FastifyInstance): Promise<void> {
+  app.log.info('Registering plugins...');
+  
+  // Metrics, storage, the event catalog, mail and payments must exist before any route is registered
+  await registerMetrics(app);
+  await registerStorage(app);
+  await registerEventCatalog(app);
+  await registerMail(app);
+  await registerPaymentGateway(app);
+  
+  // IMPORTANT: Register webhook routes FIRST
+  // This is because the webhook route needs a raw body parser,
+  // and we want to set that up before other routes
+  // We create a scoped instance for webhooks
+  await app.register(async (webhookApp) => {
+    await webhookRoutes(webhookApp);
+  });
+  
+  // Now register plugins for other routes
+  await registerCors(app);
+  await registerRateLimit(app);
+  await registerHelmet(app);
+  await registerAuth(app);
+}
+
+/**
+ * Register all routes
+ */
+async function registerRoutes(app: FastifyInstance): Promise<void> {
+  app.log.info('Registering routes...');
+  
+  // Event catalog routes
+  await eventRoutes(app);
+  
+  // Checkout routes
+  await checkoutRoutes(app);
+  
+  // Order routes
+  await orderRoutes(app);
+  
+  // Ticket transfer routes
+  await transferRoutes(app);
+  
+  // Door check-in routes (require a door or admin API key)
+  await checkinRoutes(app);
+  
+  // Admin routes (require an admin or readonly API key)
+  await adminRoutes(app);
+  await adminOrderRoutes(app);
+  await adminApiKeyRoutes(app);
+  await adminCompRoutes(app);
+  
+  // Simulated payments (PAYMENT_GATEWAY=fake only, never in production)
+  if (app.paymentGateway instanceof FakePaymentGateway) {
+    await devPaymentRoutes(app, app.paymentGateway);
+  }
+  
+  // Prometheus metrics (METRICS_TOKEN, or an admin or readonly API key)
+  await registerMetricsRoute(app);
+  
+  // Health check endpoint
+  app.get('/health', async () => {
+    return { status: 'ok', timestamp: new Date().toISOString() };
+  });
+}
+
+/**
+ * Builds the app, ready to listen
+ * 
+ * @returns The app, with every plugin and route registered
+ */
+export async function buildApp(): Promise<FastifyInstance> {
+  const app = Fastify({
+    loggerInstance: logger,  // Structured logs, with secrets redacted (see services/logger.ts)
+    requestIdHeader: 'x-request-id',  // Keep the proxy's request ID, so its logs and ours line up
+    genReqId: () => crypto.randomUUID(),
+    bodyLimit: 1048576,  // 1MB body size limit
+    trustProxy: true  // Trust proxy headers (needed for Render)
+  });
+  
+  // Every response carries the request ID its log lines are tagged with (reqId)
+  app.addHook('onRequest', async (request, reply) => {
+    reply.header('X-Request-Id', request.id);
+  });
+  
+  await registerPlugins(app);
+  await registerRoutes(app);
+  
+  return app;
+}
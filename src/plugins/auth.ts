@@ -0,0 +1,110 @@
+/**
+ * Auth Plugin
+ * 
+ * Authenticates staff with an API key:
+ *   Authorization: Bearer <key>
+ * 
+ * Routes declare the roles they accept, and the caller is then
+ * available as request.principal:
+ *   app.get('/api/admin/orders', { preHandler: requireRole('admin', 'readonly') }, handler)
+ * 
+ * Roles:
+ * - admin: every admin route, including managing keys
+ * - door: check-in only, optionally for one event
+ * - readonly: reports (orders, promo codes, webhook events, sales, metrics)
+ * 
+ * Keys are created and revoked through /api/admin/api-keys (see
+ * routes/adminApiKeys.ts). ADMIN_API_KEY, if set, works as an admin
+ * key, to create the first ones.
+ * 
+ * 401: no key, or an unknown or revoked one
+ * 403: the key's role is not accepted by the route
+ */
+
+import crypto from 'node:crypto';
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Role } from '../services/apiKeyStore.js';
+import { BOOTSTRAP_PRINCIPAL, Principal, hashApiKey, principalFromKey } from '../services/authService.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    principal: Principal | null;  // Set by requireRole
+  }
+}
+
+/**
+ * Compares two strings in constant time.
+ * Both are hashed first so different lengths don't leak through timing.
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const hashA = crypto.createHash('sha256').update(a).digest();
+  const hashB = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(hashA, hashB);
+}
+
+/**
+ * Finds who sent a request, from its bearer token
+ * 
+ * @returns The caller, or null for a missing, unknown or revoked key
+ */
+async function authenticate(request: FastifyRequest): Promise<Principal | null> {
+  const header = request.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+  
+  if (!token) {
+    return null;
+  }
+  
+  const adminApiKey = process.env.ADMIN_API_KEY;
+  
+  if (adminApiKey && safeEqual(token, adminApiKey)) {
+    return BOOTSTRAP_PRINCIPAL;
+  }
+  
+  const apiKey = await request.server.apiKeyStore.getKeyByHash(hashApiKey(token));
+  
+  if (!apiKey || apiKey.revokedAt) {
+    return null;
+  }
+  
+  await request.server.apiKeyStore.recordUse(apiKey.keyId, new Date());
+  
+  return principalFromKey(apiKey);
+}
+
+/**
+ * Builds a preHandler hook that only lets the given roles through.
+ * Usage: app.post('/api/admin/...', { preHandler: requireRole('admin') }, handler)
+ * 
+ * @param roles - The roles the route accepts
+ */
+export function requireRole(...roles: Role[]) {
+  return async function (request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const principal = await authenticate(request);
+    
+    if (!principal) {
+      request.log.warn('Rejected request: missing or invalid API key');
+      return reply.status(401).send({
+        error: 'Unauthorized'
+      });
+    }
+    
+    // Everything this request logs from now on says whose key it was
+    request.principal = principal;
+    request.log = request.log.child({ keyId: principal.keyId, role: principal.role });
+    
+    if (!roles.includes(principal.role)) {
+      request.log.warn({ allowedRoles: roles }, 'Rejected request: role not allowed');
+      return reply.status(403).send({
+        error: 'Forbidden',
+        message: `This requires one of these roles: ${roles.join(', ')}.`
+      });
+    }
+  };
+}
+
+export async function registerAuth(app: FastifyInstance): Promise<void> {
+  app.decorateRequest('principal', null);
+  
+  app.log.info({ bootstrapKey: Boolean(process.env.ADMIN_API_KEY) }, 'Auth configured: API keys with admin, door and readonly roles');
+}
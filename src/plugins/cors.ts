@@ -20,10 +20,13 @@ export async function registerCors(app: FastifyInstance): Promise<void> {
     origin: isDevelopment ? true : frontendOrigin,
     
     // Allow these HTTP methods
-    methods: ['GET', 'POST', 'OPTIONS'],
+    methods: ['GET', 'POST', 'PATCH', 'DELETE', 'OPTIONS'],
     
     // Allow these headers in requests
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'Idempotency-Key', 'X-Order-Access-Token'],
+    
+    // Let the frontend see when create-intent replayed an earlier response
+    exposedHeaders: ['Idempotent-Replayed'],
     
     // Allow credentials (cookies, authorization headers)
     credentials: true,
@@ -32,5 +35,5 @@ export async function registerCors(app: FastifyInstance): Promise<void> {
     maxAge: 86400
   });
   
-  console.log(`[CORS] Configured for ${isDevelopment ? 'development (all origins)' : `production (${frontendOrigin})`}`);
+  app.log.info({ origin: isDevelopment ? 'all (development)' : frontendOrigin }, 'CORS configured');
 }
\ No newline at end of file
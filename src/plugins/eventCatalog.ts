@@ -0,0 +1,28 @@
+/**
+ * Event Catalog Plugin
+ * 
+ * Loads the event catalog at startup and makes it available
+ * to every route as `app.eventCatalog`.
+ * 
+ * EVENTS_FILE: path to a JSON file of events (see events.example.json).
+ * If not set, a single "default" event is used.
+ */
+
+import { FastifyInstance } from 'fastify';
+import { EventCatalog } from '../services/eventCatalog.js';
+import { InMemoryEventCatalog, loadEvents } from '../services/inMemoryEventCatalog.js';
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    eventCatalog: EventCatalog;
+  }
+}
+
+export async function registerEventCatalog(app: FastifyInstance): Promise<void> {
+  const eventsFile = process.env.EVENTS_FILE;
+  const events = loadEvents(eventsFile);
+  
+  app.decorate('eventCatalog', new InMemoryEventCatalog(events));
+  
+  app.log.info({ events: events.length, source: eventsFile || 'built-in default' }, 'Events loaded');
+}
@@ -33,5 +33,5 @@ export async function registerHelmet(app: FastifyInstance): Promise<void> {
     xssFilter: true
   });
   
-  console.log('[Helmet] Security headers configured');
+  app.log.info('Security headers configured');
 }
\ No newline at end of file
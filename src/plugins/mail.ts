@@ -0,0 +1,69 @@
+/**
+ * Mail Plugin
+ * 
+ * Picks the mail transport from configuration and makes it
+ * available to every route as `app.mailTransport`.
+ * 
+ * MAIL_TRANSPORT:
+ * - console (default outside production): logs messages, sends nothing
+ * - file: writes messages to MAIL_OUTBOX_DIR (default ./data/outbox)
+ * - smtp (default in production): SMTP_HOST, SMTP_PORT, SMTP_SECURE,
+ *   SMTP_USER, SMTP_PASSWORD and MAIL_FROM
+ */
+
+import { FastifyInstance } from 'fastify';
+import { MailTransport } from '../services/mailTransport.js';
+import { ConsoleMailTransport } from '../services/consoleMailTransport.js';
+import { FileMailTransport } from '../services/fileMailTransport.js';
+import { SmtpMailTransport } from '../services/smtpMailTransport.js';
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    mailTransport: MailTransport;
+  }
+}
+
+export async function registerMail(app: FastifyInstance): Promise<void> {
+  const transportType = process.env.MAIL_TRANSPORT
+    || (process.env.NODE_ENV === 'production' ? 'smtp' : 'console');
+  
+  switch (transportType) {
+    case 'console': {
+      app.decorate('mailTransport', new ConsoleMailTransport());
+      app.log.info('Mail: using console transport (emails are logged, not sent)');
+      break;
+    }
+    
+    case 'file': {
+      const outboxDir = process.env.MAIL_OUTBOX_DIR || './data/outbox';
+      app.decorate('mailTransport', new FileMailTransport(outboxDir));
+      app.log.info({ outboxDir }, 'Mail: using file transport');
+      break;
+    }
+    
+    case 'smtp': {
+      const host = process.env.SMTP_HOST;
+      const from = process.env.MAIL_FROM;
+      
+      if (!host || !from) {
+        throw new Error('SMTP_HOST and MAIL_FROM environment variables are required for MAIL_TRANSPORT=smtp');
+      }
+      
+      const port = parseInt(process.env.SMTP_PORT || '587', 10);
+      
+      app.decorate('mailTransport', new SmtpMailTransport({
+        host,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+        from
+      }));
+      app.log.info({ host, port }, 'Mail: using SMTP transport');
+      break;
+    }
+    
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${transportType}" (expected "smtp", "file" or "console")`);
+  }
+}
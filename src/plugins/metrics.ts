@@ -0,0 +1,61 @@
+/**
+ * Metrics Plugin
+ * 
+ * Makes the app's metrics available to every route as `app.metrics`
+ * (registerMetrics, before anything that counts), and serves them at
+ * GET /metrics for Prometheus to scrape (registerMetricsRoute, with
+ * the other routes, so it is rate limited like them).
+ * 
+ * The endpoint needs Authorization: Bearer <METRICS_TOKEN>, or an
+ * admin or readonly API key (revenue is not public).
+ */
+
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { Metrics, createMetrics, renderMetrics } from '../services/metrics.js';
+import { requireRole, safeEqual } from './auth.js';
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    metrics: Metrics;
+  }
+}
+
+// Staff keys that may read the metrics
+const requireMetricsRole = requireRole('admin', 'readonly');
+
+/**
+ * preHandler hook for the metrics endpoint: the METRICS_TOKEN, or else
+ * a staff API key
+ */
+async function requireMetricsAccess(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+  const metricsToken = process.env.METRICS_TOKEN;
+  const header = request.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+  
+  if (metricsToken && token && safeEqual(token, metricsToken)) {
+    return;
+  }
+  
+  return requireMetricsRole(request, reply);
+}
+
+export async function registerMetrics(app: FastifyInstance): Promise<void> {
+  app.decorate('metrics', createMetrics());
+}
+
+export async function registerMetricsRoute(app: FastifyInstance): Promise<void> {
+  /**
+   * GET /metrics
+   * 
+   * Every metric in the Prometheus text exposition format.
+   */
+  app.get('/metrics', { preHandler: requireMetricsAccess }, async (_request, reply) => {
+    return reply
+      .status(200)
+      .header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+      .header('Cache-Control', 'no-store')
+      .send(renderMetrics(app.metrics));
+  });
+  
+  app.log.info({ metricsToken: Boolean(process.env.METRICS_TOKEN) }, 'Metrics served at /metrics');
+}
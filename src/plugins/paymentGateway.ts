@@ -0,0 +1,55 @@
+/**
+ * Payment Gateway Plugin
+ * 
+ * Picks the payment gateway from configuration and makes it
+ * available to every route as `app.paymentGateway`.
+ * 
+ * PAYMENT_GATEWAY:
+ * - stripe (default): STRIPE_SECRET_KEY and STRIPE_WEBHOOK_SECRET
+ * - fake: offline payments driven by /api/dev/payments (not allowed in production)
+ */
+
+import { FastifyInstance } from 'fastify';
+import { PaymentGateway } from '../services/paymentGateway.js';
+import { StripePaymentGateway } from '../services/stripePaymentGateway.js';
+import { FakePaymentGateway } from '../services/fakePaymentGateway.js';
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    paymentGateway: PaymentGateway;
+  }
+}
+
+export async function registerPaymentGateway(app: FastifyInstance): Promise<void> {
+  const gatewayType = process.env.PAYMENT_GATEWAY || 'stripe';
+  
+  switch (gatewayType) {
+    case 'stripe': {
+      const secretKey = process.env.STRIPE_SECRET_KEY;
+      
+      if (!secretKey) {
+        throw new Error('STRIPE_SECRET_KEY environment variable is required for PAYMENT_GATEWAY=stripe');
+      }
+      
+      app.decorate('paymentGateway', new StripePaymentGateway({
+        secretKey,
+        webhookSecret: process.env.STRIPE_WEBHOOK_SECRET
+      }));
+      app.log.info('Payments: using Stripe');
+      break;
+    }
+    
+    case 'fake': {
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('PAYMENT_GATEWAY=fake cannot be used in production');
+      }
+      
+      app.decorate('paymentGateway', new FakePaymentGateway());
+      app.log.info('Payments: using the fake gateway (no real payments, see /api/dev/payments)');
+      break;
+    }
+    
+    default:
+      throw new Error(`Unknown PAYMENT_GATEWAY "${gatewayType}" (expected "stripe" or "fake")`);
+  }
+}
@@ -6,10 +6,17 @@
  * - Denial of Service (DoS) attacks
  * - Brute force attacks
  * - API abuse
+ * 
+ * The error message is in the language of the request's
+ * Accept-Language header (the body is not parsed yet).
+ * 
+ * Every rejection is counted in rate_limit_rejections_total, by
+ * route pattern (e.g. /api/orders/:orderId/qr).
  */
 
 import rateLimit from '@fastify/rate-limit';
 import { FastifyInstance } from 'fastify';
+import { apiText, requestLanguage } from '../services/i18n.js';
 
 export async function registerRateLimit(app: FastifyInstance): Promise<void> {
   await app.register(rateLimit, {
@@ -19,15 +26,20 @@ export async function registerRateLimit(app: FastifyInstance): Promise<void> {
     // Time window in milliseconds (1 minute)
     timeWindow: 60 * 1000,
     
+    // Count rejections (the route pattern, not the raw URL, keeps the label set small)
+    onExceeded: function (request) {
+      app.metrics.rateLimitRejections.inc({ route: request.routeOptions.url ?? 'unmatched' });
+    },
+    
     // Custom error message
     errorResponseBuilder: function (request, context) {
       return {
         statusCode: 429,
         error: 'Too Many Requests',
-        message: `Rate limit exceeded. Try again in ${Math.round(context.ttl / 1000)} seconds.`
+        message: apiText(requestLanguage(request)).rateLimited(Math.round(context.ttl / 1000))
       };
     }
   });
   
-  console.log('[RateLimit] Configured: 100 requests per minute per IP');
+  app.log.info('Rate limit configured: 100 requests per minute per IP');
 }
\ No newline at end of file
@@ -0,0 +1,124 @@
+/**
+ * Storage Plugin
+ * 
+ * Picks the storage backend from configuration and makes the
+ * stores available to every route:
+ * - `app.orderStore`: completed orders
+ * - `app.inventoryStore`: ticket holds and sales (capacity)
+ * - `app.promoStore`: promo codes and their redemptions
+ * - `app.webhookEventStore`: every Stripe webhook event and how processing went
+ * - `app.idempotencyStore`: Idempotency-Key headers and the responses they replay
+ * - `app.apiKeyStore`: staff API keys (hashed)
+ * - `app.orderEvents`: every order change, as it happens
+ * 
+ * ORDER_STORE:
+ * - sqlite (default): durable, file-backed (DATABASE_PATH)
+ * - memory: lost on restart, handy for quick local testing
+ */
+
+import { FastifyInstance } from 'fastify';
+import { OrderStore } from '../services/orderStore.js';
+import { InventoryStore } from '../services/inventoryStore.js';
+import { PromoStore } from '../services/promoStore.js';
+import { WebhookEventStore } from '../services/webhookEventStore.js';
+import { IdempotencyStore } from '../services/idempotencyStore.js';
+import { ApiKeyStore } from '../services/apiKeyStore.js';
+import { OrderEventBus } from '../services/orderEventBus.js';
+import { PublishingOrderStore } from '../services/publishingOrderStore.js';
+import { InMemoryOrderStore } from '../services/inMemoryOrderStore.js';
+import { InMemoryInventoryStore } from '../services/inMemoryInventoryStore.js';
+import { InMemoryPromoStore } from '../services/inMemoryPromoStore.js';
+import { InMemoryWebhookEventStore } from '../services/inMemoryWebhookEventStore.js';
+import { InMemoryIdempotencyStore } from '../services/inMemoryIdempotencyStore.js';
+import { InMemoryApiKeyStore } from '../services/inMemoryApiKeyStore.js';
+import { SqliteOrderStore } from '../services/sqliteOrderStore.js';
+import { SqliteInventoryStore } from '../services/sqliteInventoryStore.js';
+import { SqlitePromoStore } from '../services/sqlitePromoStore.js';
+import { SqliteWebhookEventStore } from '../services/sqliteWebhookEventStore.js';
+import { SqliteIdempotencyStore } from '../services/sqliteIdempotencyStore.js';
+import { SqliteApiKeyStore } from '../services/sqliteApiKeyStore.js';
+import { openDatabase } from '../services/sqliteDatabase.js';
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    orderStore: OrderStore;
+    inventoryStore: InventoryStore;
+    promoStore: PromoStore;
+    webhookEventStore: WebhookEventStore;
+    idempotencyStore: IdempotencyStore;
+    apiKeyStore: ApiKeyStore;
+    orderEvents: OrderEventBus;
+  }
+}
+
+// How often expired holds and idempotency keys are swept (they stop counting as soon as they expire either way)
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export async function registerStorage(app: FastifyInstance): Promise<void> {
+  const storeType = process.env.ORDER_STORE || 'sqlite';
+  
+  // Order changes are published here whichever backend is used
+  const orderEvents = new OrderEventBus();
+  app.decorate('orderEvents', orderEvents);
+  
+  switch (storeType) {
+    case 'memory': {
+      const inventoryStore = new InMemoryInventoryStore();
+      
+      app.decorate('orderStore', new PublishingOrderStore(new InMemoryOrderStore(inventoryStore), orderEvents));
+      app.decorate('inventoryStore', inventoryStore);
+      app.decorate('promoStore', new InMemoryPromoStore());
+      app.decorate('webhookEventStore', new InMemoryWebhookEventStore());
+      app.decorate('idempotencyStore', new InMemoryIdempotencyStore());
+      app.decorate('apiKeyStore', new InMemoryApiKeyStore());
+      app.log.info('Storage: using in-memory stores (data is lost on restart!)');
+      break;
+    }
+    
+    case 'sqlite': {
+      const databasePath = process.env.DATABASE_PATH || './data/tickets.db';
+      const db = openDatabase(databasePath);
+      
+      app.decorate('orderStore', new PublishingOrderStore(new SqliteOrderStore(db), orderEvents));
+      app.decorate('inventoryStore', new SqliteInventoryStore(db));
+      app.decorate('promoStore', new SqlitePromoStore(db));
+      app.decorate('webhookEventStore', new SqliteWebhookEventStore(db));
+      app.decorate('idempotencyStore', new SqliteIdempotencyStore(db));
+      app.decorate('apiKeyStore', new SqliteApiKeyStore(db));
+      
+      // Close the database cleanly on shutdown
+      app.addHook('onClose', async () => {
+        db.close();
+      });
+      
+      app.log.info({ databasePath }, 'Storage: using SQLite stores');
+      break;
+    }
+    
+    default:
+      throw new Error(`Unknown ORDER_STORE "${storeType}" (expected "sqlite" or "memory")`);
+  }
+  
+  // Periodically mark unpaid holds as expired and forget old idempotency keys
+  const sweepTimer = setInterval(async () => {
+    try {
+      const expired = await app.inventoryStore.expireHolds();
+      if (expired > 0) {
+        app.log.info({ expired }, 'Expired unpaid holds');
+      }
+    } catch (error) {
+      app.log.error({ err: error }, 'Failed to expire holds');
+    }
+    
+    try {
+      await app.idempotencyStore.deleteExpired(new Date());
+    } catch (error) {
+      app.log.error({ err: error }, 'Failed to delete expired idempotency keys');
+    }
+  }, SWEEP_INTERVAL_MS);
+  sweepTimer.unref();
+  
+  app.addHook('onClose', async () => {
+    clearInterval(sweepTimer);
+  });
+}
@@ -0,0 +1,579 @@
+/**
+ * Admin Routes
+ * 
+ * Back-office endpoints for staff. Every route here requires an API
+ * key (see plugins/auth.ts): an admin key, or a readonly one for the
+ * routes that only read.
+ */
+
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { requireRole } from '../plugins/auth.js';
+import { OrderItem, subtractItems } from '../services/orderStore.js';
+import { staffActor } from '../services/orderAuditService.js';
+import { chargedForItems, chargedPerTicket } from '../services/pricingService.js';
+import { normalizePromoCode } from '../services/promoStore.js';
+import { GatewayEvent, GatewayRefund, PaymentGatewayError } from '../services/paymentGateway.js';
+import { generateQRToken } from '../services/qrService.js';
+import { refundIdempotencyKey, toOrderRefund } from '../services/refundService.js';
+import { countTicketItems } from '../services/ticketService.js';
+import { processWebhookEvent } from './webhook.js';
+
+// Type for route parameters
+interface OrderParams {
+  orderId: string;
+}
+
+// Type for ticket route parameters
+interface TicketParams extends OrderParams {
+  ticketId: string;
+}
+
+// Validation schema for refund request
+const refundSchema = z.object({
+  // Tickets to refund, per ticket type. Leave out to refund the whole order.
+  items: z.array(z.object({
+    ticketTypeId: z.string().min(1, 'Ticket type is required'),
+    quantity: z.number().int().min(1, 'Quantity must be at least 1')
+  })).min(1).optional(),
+  // Or the exact tickets to refund (kept short to fit in Stripe metadata)
+  ticketIds: z.array(z.string().min(1)).min(1).max(20, 'Refund at most 20 tickets at a time').optional()
+}).refine(
+  (data) => !(data.items && data.ticketIds),
+  { message: 'Send either items or ticketIds, not both', path: ['ticketIds'] }
+);
+
+// Type for validated request body
+type RefundBody = z.infer<typeof refundSchema>;
+
+// Type for promo code route parameters
+interface PromoCodeParams {
+  code: string;
+}
+
+// Validation schema for creating a promo code
+const createPromoCodeSchema = z.object({
+  code: z.string().trim().min(3, 'Code must be at least 3 characters').max(64)
+    .regex(/^[A-Za-z0-9_-]+$/, 'Code can only contain letters, numbers, - and _'),
+  discountType: z.enum(['percentage', 'fixed']),
+  value: z.number().positive('Value must be positive'),
+  eventIds: z.array(z.string().min(1)).min(1).optional(),
+  ticketTypeIds: z.array(z.string().min(1)).min(1).optional(),
+  maxUses: z.number().int().min(1).optional(),
+  maxUsesPerCustomer: z.number().int().min(1).optional(),
+  validFrom: z.coerce.date().optional(),
+  validUntil: z.coerce.date().optional(),
+  active: z.boolean().default(true)
+}).refine(
+  (data) => data.discountType !== 'percentage' || data.value <= 100,
+  { message: 'A percentage discount cannot be more than 100', path: ['value'] }
+).refine(
+  (data) => data.discountType !== 'fixed' || Number.isInteger(data.value),
+  { message: 'A fixed discount must be a whole number of cents', path: ['value'] }
+).refine(
+  (data) => !data.validFrom || !data.validUntil || data.validFrom < data.validUntil,
+  { message: 'validUntil must be after validFrom', path: ['validUntil'] }
+);
+
+// Validation schema for reissuing a ticket
+const reissueSchema = z.object({
+  attendeeName: z.string().trim().min(1).max(100).optional()
+});
+
+// Type for validated request body
+type ReissueBody = z.infer<typeof reissueSchema>;
+
+// Type for validated request body
+type CreatePromoCodeBody = z.infer<typeof createPromoCodeSchema>;
+
+// Validation schema for switching a promo code on or off
+const updatePromoCodeSchema = z.object({
+  active: z.boolean()
+});
+
+// Type for validated request body
+type UpdatePromoCodeBody = z.infer<typeof updatePromoCodeSchema>;
+
+// Type for webhook event route parameters
+interface WebhookEventParams {
+  eventId: string;
+}
+
+// Validation schema for listing webhook events
+const listWebhookEventsSchema = z.object({
+  status: z.enum(['received', 'processed', 'failed', 'dead_letter']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+// Type for validated query string
+type ListWebhookEventsQuery = z.infer<typeof listWebhookEventsSchema>;
+
+export async function adminRoutes(app: FastifyInstance): Promise<void> {
+  /**
+   * POST /api/admin/orders/:orderId/refund
+   * 
+   * Refunds an order through Stripe, fully or partially, and
+   * removes the refunded tickets from the order right away.
+   * 
+   * Request body (partial refund):
+   * {
+   *   "items": [{ "ticketTypeId": string, "quantity": number }]
+   * }
+   * or, to refund specific attendees:
+   * {
+   *   "ticketIds": string[]
+   * }
+   * Send an empty body to refund everything that is left.
+   * 
+   * Response:
+   * {
+   *   "status": "valid" | "used" | "cancelled",
+   *   "items": [{ "ticketTypeId": string, "quantity": number }] (tickets still admitted),
+   *   "refund": { "id": string, "amount": number (cents), "status": string }
+   * }
+   * 
+   * Response (202): the refund was made but the order could not be
+   * updated; the charge.refunded webhook updates it. Only "refund" and
+   * a "message" are sent. Do not refund again.
+   * 
+   * Response (502): the payment provider did not make the refund.
+   * Sending the same refund again is safe: until the order records a
+   * refund, a repeat is never refunded twice (see refundIdempotencyKey).
+   */
+  app.post<{ Params: OrderParams; Body: RefundBody }>('/api/admin/orders/:orderId/refund', {
+    preHandler: requireRole('admin')
+  }, async (request, reply) => {
+    const validationResult = refundSchema.safeParse(request.body ?? {});
+    
+    if (!validationResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validationResult.error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message
+        }))
+      });
+    }
+    
+    const { orderId } = request.params;
+    const order = await app.orderStore.getOrder(orderId);
+    
+    if (!order) {
+      return reply.status(404).send({
+        error: 'Order not found'
+      });
+    }
+    
+    // Nothing was paid for a comp
+    if (!order.paymentIntentId) {
+      return reply.status(409).send({
+        error: 'Order not refundable',
+        message: 'Complimentary orders cannot be refunded. Revoke them instead.'
+      });
+    }
+    
+    const { paymentIntentId } = order;
+    
+    if (order.status === 'cancelled') {
+      return reply.status(409).send({
+        error: 'Order already cancelled',
+        message: `This order was cancelled (${order.cancellationReason}).`
+      });
+    }
+    
+    // Specific tickets must be on the order and not refunded yet
+    const { ticketIds } = validationResult.data;
+    
+    if (ticketIds) {
+      const unavailable = ticketIds.find((ticketId, index) =>
+        ticketIds.indexOf(ticketId) !== index ||
+        !order.tickets.some(ticket => ticket.ticketId === ticketId && ticket.status !== 'cancelled')
+      );
+      
+      if (unavailable) {
+        return reply.status(400).send({
+          error: 'Validation failed',
+          details: [{
+            field: 'ticketIds',
+            message: `Ticket ${unavailable} is not on this order or was already refunded`
+          }]
+        });
+      }
+    }
+    
+    // Make sure every requested ticket is still on the order
+    const requestedItems: OrderItem[] = ticketIds
+      ? countTicketItems(order.tickets.filter(ticket => ticketIds.includes(ticket.ticketId)))
+      : validationResult.data.items || order.items;
+    const overRefunded = requestedItems.find(requested => {
+      const current = order.items.find(item => item.ticketTypeId === requested.ticketTypeId);
+      return !current || requested.quantity > current.quantity;
+    });
+    
+    if (overRefunded) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: [{
+          field: 'items',
+          message: `Order does not have ${overRefunded.quantity} ${overRefunded.ticketTypeId} ticket(s) left to refund`
+        }]
+      });
+    }
+    
+    const event = await app.eventCatalog.getEvent(order.eventId);
+    const isFullRefund = subtractItems(order.items, requestedItems).length === 0;
+    
+    // A partial refund pays back what the tickets cost the buyer: their share
+    // of what the order was charged, discount, fee and taxes included
+    // (see chargedPerTicket). A full refund leaves the amount out.
+    const partialAmount = isFullRefund
+      ? undefined
+      : chargedForItems(chargedPerTicket(order, event), requestedItems);
+    
+    if (partialAmount === null) {
+      return reply.status(500).send({
+        error: 'Ticket price not found',
+        message: 'Cannot price a partial refund: the order has no recorded price for these tickets and the event is missing from the catalog.'
+      });
+    }
+    
+    let refund: GatewayRefund;
+    
+    try {
+      // A full refund leaves out the amount, so the gateway refunds whatever is left.
+      // The items go in metadata so the webhook knows which tickets this covers.
+      refund = await app.paymentGateway.createRefund({
+        paymentIntentId,
+        amount: partialAmount,
+        metadata: {
+          items: JSON.stringify(requestedItems),
+          ...(ticketIds ? { ticketIds: JSON.stringify(ticketIds) } : {})
+        },
+        idempotencyKey: refundIdempotencyKey(order, requestedItems, ticketIds)
+      });
+    } catch (error) {
+      request.log.error({ err: error, orderId }, 'Error creating refund');
+      
+      if (error instanceof PaymentGatewayError) {
+        return reply.status(502).send({
+          error: 'Payment service error',
+          message: 'The payment provider did not make the refund. Sending the same refund again is safe.'
+        });
+      }
+      
+      return reply.status(500).send({
+        error: 'Internal server error',
+        message: 'Failed to create refund.'
+      });
+    }
+    
+    request.log.info({ orderId, refundId: refund.refundId, amount: refund.amount }, 'Refund created');
+    
+    const refundBody = {
+      id: refund.refundId,
+      amount: refund.amount,
+      status: refund.status
+    };
+    
+    try {
+      const updated = await app.orderStore.applyRefund(orderId, toOrderRefund(refund, order, event), staffActor(request.principal!));
+      
+      return reply.status(200).send({
+        status: updated?.status,
+        items: updated?.items,
+        refund: refundBody
+      });
+    } catch (error) {
+      // The money is already on its way back: the charge.refunded webhook updates the order
+      request.log.error({ err: error, orderId, refundId: refund.refundId }, 'Refund created, but the order could not be updated');
+      
+      return reply.status(202).send({
+        refund: refundBody,
+        message: 'The refund was made. The order will be updated when the payment provider confirms it.'
+      });
+    }
+  });
+  
+  /**
+   * POST /api/admin/orders/:orderId/tickets/:ticketId/reissue
+   * 
+   * Gives a ticket a new QR code, e.g. when it goes to someone else
+   * or a screenshot was shared. The old QR code stops working
+   * immediately. Only unused tickets can be reissued.
+   * 
+   * Request body:
+   * {
+   *   "attendeeName": string (optional, kept if missing)
+   * }
+   * 
+   * Response:
+   * {
+   *   "ticketId": string,
+   *   "ticketTypeId": string,
+   *   "attendeeName": string | null,
+   *   "status": "valid"
+   * }
+   */
+  app.post<{ Params: TicketParams; Body: ReissueBody }>('/api/admin/orders/:orderId/tickets/:ticketId/reissue', {
+    preHandler: requireRole('admin')
+  }, async (request, reply) => {
+    const validationResult = reissueSchema.safeParse(request.body ?? {});
+    
+    if (!validationResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validationResult.error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message
+        }))
+      });
+    }
+    
+    const { orderId, ticketId } = request.params;
+    const order = await app.orderStore.getOrder(orderId);
+    const ticket = order?.tickets.find(t => t.ticketId === ticketId);
+    
+    if (!order || !ticket) {
+      return reply.status(404).send({
+        error: 'Ticket not found'
+      });
+    }
+    
+    const updated = await app.orderStore.reissueTicket(orderId, ticketId, {
+      qrToken: generateQRToken(),
+      attendeeName: validationResult.data.attendeeName
+    }, staffActor(request.principal!));
+    const reissued = updated?.tickets.find(t => t.ticketId === ticketId);
+    
+    if (!reissued) {
+      return reply.status(409).send({
+        error: 'Ticket cannot be reissued',
+        message: order.status === 'cancelled' || ticket.status === 'cancelled'
+          ? 'This ticket has been cancelled.'
+          : 'This ticket has already been used.'
+      });
+    }
+    
+    return reply.status(200).send({
+      ticketId: reissued.ticketId,
+      ticketTypeId: reissued.ticketTypeId,
+      attendeeName: reissued.attendeeName ?? null,
+      status: reissued.status
+    });
+  });
+  
+  /**
+   * POST /api/admin/promo-codes
+   * 
+   * Creates a promo code.
+   * 
+   * Request body:
+   * {
+   *   "code": string (letters, numbers, - and _; matched case-insensitively),
+   *   "discountType": "percentage" | "fixed",
+   *   "value": number (percent, or cents off in the event's currency),
+   *   "eventIds": string[] (optional, all events if missing),
+   *   "ticketTypeIds": string[] (optional, all ticket types if missing),
+   *   "maxUses": number (optional),
+   *   "maxUsesPerCustomer": number (optional, customers must give their email),
+   *   "validFrom": string (optional, ISO date),
+   *   "validUntil": string (optional, ISO date),
+   *   "active": boolean (default true)
+   * }
+   * 
+   * Response (201): the promo code
+   * Response (409): a code with this name already exists
+   */
+  app.post<{ Body: CreatePromoCodeBody }>('/api/admin/promo-codes', {
+    preHandler: requireRole('admin')
+  }, async (request, reply) => {
+    const validationResult = createPromoCodeSchema.safeParse(request.body ?? {});
+    
+    if (!validationResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validationResult.error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message
+        }))
+      });
+    }
+    
+    const promo = {
+      ...validationResult.data,
+      code: normalizePromoCode(validationResult.data.code),
+      createdAt: new Date()
+    };
+    
+    const created = await app.promoStore.createPromoCode(promo);
+    
+    if (!created) {
+      return reply.status(409).send({
+        error: 'Promo code already exists',
+        message: `A promo code named ${promo.code} already exists.`
+      });
+    }
+    
+    return reply.status(201).send(promo);
+  });
+  
+  /**
+   * GET /api/admin/promo-codes
+   * 
+   * Lists every promo code with how many times it has been redeemed.
+   * 
+   * Response:
+   * {
+   *   "promoCodes": [{ ...promo code, "redemptions": number }]
+   * }
+   */
+  app.get('/api/admin/promo-codes', {
+    preHandler: requireRole('admin', 'readonly')
+  }, async (_request, reply) => {
+    const promoCodes = await app.promoStore.listPromoCodes();
+    
+    const withRedemptions = await Promise.all(promoCodes.map(async promo => ({
+      ...promo,
+      redemptions: (await app.promoStore.countRedemptions(promo.code)).total
+    })));
+    
+    return reply.status(200).send({ promoCodes: withRedemptions });
+  });
+  
+  /**
+   * PATCH /api/admin/promo-codes/:code
+   * 
+   * Switches a promo code on or off. Codes are never deleted, so
+   * past orders keep pointing at a real code.
+   * 
+   * Request body:
+   * {
+   *   "active": boolean
+   * }
+   * 
+   * Response: the updated promo code
+   */
+  app.patch<{ Params: PromoCodeParams; Body: UpdatePromoCodeBody }>('/api/admin/promo-codes/:code', {
+    preHandler: requireRole('admin')
+  }, async (request, reply) => {
+    const validationResult = updatePromoCodeSchema.safeParse(request.body ?? {});
+    
+    if (!validationResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validationResult.error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message
+        }))
+      });
+    }
+    
+    const promo = await app.promoStore.setPromoCodeActive(request.params.code, validationResult.data.active);
+    
+    if (!promo) {
+      return reply.status(404).send({
+        error: 'Promo code not found'
+      });
+    }
+    
+    return reply.status(200).send(promo);
+  });
+  
+  /**
+   * GET /api/admin/webhook-events
+   * 
+   * Lists Stripe webhook events from the event log, newest first.
+   * Use ?status=failed or ?status=dead_letter to find events to replay.
+   * 
+   * Query parameters (all optional):
+   * - status: "received" | "processed" | "failed" | "dead_letter"
+   * - limit: 1-200 (default 50), offset: default 0
+   * 
+   * Response:
+   * {
+   *   "events": [{ "eventId", "type", "status", "attempts", "lastError", "receivedAt", "lastAttemptAt", "processedAt" }],
+   *   "total": number
+   * }
+   */
+  app.get<{ Querystring: ListWebhookEventsQuery }>('/api/admin/webhook-events', {
+    preHandler: requireRole('admin', 'readonly')
+  }, async (request, reply) => {
+    const validationResult = listWebhookEventsSchema.safeParse(request.query ?? {});
+    
+    if (!validationResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validationResult.error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message
+        }))
+      });
+    }
+    
+    const { status, limit, offset } = validationResult.data;
+    const page = await app.webhookEventStore.listEvents(status, { limit, offset });
+    
+    return reply.status(200).send({
+      // Payloads are left out to keep the list small (they are in the Stripe Dashboard too)
+      events: page.events.map(({ payload: _payload, ...event }) => event),
+      total: page.total
+    });
+  });
+  
+  /**
+   * POST /api/admin/webhook-events/:eventId/replay
+   * 
+   * Handles a failed or dead-lettered webhook event again, from the
+   * payload stored when it was received. Handlers are idempotent,
+   * so a replay never creates a second order.
+   * 
+   * Response (200): the event's log entry, now processed
+   * Response (409): the event was already processed
+   * Response (500): the replay failed too (see lastError)
+   */
+  app.post<{ Params: WebhookEventParams }>('/api/admin/webhook-events/:eventId/replay', {
+    preHandler: requireRole('admin')
+  }, async (request, reply) => {
+    const record = await app.webhookEventStore.getEvent(request.params.eventId);
+    
+    if (!record) {
+      return reply.status(404).send({
+        error: 'Webhook event not found'
+      });
+    }
+    
+    if (record.status === 'processed') {
+      return reply.status(409).send({
+        error: 'Webhook event already processed',
+        message: `Event ${record.eventId} was processed at ${record.processedAt?.toISOString()}.`
+      });
+    }
+    
+    request.log.info({ webhookEventId: record.eventId, webhookEventType: record.type, attempts: record.attempts }, 'Replaying webhook event');
+    
+    let gatewayEvent: GatewayEvent;
+    
+    try {
+      gatewayEvent = app.paymentGateway.parseEvent(record.payload);
+    } catch (error) {
+      return reply.status(500).send({
+        error: 'Replay failed',
+        message: error instanceof Error ? error.message : 'The stored payload could not be read.'
+      });
+    }
+    
+    const replayed = await processWebhookEvent(app, gatewayEvent, request.log.child({ webhookEventId: gatewayEvent.id, webhookEventType: gatewayEvent.type }));
+    const { payload: _payload, ...event } = replayed ?? record;
+    
+    if (replayed?.status !== 'processed') {
+      return reply.status(500).send({
+        error: 'Replay failed',
+        message: replayed?.lastError,
+        event
+      });
+    }
+    
+    return reply.status(200).send(event);
+  });
+}
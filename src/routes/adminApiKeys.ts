@@ -0,0 +1,145 @@
+/**
+ * Admin API Key Routes
+ * 
+ * Creating, listing and revoking the API keys staff use (see
+ * plugins/auth.ts). Admin keys only. The first key is created with
+ * the bootstrap ADMIN_API_KEY.
+ * 
+ * A key is returned once, when it is created; only its hash is kept.
+ */
+
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { requireRole } from '../plugins/auth.js';
+import { ApiKey, ROLES } from '../services/apiKeyStore.js';
+import { generateApiKey } from '../services/authService.js';
+
+// Validation schema for creating a key
+const createApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  role: z.enum(ROLES),
+  // Door keys only: the event it can check in for
+  eventId: z.string().min(1).optional()
+}).refine(
+  (data) => !data.eventId || data.role === 'door',
+  { message: 'Only door keys can be limited to one event', path: ['eventId'] }
+);
+
+// Type for validated request body
+type CreateApiKeyBody = z.infer<typeof createApiKeySchema>;
+
+// Type for route parameters
+interface ApiKeyParams {
+  keyId: string;
+}
+
+/**
+ * Formats a key for responses (never with its hash)
+ */
+function toApiKeyResponse(apiKey: ApiKey) {
+  return {
+    keyId: apiKey.keyId,
+    name: apiKey.name,
+    role: apiKey.role,
+    eventId: apiKey.eventId ?? null,
+    createdAt: apiKey.createdAt,
+    lastUsedAt: apiKey.lastUsedAt ?? null,
+    revokedAt: apiKey.revokedAt ?? null
+  };
+}
+
+export async function adminApiKeyRoutes(app: FastifyInstance): Promise<void> {
+  /**
+   * POST /api/admin/api-keys
+   * 
+   * Creates an API key.
+   * 
+   * Request body:
+   * {
+   *   "name": string (who or what uses it, e.g. "Door scanner 1"),
+   *   "role": "admin" | "door" | "readonly",
+   *   "eventId": string (optional, door keys only: check in for this event only)
+   * }
+   * 
+   * Response (201):
+   * {
+   *   "keyId", "name", "role", "eventId", "createdAt", "lastUsedAt", "revokedAt",
+   *   "key": string (send as Authorization: Bearer <key>; shown only this once)
+   * }
+   * 
+   * Response (400): invalid body, or an unknown event
+   */
+  app.post<{ Body: CreateApiKeyBody }>('/api/admin/api-keys', {
+    preHandler: requireRole('admin')
+  }, async (request, reply) => {
+    const validationResult = createApiKeySchema.safeParse(request.body ?? {});
+    
+    if (!validationResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validationResult.error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message
+        }))
+      });
+    }
+    
+    const { eventId } = validationResult.data;
+    
+    if (eventId && !(await app.eventCatalog.getEvent(eventId))) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: [{ field: 'eventId', message: `Unknown event: ${eventId}` }]
+      });
+    }
+    
+    const { apiKey, key } = generateApiKey(validationResult.data);
+    await app.apiKeyStore.createKey(apiKey);
+    
+    request.log.info({ createdKeyId: apiKey.keyId, createdRole: apiKey.role }, 'API key created');
+    
+    return reply.status(201).send({ ...toApiKeyResponse(apiKey), key });
+  });
+  
+  /**
+   * GET /api/admin/api-keys
+   * 
+   * Lists every API key, newest first, revoked ones included.
+   * 
+   * Response:
+   * {
+   *   "apiKeys": [{ "keyId", "name", "role", "eventId", "createdAt", "lastUsedAt", "revokedAt" }]
+   * }
+   */
+  app.get('/api/admin/api-keys', {
+    preHandler: requireRole('admin')
+  }, async (_request, reply) => {
+    const apiKeys = await app.apiKeyStore.listKeys();
+    
+    return reply.status(200).send({ apiKeys: apiKeys.map(toApiKeyResponse) });
+  });
+  
+  /**
+   * DELETE /api/admin/api-keys/:keyId
+   * 
+   * Revokes an API key. It stops working immediately.
+   * 
+   * Response: the revoked key
+   * Response (404): no such key
+   */
+  app.delete<{ Params: ApiKeyParams }>('/api/admin/api-keys/:keyId', {
+    preHandler: requireRole('admin')
+  }, async (request, reply) => {
+    const apiKey = await app.apiKeyStore.revokeKey(request.params.keyId, new Date());
+    
+    if (!apiKey) {
+      return reply.status(404).send({
+        error: 'API key not found'
+      });
+    }
+    
+    request.log.info({ revokedKeyId: apiKey.keyId }, 'API key revoked');
+    
+    return reply.status(200).send(toApiKeyResponse(apiKey));
+  });
+}
@@ -0,0 +1,321 @@
+/**
+ * Admin Comp Routes
+ * 
+ * Issuing and revoking complimentary tickets (see compService.ts).
+ * Admin keys only.
+ * 
+ * Comps go through the same inventory, order store and ticket email
+ * as paid orders: they count against capacity, the door scans them
+ * like any ticket, and each guest is emailed their tickets. They are
+ * listed with GET /api/admin/orders?source=comp.
+ */
+
+import { FastifyBaseLogger, FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { requireRole } from '../plugins/auth.js';
+import { EventInfo, findTicketType } from '../services/eventCatalog.js';
+import { InventoryHold, SoldOutError } from '../services/inventoryStore.js';
+import { LANGUAGES } from '../services/language.js';
+import { deliverTickets } from '../services/notificationService.js';
+import { createAccessToken } from '../services/orderAccessService.js';
+import { Order } from '../services/orderStore.js';
+import { staffActor } from '../services/orderAuditService.js';
+import { COMP_ORDER_PREFIX, buildCompOrder, parseGuestCsv } from '../services/compService.js';
+
+// Most guests issued in one request
+const MAX_GUESTS_PER_REQUEST = 500;
+
+// How long a comp's hold lasts before it becomes a sale (it is converted right away)
+const COMP_HOLD_MS = 5 * 60 * 1000;
+
+// Validation schema for one guest
+const guestSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  email: z.string().trim().toLowerCase().email('Invalid email address'),
+  quantity: z.coerce.number().int().min(1, 'Quantity must be at least 1').max(20).default(1)
+});
+
+// Validation schema for issuing comps
+const issueCompsSchema = z.object({
+  eventId: z.string().min(1),
+  ticketTypeId: z.string().min(1),
+  // The guests, or a CSV of them (name,email[,quantity] with a header row)
+  guests: z.array(guestSchema).min(1).max(MAX_GUESTS_PER_REQUEST).optional(),
+  csv: z.string().min(1).max(1_000_000).optional(),
+  language: z.enum(LANGUAGES).optional(),  // Language of the ticket emails (default: English)
+  sendEmail: z.boolean().default(true)
+}).refine(
+  (data) => Boolean(data.guests) !== Boolean(data.csv),
+  { message: 'Send either guests or csv', path: ['guests'] }
+);
+
+// Type for validated request body
+type IssueCompsBody = z.infer<typeof issueCompsSchema>;
+type Guest = z.infer<typeof guestSchema>;
+
+// Type for route parameters
+interface CompParams {
+  orderId: string;
+}
+
+/**
+ * Reads the guests from the CSV field
+ * 
+ * @returns The guests, or the validation errors (by CSV line) to send
+ */
+function guestsFromCsv(
+  csv: string
+): { ok: true; guests: Guest[] } | { ok: false; details: Array<{ field: string; message: string }> } {
+  const parsed = parseGuestCsv(csv);
+  
+  if (!parsed.ok) {
+    return { ok: false, details: [{ field: 'csv', message: parsed.message }] };
+  }
+  
+  if (parsed.guests.length === 0 || parsed.guests.length > MAX_GUESTS_PER_REQUEST) {
+    return {
+      ok: false,
+      details: [{ field: 'csv', message: `CSV must list between 1 and ${MAX_GUESTS_PER_REQUEST} guests` }]
+    };
+  }
+  
+  const guests: Guest[] = [];
+  const details: Array<{ field: string; message: string }> = [];
+  
+  for (const row of parsed.guests) {
+    const result = guestSchema.safeParse(row);
+    
+    if (result.success) {
+      guests.push(result.data);
+    } else {
+      details.push(...result.error.errors.map(e => ({
+        field: 'csv',
+        message: `Line ${row.line}: ${e.path.join('.')}: ${e.message}`
+      })));
+    }
+  }
+  
+  return details.length > 0 ? { ok: false, details } : { ok: true, guests };
+}
+
+/**
+ * Places a hold for every guest, all or nothing
+ * 
+ * @returns The holds, in guest order
+ * @throws SoldOutError if they do not all fit (holds already placed are released)
+ */
+async function holdForGuests(
+  app: FastifyInstance,
+  event: EventInfo,
+  ticketTypeId: string,
+  guests: Guest[]
+): Promise<InventoryHold[]> {
+  const holds: InventoryHold[] = [];
+  const expiresAt = new Date(Date.now() + COMP_HOLD_MS);
+  
+  try {
+    for (const guest of guests) {
+      holds.push(await app.inventoryStore.createHold(event, [{ ticketTypeId, quantity: guest.quantity }], expiresAt));
+    }
+  } catch (error) {
+    for (const hold of holds) {
+      await app.inventoryStore.releaseHold(hold.id);
+    }
+    throw error;
+  }
+  
+  return holds;
+}
+
+/**
+ * Emails the guests their tickets, one after the other, without holding
+ * up the response (sends are retried with backoff)
+ */
+function emailCompsInBackground(app: FastifyInstance, orders: Order[], event: EventInfo, log: FastifyBaseLogger): void {
+  (async () => {
+    for (const order of orders) {
+      await deliverTickets(app.mailTransport, order, event);
+    }
+  })().catch((error) => {
+    log.error({ err: error }, 'Failed to email comps');
+  });
+}
+
+export async function adminCompRoutes(app: FastifyInstance): Promise<void> {
+  /**
+   * POST /api/admin/comps
+   * 
+   * Issues complimentary tickets, one order per guest. Either every
+   * guest gets their tickets or (when they do not all fit) nobody does.
+   * 
+   * Request body:
+   * {
+   *   "eventId": string,
+   *   "ticketTypeId": string,
+   *   "guests": [{ "name": string, "email": string, "quantity": number (default 1) }],
+   *   or "csv": string (header row with name and email, optionally quantity),
+   *   "language": "en" | "es" | "pt-BR" (optional, for the ticket emails),
+   *   "sendEmail": boolean (default true)
+   * }
+   * 
+   * Response (201):
+   * {
+   *   "comps": [{
+   *     "orderId": string,
+   *     "name": string,
+   *     "email": string,
+   *     "tickets": [{ "ticketId": string, "ticketTypeId": string }],
+   *     "orderAccessToken": string (opens the guest's tickets, like a buyer's; shown only this once)
+   *   }]
+   * }
+   * 
+   * Response (400): invalid body or CSV (by line), or an unknown event or ticket type
+   * Response (409): not enough tickets left for every guest
+   */
+  app.post<{ Body: IssueCompsBody }>('/api/admin/comps', {
+    preHandler: requireRole('admin')
+  }, async (request, reply) => {
+    const validationResult = issueCompsSchema.safeParse(request.body ?? {});
+    
+    if (!validationResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validationResult.error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message
+        }))
+      });
+    }
+    
+    const { eventId, ticketTypeId, csv, language, sendEmail } = validationResult.data;
+    let guests = validationResult.data.guests ?? [];
+    
+    if (csv) {
+      const fromCsv = guestsFromCsv(csv);
+      
+      if (!fromCsv.ok) {
+        return reply.status(400).send({ error: 'Validation failed', details: fromCsv.details });
+      }
+      guests = fromCsv.guests;
+    }
+    
+    const event = await app.eventCatalog.getEvent(eventId);
+    
+    if (!event) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: [{ field: 'eventId', message: `Unknown event: ${eventId}` }]
+      });
+    }
+    
+    if (!findTicketType(event, ticketTypeId)) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: [{ field: 'ticketTypeId', message: `Unknown ticket type for this event: ${ticketTypeId}` }]
+      });
+    }
+    
+    let holds: InventoryHold[];
+    
+    try {
+      holds = await holdForGuests(app, event, ticketTypeId, guests);
+    } catch (error) {
+      if (error instanceof SoldOutError) {
+        request.log.info({ eventId, ticketTypeId: error.ticketTypeId, guests: guests.length }, error.message);
+        return reply.status(409).send({
+          error: 'Sold out',
+          message: `Not enough tickets left for ${guests.length} guest(s).`,
+          ticketTypeId: error.ticketTypeId
+        });
+      }
+      throw error;
+    }
+    
+    const actor = staffActor(request.principal!);
+    const comps = [];
+    const orders: Order[] = [];
+    
+    for (const [index, guest] of guests.entries()) {
+      const accessToken = createAccessToken();
+      const order = buildCompOrder({
+        eventId,
+        ticketTypeId,
+        name: guest.name,
+        email: guest.email,
+        quantity: guest.quantity,
+        language,
+        accessTokenHash: accessToken.hash
+      });
+      
+      await app.inventoryStore.convertHoldToSale({
+        holdId: holds[index].id,
+        orderId: order.orderId,
+        eventId,
+        items: order.items
+      });
+      await app.orderStore.saveOrder(order, actor);
+      
+      orders.push(order);
+      comps.push({
+        orderId: order.orderId,
+        name: guest.name,
+        email: guest.email,
+        tickets: order.tickets.map(ticket => ({ ticketId: ticket.ticketId, ticketTypeId: ticket.ticketTypeId })),
+        orderAccessToken: accessToken.token
+      });
+    }
+    
+    request.log.info({ eventId, ticketTypeId, orderIds: orders.map(order => order.orderId) }, 'Comps issued');
+    
+    if (sendEmail) {
+      emailCompsInBackground(app, orders, event, request.log);
+    }
+    
+    return reply.status(201).send({ comps });
+  });
+  
+  /**
+   * DELETE /api/admin/comps/:orderId
+   * 
+   * Revokes a comp: its tickets stop admitting anyone, and go back on
+   * sale unless one was already scanned (that guest is inside).
+   * Revoking twice is a no-op.
+   * 
+   * Response:
+   * {
+   *   "orderId": string,
+   *   "status": "cancelled",
+   *   "cancellationReason": string,
+   *   "cancelledAt": string,
+   *   "released": boolean (the tickets went back on sale)
+   * }
+   * 
+   * Response (404): no such comp (paid orders are refunded instead)
+   */
+  app.delete<{ Params: CompParams }>('/api/admin/comps/:orderId', {
+    preHandler: requireRole('admin')
+  }, async (request, reply) => {
+    const { orderId } = request.params;
+    const order = orderId.startsWith(COMP_ORDER_PREFIX) ? await app.orderStore.getOrder(orderId) : null;
+    
+    if (!order || order.source !== 'comp') {
+      return reply.status(404).send({
+        error: 'Comp not found'
+      });
+    }
+    
+    const revoked = await app.orderStore.cancelOrder(orderId, 'revoked', staffActor(request.principal!)) ?? order;
+    const admitted = revoked.tickets.some(ticket => ticket.status === 'used');
+    const released = !admitted && await app.inventoryStore.releaseSale(orderId);
+    
+    request.log.info({ orderId, reason: revoked.cancellationReason, released }, 'Comp revoked');
+    
+    return reply.status(200).send({
+      orderId,
+      status: revoked.status,
+      cancellationReason: revoked.cancellationReason ?? null,
+      cancelledAt: revoked.cancelledAt ?? null,
+      released
+    });
+  });
+}
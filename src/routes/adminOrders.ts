@@ -0,0 +1,298 @@
+/**
+ * Admin Order Routes
+ * 
+ * Back-office endpoints for looking up orders and reporting on sales.
+ * Every route here takes an admin or readonly API key (see plugins/auth.ts).
+ * 
+ * QR tokens are never included: anyone holding one can get in.
+ * (The order history only has a short hash of each.)
+ */
+
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { requireRole } from '../plugins/auth.js';
+import { Order, OrderFilter } from '../services/orderStore.js';
+import { PHONE_NUMBER_PATTERN, normalizePhoneNumber } from '../services/buyerService.js';
+import { isSignedTicketCode, verifyTicketCode } from '../services/qrSigningService.js';
+import { ordersToCsv, summarizeSales } from '../services/salesReportService.js';
+
+// Type for route parameters
+interface OrderParams {
+  orderId: string;
+}
+
+// Filters shared by the order list, the sales summary and the CSV export
+const orderFilterSchema = z.object({
+  status: z.enum(['valid', 'used', 'cancelled']).optional(),
+  source: z.enum(['paid', 'comp']).optional(),
+  eventId: z.string().min(1).optional(),
+  ticketTypeId: z.string().min(1).optional(),
+  email: z.string().trim().email('Invalid email address').optional(),
+  name: z.string().trim().min(1).max(100).optional(),  // Part of the buyer's name
+  phone: z.string()
+    .transform(normalizePhoneNumber)
+    .refine(phone => PHONE_NUMBER_PATTERN.test(phone), 'Invalid phone number')
+    .optional(),
+  from: z.coerce.date().optional(),  // Created at or after (inclusive)
+  to: z.coerce.date().optional()     // Created before (exclusive)
+}).refine(
+  (data) => !data.from || !data.to || data.from < data.to,
+  { message: 'to must be after from', path: ['to'] }
+);
+
+// Validation schema for listing orders
+const listOrdersSchema = z.object({
+  // Find the order holding this QR token (bare, or the signed code from the QR image)
+  token: z.string().min(1).max(2048).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+}).and(orderFilterSchema);
+
+// Types for validated query strings
+type OrderFilterQuery = z.infer<typeof orderFilterSchema>;
+type ListOrdersQuery = z.infer<typeof listOrdersSchema>;
+
+/**
+ * Converts validated query filters to a store filter
+ */
+function toOrderFilter(query: OrderFilterQuery): OrderFilter {
+  return {
+    status: query.status,
+    source: query.source,
+    eventId: query.eventId,
+    ticketTypeId: query.ticketTypeId,
+    email: query.email,
+    buyerName: query.name,
+    buyerPhone: query.phone,
+    createdFrom: query.from,
+    createdBefore: query.to
+  };
+}
+
+/**
+ * Formats an order for admins, without its QR tokens or access token hashes
+ */
+function toAdminOrder(order: Order) {
+  const { qrToken: _qrToken, accessTokenHash: _accessTokenHash, tickets, transfers, ...rest } = order;
+  
+  return {
+    ...rest,
+    tickets: tickets.map(({ qrToken: _ticketToken, holderTokenHash: _holderTokenHash, ...ticket }) => ticket),
+    transfers: transfers.map(({ acceptTokenHash: _acceptTokenHash, ...transfer }) => transfer)
+  };
+}
+
+export async function adminOrderRoutes(app: FastifyInstance): Promise<void> {
+  /**
+   * GET /api/admin/orders
+   * 
+   * Lists orders, newest first.
+   * 
+   * Query parameters (all optional):
+   * - status: "valid" | "used" | "cancelled"
+   * - source: "paid" | "comp"
+   * - eventId, ticketTypeId: orders for this event / with this ticket type
+   * - email: buyer email (case-insensitive)
+   * - name: part of the buyer's name (case-insensitive)
+   * - phone: buyer phone number (spaces, dashes and parentheses are ignored)
+   * - from, to: ISO dates, created at or after `from` and before `to`
+   * - token: QR token or signed QR code (other filters are ignored)
+   * - limit: 1-200 (default 50), offset: default 0
+   * 
+   * Response:
+   * {
+   *   "orders": [order without QR tokens],
+   *   "total": number (orders matching the filters),
+   *   "limit": number,
+   *   "offset": number
+   * }
+   */
+  app.get<{ Querystring: ListOrdersQuery }>('/api/admin/orders', {
+    preHandler: requireRole('admin', 'readonly')
+  }, async (request, reply) => {
+    const validationResult = listOrdersSchema.safeParse(request.query ?? {});
+    
+    if (!validationResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validationResult.error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message
+        }))
+      });
+    }
+    
+    const { token, limit, offset } = validationResult.data;
+    
+    if (token) {
+      let qrToken = token;
+      
+      // Expired codes are fine here: staff may be looking into an old ticket
+      if (isSignedTicketCode(token)) {
+        const verification = verifyTicketCode(token, new Date(0));
+        
+        if (!verification.valid) {
+          return reply.status(400).send({
+            error: 'Validation failed',
+            details: [{ field: 'token', message: 'Signed code could not be verified' }]
+          });
+        }
+        
+        qrToken = verification.payload.tok;
+      }
+      
+      const order = await app.orderStore.getOrderByQrToken(qrToken);
+      
+      return reply.status(200).send({
+        orders: order ? [toAdminOrder(order)] : [],
+        total: order ? 1 : 0,
+        limit,
+        offset: 0
+      });
+    }
+    
+    const page = await app.orderStore.listOrders(toOrderFilter(validationResult.data), { limit, offset });
+    
+    return reply.status(200).send({
+      orders: page.orders.map(toAdminOrder),
+      total: page.total,
+      limit,
+      offset
+    });
+  });
+  
+  /**
+   * GET /api/admin/orders/:orderId
+   * 
+   * Gets one order, with its tickets, refunds and ticket transfer history.
+   * 
+   * Response: the order without QR tokens
+   */
+  app.get<{ Params: OrderParams }>('/api/admin/orders/:orderId', {
+    preHandler: requireRole('admin', 'readonly')
+  }, async (request, reply) => {
+    const order = await app.orderStore.getOrder(request.params.orderId);
+    
+    if (!order) {
+      return reply.status(404).send({
+        error: 'Order not found'
+      });
+    }
+    
+    return reply.status(200).send(toAdminOrder(order));
+  });
+  
+  /**
+   * GET /api/orders/:orderId/history
+   * 
+   * The order's audit log: every change since it was created, oldest
+   * first, with who made it. Orders from before the log existed only
+   * have the changes made since.
+   * 
+   * Response:
+   * {
+   *   "orderId": string,
+   *   "history": [{
+   *     "action": "created" | "checked_in" | "ticket_reissued" | "transfer_started" | "transfer_accepted"
+   *       | "transfer_cancelled" | "refunded" | "cancelled" | "reinstated" | "access_token_issued",
+   *     "actor": { "type": "webhook" | "admin" | "door" | "customer", "id": string, "name": string | undefined },
+   *     "before": { [path]: value } | null (only what changed; null on creation),
+   *     "after": { [path]: value },
+   *     "createdAt": ISO date
+   *   }]
+   * }
+   */
+  app.get<{ Params: OrderParams }>('/api/orders/:orderId/history', {
+    preHandler: requireRole('admin', 'readonly')
+  }, async (request, reply) => {
+    const { orderId } = request.params;
+    const order = await app.orderStore.getOrder(orderId);
+    
+    if (!order) {
+      return reply.status(404).send({
+        error: 'Order not found'
+      });
+    }
+    
+    const history = await app.orderStore.getOrderHistory(orderId);
+    
+    return reply.status(200).send({
+      orderId,
+      history: history.map(entry => ({
+        action: entry.action,
+        actor: entry.actor,
+        before: entry.before,
+        after: entry.after,
+        createdAt: entry.createdAt
+      }))
+    });
+  });
+  
+  /**
+   * GET /api/admin/sales/summary
+   * 
+   * Revenue, fees and ticket counts for the orders matching the
+   * filters (same as GET /api/admin/orders, without paging).
+   * 
+   * Response (amounts in cents):
+   * {
+   *   "orders": number (paid orders),
+   *   "comps": number (comp orders, left out of revenue and sales),
+   *   "ordersWithoutTotals": number (older orders left out of revenue),
+   *   "revenue": [{ "currency", "gross", "discounts", "fees", "refunded", "net" }],
+   *   "ticketTypes": [{ "ticketTypeId", "sold", "refunded", "comped" }],
+   *   "days": [{ "date": "YYYY-MM-DD", "currency", "orders", "tickets", "gross" }]
+   * }
+   */
+  app.get<{ Querystring: OrderFilterQuery }>('/api/admin/sales/summary', {
+    preHandler: requireRole('admin', 'readonly')
+  }, async (request, reply) => {
+    const validationResult = orderFilterSchema.safeParse(request.query ?? {});
+    
+    if (!validationResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validationResult.error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message
+        }))
+      });
+    }
+    
+    const { orders } = await app.orderStore.listOrders(toOrderFilter(validationResult.data));
+    
+    return reply.status(200).send(summarizeSales(orders));
+  });
+  
+  /**
+   * GET /api/admin/sales/export.csv
+   * 
+   * Downloads the orders matching the filters (same as
+   * GET /api/admin/orders, without paging) as CSV, one row per order.
+   */
+  app.get<{ Querystring: OrderFilterQuery }>('/api/admin/sales/export.csv', {
+    preHandler: requireRole('admin', 'readonly')
+  }, async (request, reply) => {
+    const validationResult = orderFilterSchema.safeParse(request.query ?? {});
+    
+    if (!validationResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validationResult.error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message
+        }))
+      });
+    }
+    
+    const { orders } = await app.orderStore.listOrders(toOrderFilter(validationResult.data));
+    const date = new Date().toISOString().slice(0, 10);
+    
+    return reply
+      .status(200)
+      .header('Content-Type', 'text/csv; charset=utf-8')
+      .header('Content-Disposition', `attachment; filename="sales-${date}.csv"`)
+      .header('Cache-Control', 'no-store')
+      .send(ordersToCsv(orders));
+  });
+}
@@ -0,0 +1,260 @@
+/**
+ * Check-in Routes
+ * 
+ * Used by door staff to redeem tickets:
+ * - Looking up a ticket by its scanned QR token
+ * - Marking the ticket as used (exactly once)
+ * - Returning who and what to admit
+ * - Publishing the QR verification keys for offline scanning
+ * 
+ * Check-in takes a door or admin API key (see plugins/auth.ts). A door
+ * key limited to one event only admits tickets for that event.
+ * 
+ * Every scan is counted in checkins_total, by result ("admitted" or
+ * the rejection reason).
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { requireRole } from '../plugins/auth.js';
+import { findTicketType } from '../services/eventCatalog.js';
+import { apiText, localizedMessage, requestLanguage, validationErrorResponse } from '../services/i18n.js';
+import { staffActor } from '../services/orderAuditService.js';
+import { getPublicKeys, isSignedTicketCode, verifyTicketCode } from '../services/qrSigningService.js';
+import { countTicketItems } from '../services/ticketService.js';
+
+// Validation schema for check-in request
+const checkinSchema = z.object({
+  // Either the signed code from the QR image or a bare QR token
+  qrToken: z.string().trim().min(1, localizedMessage('required')),
+  // Event being scanned at this door (optional - rejects tickets for other events)
+  eventId: z.string().min(1).optional()
+});
+
+// Type for validated request body
+type CheckinBody = z.infer<typeof checkinSchema>;
+
+export async function checkinRoutes(app: FastifyInstance): Promise<void> {
+  /**
+   * POST /api/checkin
+   * 
+   * Redeems a scanned QR code.
+   * Accepts the signed code from the QR image or a bare QR token.
+   * 
+   * A ticket's code admits one person. Codes issued before per-attendee
+   * tickets carry the order-wide token and admit every unused ticket
+   * the buyer still holds at once. Tickets transferred to someone else
+   * are only admitted with their own code.
+   * 
+   * Request body:
+   * {
+   *   "qrToken": string,
+   *   "eventId": string (optional)
+   * }
+   * 
+   * Response (admitted):
+   * {
+   *   "status": "admitted",
+   *   "orderId": string,
+   *   "source": "paid" | "comp",
+   *   "paymentIntentId": string (paid orders only),
+   *   "eventId": string,
+   *   "tickets": [{ "ticketId": string, "ticketTypeId": string, "attendeeName": string | null }],
+   *   "items": [{ "ticketTypeId": string, "name": string, "quantity": number }],
+   *   "usedAt": string
+   * }
+   * 
+   * Response (rejected, 404 or 409):
+   * {
+   *   "status": "rejected",
+   *   "reason": "unknown_token" | "invalid_signature" | "expired" | "wrong_event" | "already_used" | "cancelled"
+   *     | "transferred",
+   *   "message": string (in the Accept-Language's language, see i18n.ts)
+   * }
+   * 
+   * Response (401): missing or invalid API key
+   * Response (403): not a door or admin key, or a door key for another event
+   * 
+   * A door key limited to one event checks in for that event when
+   * eventId is left out.
+   */
+  app.post<{ Body: CheckinBody }>('/api/checkin', {
+    preHandler: requireRole('admin', 'door')
+  }, async (
+    request: FastifyRequest<{ Body: CheckinBody }>,
+    reply: FastifyReply
+  ) => {
+    // Door devices get their messages in their Accept-Language
+    const language = requestLanguage(request);
+    const text = apiText(language);
+    
+    // Validate request body
+    const validationResult = checkinSchema.safeParse(request.body);
+    
+    if (!validationResult.success) {
+      app.metrics.checkins.inc({ result: 'invalid_request' });
+      return reply.status(400).send(validationErrorResponse(validationResult.error, language));
+    }
+    
+    // A door key for one event scans at that event's door only
+    const scope = request.principal?.eventId;
+    
+    if (scope && validationResult.data.eventId && validationResult.data.eventId !== scope) {
+      request.log.warn({ eventId: validationResult.data.eventId, scope }, 'Check-in refused: key is for another event');
+      return reply.status(403).send({
+        error: 'Forbidden',
+        message: text.checkinKeyForOtherEvent(scope)
+      });
+    }
+    
+    const eventId = validationResult.data.eventId ?? scope;
+    let qrToken = validationResult.data.qrToken;
+    
+    // Signed codes must verify before we even look at the order
+    if (isSignedTicketCode(qrToken)) {
+      const verification = verifyTicketCode(qrToken);
+      
+      if (!verification.valid) {
+        request.log.info({ reason: verification.reason }, 'Check-in rejected: signed code');
+        
+        if (verification.reason === 'expired') {
+          app.metrics.checkins.inc({ result: 'expired' });
+          return reply.status(409).send({
+            status: 'rejected',
+            reason: 'expired',
+            message: text.checkinRejected.expired
+          });
+        }
+        
+        app.metrics.checkins.inc({ result: 'invalid_signature' });
+        return reply.status(400).send({
+          status: 'rejected',
+          reason: 'invalid_signature',
+          message: text.checkinRejected.invalid_signature
+        });
+      }
+      
+      qrToken = verification.payload.tok;
+    }
+    
+    const order = await app.orderStore.getOrderByQrToken(qrToken);
+    
+    if (!order) {
+      request.log.info({ tokenPrefix: qrToken.substring(0, 8) }, 'Check-in rejected: unknown token');
+      app.metrics.checkins.inc({ result: 'unknown_token' });
+      return reply.status(404).send({
+        status: 'rejected',
+        reason: 'unknown_token',
+        message: text.checkinRejected.unknown_token
+      });
+    }
+    
+    // Don't burn a ticket that was scanned at the wrong party
+    if (eventId && order.eventId !== eventId) {
+      request.log.info({ ticketEventId: order.eventId, eventId }, 'Check-in rejected: ticket for another event');
+      app.metrics.checkins.inc({ result: 'wrong_event' });
+      return reply.status(409).send({
+        status: 'rejected',
+        reason: 'wrong_event',
+        message: text.checkinRejected.wrong_event
+      });
+    }
+    
+    // A ticket token admits that ticket; the order-wide token admits everything
+    // left that the buyer still holds (not tickets transferred to someone else)
+    const scannedTicket = order.tickets.find(ticket => ticket.qrToken === qrToken);
+    const ticketIds = scannedTicket
+      ? [scannedTicket.ticketId]
+      : order.tickets.filter(ticket => ticket.status === 'valid' && !ticket.holderEmail).map(ticket => ticket.ticketId);
+    
+    if (ticketIds.length === 0 && order.status !== 'cancelled'
+      && order.tickets.some(ticket => ticket.status === 'valid' && ticket.holderEmail)) {
+      request.log.info({ orderId: order.orderId }, 'Check-in rejected: tickets left were transferred');
+      app.metrics.checkins.inc({ result: 'transferred' });
+      return reply.status(409).send({
+        status: 'rejected',
+        reason: 'transferred',
+        message: text.checkinRejected.transferred
+      });
+    }
+    
+    // Atomically move valid -> used. If another scanner got there first,
+    // this returns null and we report whatever the ticket is now.
+    const redeemed = await app.orderStore.redeemTickets(order.orderId, ticketIds, staffActor(request.principal!));
+    
+    if (!redeemed) {
+      const current = await app.orderStore.getOrder(order.orderId) || order;
+      const currentTicket = scannedTicket && current.tickets.find(ticket => ticket.ticketId === scannedTicket.ticketId);
+      const isCancelled = current.status === 'cancelled' || currentTicket?.status === 'cancelled';
+      
+      request.log.info({
+        orderId: current.orderId,
+        ticketId: currentTicket?.ticketId ?? null
+      }, isCancelled ? 'Check-in rejected: cancelled ticket' : 'Check-in rejected: ticket already used');
+      
+      if (isCancelled) {
+        app.metrics.checkins.inc({ result: 'cancelled' });
+        return reply.status(409).send({
+          status: 'rejected',
+          reason: 'cancelled',
+          message: text.checkinRejected.cancelled
+        });
+      }
+      
+      app.metrics.checkins.inc({ result: 'already_used' });
+      return reply.status(409).send({
+        status: 'rejected',
+        reason: 'already_used',
+        message: text.checkinRejected.already_used,
+        usedAt: (currentTicket ? currentTicket.usedAt : current.usedAt)?.toISOString()
+      });
+    }
+    
+    const admitted = redeemed.tickets.filter(ticket => ticketIds.includes(ticket.ticketId));
+    
+    // Add display names so door staff see "2 Female" rather than IDs
+    const event = await app.eventCatalog.getEvent(redeemed.eventId);
+    const items = countTicketItems(admitted).map(item => ({
+      ticketTypeId: item.ticketTypeId,
+      name: (event && findTicketType(event, item.ticketTypeId)?.name) || item.ticketTypeId,
+      quantity: item.quantity
+    }));
+    
+    request.log.info({ orderId: redeemed.orderId, ticketIds, items }, 'Check-in admitted');
+    app.metrics.checkins.inc({ result: 'admitted' });
+    
+    return reply.status(200).send({
+      status: 'admitted',
+      orderId: redeemed.orderId,
+      source: redeemed.source,
+      paymentIntentId: redeemed.paymentIntentId,
+      eventId: redeemed.eventId,
+      tickets: admitted.map(ticket => ({
+        ticketId: ticket.ticketId,
+        ticketTypeId: ticket.ticketTypeId,
+        attendeeName: ticket.attendeeName ?? null
+      })),
+      items: items,
+      usedAt: admitted[0].usedAt?.toISOString()
+    });
+  });
+  
+  /**
+   * GET /api/checkin/keys
+   * 
+   * Public keys for verifying signed QR codes offline (JWK Set).
+   * Door devices should refresh these while online and keep
+   * the last copy for when venue Wi-Fi is down.
+   * 
+   * Response:
+   * {
+   *   "keys": [{ "kty": "OKP", "crv": "Ed25519", "x": string, "kid": string, "alg": "EdDSA", "use": "sig" }]
+   * }
+   */
+  app.get('/api/checkin/keys', async (_request: FastifyRequest, reply: FastifyReply) => {
+    return reply
+      .header('Cache-Control', 'public, max-age=300')
+      .status(200)
+      .send({ keys: getPublicKeys() });
+  });
+}
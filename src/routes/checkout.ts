@@ -2,124 +2,803 @@
  * Checkout Routes
  * 
  * Handles the checkout process:
- * - Creating Stripe PaymentIntents
- * - Validating ticket quantities
+ * - Quoting prices (with promo codes) before paying
+ * - Creating payments (Stripe PaymentIntents) through the payment gateway,
+ *   or Checkout Sessions for paying on Stripe's hosted page instead
+ * - Validating the event, ticket quantities and buyer details
+ * - Holding inventory while the customer pays
+ * - Replaying create-intent (and session) for retries with the same Idempotency-Key
  * - Calculating pricing
+ * 
+ * Create-intent response times go in create_intent_duration_seconds.
  */
 
-import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { FastifyBaseLogger, FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
-import { stripe } from '../plugins/stripe.js';
-import { calculatePricing, dollarsToCents } from '../services/pricingService.js';
+import { EventInfo, findTicketType } from '../services/eventCatalog.js';
+import { SoldOutError } from '../services/inventoryStore.js';
+import { OrderItem } from '../services/orderStore.js';
+import { calculatePricing, pricingToMetadata, PricingResult } from '../services/pricingService.js';
+import { checkPromoCode } from '../services/promoService.js';
+import { CheckoutSessionDetails, PaymentGatewayError, PaymentRequest } from '../services/paymentGateway.js';
+import { checkoutLineItems } from '../services/checkoutSessionService.js';
+import { LANGUAGES, Language } from '../services/language.js';
+import { apiText, localizedMessage, requestLanguage, validationErrorResponse } from '../services/i18n.js';
+import { fingerprintRequest } from '../services/idempotencyStore.js';
+import { accessTokenForIdempotencyKey, createAccessToken, hashAccessToken } from '../services/orderAccessService.js';
+import {
+  METADATA_VALUE_LIMIT,
+  PHONE_NUMBER_PATTERN,
+  attendeeNamesToMetadata,
+  collectAttendeeNames,
+  normalizePhoneNumber
+} from '../services/buyerService.js';
 
-// Validation schema for create-intent request
+// Validation schema for create-intent (and quote) request
+// (messages are translated when reported, see services/i18n.ts)
 const createIntentSchema = z.object({
-  femaleQty: z.number().int().min(0, 'Female quantity cannot be negative'),
-  maleQty: z.number().int().min(0, 'Male quantity cannot be negative'),
-  language: z.enum(['en', 'es', 'pt-BR']).default('en')
+  eventId: z.string().min(1),
+  items: z.array(z.object({
+    ticketTypeId: z.string().min(1),
+    quantity: z.number().int().min(0),
+    // Who each ticket is for, in order (optional, and can cover just some of the tickets)
+    attendeeNames: z.array(z.string().trim().min(1).max(60)).optional()
+  }).refine(
+    (item) => !item.attendeeNames || item.attendeeNames.length <= item.quantity,
+    { message: localizedMessage('moreAttendeeNamesThanTickets'), path: ['attendeeNames'] }
+  )).min(1, localizedMessage('noTicketsSelected')),
+  // Language of the order (negotiated from Accept-Language if missing)
+  language: z.enum(LANGUAGES).optional(),
+  promoCode: z.string().trim().min(1).max(64).optional(),
+  // Where the tickets are emailed, and who is buying (required to create a PaymentIntent)
+  email: z.string().trim().email().optional(),
+  name: z.string().trim().min(1).max(100).optional(),
+  phone: z.string()
+    .transform(normalizePhoneNumber)
+    .refine(phone => PHONE_NUMBER_PATTERN.test(phone), localizedMessage('invalidPhone'))
+    .optional()
 }).refine(
   // Custom validation: at least one ticket must be selected
-  (data) => data.femaleQty > 0 || data.maleQty > 0,
-  { message: 'At least one ticket must be selected' }
+  (data) => data.items.some(item => item.quantity > 0),
+  { message: localizedMessage('noTicketsSelected') }
+).refine(
+  // Custom validation: each ticket type only once
+  (data) => new Set(data.items.map(item => item.ticketTypeId)).size === data.items.length,
+  { message: localizedMessage('duplicateTicketType'), path: ['items'] }
+).refine(
+  // The names travel in the payment metadata, which has a size limit
+  (data) => (attendeeNamesToMetadata(collectAttendeeNames(data.items)).attendeeNames ?? '').length <= METADATA_VALUE_LIMIT,
+  { message: localizedMessage('attendeeNamesTooLong'), path: ['items'] }
 );
 
 // Type for validated request body
 type CreateIntentBody = z.infer<typeof createIntentSchema>;
 
+// Validation schema for where the hosted checkout page sends the customer back to
+// (the rest of the body is a create-intent request)
+const redirectUrlsSchema = z.object({
+  // Stripe fills in {CHECKOUT_SESSION_ID}, for looking the session up afterwards
+  successUrl: z.string().url().max(2048).refine(isAllowedRedirect, localizedMessage('redirectNotAllowed')),
+  cancelUrl: z.string().url().max(2048).refine(isAllowedRedirect, localizedMessage('redirectNotAllowed'))
+});
+
+// Type for checkout session route parameters
+interface SessionParams {
+  sessionId: string;
+}
+
+// How long tickets stay held while the customer pays
+const HOLD_MINUTES = parseInt(process.env.INVENTORY_HOLD_MINUTES || '15', 10);
+
+// How long a hosted checkout page (and its hold) lasts. Stripe takes 30 minutes to 24 hours.
+const DEFAULT_CHECKOUT_SESSION_MINUTES = 30;
+const configuredSessionMinutes = parseInt(process.env.CHECKOUT_SESSION_MINUTES || '', 10);
+const CHECKOUT_SESSION_MINUTES = Math.min(
+  Math.max(Number.isFinite(configuredSessionMinutes) ? configuredSessionMinutes : DEFAULT_CHECKOUT_SESSION_MINUTES, 30),
+  24 * 60 - 1
+);
+
+// Stripe counts a session's lifetime from when it creates it, a moment after us
+const CHECKOUT_SESSION_MARGIN_MS = 60 * 1000;
+
+// Origins the hosted checkout page may send the customer back to (production only)
+const CHECKOUT_REDIRECT_ORIGINS = (process.env.CHECKOUT_REDIRECT_ORIGINS || process.env.FRONTEND_ORIGIN || 'http://localhost:5500')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(origin => origin !== '');
+
+// How long a repeated Idempotency-Key gets the original response (Stripe keeps its keys 24 hours too)
+const IDEMPOTENCY_KEY_TTL_HOURS = parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24', 10);
+
+// A key still in progress after this is treated as abandoned (the request crashed)
+const IDEMPOTENCY_LOCK_MS = 60 * 1000;
+
+// Printable ASCII, like Stripe's own idempotency keys
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+// Secrets left out of stored responses (claimIdempotencyKey puts them back on replay)
+const UNSTORED_RESPONSE_FIELDS = ['orderAccessToken', 'clientSecret'];
+
+/**
+ * Where the customer pays:
+ * - elements: on our frontend, confirming a PaymentIntent with Stripe Elements
+ * - hosted: on Stripe's checkout page (a Checkout Session)
+ */
+type PaymentPage =
+  | { type: 'elements' }
+  | { type: 'hosted'; successUrl: string; cancelUrl: string };
+
+/**
+ * A validated, priced checkout
+ */
+interface Quote {
+  event: EventInfo;
+  items: OrderItem[];
+  pricing: PricingResult;
+  body: CreateIntentBody;
+}
+
+/**
+ * Whether the hosted checkout page may send the customer to a URL:
+ * any web page in development (like CORS), and only pages of
+ * CHECKOUT_REDIRECT_ORIGINS in production
+ */
+function isAllowedRedirect(url: string): boolean {
+  let parsed: URL;
+  
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  
+  if (process.env.NODE_ENV !== 'production') {
+    return parsed.protocol === 'https:' || parsed.protocol === 'http:';
+  }
+  
+  return CHECKOUT_REDIRECT_ORIGINS.includes(parsed.origin);
+}
+
+/**
+ * Validates a checkout request and prices it.
+ * Shared by quote, create-intent and session so they always agree.
+ * 
+ * @param requireBuyer - Reject requests without the buyer's email and name
+ *                       (create-intent needs them to deliver the tickets)
+ * @param language - Language of the error messages
+ * @returns The quote, or the error response to send
+ */
+async function prepareQuote(
+  app: FastifyInstance,
+  rawBody: unknown,
+  requireBuyer: boolean,
+  language: Language
+): Promise<{ ok: true; quote: Quote } | { ok: false; statusCode: number; response: object }> {
+  const text = apiText(language);
+  
+  // Validate request body
+  const validationResult = createIntentSchema.safeParse(rawBody);
+  
+  if (!validationResult.success) {
+    return {
+      ok: false,
+      statusCode: 400,
+      response: validationErrorResponse(validationResult.error, language)
+    };
+  }
+  
+  const body = validationResult.data;
+  
+  const missing = [
+    ...(body.email ? [] : [{ field: 'email', message: text.validation.required }]),
+    ...(body.name ? [] : [{ field: 'name', message: text.validation.required }])
+  ];
+  
+  if (requireBuyer && missing.length > 0) {
+    return {
+      ok: false,
+      statusCode: 400,
+      response: {
+        error: 'Validation failed',
+        details: missing
+      }
+    };
+  }
+  
+  // Attendee names are kept apart from the items (see startCheckout)
+  const items: OrderItem[] = body.items
+    .filter(item => item.quantity > 0)
+    .map(({ ticketTypeId, quantity }) => ({ ticketTypeId, quantity }));
+  
+  // Look up the event and make sure every ticket type belongs to it
+  const event = await app.eventCatalog.getEvent(body.eventId);
+  
+  if (!event || !event.onSale) {
+    return {
+      ok: false,
+      statusCode: 404,
+      response: {
+        error: 'Event not found',
+        message: text.eventNotOnSale
+      }
+    };
+  }
+  
+  const unknownItem = items.find(item => !findTicketType(event, item.ticketTypeId));
+  
+  if (unknownItem) {
+    return {
+      ok: false,
+      statusCode: 400,
+      response: {
+        error: 'Validation failed',
+        details: [{
+          field: 'items',
+          message: text.validation.unknownTicketType(unknownItem.ticketTypeId)
+        }]
+      }
+    };
+  }
+  
+  // Check the promo code, if any
+  let promo = null;
+  
+  if (body.promoCode) {
+    const promoCheck = await checkPromoCode(app.promoStore, body.promoCode, {
+      eventId: event.id,
+      items,
+      customerEmail: body.email
+    });
+    
+    if (!promoCheck.valid) {
+      return {
+        ok: false,
+        statusCode: 400,
+        response: {
+          error: 'Invalid promo code',
+          reason: promoCheck.reason,
+          message: text.promoRejected[promoCheck.reason]
+        }
+      };
+    }
+    
+    promo = promoCheck.promo;
+  }
+  
+  return {
+    ok: true,
+    quote: {
+      event,
+      items,
+      pricing: calculatePricing(event, items, promo),
+      body
+    }
+  };
+}
+
+/**
+ * Holds the tickets and creates the payment for a checkout request.
+ * Both payment pages carry the same metadata, so the order made when
+ * the payment succeeds is the same either way.
+ * 
+ * @param page - Where the customer pays
+ * @param accessToken - The order's access token (only the buyer gets it; the payment, and later the order, keeps its hash)
+ * @param idempotencyKey - Passed on to the payment gateway, so a retry cannot create a second payment
+ * @param language - Language of the order (its emails and tickets) and of the error messages
+ * @param log - The request's logger
+ * @returns The response to send
+ */
+async function startCheckout(
+  app: FastifyInstance,
+  rawBody: unknown,
+  page: PaymentPage,
+  accessToken: { token: string; hash: string },
+  idempotencyKey: string | undefined,
+  language: Language,
+  log: FastifyBaseLogger
+): Promise<{ statusCode: number; response: object }> {
+  const text = apiText(language);
+  const paymentKind = page.type === 'hosted' ? 'Checkout Session' : 'PaymentIntent';
+  
+  try {
+    const result = await prepareQuote(app, rawBody, true, language);
+    
+    if (!result.ok) {
+      return result;
+    }
+    
+    const { event, items, pricing, body } = result.quote;
+    
+    // Hold the tickets so nobody else can buy them while this customer pays
+    // (on the hosted page, for as long as the page takes payment)
+    const hold = await app.inventoryStore.createHold(
+      event,
+      items,
+      page.type === 'hosted'
+        ? new Date(Date.now() + CHECKOUT_SESSION_MINUTES * 60 * 1000 + CHECKOUT_SESSION_MARGIN_MS)
+        : new Date(Date.now() + HOLD_MINUTES * 60 * 1000)
+    );
+    
+    log.info({
+      eventId: event.id,
+      items,
+      total: pricing.total,
+      currency: pricing.currency,
+      promoCode: pricing.discount?.code
+    }, `Creating ${paymentKind}`);
+    
+    // The promo code only goes in metadata when one was used
+    const promoMetadata: Record<string, string> = pricing.discount
+      ? { promoCode: pricing.discount.code }
+      : {};
+    
+    const payment: PaymentRequest = {
+      amount: pricing.total,
+      currency: pricing.currency,
+      metadata: {
+        eventId: event.id,
+        items: JSON.stringify(items),
+        ...pricingToMetadata(pricing),
+        language,
+        holdId: hold.id,
+        customerEmail: body.email!,
+        customerName: body.name!,
+        ...(body.phone ? { customerPhone: body.phone } : {}),
+        ...attendeeNamesToMetadata(collectAttendeeNames(body.items)),
+        accessTokenHash: accessToken.hash,
+        ...promoMetadata
+      },
+      customer: {
+        email: body.email!,
+        name: body.name!,
+        phone: body.phone
+      },
+      idempotencyKey
+    };
+    
+    try {
+      if (page.type === 'elements') {
+        // Create the payment (a Stripe PaymentIntent)
+        const created = await app.paymentGateway.createPayment(payment);
+        
+        log.info({ paymentIntentId: created.paymentIntentId, holdId: hold.id }, 'PaymentIntent created');
+        
+        return {
+          statusCode: 200,
+          response: {
+            clientSecret: created.clientSecret,
+            paymentIntentId: created.paymentIntentId,
+            orderAccessToken: accessToken.token,
+            pricing: pricing,
+            holdExpiresAt: hold.expiresAt.toISOString()
+          }
+        };
+      }
+      
+      // Create the hosted page (a Stripe Checkout Session), ending with the hold
+      const session = await app.paymentGateway.createCheckoutSession({
+        ...payment,
+        ...checkoutLineItems(event.name, pricing, language),
+        locale: language,
+        successUrl: page.successUrl,
+        cancelUrl: page.cancelUrl,
+        expiresAt: hold.expiresAt
+      });
+      
+      log.info({ sessionId: session.sessionId, holdId: hold.id }, 'Checkout Session created');
+      
+      return {
+        statusCode: 200,
+        response: {
+          sessionId: session.sessionId,
+          url: session.url,
+          orderAccessToken: accessToken.token,
+          pricing: pricing,
+          holdExpiresAt: hold.expiresAt.toISOString()
+        }
+      };
+    } catch (error) {
+      // No payment means nobody will ever pay for this hold
+      await app.inventoryStore.releaseHold(hold.id);
+      throw error;
+    }
+  
+  } catch (error) {
+    if (error instanceof SoldOutError) {
+      log.info({ eventId: error.eventId, ticketTypeId: error.ticketTypeId }, error.message);
+      return {
+        statusCode: 409,
+        response: {
+          error: 'Sold out',
+          message: error.ticketTypeId ? text.ticketTypeSoldOut : text.soldOut,
+          ticketTypeId: error.ticketTypeId
+        }
+      };
+    }
+    
+    log.error({ err: error }, `Error creating ${paymentKind}`);
+    
+    // Handle payment gateway errors
+    if (error instanceof PaymentGatewayError) {
+      return {
+        statusCode: 500,
+        response: {
+          error: 'Payment service error',
+          message: text.paymentFailed
+        }
+      };
+    }
+    
+    // Generic error
+    return {
+      statusCode: 500,
+      response: {
+        error: 'Internal server error',
+        message: text.unexpectedError
+      }
+    };
+  }
+}
+
+/**
+ * Claims the request's Idempotency-Key header, if it has one.
+ * 
+ * Only a hash of the key is stored, and the stored response leaves out
+ * the order access token and the client secret: a repeat gets the
+ * token derived from its key and body again (see accessTokenForIdempotencyKey)
+ * and the client secret from the payment gateway.
+ * 
+ * @param route - The route's name (e.g. "create-intent"), which the key is scoped to
+ * @returns The claimed key (undefined without a header) and the order's
+ *          access token, or the response to send instead: the stored
+ *          response for a repeat, or an error
+ */
+async function claimIdempotencyKey(
+  app: FastifyInstance,
+  request: FastifyRequest,
+  route: string,
+  language: Language
+): Promise<
+  | { ok: true; key: string | undefined; accessToken: { token: string; hash: string } }
+  | { ok: false; statusCode: number; response: object; replayed: boolean }
+> {
+  const text = apiText(language);
+  const header = request.headers['idempotency-key'];
+  
+  if (header === undefined) {
+    return { ok: true, key: undefined, accessToken: createAccessToken() };
+  }
+  
+  if (typeof header !== 'string' || !IDEMPOTENCY_KEY_PATTERN.test(header)) {
+    return {
+      ok: false,
+      statusCode: 400,
+      replayed: false,
+      response: {
+        error: 'Validation failed',
+        details: [{
+          field: 'Idempotency-Key',
+          message: text.validation.invalidIdempotencyKey
+        }]
+      }
+    };
+  }
+  
+  // Keys are per route, so the same key on another route is unrelated
+  const key = `${route}:${hashAccessToken(header)}`;
+  const fingerprint = fingerprintRequest(request.body);
+  const accessToken = accessTokenForIdempotencyKey(header, route, fingerprint);
+  const now = new Date();
+  
+  const claim = await app.idempotencyStore.claimKey(
+    { key, fingerprint, createdAt: now, expiresAt: new Date(now.getTime() + IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000) },
+    new Date(now.getTime() - IDEMPOTENCY_LOCK_MS)
+  );
+  
+  if (claim.claimed) {
+    return { ok: true, key, accessToken };
+  }
+  
+  const { record } = claim;
+  
+  if (record.fingerprint !== fingerprint) {
+    return {
+      ok: false,
+      statusCode: 422,
+      replayed: false,
+      response: {
+        error: 'Idempotency key reused',
+        message: text.idempotencyKeyReused
+      }
+    };
+  }
+  
+  if (record.status === 'in_progress') {
+    return {
+      ok: false,
+      statusCode: 409,
+      replayed: false,
+      response: {
+        error: 'Request in progress',
+        message: text.requestInProgress
+      }
+    };
+  }
+  
+  request.log.info({ statusCode: record.statusCode }, 'Replaying response for idempotency key');
+  
+  const response = JSON.parse(record.responseBody!);
+  
+  try {
+    if (response.paymentIntentId) {
+      response.clientSecret = await app.paymentGateway.getClientSecret(response.paymentIntentId);
+    }
+  } catch (error) {
+    if (error instanceof PaymentGatewayError) {
+      request.log.error({ err: error }, 'Error retrieving client secret for replay');
+      return {
+        ok: false,
+        statusCode: 500,
+        replayed: false,
+        response: {
+          error: 'Payment service error',
+          message: text.paymentFailed
+        }
+      };
+    }
+    throw error;
+  }
+  
+  return {
+    ok: false,
+    statusCode: record.statusCode!,
+    replayed: true,
+    response: { ...response, orderAccessToken: accessToken.token }
+  };
+}
+
+/**
+ * Starts a checkout under the request's Idempotency-Key (see
+ * claimIdempotencyKey) and sends the response
+ * 
+ * @param route - The route's name, which the key is scoped to
+ * @param page - Where the customer pays
+ */
+async function sendCheckout(
+  app: FastifyInstance,
+  request: FastifyRequest,
+  reply: FastifyReply,
+  route: string,
+  page: PaymentPage
+): Promise<FastifyReply> {
+  const language = requestLanguage(request);
+  const idempotency = await claimIdempotencyKey(app, request, route, language);
+  
+  if (!idempotency.ok) {
+    if (idempotency.replayed) {
+      reply.header('Idempotent-Replayed', 'true');
+    }
+    return reply.status(idempotency.statusCode).send(idempotency.response);
+  }
+  
+  const result = await startCheckout(app, request.body, page, idempotency.accessToken, idempotency.key, language, request.log);
+  
+  // Only a created payment is replayed; after a failure the same key can try again
+  if (idempotency.key) {
+    if (result.statusCode === 200) {
+      await app.idempotencyStore.completeKey(idempotency.key, {
+        statusCode: result.statusCode,
+        responseBody: JSON.stringify(result.response, (field, value) => (
+          UNSTORED_RESPONSE_FIELDS.includes(field) ? undefined : value
+        ))
+      });
+    } else {
+      await app.idempotencyStore.releaseKey(idempotency.key);
+    }
+  }
+  
+  return reply.status(result.statusCode).send(result.response);
+}
+
 export async function checkoutRoutes(app: FastifyInstance): Promise<void> {
+  /**
+   * POST /api/checkout/quote
+   * 
+   * Prices an order without creating a payment or holding tickets.
+   * Lets the frontend show a promo code discount before paying.
+   * 
+   * Request body: same as create-intent (email and name optional)
+   * 
+   * Response:
+   * {
+   *   "pricing": { same as create-intent }
+   * }
+   * 
+   * Response (400, promo code cannot be used):
+   * {
+   *   "error": "Invalid promo code",
+   *   "reason": "not_found" | "inactive" | "not_started" | "expired" | "wrong_event" |
+   *             "no_eligible_tickets" | "email_required" | "usage_limit_reached" | "customer_limit_reached",
+   *   "message": string
+   * }
+   */
+  app.post('/api/checkout/quote', async (
+    request: FastifyRequest<{ Body: CreateIntentBody }>,
+    reply: FastifyReply
+  ) => {
+    const result = await prepareQuote(app, request.body, false, requestLanguage(request));
+    
+    if (!result.ok) {
+      return reply.status(result.statusCode).send(result.response);
+    }
+    
+    return reply.status(200).send({
+      pricing: result.quote.pricing
+    });
+  });
+  
   /**
    * POST /api/checkout/create-intent
    * 
-   * Creates a Stripe PaymentIntent for the ticket order.
+   * Creates a payment (Stripe PaymentIntent) for the ticket order.
+   * 
+   * Headers:
+   *   Idempotency-Key: string (optional). A retry with the same key and body
+   *   gets the original response (with "Idempotent-Replayed: true") instead
+   *   of a second payment, for IDEMPOTENCY_KEY_TTL_HOURS.
    * 
    * Request body:
    * {
-   *   "femaleQty": number (>= 0),
-   *   "maleQty": number (>= 0),
-   *   "language": "en" | "es" | "pt-BR"
+   *   "eventId": string,
+   *   "items": [{
+   *     "ticketTypeId": string,
+   *     "quantity": number (>= 0),
+   *     "attendeeNames": string[] (optional, one per ticket, at most quantity)
+   *   }],
+   *   "language": "en" | "es" | "pt-BR" (optional, picked from Accept-Language if missing),
+   *   "promoCode": string (optional),
+   *   "email": string (tickets are emailed here),
+   *   "name": string (the buyer's name),
+   *   "phone": string (optional)
    * }
    * 
    * Response:
    * {
    *   "clientSecret": string,
    *   "paymentIntentId": string,
-   *   "pricing": { "subtotal": number, "fee": number, "total": number }
+   *   "orderAccessToken": string (required by the order routes, keep it secret),
+   *   "pricing": {  (amounts in cents)
+   *     "currency": string,
+   *     "lines": [{ "ticketTypeId", "name", "quantity", "unitAmount", "amount" }],
+   *     "subtotal": number,
+   *     "discount": { "code": string, "description": string, "amount": number } | null,
+   *     "fee": number,
+   *     "taxes": [{ "code": "GST" | "HST" | "PST" | "QST", "jurisdiction": string, "rate": number, "amount": number }],
+   *     "tax": number,
+   *     "total": number
+   *   },
+   *   "holdExpiresAt": string (tickets are released after this if unpaid)
+   * }
+   * 
+   * Response (409, not enough tickets left):
+   * {
+   *   "error": "Sold out",
+   *   "message": string,
+   *   "ticketTypeId": string | null (null when the whole event is full)
+   * }
+   * 
+   * Response (422, Idempotency-Key already used with a different body):
+   * {
+   *   "error": "Idempotency key reused",
+   *   "message": string
+   * }
+   * 
+   * Response (409, a request with this Idempotency-Key is still running):
+   * {
+   *   "error": "Request in progress",
+   *   "message": string
    * }
    */
-  app.post('/api/checkout/create-intent', async (
+  app.post('/api/checkout/create-intent', {
+    // Time every answer, replays and errors included
+    onResponse: async (_request, reply) => {
+      app.metrics.createIntentDuration.observe({ status_code: String(reply.statusCode) }, reply.elapsedTime / 1000);
+    }
+  }, async (
     request: FastifyRequest<{ Body: CreateIntentBody }>,
     reply: FastifyReply
   ) => {
+    return sendCheckout(app, request, reply, 'create-intent', { type: 'elements' });
+  });
+  
+  /**
+   * POST /api/checkout/session
+   * 
+   * Creates a Stripe Checkout Session for the ticket order: the
+   * customer pays on Stripe's hosted page instead of our own. The
+   * order it makes is the same as create-intent's.
+   * 
+   * Headers: same as create-intent (Idempotency-Key)
+   * 
+   * Request body: same as create-intent, plus
+   * {
+   *   "successUrl": string (where the customer goes after paying; Stripe
+   *                 replaces {CHECKOUT_SESSION_ID} with the session ID),
+   *   "cancelUrl": string (where the customer goes if they give up)
+   * }
+   * Both must be pages of CHECKOUT_REDIRECT_ORIGINS in production.
+   * 
+   * Response:
+   * {
+   *   "sessionId": string,
+   *   "url": string (send the customer here),
+   *   "orderAccessToken": string (required by the order routes, keep it secret),
+   *   "pricing": { same as create-intent },
+   *   "holdExpiresAt": string (the page stops taking payment, and the tickets are released, after this)
+   * }
+   * 
+   * Error responses: same as create-intent
+   */
+  app.post('/api/checkout/session', async (
+    request: FastifyRequest<{ Body: CreateIntentBody & z.infer<typeof redirectUrlsSchema> }>,
+    reply: FastifyReply
+  ) => {
+    const validationResult = redirectUrlsSchema.safeParse(request.body ?? {});
+    
+    if (!validationResult.success) {
+      return reply.status(400).send(validationErrorResponse(validationResult.error, requestLanguage(request)));
+    }
+    
+    return sendCheckout(app, request, reply, 'checkout-session', { type: 'hosted', ...validationResult.data });
+  });
+  
+  /**
+   * GET /api/checkout/session/:sessionId
+   * 
+   * Looks up a Checkout Session, for the success page: once the
+   * customer has paid, orderId is the order to wait for (see
+   * GET /api/orders/:orderId/events, with the orderAccessToken).
+   * 
+   * Response:
+   * {
+   *   "sessionId": string,
+   *   "status": "open" | "complete" | "expired",
+   *   "orderId": string | null (the session's PaymentIntent ID, once the customer has paid)
+   * }
+   * 
+   * Response (404): no such session
+   */
+  app.get('/api/checkout/session/:sessionId', async (
+    request: FastifyRequest<{ Params: SessionParams }>,
+    reply: FastifyReply
+  ) => {
+    const text = apiText(requestLanguage(request));
+    let session: CheckoutSessionDetails | null;
+    
     try {
-      // Validate request body
-      const validationResult = createIntentSchema.safeParse(request.body);
-      
-      if (!validationResult.success) {
-        // Return validation errors
-        return reply.status(400).send({
-          error: 'Validation failed',
-          details: validationResult.error.errors.map(e => ({
-            field: e.path.join('.'),
-            message: e.message
-          }))
-        });
-      }
-      
-      const { femaleQty, maleQty, language } = validationResult.data;
-      
-      // Calculate pricing
-      const pricing = calculatePricing(femaleQty, maleQty);
-      
-      // Convert total to cents for Stripe
-      const amountInCents = dollarsToCents(pricing.total);
-      
-      console.log(`[Checkout] Creating PaymentIntent: ${femaleQty} female, ${maleQty} male, total: $${pricing.total} CAD`);
-      
-      // Create Stripe PaymentIntent
-      const paymentIntent = await stripe.paymentIntents.create({
-        amount: amountInCents,
-        currency: 'cad',
-        automatic_payment_methods: {
-          enabled: true,
-        },
-        metadata: {
-          femaleQty: femaleQty.toString(),
-          maleQty: maleQty.toString(),
-          subtotal: pricing.subtotal.toString(),
-          fee: pricing.fee.toString(),
-          language: language
-        }
-      });
-      
-      console.log(`[Checkout] PaymentIntent created: ${paymentIntent.id}`);
-      
-      // Return response
-      return reply.status(200).send({
-        clientSecret: paymentIntent.client_secret,
-        paymentIntentId: paymentIntent.id,
-        pricing: {
-          subtotal: pricing.subtotal,
-          fee: pricing.fee,
-          total: pricing.total
-        }
-      });
-      
+      session = await app.paymentGateway.getCheckoutSession(request.params.sessionId);
     } catch (error) {
-      console.error('[Checkout] Error creating PaymentIntent:', error);
-      
-      // Handle Stripe-specific errors
-      if (error instanceof Error && 'type' in error) {
-        return reply.status(500).send({
+      if (error instanceof PaymentGatewayError) {
+        request.log.error({ err: error }, 'Error retrieving Checkout Session');
+        return reply.status(502).send({
           error: 'Payment service error',
-          message: 'Failed to create payment. Please try again.'
+          message: text.unexpectedError
         });
       }
-      
-      // Generic error
-      return reply.status(500).send({
-        error: 'Internal server error',
-        message: 'An unexpected error occurred.'
+      throw error;
+    }
+    
+    if (!session) {
+      return reply.status(404).send({
+        error: 'Checkout session not found',
+        message: text.checkoutSessionNotFound
       });
     }
+    
+    return reply.status(200).send({
+      sessionId: session.sessionId,
+      status: session.status,
+      orderId: session.status === 'complete' ? session.paymentIntentId : null
+    });
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,240 @@
+/**
+ * Dev Payment Routes
+ * 
+ * Drives the fake payment gateway, so the whole purchase -> QR code ->
+ * check-in flow runs offline. Only registered when PAYMENT_GATEWAY=fake
+ * (which is refused in production).
+ * 
+ * Each endpoint plays the part of the payment provider: it changes the
+ * fake payment and delivers the webhook event it would have sent,
+ * through the same webhook event log and handlers as real events.
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { FakePaymentGateway } from '../services/fakePaymentGateway.js';
+import { GatewayEvent, PaymentGatewayError } from '../services/paymentGateway.js';
+import { receiveWebhookEvent } from './webhook.js';
+
+// Type for route parameters
+interface PaymentParams {
+  paymentIntentId: string;
+}
+
+// Type for checkout session route parameters
+interface SessionParams {
+  sessionId: string;
+}
+
+// Validation schema for simulating a failed payment
+const failSchema = z.object({
+  // true: the payment is canceled for good; false: declined, the customer can retry
+  final: z.boolean().default(false)
+});
+
+// Validation schema for simulating the end of a dispute
+const disputeCloseSchema = z.object({
+  // true: the dispute was won and the payment kept; false: lost
+  won: z.boolean().default(false)
+});
+
+// Validation schema for simulating a refund
+const refundSchema = z.object({
+  // In cents (everything left if missing)
+  amount: z.number().int().min(1, 'Amount must be at least 1 cent').optional()
+});
+
+// Types for validated request bodies
+type FailBody = z.infer<typeof failSchema>;
+type DisputeCloseBody = z.infer<typeof disputeCloseSchema>;
+type RefundBody = z.infer<typeof refundSchema>;
+
+export async function devPaymentRoutes(app: FastifyInstance, gateway: FakePaymentGateway): Promise<void> {
+  /**
+   * Delivers a simulated event and sends the outcome
+   */
+  async function deliver(reply: FastifyReply, simulate: () => GatewayEvent | Promise<GatewayEvent>) {
+    let event: GatewayEvent;
+    
+    try {
+      event = await simulate();
+    } catch (error) {
+      if (error instanceof PaymentGatewayError) {
+        return reply.status(error.statusCode).send({
+          error: 'Payment simulation failed',
+          message: error.message
+        });
+      }
+      throw error;
+    }
+    
+    reply.request.log.info({ webhookEventId: event.id, webhookEventType: event.type }, 'Simulated payment event');
+    
+    const record = await receiveWebhookEvent(app, event, JSON.stringify(event), reply.request.log);
+    
+    return reply.status(200).send({
+      eventId: event.id,
+      type: event.type,
+      status: record?.status,
+      lastError: record?.lastError
+    });
+  }
+  
+  /**
+   * POST /api/dev/payments/:paymentIntentId/succeed
+   * 
+   * The customer pays: sends payment_intent.succeeded, which creates
+   * the order (poll GET /api/orders/:paymentIntentId/qr afterwards).
+   * 
+   * Response:
+   * {
+   *   "eventId": string,
+   *   "type": string,
+   *   "status": "processed" | "failed" | "dead_letter" (webhook event log status),
+   *   "lastError": string (if handling failed)
+   * }
+   */
+  app.post('/api/dev/payments/:paymentIntentId/succeed', async (
+    request: FastifyRequest<{ Params: PaymentParams }>,
+    reply: FastifyReply
+  ) => {
+    return deliver(reply, () => gateway.simulateSuccess(request.params.paymentIntentId));
+  });
+  
+  /**
+   * POST /api/dev/payments/:paymentIntentId/fail
+   * 
+   * The payment fails: sends payment_intent.payment_failed, or
+   * payment_intent.canceled with { "final": true }.
+   * 
+   * Response: same as /succeed
+   */
+  app.post('/api/dev/payments/:paymentIntentId/fail', async (
+    request: FastifyRequest<{ Params: PaymentParams; Body: FailBody }>,
+    reply: FastifyReply
+  ) => {
+    const validationResult = failSchema.safeParse(request.body ?? {});
+    
+    if (!validationResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validationResult.error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message
+        }))
+      });
+    }
+    
+    return deliver(reply, () => gateway.simulateFailure(request.params.paymentIntentId, validationResult.data.final));
+  });
+  
+  /**
+   * POST /api/dev/payments/:paymentIntentId/refund
+   * 
+   * Refunds the payment outside our API (like a refund from the
+   * provider's dashboard) and sends charge.refunded.
+   * 
+   * Request body:
+   * {
+   *   "amount": number (optional, in cents; everything left if missing)
+   * }
+   * 
+   * Response: same as /succeed
+   */
+  app.post('/api/dev/payments/:paymentIntentId/refund', async (
+    request: FastifyRequest<{ Params: PaymentParams; Body: RefundBody }>,
+    reply: FastifyReply
+  ) => {
+    const validationResult = refundSchema.safeParse(request.body ?? {});
+    
+    if (!validationResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validationResult.error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message
+        }))
+      });
+    }
+    
+    return deliver(reply, () => gateway.simulateRefund(request.params.paymentIntentId, validationResult.data.amount));
+  });
+  
+  /**
+   * POST /api/dev/payments/:paymentIntentId/dispute
+   * 
+   * The customer disputes the payment with their bank: sends
+   * charge.dispute.created, which cancels the order.
+   * 
+   * Response: same as /succeed
+   */
+  app.post('/api/dev/payments/:paymentIntentId/dispute', async (
+    request: FastifyRequest<{ Params: PaymentParams }>,
+    reply: FastifyReply
+  ) => {
+    return deliver(reply, () => gateway.simulateDispute(request.params.paymentIntentId));
+  });
+  
+  /**
+   * POST /api/dev/payments/:paymentIntentId/dispute/close
+   * 
+   * The bank decides the open dispute: sends charge.dispute.closed.
+   * A won dispute reinstates the order; a lost one leaves it cancelled.
+   * 
+   * Request body:
+   * {
+   *   "won": boolean (optional, default false)
+   * }
+   * 
+   * Response: same as /succeed
+   */
+  app.post('/api/dev/payments/:paymentIntentId/dispute/close', async (
+    request: FastifyRequest<{ Params: PaymentParams; Body: DisputeCloseBody }>,
+    reply: FastifyReply
+  ) => {
+    const validationResult = disputeCloseSchema.safeParse(request.body ?? {});
+    
+    if (!validationResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validationResult.error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message
+        }))
+      });
+    }
+    
+    return deliver(reply, () => gateway.simulateDisputeClosed(request.params.paymentIntentId, validationResult.data.won));
+  });
+  
+  /**
+   * POST /api/dev/checkout-sessions/:sessionId/complete
+   * 
+   * The customer pays on the checkout page: sends
+   * checkout.session.completed, which creates the order (its ID is
+   * the session's paymentIntentId, see GET /api/checkout/session/:sessionId).
+   * 
+   * Response: same as /api/dev/payments/:paymentIntentId/succeed
+   */
+  app.post('/api/dev/checkout-sessions/:sessionId/complete', async (
+    request: FastifyRequest<{ Params: SessionParams }>,
+    reply: FastifyReply
+  ) => {
+    return deliver(reply, () => gateway.simulateCheckoutCompleted(request.params.sessionId));
+  });
+  
+  /**
+   * POST /api/dev/checkout-sessions/:sessionId/expire
+   * 
+   * The checkout page runs out unpaid: sends checkout.session.expired,
+   * which releases the held tickets.
+   * 
+   * Response: same as /api/dev/payments/:paymentIntentId/succeed
+   */
+  app.post('/api/dev/checkout-sessions/:sessionId/expire', async (
+    request: FastifyRequest<{ Params: SessionParams }>,
+    reply: FastifyReply
+  ) => {
+    return deliver(reply, () => gateway.simulateCheckoutExpired(request.params.sessionId));
+  });
+}
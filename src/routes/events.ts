@@ -0,0 +1,118 @@
+/**
+ * Events Routes
+ * 
+ * Public endpoints listing what is on sale:
+ * - Upcoming events
+ * - Ticket types and prices for each event
+ * - Remaining tickets (to grey out sold-out tiers)
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { EventInfo } from '../services/eventCatalog.js';
+import { calculateAvailability } from '../services/inventoryStore.js';
+import { apiText, requestLanguage } from '../services/i18n.js';
+
+// Type for route parameters
+interface EventParams {
+  eventId: string;
+}
+
+/**
+ * Shapes an event for the public API
+ */
+function toPublicEvent(event: EventInfo) {
+  return {
+    id: event.id,
+    name: event.name,
+    startsAt: event.startsAt.toISOString(),
+    venue: event.venue,
+    currency: event.currency,
+    province: event.province ?? null,
+    onSale: event.onSale,
+    ticketTypes: event.ticketTypes.map(ticketType => ({
+      id: ticketType.id,
+      name: ticketType.name,
+      price: ticketType.price
+    }))
+  };
+}
+
+export async function eventRoutes(app: FastifyInstance): Promise<void> {
+  /**
+   * GET /api/events
+   * 
+   * Lists upcoming events that are on sale, soonest first.
+   * 
+   * Response:
+   * {
+   *   "events": [{
+   *     "id": string, "name": string, "startsAt": string, "venue": string,
+   *     "currency": string, "province": string | null (sets the sales taxes), "onSale": true,
+   *     "ticketTypes": [{ "id": string, "name": string, "price": number (in cents) }]
+   *   }]
+   * }
+   */
+  app.get('/api/events', async (_request: FastifyRequest, reply: FastifyReply) => {
+    const now = Date.now();
+    const events = (await app.eventCatalog.listEvents())
+      .filter(event => event.onSale && event.startsAt.getTime() > now);
+    
+    return reply.status(200).send({
+      events: events.map(toPublicEvent)
+    });
+  });
+  
+  /**
+   * GET /api/events/:eventId
+   * 
+   * Gets one event with its ticket types and prices.
+   * 
+   * Response: same shape as one entry of GET /api/events
+   */
+  app.get('/api/events/:eventId', async (
+    request: FastifyRequest<{ Params: EventParams }>,
+    reply: FastifyReply
+  ) => {
+    const event = await app.eventCatalog.getEvent(request.params.eventId);
+    
+    if (!event) {
+      return reply.status(404).send({
+        error: 'Event not found',
+        message: apiText(requestLanguage(request)).eventNotFound
+      });
+    }
+    
+    return reply.status(200).send(toPublicEvent(event));
+  });
+  
+  /**
+   * GET /api/events/:eventId/availability
+   * 
+   * Remaining tickets for the event and each ticket type.
+   * Tickets held by customers who are still paying count as taken.
+   * 
+   * Response:
+   * {
+   *   "eventId": string,
+   *   "remaining": number | null (null = no limit),
+   *   "ticketTypes": [{ "ticketTypeId": string, "remaining": number | null, "soldOut": boolean }]
+   * }
+   */
+  app.get('/api/events/:eventId/availability', async (
+    request: FastifyRequest<{ Params: EventParams }>,
+    reply: FastifyReply
+  ) => {
+    const event = await app.eventCatalog.getEvent(request.params.eventId);
+    
+    if (!event) {
+      return reply.status(404).send({
+        error: 'Event not found',
+        message: apiText(requestLanguage(request)).eventNotFound
+      });
+    }
+    
+    const taken = await app.inventoryStore.getTakenCounts(event.id);
+    
+    return reply.status(200).send(calculateAvailability(event, taken));
+  });
+}
@@ -2,81 +2,741 @@
  * Orders Routes
  * 
  * Provides endpoints to retrieve order information and QR codes.
- * The QR code is ONLY available after the webhook has processed
- * the successful payment.
+ * The QR codes are ONLY available after the webhook has processed
+ * the successful payment. Every ticket has its own QR code, so a
+ * group does not have to arrive together.
+ * 
+ * Instead of polling for the QR codes, the frontend can open the
+ * order's event stream (Server-Sent Events), which pushes the order
+ * as soon as the webhook stores or changes it.
+ * 
+ * Tickets can also be downloaded as a printable PDF, or one at a
+ * time as SVG/PNG, for an offline copy.
+ * 
+ * Every route requires the order access token handed out by
+ * create-intent, in the X-Order-Access-Token header (or the
+ * accessToken query parameter, for EventSource and download links,
+ * which cannot send headers). Clients that keep sending a wrong
+ * token are throttled.
+ * 
+ * Tickets transferred to someone else drop out of the buyer's view.
+ * Their new holder downloads them with their own holder token.
+ * 
+ * Buyers who lost their access token (or the ticket email) can have
+ * their tickets emailed again. That route needs no token: the tickets
+ * only ever go to the address they were bought with. It is also how
+ * orders placed before access tokens existed get one.
+ * 
+ * QR code requests are counted in qr_requests_total, by result
+ * (pending, ready, cancelled, denied, invalid_request or error).
  */
 
-import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { orderStore } from '../services/inMemoryOrderStore.js';
-import { generateQRCodeDataUrl } from '../services/qrService.js';
+import { PassThrough } from 'node:stream';
+import { FastifyBaseLogger, FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { EventInfo, findTicketType } from '../services/eventCatalog.js';
+import { parseLanguage } from '../services/language.js';
+import { CancellationReason, Order, isOrderId } from '../services/orderStore.js';
+import { deliverTickets } from '../services/notificationService.js';
+import { Language } from '../services/language.js';
+import { apiText, requestLanguage, validationErrorResponse } from '../services/i18n.js';
+import { createAccessToken, verifyOrderAccessToken, verifyTicketHolderToken } from '../services/orderAccessService.js';
+import { customerActor } from '../services/orderAuditService.js';
+import { FailedLookupThrottle } from '../services/failedLookupThrottle.js';
+import { createSignedTicketCode, generateQRCodeDataUrl } from '../services/qrService.js';
+import { renderTicketPdf, renderTicketPng, renderTicketSvg } from '../services/ticketRenderer.js';
+import { buyerHeldOrder, holderHeldOrder } from '../services/ticketTransferService.js';
 
 // Type for route parameters
 interface OrderParams {
-  paymentIntentId: string;
+  orderId: string;
+}
+
+// Type for ticket route parameters
+interface TicketParams extends OrderParams {
+  ticketId: string;
+}
+
+// Type for query parameters (the access token, when it cannot be sent as a header)
+interface AccessQuery {
+  accessToken?: string;
+}
+
+// Failed order lookups allowed per IP in a window, before its lookups are refused
+const ORDER_LOOKUP_MAX_FAILURES = parseInt(process.env.ORDER_LOOKUP_MAX_FAILURES || '10', 10);
+
+// Length of that window (default: 15 minutes)
+const ORDER_LOOKUP_WINDOW_MS = parseInt(process.env.ORDER_LOOKUP_WINDOW_MINUTES || '15', 10) * 60 * 1000;
+
+// Resend requests allowed per IP in a window (default: 5)
+const RESEND_RATE_LIMIT_MAX = parseInt(process.env.RESEND_RATE_LIMIT_MAX || '5', 10);
+
+// Length of that window (default: 15 minutes)
+const RESEND_RATE_LIMIT_WINDOW_MS = parseInt(process.env.RESEND_RATE_LIMIT_WINDOW_MINUTES || '15', 10) * 60 * 1000;
+
+// How long before tickets are emailed to the same address again (default: 10 minutes)
+const RESEND_COOLDOWN_MS = parseInt(process.env.RESEND_COOLDOWN_MINUTES || '10', 10) * 60 * 1000;
+
+// Orders for events that started longer ago than this are not resent
+const RESEND_EVENT_GRACE_MS = 24 * 60 * 60 * 1000;
+
+// How often an idle event stream gets a heartbeat, so proxies and dead clients are noticed
+const ORDER_EVENTS_HEARTBEAT_MS = 15 * 1000;
+
+// How long an event stream stays open before the client has to reconnect (default: 5 minutes)
+const ORDER_EVENTS_TIMEOUT_MS = parseInt(process.env.ORDER_EVENTS_TIMEOUT_MS || '300000', 10);
+
+// Request body for resending tickets
+const resendSchema = z.object({
+  email: z.string().trim().email()
+});
+
+// What the buyer sees for an order (GET /qr response, and the order event stream)
+interface OrderStatusBody {
+  status: 'pending' | 'ready' | 'cancelled';
+  reason?: CancellationReason;  // Why the order was cancelled
+  tickets?: object[];           // QR code per ticket, once ready
+}
+
+/**
+ * Checks the caller may see an order (or one of its tickets).
+ * Throttled IPs are refused outright. A missing order (payment still
+ * processing) has nothing to protect yet; an existing one needs its
+ * access token, and every wrong token counts towards the throttle.
+ * A transferred ticket needs its holder's token instead.
+ * 
+ * @returns ok, or the error response to send
+ */
+function checkOrderAccess(
+  throttle: FailedLookupThrottle,
+  request: FastifyRequest<{ Querystring: AccessQuery }>,
+  order: Order | null,
+  ticketId?: string
+): { ok: true } | { ok: false; statusCode: number; response: object; retryAfterSeconds?: number } {
+  const text = apiText(requestLanguage(request));
+  const retryAfterSeconds = throttle.retryAfterSeconds(request.ip);
+  
+  if (retryAfterSeconds !== null) {
+    return {
+      ok: false,
+      statusCode: 429,
+      retryAfterSeconds,
+      response: {
+        error: 'Too Many Requests',
+        message: text.tooManyFailedLookups(retryAfterSeconds)
+      }
+    };
+  }
+  
+  if (!order) {
+    return { ok: true };
+  }
+  
+  const header = request.headers['x-order-access-token'];
+  const token = typeof header === 'string' ? header : request.query.accessToken;
+  const ticket = ticketId ? order.tickets.find(t => t.ticketId === ticketId) : undefined;
+  const allowed = ticket ? verifyTicketHolderToken(order, ticket, token) : verifyOrderAccessToken(order, token);
+  
+  if (!allowed) {
+    throttle.recordFailure(request.ip);
+    request.log.warn({ orderId: order.orderId, ticketId }, 'Invalid order access token');
+    return {
+      ok: false,
+      statusCode: 403,
+      response: {
+        error: 'Invalid order access token',
+        message: text.invalidOrderAccessToken
+      }
+    };
+  }
+  
+  return { ok: true };
+}
+
+/**
+ * Builds what the buyer sees for an order: pending until the webhook
+ * has stored it, then ready with a QR code per ticket, or cancelled.
+ * Refunded tickets, and tickets transferred to someone else, are left out.
+ * 
+ * @param language - Language of the error messages
+ * @param log - The request's logger
+ * @returns The order status, or the error response to send
+ */
+async function buildOrderStatus(
+  app: FastifyInstance,
+  orderId: string,
+  order: Order | null,
+  language: Language,
+  log: FastifyBaseLogger
+): Promise<{ ok: true; body: OrderStatusBody } | { ok: false; statusCode: number; response: object }> {
+  const text = apiText(language);
+  
+  if (!order) {
+    // Order not found - payment might still be processing
+    log.info({ orderId }, 'Order not found (pending)');
+    return { ok: true, body: { status: 'pending' } };
+  }
+  
+  // Refunded, disputed or revoked tickets must not be shown again
+  if (order.status === 'cancelled') {
+    log.info({ orderId, reason: order.cancellationReason }, 'Order cancelled');
+    return { ok: true, body: { status: 'cancelled', reason: order.cancellationReason } };
+  }
+  
+  const event = await app.eventCatalog.getEvent(order.eventId);
+  
+  if (!event) {
+    log.error({ orderId, eventId: order.eventId }, 'Event missing from catalog');
+    return { ok: false, statusCode: 500, response: { error: 'Failed to generate QR code', message: text.ticketsUnavailable } };
+  }
+  
+  // Order found - generate a QR code image per ticket
+  try {
+    const tickets = await Promise.all(buyerHeldOrder(order).tickets
+      .filter(ticket => ticket.status !== 'cancelled')
+      .map(async ticket => {
+        // The image carries the signed code, so it can be verified offline
+        const qrPayload = createSignedTicketCode(order, ticket, event);
+        
+        return {
+          ticketId: ticket.ticketId,
+          ticketTypeId: ticket.ticketTypeId,
+          name: findTicketType(event, ticket.ticketTypeId)?.name || ticket.ticketTypeId,
+          attendeeName: ticket.attendeeName ?? null,
+          status: ticket.status,
+          qrToken: ticket.qrToken,
+          qrPayload: qrPayload,
+          qrImageDataUrl: await generateQRCodeDataUrl(qrPayload)
+        };
+      })
+    );
+    
+    log.info({ orderId, tickets: tickets.length }, 'QR codes generated');
+    
+    return { ok: true, body: { status: 'ready', tickets } };
+  } catch (error) {
+    log.error({ err: error, orderId }, 'Failed to generate QR code');
+    return { ok: false, statusCode: 500, response: { error: 'Failed to generate QR code', message: text.ticketsUnavailable } };
+  }
+}
+
+/**
+ * Loads an order whose tickets can be downloaded, and its event
+ * 
+ * @param ticketId - The ticket being downloaded (its holder's token is accepted), if only one
+ * @returns The order and event, or the error response to send
+ */
+async function loadPrintableOrder(
+  app: FastifyInstance,
+  throttle: FailedLookupThrottle,
+  request: FastifyRequest<{ Params: OrderParams; Querystring: AccessQuery }>,
+  ticketId?: string
+): Promise<
+  | { ok: true; order: Order; event: EventInfo }
+  | { ok: false; statusCode: number; response: object; retryAfterSeconds?: number }
+> {
+  const text = apiText(requestLanguage(request));
+  const { orderId } = request.params;
+  
+  if (!isOrderId(orderId)) {
+    return { ok: false, statusCode: 400, response: { error: 'Invalid order ID format', message: text.invalidOrderReference } };
+  }
+  
+  const order = await app.orderStore.getOrder(orderId);
+  const access = checkOrderAccess(throttle, request, order, ticketId);
+  
+  if (!access.ok) {
+    return access;
+  }
+  
+  if (!order) {
+    return {
+      ok: false,
+      statusCode: 404,
+      response: { error: 'Order not found', message: text.orderPending }
+    };
+  }
+  
+  if (order.status === 'cancelled') {
+    return {
+      ok: false,
+      statusCode: 409,
+      response: { error: 'Order cancelled', reason: order.cancellationReason, message: text.orderCancelled }
+    };
+  }
+  
+  const event = await app.eventCatalog.getEvent(order.eventId);
+  
+  if (!event) {
+    request.log.error({ orderId, eventId: order.eventId }, 'Event missing from catalog');
+    return { ok: false, statusCode: 500, response: { error: 'Failed to generate tickets', message: text.ticketsUnavailable } };
+  }
+  
+  return { ok: true, order, event };
+}
+
+/**
+ * Sends an error response, with Retry-After when the caller is throttled
+ */
+function sendError(
+  reply: FastifyReply,
+  error: { statusCode: number; response: object; retryAfterSeconds?: number }
+) {
+  if (error.retryAfterSeconds !== undefined) {
+    reply.header('Retry-After', error.retryAfterSeconds.toString());
+  }
+  
+  return reply.status(error.statusCode).send(error.response);
+}
+
+/**
+ * Emails an address's tickets again without holding up the response
+ * (which must not reveal whether the address has any orders).
+ * Orders that are cancelled, for events long past, or with no tickets
+ * left in the buyer's hands are skipped.
+ * 
+ * Orders placed before access tokens existed get their first one here,
+ * in the email, so their buyers can use the order routes too.
+ */
+function resendTicketsInBackground(app: FastifyInstance, email: string, log: FastifyBaseLogger): void {
+  app.orderStore.listOrders({ email })
+    .then(async ({ orders }) => {
+      let sent = 0;
+      
+      for (const order of orders) {
+        if (order.status === 'cancelled') {
+          continue;
+        }
+        
+        const held = buyerHeldOrder(order).tickets.filter(ticket => ticket.status !== 'cancelled');
+        const event = await app.eventCatalog.getEvent(order.eventId);
+        
+        if (held.length === 0 || !event || event.startsAt.getTime() + RESEND_EVENT_GRACE_MS < Date.now()) {
+          continue;
+        }
+        
+        const accessToken = order.accessTokenHash ? undefined : createAccessToken();
+        
+        if (accessToken && !await app.orderStore.issueAccessToken(order.orderId, accessToken.hash, customerActor(email))) {
+          continue;
+        }
+        
+        if (await deliverTickets(app.mailTransport, order, event, accessToken?.token)) {
+          sent++;
+        }
+      }
+      
+      log.info({ orders: sent }, 'Tickets resent');
+    })
+    .catch((error) => {
+      log.error({ err: error }, 'Failed to resend tickets');
+    });
 }
 
 export async function orderRoutes(app: FastifyInstance): Promise<void> {
+  // Failed lookups per IP, shared by every order route
+  const throttle = new FailedLookupThrottle(ORDER_LOOKUP_MAX_FAILURES, ORDER_LOOKUP_WINDOW_MS);
+  
+  // Addresses tickets were resent to recently (one resend per address per cooldown)
+  const resendCooldown = new FailedLookupThrottle(1, RESEND_COOLDOWN_MS);
+  
+  // Closes every open event stream, so shutdown does not wait for them to time out
+  const openStreams = new Set<() => void>();
+  
+  app.addHook('preClose', async () => {
+    for (const close of openStreams) {
+      close();
+    }
+  });
+  
   /**
-   * GET /api/orders/:paymentIntentId/qr
+   * GET /api/orders/:orderId/qr
    * 
-   * Retrieves the QR code for a completed order.
+   * Retrieves the QR code of every ticket in a completed order.
+   * Refunded tickets are left out.
+   * 
+   * Headers:
+   *   X-Order-Access-Token: the orderAccessToken from create-intent
    * 
    * Response (if order not found / payment not yet confirmed):
    * { "status": "pending" }
    * 
+   * Response (if order was refunded or disputed):
+   * { "status": "cancelled", "reason": "refunded" | "disputed" | "revoked" }
+   * 
    * Response (if order found):
    * {
    *   "status": "ready",
-   *   "qrToken": string,
-   *   "qrImageDataUrl": "data:image/png;base64,..."
+   *   "tickets": [{
+   *     "ticketId": string,
+   *     "ticketTypeId": string,
+   *     "name": string (ticket type name),
+   *     "attendeeName": string | null,
+   *     "status": "valid" | "used",
+   *     "qrToken": string,
+   *     "qrPayload": string (signed code encoded in the image),
+   *     "qrImageDataUrl": "data:image/png;base64,..."
+   *   }]
    * }
    * 
-   * NOTE: This endpoint is meant to be polled by the frontend
-   * after payment confirmation, while waiting for the webhook
-   * to process.
+   * Response (403): wrong or missing access token
+   * Response (429): too many failed lookups from this IP (see Retry-After)
+   * 
+   * NOTE: Prefer GET /api/orders/:orderId/events, which
+   * pushes the same response once the webhook has processed the
+   * payment. Polling this endpoint still works.
    */
-  app.get('/api/orders/:paymentIntentId/qr', async (
-    request: FastifyRequest<{ Params: OrderParams }>,
+  app.get('/api/orders/:orderId/qr', async (
+    request: FastifyRequest<{ Params: OrderParams; Querystring: AccessQuery }>,
     reply: FastifyReply
   ) => {
-    const { paymentIntentId } = request.params;
+    const language = requestLanguage(request);
+    const { orderId } = request.params;
     
-    // Validate PaymentIntent ID format (basic check)
-    if (!paymentIntentId || !paymentIntentId.startsWith('pi_')) {
+    // Validate order ID format (basic check)
+    if (!orderId || !isOrderId(orderId)) {
+      app.metrics.qrRequests.inc({ result: 'invalid_request' });
       return reply.status(400).send({
-        error: 'Invalid PaymentIntent ID format'
+        error: 'Invalid order ID format',
+        message: apiText(language).invalidOrderReference
       });
     }
     
-    console.log(`[Orders] QR request for PaymentIntent: ${paymentIntentId}`);
+    request.log.info({ orderId }, 'QR request');
     
     // Try to get the order from storage
-    const order = await orderStore.getOrderByPaymentIntentId(paymentIntentId);
+    const order = await app.orderStore.getOrder(orderId);
+    const access = checkOrderAccess(throttle, request, order);
+    
+    if (!access.ok) {
+      app.metrics.qrRequests.inc({ result: 'denied' });
+      return sendError(reply, access);
+    }
+    
+    const result = await buildOrderStatus(app, orderId, order, language, request.log);
+    
+    if (!result.ok) {
+      app.metrics.qrRequests.inc({ result: 'error' });
+      return reply.status(result.statusCode).send(result.response);
+    }
+    
+    app.metrics.qrRequests.inc({ result: result.body.status });
+    return reply.status(200).send(result.body);
+  });
+  
+  /**
+   * GET /api/orders/:orderId/events
+   * 
+   * Server-Sent Events stream of the order's status, so the frontend
+   * does not have to poll GET /qr after payment. Each event's data is
+   * JSON:
+   * 
+   * - pending: { "status": "pending" } (sent first if the webhook has not arrived)
+   * - ready: same body as GET /qr once the order exists
+   * - cancelled: { "status": "cancelled", "reason": "refunded" | "disputed" | "revoked" }
+   * - failed: { "status": "failed", "message": string | null, "final": boolean }
+   *   (the payment was declined; final if it was canceled, otherwise the buyer can retry)
+   * - timeout: { "status": "timeout" } (reconnect to keep waiting)
+   * - error: { "error": string }
+   * 
+   * The stream ends after ready, cancelled, a final failure, an error
+   * or the timeout (ORDER_EVENTS_TIMEOUT_MS). Call close() on the
+   * EventSource then, or the browser reconnects. A comment line is sent
+   * every 15 seconds to keep the connection alive.
+   * 
+   * EventSource cannot send headers, so pass the access token as
+   * ?accessToken=... A wrong token is refused with 403 if the order
+   * already exists, or ends the stream with an error event once the
+   * order arrives.
+   */
+  app.get('/api/orders/:orderId/events', async (
+    request: FastifyRequest<{ Params: OrderParams; Querystring: AccessQuery }>,
+    reply: FastifyReply
+  ) => {
+    const language = requestLanguage(request);
+    const { orderId } = request.params;
     
-    if (!order) {
-      // Order not found - payment might still be processing
-      console.log(`[Orders] Order not found (pending): ${paymentIntentId}`);
-      return reply.status(200).send({
-        status: 'pending'
+    // Validate order ID format (basic check)
+    if (!orderId || !isOrderId(orderId)) {
+      return reply.status(400).send({
+        error: 'Invalid order ID format',
+        message: apiText(language).invalidOrderReference
       });
     }
     
-    // Order found - generate QR code image
-    try {
-      const qrImageDataUrl = await generateQRCodeDataUrl(order.qrToken);
+    // Refuse a wrong token up front when the order already exists
+    const access = checkOrderAccess(throttle, request, await app.orderStore.getOrder(orderId));
+    
+    if (!access.ok) {
+      return sendError(reply, access);
+    }
+    
+    request.log.info({ orderId }, 'Event stream opened');
+    
+    const stream = new PassThrough();
+    let closed = false;
+    
+    const send = (event: string, data: object) => {
+      if (!closed) {
+        stream.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    };
+    
+    // Sends the order's status, and ends the stream once it will not change again
+    const sendOrderStatus = async (order: Order | null) => {
+      // The order may have been created after the stream opened
+      const access = checkOrderAccess(throttle, request, order);
+      
+      if (!access.ok) {
+        send('error', access.response);
+        close();
+        return;
+      }
+      
+      const result = await buildOrderStatus(app, orderId, order, language, request.log);
+      
+      if (!result.ok) {
+        send('error', result.response);
+        close();
+        return;
+      }
       
-      console.log(`[Orders] QR code generated for PaymentIntent: ${paymentIntentId}`);
+      send(result.body.status, result.body);
       
-      return reply.status(200).send({
-        status: 'ready',
-        qrToken: order.qrToken,
-        qrImageDataUrl: qrImageDataUrl
+      if (result.body.status !== 'pending') {
+        close();
+      }
+    };
+    
+    // Events are handled one at a time, in the order they arrive
+    let queue: Promise<void> = Promise.resolve();
+    
+    const enqueue = (task: () => Promise<void>) => {
+      queue = queue.then(async () => {
+        if (!closed) {
+          await task();
+        }
+      }).catch((error) => {
+        request.log.error({ err: error, orderId }, 'Event stream failed');
+        send('error', { error: 'Failed to load order', message: apiText(language).unexpectedError });
+        close();
+      });
+    };
+    
+    // Subscribe before reading the order, so a change landing in between is not missed
+    const unsubscribe = app.orderEvents.subscribe(orderId, (event) => {
+      enqueue(async () => {
+        if (event.type === 'order_updated') {
+          await sendOrderStatus(event.order);
+          return;
+        }
+        
+        send('failed', { status: 'failed', message: event.message, final: event.final });
+        
+        if (event.final) {
+          close();
+        }
       });
+    });
+    
+    enqueue(async () => {
+      await sendOrderStatus(await app.orderStore.getOrder(orderId));
+    });
+    
+    const heartbeat = setInterval(() => {
+      if (!closed) {
+        stream.write(': heartbeat\n\n');
+      }
+    }, ORDER_EVENTS_HEARTBEAT_MS);
+    
+    const timeout = setTimeout(() => {
+      send('timeout', { status: 'timeout' });
+      close();
+    }, ORDER_EVENTS_TIMEOUT_MS);
+    
+    function close(): void {
+      if (closed) {
+        return;
+      }
+      
+      closed = true;
+      unsubscribe();
+      clearInterval(heartbeat);
+      clearTimeout(timeout);
+      openStreams.delete(close);
+      stream.end();
+    }
+    
+    openStreams.add(close);
+    
+    // The client went away
+    reply.raw.on('close', close);
+    
+    return reply
+      .status(200)
+      .header('Content-Type', 'text/event-stream; charset=utf-8')
+      .header('Cache-Control', 'no-store')
+      .header('X-Accel-Buffering', 'no')  // Don't let reverse proxies buffer the stream
+      .send(stream);
+  });
+  
+  /**
+   * GET /api/orders/:orderId/ticket.pdf
+   * 
+   * Downloads the order's tickets as a PDF, one page per ticket,
+   * in the language the buyer checked out in. Refunded tickets,
+   * and tickets transferred to someone else, are left out.
+   * 
+   * Access token: X-Order-Access-Token header, or ?accessToken= for a plain link
+   * 
+   * Response: application/pdf
+   * Response (403): wrong or missing access token
+   * Response (404): order not found (payment may still be processing)
+   * Response (409): order cancelled
+   */
+  app.get('/api/orders/:orderId/ticket.pdf', async (
+    request: FastifyRequest<{ Params: OrderParams; Querystring: AccessQuery }>,
+    reply: FastifyReply
+  ) => {
+    const result = await loadPrintableOrder(app, throttle, request);
+    
+    if (!result.ok) {
+      return sendError(reply, result);
+    }
+    
+    try {
+      const pdf = await renderTicketPdf(buyerHeldOrder(result.order), result.event, parseLanguage(result.order.language));
+      
+      request.log.info({ orderId: result.order.orderId }, 'PDF generated');
+      
+      return reply
+        .status(200)
+        .header('Content-Type', 'application/pdf')
+        .header('Content-Disposition', `attachment; filename="tickets-${result.order.orderId}.pdf"`)
+        .header('Cache-Control', 'no-store')
+        .send(pdf);
     } catch (error) {
-      console.error(`[Orders] Failed to generate QR code: ${error}`);
+      request.log.error({ err: error, orderId: result.order.orderId }, 'Failed to generate PDF');
       return reply.status(500).send({
-        error: 'Failed to generate QR code'
+        error: 'Failed to generate tickets',
+        message: apiText(requestLanguage(request)).ticketsUnavailable
       });
     }
   });
-}
\ No newline at end of file
+  
+  /**
+   * GET /api/orders/:orderId/tickets/:ticketId.svg
+   * GET /api/orders/:orderId/tickets/:ticketId.png
+   * 
+   * Downloads one ticket for an offline copy:
+   * - .svg: the whole ticket (event, attendee, QR code), sharp at any size
+   * - .png: the ticket's QR code at 1200x1200 pixels
+   * 
+   * Access token: X-Order-Access-Token header, or ?accessToken= for a plain link.
+   * A transferred ticket takes its holder's token, not the buyer's.
+   * 
+   * Response (403): wrong or missing access token
+   * Response (404): order or ticket not found
+   * Response (409): order or ticket cancelled
+   */
+  for (const format of ['svg', 'png'] as const) {
+    app.get(`/api/orders/:orderId/tickets/:ticketId.${format}`, async (
+      request: FastifyRequest<{ Params: TicketParams; Querystring: AccessQuery }>,
+      reply: FastifyReply
+    ) => {
+      const result = await loadPrintableOrder(app, throttle, request, request.params.ticketId);
+      
+      if (!result.ok) {
+        return sendError(reply, result);
+      }
+      
+      const { event } = result;
+      const ticket = result.order.tickets.find(t => t.ticketId === request.params.ticketId);
+      
+      if (!ticket) {
+        return reply.status(404).send({
+          error: 'Ticket not found',
+          message: apiText(requestLanguage(request)).ticketNotFound
+        });
+      }
+      
+      if (ticket.status === 'cancelled') {
+        return reply.status(409).send({
+          error: 'Ticket cancelled',
+          message: apiText(requestLanguage(request)).ticketRefunded
+        });
+      }
+      
+      // Number the ticket among those its holder has
+      const order = ticket.holderEmail ? holderHeldOrder(result.order, ticket) : buyerHeldOrder(result.order);
+      
+      try {
+        const body = format === 'svg'
+          ? await renderTicketSvg(order, ticket, event, parseLanguage(order.language))
+          : await renderTicketPng(order, ticket, event);
+        
+        return reply
+          .status(200)
+          .header('Content-Type', format === 'svg' ? 'image/svg+xml' : 'image/png')
+          .header('Content-Disposition', `attachment; filename="${ticket.ticketId}.${format}"`)
+          .header('Cache-Control', 'no-store')
+          .send(body);
+      } catch (error) {
+        request.log.error({ err: error, ticketId: ticket.ticketId, format }, 'Failed to generate ticket');
+        return reply.status(500).send({
+          error: 'Failed to generate tickets',
+          message: apiText(requestLanguage(request)).ticketsUnavailable
+        });
+      }
+    });
+  }
+  
+  /**
+   * POST /api/orders/resend
+   * 
+   * Emails the tickets of every upcoming order placed with an email
+   * address to that address again, in the language each order was
+   * placed in. Tickets transferred to someone else are left out.
+   * An order placed before access tokens existed gets one, sent along.
+   * 
+   * The response is the same whether or not there are any orders, so
+   * it cannot be used to find out who bought tickets. Each address is
+   * emailed at most once per RESEND_COOLDOWN_MINUTES.
+   * 
+   * Request body:
+   * { "email": string }
+   * 
+   * Response (202):
+   * { "message": string ("If there are tickets for this email address, they are on their way.") }
+   * 
+   * Response (429): too many resend requests from this IP
+   */
+  app.post('/api/orders/resend', {
+    config: {
+      rateLimit: {
+        max: RESEND_RATE_LIMIT_MAX,
+        timeWindow: RESEND_RATE_LIMIT_WINDOW_MS
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const language = requestLanguage(request);
+    const validationResult = resendSchema.safeParse(request.body ?? {});
+    
+    if (!validationResult.success) {
+      return reply.status(400).send(validationErrorResponse(validationResult.error, language));
+    }
+    
+    const email = validationResult.data.email.toLowerCase();
+    
+    if (resendCooldown.retryAfterSeconds(email) === null) {
+      resendCooldown.recordFailure(email);
+      resendTicketsInBackground(app, email, request.log);
+    } else {
+      request.log.info('Tickets recently resent to this address - skipped');
+    }
+    
+    return reply.status(202).send({
+      message: apiText(language).resendAccepted
+    });
+  });
+}
@@ -0,0 +1,472 @@
+/**
+ * Ticket Transfer Routes
+ * 
+ * Lets an attendee pass a ticket on (resold or gifted) without a
+ * screenshot that keeps working for both people:
+ * 
+ * 1. The current holder starts a transfer to the recipient's email.
+ *    The recipient is emailed a code; the ticket is unchanged so far.
+ * 2. The recipient accepts with that code. The ticket gets a new QR
+ *    code and the old one stops working immediately. The recipient gets
+ *    the ticket (and a holder token to download it again) in the
+ *    response and by email.
+ * 
+ * The holder is the buyer (with the order access token) until the
+ * ticket is first transferred, then whoever accepted it last (with
+ * their holder token). Used and refunded tickets cannot be transferred,
+ * and transfers close TRANSFER_CUTOFF_HOURS before the event starts.
+ */
+
+import { FastifyBaseLogger, FastifyInstance, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { EventInfo, findTicketType } from '../services/eventCatalog.js';
+import { apiText, requestLanguage, validationErrorResponse } from '../services/i18n.js';
+import { deliverTransferOffer, deliverTransferredTicket } from '../services/notificationService.js';
+import { createAccessToken, verifyAccessToken, verifyTicketHolderToken } from '../services/orderAccessService.js';
+import { customerActor } from '../services/orderAuditService.js';
+import { Order, Ticket, TicketTransfer } from '../services/orderStore.js';
+import { FailedLookupThrottle } from '../services/failedLookupThrottle.js';
+import { createSignedTicketCode, generateQRCodeDataUrl, generateQRToken } from '../services/qrService.js';
+import {
+  generateTransferId,
+  ticketHolderEmail,
+  transferBlockReason,
+  transferCutoff
+} from '../services/ticketTransferService.js';
+
+// Type for ticket route parameters
+interface TicketParams {
+  orderId: string;
+  ticketId: string;
+}
+
+// Type for route parameters of a single transfer
+interface TicketTransferParams extends TicketParams {
+  transferId: string;
+}
+
+// Type for accept route parameters
+interface TransferParams {
+  transferId: string;
+}
+
+// Validation schema for starting a transfer
+const startTransferSchema = z.object({
+  email: z.string().trim().toLowerCase().email()
+});
+
+// Validation schema for accepting a transfer
+const acceptTransferSchema = z.object({
+  code: z.string().min(1).max(200),
+  attendeeName: z.string().trim().min(1).max(100).optional()
+});
+
+// Types for validated request bodies
+type StartTransferBody = z.infer<typeof startTransferSchema>;
+type AcceptTransferBody = z.infer<typeof acceptTransferSchema>;
+
+// Same limits as the order routes: wrong tokens or codes allowed per IP in a window
+const ORDER_LOOKUP_MAX_FAILURES = parseInt(process.env.ORDER_LOOKUP_MAX_FAILURES || '10', 10);
+
+// Length of that window (default: 15 minutes)
+const ORDER_LOOKUP_WINDOW_MS = parseInt(process.env.ORDER_LOOKUP_WINDOW_MINUTES || '15', 10) * 60 * 1000;
+
+/**
+ * Refuses callers that made too many failed attempts
+ * 
+ * @returns null if the caller may go on, or the error response to send
+ */
+function throttled(
+  throttle: FailedLookupThrottle,
+  request: FastifyRequest
+): { statusCode: number; response: object; retryAfterSeconds: number } | null {
+  const retryAfterSeconds = throttle.retryAfterSeconds(request.ip);
+  
+  if (retryAfterSeconds === null) {
+    return null;
+  }
+  
+  return {
+    statusCode: 429,
+    retryAfterSeconds,
+    response: {
+      error: 'Too Many Requests',
+      message: apiText(requestLanguage(request)).tooManyFailedAttempts(retryAfterSeconds)
+    }
+  };
+}
+
+/**
+ * Loads a ticket and its event, and checks the caller holds the ticket
+ * (X-Order-Access-Token: the buyer's order token, or the holder token
+ * of a transferred ticket). Every wrong token counts towards the throttle.
+ * 
+ * @returns The order, ticket and event, or the error response to send
+ */
+async function loadHeldTicket(
+  app: FastifyInstance,
+  throttle: FailedLookupThrottle,
+  request: FastifyRequest<{ Params: TicketParams }>
+): Promise<
+  | { ok: true; order: Order; ticket: Ticket; event: EventInfo }
+  | { ok: false; statusCode: number; response: object; retryAfterSeconds?: number }
+> {
+  const text = apiText(requestLanguage(request));
+  const refused = throttled(throttle, request);
+  
+  if (refused) {
+    return { ok: false, ...refused };
+  }
+  
+  const { orderId, ticketId } = request.params;
+  const order = await app.orderStore.getOrder(orderId);
+  const ticket = order?.tickets.find(t => t.ticketId === ticketId);
+  
+  if (!order || !ticket) {
+    return { ok: false, statusCode: 404, response: { error: 'Ticket not found', message: text.ticketNotFound } };
+  }
+  
+  const header = request.headers['x-order-access-token'];
+  
+  if (!verifyTicketHolderToken(order, ticket, typeof header === 'string' ? header : undefined)) {
+    throttle.recordFailure(request.ip);
+    request.log.warn({ orderId, ticketId }, 'Invalid ticket holder token');
+    return {
+      ok: false,
+      statusCode: 403,
+      response: {
+        error: 'Invalid order access token',
+        message: text.notTicketHolder
+      }
+    };
+  }
+  
+  const event = await app.eventCatalog.getEvent(order.eventId);
+  
+  if (!event) {
+    request.log.error({ orderId, eventId: order.eventId }, 'Event missing from catalog');
+    return { ok: false, statusCode: 500, response: { error: 'Failed to transfer ticket', message: text.transferFailed } };
+  }
+  
+  return { ok: true, order, ticket, event };
+}
+
+/**
+ * Formats a transfer for the people involved (without its code hash)
+ */
+function toTransferResponse(transfer: TicketTransfer, event: EventInfo) {
+  return {
+    transferId: transfer.transferId,
+    ticketId: transfer.ticketId,
+    toEmail: transfer.toEmail,
+    status: transfer.status,
+    createdAt: transfer.createdAt,
+    acceptedAt: transfer.acceptedAt ?? null,
+    cancelledAt: transfer.cancelledAt ?? null,
+    cutoffAt: transferCutoff(event)
+  };
+}
+
+/**
+ * Emails without holding up the response (sends are retried with backoff)
+ */
+function emailInBackground(log: FastifyBaseLogger, send: () => Promise<boolean>, description: string): void {
+  send().catch((error) => {
+    log.error({ err: error }, `Failed to email ${description}`);
+  });
+}
+
+export async function transferRoutes(app: FastifyInstance): Promise<void> {
+  // Failed attempts per IP, shared by every transfer route
+  const throttle = new FailedLookupThrottle(ORDER_LOOKUP_MAX_FAILURES, ORDER_LOOKUP_WINDOW_MS);
+  
+  /**
+   * POST /api/orders/:orderId/tickets/:ticketId/transfers
+   * 
+   * Starts transferring a ticket. The recipient is emailed a code to
+   * accept it; until then the ticket and its QR code are unchanged.
+   * Starting a new transfer cancels a pending one for the same ticket.
+   * 
+   * Headers:
+   *   X-Order-Access-Token: the buyer's orderAccessToken, or the
+   *   holderAccessToken if the ticket was transferred before
+   * 
+   * Request body:
+   * {
+   *   "email": string (the recipient)
+   * }
+   * 
+   * Response (201):
+   * {
+   *   "transferId": "trf_...",
+   *   "ticketId": string,
+   *   "toEmail": string,
+   *   "status": "pending",
+   *   "createdAt": ISO date,
+   *   "acceptedAt": null,
+   *   "cancelledAt": null,
+   *   "cutoffAt": ISO date (the recipient must accept before this)
+   * }
+   * 
+   * Response (403): not the ticket's current holder
+   * Response (409): ticket used or cancelled, or transfers closed
+   */
+  app.post<{ Params: TicketParams; Body: StartTransferBody }>('/api/orders/:orderId/tickets/:ticketId/transfers', async (request, reply) => {
+    const language = requestLanguage(request);
+    const text = apiText(language);
+    const validationResult = startTransferSchema.safeParse(request.body ?? {});
+    
+    if (!validationResult.success) {
+      return reply.status(400).send(validationErrorResponse(validationResult.error, language));
+    }
+    
+    const held = await loadHeldTicket(app, throttle, request);
+    
+    if (!held.ok) {
+      if (held.retryAfterSeconds !== undefined) {
+        reply.header('Retry-After', held.retryAfterSeconds.toString());
+      }
+      return reply.status(held.statusCode).send(held.response);
+    }
+    
+    const { order, ticket, event } = held;
+    const { email } = validationResult.data;
+    const fromEmail = ticketHolderEmail(order, ticket);
+    
+    if (fromEmail?.toLowerCase() === email) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: [{ field: 'email', message: text.validation.alreadyTicketHolder }]
+      });
+    }
+    
+    const reason = transferBlockReason(order, ticket, event);
+    
+    if (reason) {
+      return reply.status(409).send({
+        error: 'Ticket cannot be transferred',
+        reason,
+        message: text.transferBlocked[reason]
+      });
+    }
+    
+    // Only the recipient gets the code; the transfer keeps its hash
+    const acceptToken = createAccessToken();
+    const transfer: TicketTransfer = {
+      transferId: generateTransferId(),
+      ticketId: ticket.ticketId,
+      fromEmail,
+      toEmail: email,
+      status: 'pending',
+      acceptTokenHash: acceptToken.hash,
+      createdAt: new Date()
+    };
+    
+    const updated = await app.orderStore.startTransfer(order.orderId, transfer, customerActor(fromEmail));
+    
+    if (!updated) {
+      // The ticket was used or refunded in the meantime
+      return reply.status(409).send({
+        error: 'Ticket cannot be transferred',
+        message: text.ticketNoLongerTransferable
+      });
+    }
+    
+    emailInBackground(
+      request.log,
+      () => deliverTransferOffer(app.mailTransport, updated, transfer, acceptToken.token, event),
+      `transfer offer ${transfer.transferId}`
+    );
+    
+    return reply.status(201).send(toTransferResponse(transfer, event));
+  });
+  
+  /**
+   * DELETE /api/orders/:orderId/tickets/:ticketId/transfers/:transferId
+   * 
+   * Withdraws a pending transfer. The emailed code stops working.
+   * 
+   * Headers:
+   *   X-Order-Access-Token: same as starting the transfer
+   * 
+   * Response: the transfer, with status "cancelled"
+   * Response (404): no such transfer of this ticket
+   * Response (409): the transfer was already accepted or cancelled
+   */
+  app.delete('/api/orders/:orderId/tickets/:ticketId/transfers/:transferId', async (
+    request: FastifyRequest<{ Params: TicketTransferParams }>,
+    reply
+  ) => {
+    const text = apiText(requestLanguage(request));
+    const held = await loadHeldTicket(app, throttle, request);
+    
+    if (!held.ok) {
+      if (held.retryAfterSeconds !== undefined) {
+        reply.header('Retry-After', held.retryAfterSeconds.toString());
+      }
+      return reply.status(held.statusCode).send(held.response);
+    }
+    
+    const { order, ticket, event } = held;
+    const { transferId } = request.params;
+    const transfer = order.transfers.find(t => t.transferId === transferId && t.ticketId === ticket.ticketId);
+    
+    if (!transfer) {
+      return reply.status(404).send({
+        error: 'Transfer not found',
+        message: text.transferNotFound
+      });
+    }
+    
+    const updated = await app.orderStore.cancelTransfer(order.orderId, transferId, customerActor(ticketHolderEmail(order, ticket)));
+    const cancelled = updated?.transfers.find(t => t.transferId === transferId);
+    
+    if (!cancelled) {
+      return reply.status(409).send({
+        error: 'Transfer cannot be cancelled',
+        message: transfer.status === 'pending' ? text.transferNoLongerPending : text.transferClosed[transfer.status]
+      });
+    }
+    
+    request.log.info({ transferId, ticketId: ticket.ticketId }, 'Transfer cancelled by the ticket holder');
+    
+    return reply.status(200).send(toTransferResponse(cancelled, event));
+  });
+  
+  /**
+   * POST /api/transfers/:transferId/accept
+   * 
+   * Accepts a transfer with the code emailed to the recipient.
+   * The ticket gets a new QR code (the sender's stops working) and
+   * is emailed to the recipient.
+   * 
+   * Request body:
+   * {
+   *   "code": string (from the transfer email),
+   *   "attendeeName": string (optional, cleared if missing)
+   * }
+   * 
+   * Response:
+   * {
+   *   "orderId": string,
+   *   "holderAccessToken": string (keep it: it opens and transfers this ticket from now on),
+   *   "ticket": { same fields as a ticket in GET /api/orders/:orderId/qr }
+   * }
+   * 
+   * Response (403): wrong code
+   * Response (404): no such transfer
+   * Response (409): the transfer was cancelled or already accepted, the
+   *   ticket was used or refunded, or transfers are closed
+   */
+  app.post<{ Params: TransferParams; Body: AcceptTransferBody }>('/api/transfers/:transferId/accept', async (request, reply) => {
+    const language = requestLanguage(request);
+    const text = apiText(language);
+    const validationResult = acceptTransferSchema.safeParse(request.body ?? {});
+    
+    if (!validationResult.success) {
+      return reply.status(400).send(validationErrorResponse(validationResult.error, language));
+    }
+    
+    const refused = throttled(throttle, request);
+    
+    if (refused) {
+      return reply
+        .status(refused.statusCode)
+        .header('Retry-After', refused.retryAfterSeconds.toString())
+        .send(refused.response);
+    }
+    
+    const { transferId } = request.params;
+    const { code, attendeeName } = validationResult.data;
+    const order = await app.orderStore.getOrderByTransferId(transferId);
+    const transfer = order?.transfers.find(t => t.transferId === transferId);
+    const ticket = order?.tickets.find(t => t.ticketId === transfer?.ticketId);
+    
+    if (!order || !transfer || !ticket) {
+      throttle.recordFailure(request.ip);
+      return reply.status(404).send({
+        error: 'Transfer not found',
+        message: text.transferNotFound
+      });
+    }
+    
+    if (!verifyAccessToken(transfer.acceptTokenHash, code)) {
+      throttle.recordFailure(request.ip);
+      request.log.warn({ transferId }, 'Wrong transfer code');
+      return reply.status(403).send({
+        error: 'Invalid transfer code',
+        message: text.invalidTransferCode
+      });
+    }
+    
+    if (transfer.status !== 'pending') {
+      return reply.status(409).send({
+        error: 'Transfer cannot be accepted',
+        reason: transfer.status,
+        message: text.transferClosed[transfer.status]
+      });
+    }
+    
+    const event = await app.eventCatalog.getEvent(order.eventId);
+    
+    if (!event) {
+      request.log.error({ orderId: order.orderId, eventId: order.eventId }, 'Event missing from catalog');
+      return reply.status(500).send({
+        error: 'Failed to transfer ticket',
+        message: text.transferFailed
+      });
+    }
+    
+    const reason = transferBlockReason(order, ticket, event);
+    
+    if (reason) {
+      return reply.status(409).send({
+        error: 'Transfer cannot be accepted',
+        reason,
+        message: text.transferBlocked[reason]
+      });
+    }
+    
+    // The new QR token replaces the old one in the same write
+    const holderToken = createAccessToken();
+    const updated = await app.orderStore.acceptTransfer(order.orderId, transferId, {
+      qrToken: generateQRToken(),
+      holderTokenHash: holderToken.hash,
+      attendeeName
+    }, customerActor(transfer.toEmail));
+    const transferred = updated?.tickets.find(t => t.ticketId === ticket.ticketId);
+    
+    if (!updated || !transferred) {
+      // Cancelled, replaced, used or refunded in the meantime
+      return reply.status(409).send({
+        error: 'Transfer cannot be accepted',
+        message: text.transferNoLongerPending
+      });
+    }
+    
+    request.log.info({ transferId, ticketId: transferred.ticketId }, 'Ticket transferred');
+    
+    emailInBackground(
+      request.log,
+      () => deliverTransferredTicket(app.mailTransport, updated, transferred, event),
+      `transferred ticket ${transferred.ticketId}`
+    );
+    
+    const qrPayload = createSignedTicketCode(updated, transferred, event);
+    
+    return reply.status(200).send({
+      orderId: updated.orderId,
+      holderAccessToken: holderToken.token,
+      ticket: {
+        ticketId: transferred.ticketId,
+        ticketTypeId: transferred.ticketTypeId,
+        name: findTicketType(event, transferred.ticketTypeId)?.name || transferred.ticketTypeId,
+        attendeeName: transferred.attendeeName ?? null,
+        status: transferred.status,
+        qrToken: transferred.qrToken,
+        qrPayload,
+        qrImageDataUrl: await generateQRCodeDataUrl(qrPayload)
+      }
+    });
+  });
+}
@@ -1,19 +1,49 @@
 /**
- * Stripe Webhook Routes
+ * Payment Webhook Routes
  * 
- * Handles webhook events from Stripe.
+ * Handles webhook events from the payment gateway (Stripe).
  * 
  * CRITICAL SECURITY NOTES:
  * 1. The webhook signature MUST be verified using the RAW request body
  * 2. Never parse the body as JSON before verification
  * 3. This route uses a special "raw" content type parser
+ * 
+ * Handlers log through the logger they are given (the webhook
+ * request's, so every line carries its reqId). Each delivery is timed
+ * in webhook_duration_seconds, failures are counted in
+ * webhook_failures_total, and new orders in tickets_sold_total and
+ * ticket_revenue_cents_total.
+ * 
+ * Order changes are recorded in the order's audit log with the
+ * webhook event's ID as the actor.
  */
 
-import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { verifyWebhookSignature } from '../plugins/stripe.js';
-import { orderStore } from '../services/inMemoryOrderStore.js';
+import { FastifyBaseLogger, FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Order, OrderActor, OrderItem, OrderStore } from '../services/orderStore.js';
+import { InventoryStore } from '../services/inventoryStore.js';
+import { PromoStore, normalizeCustomerKey } from '../services/promoStore.js';
+import { EventCatalog } from '../services/eventCatalog.js';
+import { parseLanguage } from '../services/language.js';
+import { orderTotalsFromMetadata } from '../services/pricingService.js';
+import { MailTransport } from '../services/mailTransport.js';
+import { WebhookEventRecord } from '../services/webhookEventStore.js';
+import { OrderEventBus } from '../services/orderEventBus.js';
+import { GatewayEvent, PaymentDetails, PaymentEvent, PaymentGateway } from '../services/paymentGateway.js';
+import { deliverTickets } from '../services/notificationService.js';
+import { toOrderRefund } from '../services/refundService.js';
 import { generateQRToken } from '../services/qrService.js';
-import Stripe from 'stripe';
+import { issueTickets } from '../services/ticketService.js';
+import { attendeeNamesFromMetadata } from '../services/buyerService.js';
+import { webhookActor } from '../services/orderAuditService.js';
+
+// Failed attempts before an event is dead-lettered (default: 5)
+const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5', 10);
+
+// Payment events handled below
+type ChargeRefundedEvent = Extract<PaymentEvent, { type: 'charge_refunded' }>;
+type DisputeCreatedEvent = Extract<PaymentEvent, { type: 'dispute_created' }>;
+type DisputeClosedEvent = Extract<PaymentEvent, { type: 'dispute_closed' }>;
+type CheckoutExpiredEvent = Extract<PaymentEvent, { type: 'checkout_expired' }>;
 
 export async function webhookRoutes(app: FastifyInstance): Promise<void> {
   // Add a content type parser for raw bodies
@@ -30,98 +60,498 @@ export async function webhookRoutes(app: FastifyInstance): Promise<void> {
    * POST /api/webhooks/stripe
    * 
    * Receives webhook events from Stripe.
-   * Currently handles: payment_intent.succeeded
+   * Currently handles:
+   * - payment_intent.succeeded
+   * - payment_intent.payment_failed / payment_intent.canceled (release held tickets)
+   * - charge.refunded (remove refunded tickets, cancel when fully refunded)
+   * - charge.dispute.created / charge.dispute.closed (cancel / reinstate)
+   * - checkout.session.completed / checkout.session.async_payment_succeeded
+   *   (same as payment_intent.succeeded for the session's PaymentIntent)
+   * - checkout.session.expired (release held tickets)
    * 
-   * IMPORTANT: Always return 200 quickly to acknowledge receipt.
-   * Stripe will retry failed webhooks, so we need idempotency.
+   * Every verified event is stored in the webhook event log first.
+   * If handling fails we answer 500, so Stripe delivers the event
+   * again; after WEBHOOK_MAX_ATTEMPTS failures it is dead-lettered
+   * and only an admin replay handles it (see routes/admin.ts).
+   * Stripe delivers events at least once, so handlers are idempotent.
    */
   app.post('/api/webhooks/stripe', async (
     request: FastifyRequest,
     reply: FastifyReply
   ) => {
+    const stopTimer = app.metrics.webhookDuration.startTimer();
+    
     // Get the raw body (Buffer) - not parsed JSON
     const rawBody = request.body as Buffer;
     
-    // Get the Stripe signature header
-    const signature = request.headers['stripe-signature'] as string;
-    
-    if (!signature) {
-      console.error('[Webhook] Missing stripe-signature header');
-      return reply.status(400).send({ error: 'Missing stripe-signature header' });
-    }
-    
-    let event: Stripe.Event;
+    let event: GatewayEvent;
     
     try {
       // Verify the webhook signature
       // This will throw if verification fails
-      event = verifyWebhookSignature(rawBody, signature);
+      event = app.paymentGateway.verifyWebhook(rawBody, request.headers);
     } catch (error) {
-      console.error('[Webhook] Signature verification failed:', error);
+      request.log.warn({ err: error }, 'Webhook signature verification failed');
+      stopTimer({ event_type: 'invalid_signature' });
       return reply.status(400).send({ error: 'Webhook signature verification failed' });
     }
     
-    console.log(`[Webhook] Received event: ${event.type} (${event.id})`);
+    const record = await receiveWebhookEvent(app, event, rawBody.toString('utf8'), request.log);
+    stopTimer({ event_type: event.type });
     
-    // Handle specific event types
-    switch (event.type) {
-      case 'payment_intent.succeeded':
-        await handlePaymentIntentSucceeded(event.data.object as Stripe.PaymentIntent);
-        break;
-        
-      // Add more event handlers as needed
-      default:
-        console.log(`[Webhook] Unhandled event type: ${event.type}`);
+    // A failure makes Stripe deliver the event again later
+    if (record?.status === 'failed') {
+      return reply.status(500).send({ error: 'Webhook processing failed' });
     }
     
-    // Always return 200 to acknowledge receipt
     return reply.status(200).send({ received: true });
   });
 }
 
 /**
- * Handles the payment_intent.succeeded event.
+ * Stores a verified gateway event in the webhook event log and
+ * handles it, unless it was handled before or is dead-lettered.
+ * Also used by the fake gateway's dev endpoints.
+ * 
+ * @param app - The app, for its stores and services
+ * @param event - The verified event
+ * @param payload - The event as received, kept for replays
+ * @param log - Where to log (the calling request's logger)
+ * @returns The event's log entry
+ */
+export async function receiveWebhookEvent(
+  app: FastifyInstance,
+  event: GatewayEvent,
+  payload: string,
+  log: FastifyBaseLogger = app.log
+): Promise<WebhookEventRecord | null> {
+  log = log.child({ webhookEventId: event.id, webhookEventType: event.type });
+  log.info('Webhook event received');
+  
+  // Log the event before handling it, so a failure is never lost
+  const record = await app.webhookEventStore.recordEvent({
+    eventId: event.id,
+    type: event.type,
+    payload,
+    receivedAt: new Date()
+  });
+  
+  // Events are delivered at least once
+  if (record.status === 'processed') {
+    log.info('Webhook event already processed (idempotency)');
+    return record;
+  }
+  
+  // Stop the retries; an admin replays it once the problem is fixed
+  if (record.status === 'dead_letter') {
+    log.info('Webhook event is dead-lettered, waiting for an admin replay');
+    return record;
+  }
+  
+  return processWebhookEvent(app, event, log);
+}
+
+/**
+ * Handles a verified gateway event and records the outcome in the
+ * webhook event log. Also used by the admin replay endpoint.
+ * 
+ * @param app - The app, for its stores and services
+ * @param event - The event (already stored in the webhook event log)
+ * @param log - Where to log (the calling request's logger)
+ * @returns The event's log entry after this attempt
+ */
+export async function processWebhookEvent(
+  app: FastifyInstance,
+  event: GatewayEvent,
+  log: FastifyBaseLogger = app.log
+): Promise<WebhookEventRecord | null> {
+  try {
+    await handlePaymentEvent(app, event, log);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const record = await app.webhookEventStore.markFailed(event.id, message, WEBHOOK_MAX_ATTEMPTS);
+    
+    app.metrics.webhookFailures.inc({ event_type: event.type });
+    log.error({ err: error, attempts: record?.attempts, status: record?.status }, 'Webhook event failed to process');
+    return record;
+  }
+  
+  return app.webhookEventStore.markProcessed(event.id);
+}
+
+/**
+ * Routes a payment event to its handler
+ */
+async function handlePaymentEvent(app: FastifyInstance, gatewayEvent: GatewayEvent, log: FastifyBaseLogger): Promise<void> {
+  const event = gatewayEvent.data;
+  const actor = webhookActor(gatewayEvent.id);
+  
+  switch (event.type) {
+    case 'payment_succeeded': {
+      const order = await handlePaymentIntentSucceeded(
+        app.orderStore,
+        app.inventoryStore,
+        app.promoStore,
+        event.payment,
+        actor,
+        log
+      );
+      if (order) {
+        recordSale(app, order);
+        emailTicketsInBackground(app.eventCatalog, app.mailTransport, order, log);
+      }
+      break;
+    }
+    
+    case 'payment_failed':
+      await handlePaymentIntentEnded(app.inventoryStore, app.orderEvents, event.payment, event.final, log);
+      break;
+    
+    case 'charge_refunded':
+      await handleChargeRefunded(app.orderStore, app.eventCatalog, app.paymentGateway, event, actor, log);
+      break;
+    
+    case 'dispute_created':
+      await handleDisputeCreated(app.orderStore, event, actor, log);
+      break;
+    
+    case 'dispute_closed':
+      await handleDisputeClosed(app.orderStore, event, actor, log);
+      break;
+    
+    case 'checkout_expired':
+      await handleCheckoutExpired(app.inventoryStore, app.orderEvents, app.paymentGateway, event, log);
+      break;
+    
+    // Add more event handlers as needed
+    case 'ignored':
+      log.info('Unhandled webhook event type');
+  }
+}
+
+/**
+ * Counts a new order's tickets and revenue in the sales metrics
+ */
+function recordSale(app: FastifyInstance, order: Order): void {
+  for (const item of order.items) {
+    app.metrics.ticketsSold.inc({ event_id: order.eventId, ticket_type: item.ticketTypeId }, item.quantity);
+  }
+  
+  if (order.totals) {
+    app.metrics.revenue.inc({ event_id: order.eventId, currency: order.totals.currency }, order.totals.total);
+  }
+}
+
+/**
+ * Handles the payment_intent.succeeded event, and the completed
+ * Checkout Session that paid for a PaymentIntent (whichever comes
+ * first creates the order; the other finds it already processed).
  * 
  * This is where we:
  * 1. Check if we've already processed this payment (idempotency)
- * 2. Generate a QR token
- * 3. Store the order
+ * 2. Turn the inventory hold into a sale
+ * 3. Count the promo code redemption (if a code was used)
+ * 4. Issue one ticket (with its own QR token) per attendee
+ * 5. Store the order, which marks the payment as processed
+ * 
+ * Steps 2 and 3 are safe to repeat, so if we crash before the order
+ * is stored, the retried event simply does everything again.
+ * 
+ * @returns The new order, or null if it was already processed
  */
-async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent): Promise<void> {
-  const paymentIntentId = paymentIntent.id;
+async function handlePaymentIntentSucceeded(
+  orderStore: OrderStore,
+  inventoryStore: InventoryStore,
+  promoStore: PromoStore,
+  paymentIntent: PaymentDetails,
+  actor: OrderActor,
+  log: FastifyBaseLogger
+): Promise<Order | null> {
+  const paymentIntentId = paymentIntent.paymentIntentId;
   
-  console.log(`[Webhook] Processing payment_intent.succeeded: ${paymentIntentId}`);
+  log.info({ paymentIntentId }, 'Processing successful payment');
   
   // IDEMPOTENCY CHECK: Have we already processed this PaymentIntent?
   const alreadyProcessed = await orderStore.isPaymentIntentProcessed(paymentIntentId);
   
   if (alreadyProcessed) {
-    console.log(`[Webhook] PaymentIntent already processed (idempotency): ${paymentIntentId}`);
-    return;
+    log.info({ paymentIntentId }, 'PaymentIntent already processed (idempotency)');
+    return null;
   }
   
-  // Mark as processed BEFORE doing anything else
-  // This prevents race conditions with duplicate webhooks
-  await orderStore.markPaymentIntentProcessed(paymentIntentId);
-  
   // Extract metadata from PaymentIntent
-  const metadata = paymentIntent.metadata;
-  const femaleQty = parseInt(metadata.femaleQty || '0', 10);
-  const maleQty = parseInt(metadata.maleQty || '0', 10);
+  const { eventId, items } = parseOrderMetadata(paymentIntent.metadata);
+  const { promoCode, customerEmail, customerName, customerPhone, language } = paymentIntent.metadata;
+  
+  // The tickets are now sold for good
+  await inventoryStore.convertHoldToSale({
+    holdId: paymentIntent.metadata.holdId,
+    orderId: paymentIntentId,
+    eventId,
+    items
+  });
+  
+  // Only paid orders count towards promo code limits
+  if (promoCode) {
+    await promoStore.recordRedemption({
+      code: promoCode,
+      paymentIntentId,
+      customerKey: customerEmail ? normalizeCustomerKey(customerEmail) : undefined,
+      redeemedAt: new Date()
+    });
+  }
   
-  // Generate a secure QR token
+  // Order-wide token (never shown to the buyer - each ticket has its own)
   const qrToken = generateQRToken();
+  const tickets = issueTickets(items, attendeeNamesFromMetadata(paymentIntent.metadata));
   
-  // Store the order
-  await orderStore.saveOrder({
+  // A paid order's ID is its PaymentIntent ID (see Order)
+  const order: Order = {
+    orderId: paymentIntentId,
+    source: 'paid',
     paymentIntentId,
     qrToken,
     status: 'valid',
     createdAt: new Date(),
-    femaleQty,
-    maleQty
+    eventId,
+    items,
+    tickets,
+    refunds: [],
+    transfers: [],
+    promoCode: promoCode || undefined,
+    email: customerEmail || undefined,
+    buyerName: customerName || undefined,
+    buyerPhone: customerPhone || undefined,
+    language: parseLanguage(language),
+    // What was actually charged, with the breakdown quoted at checkout
+    totals: orderTotalsFromMetadata(paymentIntent.metadata, items, paymentIntent),
+    accessTokenHash: paymentIntent.metadata.accessTokenHash || undefined
+  };
+  
+  // Store the order and mark the payment as processed, in one write.
+  // A duplicate delivery processed at the same time loses here.
+  const saved = await orderStore.saveOrder(order, actor);
+  
+  if (!saved) {
+    log.info({ paymentIntentId }, 'PaymentIntent already processed (idempotency)');
+    return null;
+  }
+  
+  log.info({ paymentIntentId, eventId, ticketIds: tickets.map(ticket => ticket.ticketId) }, 'Order created');
+  
+  return order;
+}
+
+/**
+ * Emails a new order's tickets without holding up the webhook response.
+ * Stripe only waits a few seconds for us, and sends are retried with backoff.
+ */
+function emailTicketsInBackground(
+  eventCatalog: EventCatalog,
+  mailTransport: MailTransport,
+  order: Order,
+  log: FastifyBaseLogger
+): void {
+  const { orderId, eventId } = order;
+  
+  eventCatalog.getEvent(eventId)
+    .then(async (event) => {
+      if (!event) {
+        log.error({ orderId, eventId }, 'Event missing from catalog - tickets not emailed');
+        return;
+      }
+      await deliverTickets(mailTransport, order, event);
+    })
+    .catch((error) => {
+      log.error({ err: error, orderId }, 'Failed to email tickets');
+    });
+}
+
+/**
+ * Handles payment_intent.payment_failed and payment_intent.canceled.
+ * 
+ * Releases the tickets held at checkout so someone else can buy them.
+ * If the customer retries and the payment later succeeds, the sale is
+ * still recorded (see InventoryStore.convertHoldToSale).
+ * 
+ * Buyers waiting on the order event stream are told right away.
+ */
+async function handlePaymentIntentEnded(
+  inventoryStore: InventoryStore,
+  orderEvents: OrderEventBus,
+  paymentIntent: PaymentDetails,
+  final: boolean,
+  log: FastifyBaseLogger
+): Promise<void> {
+  const { paymentIntentId } = paymentIntent;
+  
+  orderEvents.publish(paymentIntentId, {
+    type: 'payment_failed',
+    message: paymentIntent.failureMessage,
+    final
   });
   
-  console.log(`[Webhook] Order created for PaymentIntent: ${paymentIntentId}`);
-  console.log(`[Webhook] QR Token (first 8 chars): ${qrToken.substring(0, 8)}...`);
+  const holdId = paymentIntent.metadata.holdId;
+  
+  if (!holdId) {
+    log.info({ paymentIntentId }, 'No inventory hold to release');
+    return;
+  }
+  
+  const released = await inventoryStore.releaseHold(holdId);
+  
+  log.info({ paymentIntentId, holdId, released }, final ? 'PaymentIntent canceled' : 'PaymentIntent failed');
+}
+
+/**
+ * Handles checkout.session.expired.
+ * 
+ * Releases the tickets held for the session, like a canceled
+ * PaymentIntent, and has the gateway delete the discount it made for
+ * the session. Buyers waiting on the order event stream of the
+ * session's PaymentIntent (if the customer got that far) are told.
+ */
+async function handleCheckoutExpired(
+  inventoryStore: InventoryStore,
+  orderEvents: OrderEventBus,
+  paymentGateway: PaymentGateway,
+  session: CheckoutExpiredEvent,
+  log: FastifyBaseLogger
+): Promise<void> {
+  const { sessionId, paymentIntentId } = session;
+  
+  if (paymentIntentId) {
+    orderEvents.publish(paymentIntentId, { type: 'payment_failed', message: null, final: true });
+  }
+  
+  await paymentGateway.discardCheckoutSession(sessionId);
+  
+  const holdId = session.metadata.holdId;
+  
+  if (!holdId) {
+    log.info({ sessionId }, 'No inventory hold to release');
+    return;
+  }
+  
+  const released = await inventoryStore.releaseHold(holdId);
+  
+  log.info({ sessionId, paymentIntentId, holdId, released }, 'Checkout session expired');
+}
+
+/**
+ * Handles the charge.refunded event (full or partial refund).
+ * 
+ * The charge does not say which refund was just made, so we list
+ * every refund of the PaymentIntent and apply the ones the order
+ * has not seen yet. Applying a refund twice is a no-op, so refunds
+ * made through our admin API are safe to see again here.
+ */
+async function handleChargeRefunded(
+  orderStore: OrderStore,
+  eventCatalog: EventCatalog,
+  paymentGateway: PaymentGateway,
+  charge: ChargeRefundedEvent,
+  actor: OrderActor,
+  log: FastifyBaseLogger
+): Promise<void> {
+  const { paymentIntentId } = charge;
+  const order = paymentIntentId ? await orderStore.getOrderByPaymentIntentId(paymentIntentId) : null;
+  
+  if (!paymentIntentId || !order) {
+    log.info({ chargeId: charge.chargeId }, 'No order to refund for charge');
+    return;
+  }
+  
+  const event = await eventCatalog.getEvent(order.eventId);
+  const refunds = await paymentGateway.listRefunds(paymentIntentId);
+  
+  for (const refund of refunds) {
+    if (refund.status === 'failed' || refund.status === 'canceled') {
+      continue;
+    }
+    
+    // Re-read the order so amount-based refunds see what earlier ones removed
+    const current = await orderStore.getOrderByPaymentIntentId(paymentIntentId);
+    if (current && !current.refunds.some(r => r.refundId === refund.refundId)) {
+      await orderStore.applyRefund(current.orderId, toOrderRefund(refund, current, event), actor);
+    }
+  }
+  
+  // Fully refunded: nobody gets in, whatever rounding left on the order
+  if (charge.fullyRefunded) {
+    await orderStore.cancelOrder(order.orderId, 'refunded', actor);
+  }
+  
+  log.info({ paymentIntentId, amountRefunded: charge.amountRefunded, amount: charge.amount }, 'Refunds synced');
+}
+
+/**
+ * Handles the charge.dispute.created event.
+ * A disputed payment may be clawed back, so its tickets stop working.
+ */
+async function handleDisputeCreated(
+  orderStore: OrderStore,
+  dispute: DisputeCreatedEvent,
+  actor: OrderActor,
+  log: FastifyBaseLogger
+): Promise<void> {
+  const { paymentIntentId, disputeId } = dispute;
+  
+  if (!paymentIntentId) {
+    log.info({ disputeId }, 'No PaymentIntent on dispute');
+    return;
+  }
+  
+  // The disputed order's ID is its PaymentIntent ID
+  const order = await orderStore.cancelOrder(paymentIntentId, 'disputed', actor);
+  
+  log.info({ paymentIntentId, disputeId, orderCancelled: order !== null }, 'Dispute opened');
+}
+
+/**
+ * Handles the charge.dispute.closed event.
+ * If we won the dispute, the tickets work again.
+ */
+async function handleDisputeClosed(
+  orderStore: OrderStore,
+  dispute: DisputeClosedEvent,
+  actor: OrderActor,
+  log: FastifyBaseLogger
+): Promise<void> {
+  const { paymentIntentId, disputeId } = dispute;
+  
+  if (!paymentIntentId || !dispute.won) {
+    log.info({ paymentIntentId, disputeId, disputeStatus: dispute.status }, 'Dispute closed, order stays cancelled');
+    return;
+  }
+  
+  // The order's ID is its PaymentIntent ID
+  const order = await orderStore.reinstateOrder(paymentIntentId, actor);
+  
+  log.info({ paymentIntentId, disputeId, orderStatus: order?.status ?? null }, 'Dispute won');
+}
+
+/**
+ * Reads the event and ticket items from PaymentIntent metadata.
+ * 
+ * PaymentIntents created before the event catalog existed only carry
+ * femaleQty/maleQty, which map to the default event's ticket types.
+ */
+function parseOrderMetadata(metadata: Record<string, string>): { eventId: string; items: OrderItem[] } {
+  if (metadata.items) {
+    return {
+      eventId: metadata.eventId || 'default',
+      items: JSON.parse(metadata.items) as OrderItem[]
+    };
+  }
+  
+  const legacyItems: OrderItem[] = [
+    { ticketTypeId: 'female', quantity: parseInt(metadata.femaleQty || '0', 10) },
+    { ticketTypeId: 'male', quantity: parseInt(metadata.maleQty || '0', 10) }
+  ];
+  
+  return {
+    eventId: 'default',
+    items: legacyItems.filter(item => item.quantity > 0)
+  };
 }
\ No newline at end of file
@@ -0,0 +1,72 @@
+/**
+ * API Key Store Interface
+ * 
+ * Defines the contract for storing the API keys staff authenticate with.
+ * 
+ * A key is only ever shown once, when it is created. The store keeps a
+ * SHA-256 hash of it (see authService.ts), so a leaked database does
+ * not leak working keys. Revoked keys are kept for the record.
+ */
+
+/**
+ * What a key may do:
+ * - admin: everything under /api/admin, including managing keys
+ * - door: check tickets in (optionally for one event only)
+ * - readonly: read orders, promo codes, webhook events, sales reports and metrics
+ */
+export const ROLES = ['admin', 'door', 'readonly'] as const;
+
+export type Role = typeof ROLES[number];
+
+/**
+ * An API key (without the key itself)
+ */
+export interface ApiKey {
+  keyId: string;        // Public ID, for listing and revoking (e.g. key_1a2b...)
+  name: string;         // Who or what uses it (e.g. "Door scanner 1")
+  role: Role;
+  eventId?: string;     // Door keys only: the one event it can check in for (all if missing)
+  keyHash: string;      // Hex SHA-256 of the key
+  createdAt: Date;
+  lastUsedAt?: Date;    // Last successful authentication
+  revokedAt?: Date;     // Set once revoked; the key stops working
+}
+
+/**
+ * Interface for API key storage operations.
+ */
+export interface ApiKeyStore {
+  /**
+   * Store a new key
+   * @param apiKey - The key, with its hash
+   */
+  createKey(apiKey: ApiKey): Promise<void>;
+  
+  /**
+   * Find a key by the hash of what the caller sent
+   * @param keyHash - Hex SHA-256 of the key
+   * @returns The key (revoked or not) if found, null otherwise
+   */
+  getKeyByHash(keyHash: string): Promise<ApiKey | null>;
+  
+  /**
+   * List every key, newest first
+   * @returns The keys, revoked ones included
+   */
+  listKeys(): Promise<ApiKey[]>;
+  
+  /**
+   * Revoke a key
+   * @param keyId - The key's ID
+   * @param revokedAt - When it was revoked
+   * @returns The revoked key, or null if not found (a key already revoked is returned unchanged)
+   */
+  revokeKey(keyId: string, revokedAt: Date): Promise<ApiKey | null>;
+  
+  /**
+   * Record that a key was just used
+   * @param keyId - The key's ID
+   * @param usedAt - When
+   */
+  recordUse(keyId: string, usedAt: Date): Promise<void>;
+}
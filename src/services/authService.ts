@@ -0,0 +1,80 @@
+/**
+ * Auth Service
+ * 
+ * Creates staff API keys and describes who a key belongs to.
+ * 
+ * Keys look like tk_<random>. Only a SHA-256 hash is stored (the same
+ * hashing as order access tokens, see orderAccessService.ts): the key
+ * itself is shown once, when it is created.
+ */
+
+import crypto from 'node:crypto';
+import { ApiKey, Role } from './apiKeyStore.js';
+import { hashAccessToken } from './orderAccessService.js';
+
+// Prefix of every API key, so a leaked one is easy to recognize
+const API_KEY_PREFIX = 'tk_';
+
+/**
+ * Who made an authenticated request
+ */
+export interface Principal {
+  keyId: string;      // The key used ("bootstrap" for ADMIN_API_KEY)
+  name: string;
+  role: Role;
+  eventId?: string;   // Door keys scoped to one event
+}
+
+// The ADMIN_API_KEY environment variable, which works as an admin key
+export const BOOTSTRAP_PRINCIPAL: Principal = {
+  keyId: 'bootstrap',
+  name: 'ADMIN_API_KEY',
+  role: 'admin'
+};
+
+/**
+ * Generates a new API key
+ * 
+ * @param details - Who the key is for, its role and (door keys) its event
+ * @returns The record to store and the key to hand out (once)
+ */
+export function generateApiKey(
+  details: { name: string; role: Role; eventId?: string },
+  createdAt: Date = new Date()
+): { apiKey: ApiKey; key: string } {
+  const key = API_KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+  
+  return {
+    key,
+    apiKey: {
+      keyId: `key_${crypto.randomBytes(8).toString('hex')}`,
+      name: details.name,
+      role: details.role,
+      eventId: details.eventId,
+      keyHash: hashApiKey(key),
+      createdAt
+    }
+  };
+}
+
+/**
+ * Hashes an API key, to look it up
+ * 
+ * @param key - The key the caller sent
+ * @returns Hex SHA-256 of the key
+ */
+export function hashApiKey(key: string): string {
+  return hashAccessToken(key);
+}
+
+/**
+ * Describes the holder of a stored key
+ */
+export function principalFromKey(apiKey: ApiKey): Principal {
+  return {
+    keyId: apiKey.keyId,
+    name: apiKey.name,
+    role: apiKey.role,
+    eventId: apiKey.eventId
+  };
+}
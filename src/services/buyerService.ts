@@ -0,0 +1,69 @@
+/**
+ * Buyer Service
+ * 
+ * Buyer and attendee details collected at checkout. Like the rest of
+ * the order, they travel in the payment metadata until the webhook
+ * stores them on the order.
+ */
+
+import { OrderItem } from './orderStore.js';
+
+// Phone numbers once normalized: 7-15 digits, optionally with a leading +
+export const PHONE_NUMBER_PATTERN = /^\+?[0-9]{7,15}$/;
+
+// Stripe refuses metadata values longer than this
+export const METADATA_VALUE_LIMIT = 500;
+
+/**
+ * Attendee names per ticket type, in ticket order
+ * (ticket type ID -> names; tickets past the end of the list have no name)
+ */
+export type AttendeeNames = Record<string, string[]>;
+
+/**
+ * Strips the formatting people type into phone numbers
+ * 
+ * @param phone - Phone number as typed (e.g. "+1 (514) 555-0123")
+ * @returns Digits only, keeping a leading + (e.g. "+15145550123")
+ */
+export function normalizePhoneNumber(phone: string): string {
+  return phone.trim().replace(/[\s().-]/g, '');
+}
+
+/**
+ * Collects the attendee names given with each checkout item
+ * 
+ * @param items - Checkout items, with optional attendee names
+ * @returns The names per ticket type (types without names are left out)
+ */
+export function collectAttendeeNames(items: Array<OrderItem & { attendeeNames?: string[] }>): AttendeeNames {
+  const names: AttendeeNames = {};
+  
+  for (const item of items) {
+    if (item.attendeeNames && item.attendeeNames.length > 0) {
+      names[item.ticketTypeId] = item.attendeeNames;
+    }
+  }
+  
+  return names;
+}
+
+/**
+ * Stores attendee names in payment metadata
+ * 
+ * @param names - The names per ticket type
+ * @returns Metadata entries (none if no names were given)
+ */
+export function attendeeNamesToMetadata(names: AttendeeNames): Record<string, string> {
+  return Object.keys(names).length > 0 ? { attendeeNames: JSON.stringify(names) } : {};
+}
+
+/**
+ * Reads attendee names back from payment metadata
+ * 
+ * @param metadata - PaymentIntent metadata
+ * @returns The names per ticket type (empty for payments without names)
+ */
+export function attendeeNamesFromMetadata(metadata: Record<string, string>): AttendeeNames {
+  return metadata.attendeeNames ? JSON.parse(metadata.attendeeNames) as AttendeeNames : {};
+}
@@ -0,0 +1,83 @@
+/**
+ * Checkout Session Service
+ * 
+ * Lays out a priced order as the lines of a hosted checkout page (see
+ * PaymentGateway.createCheckoutSession): one line per ticket type,
+ * the service fee and each sales tax, with the promo code discount
+ * taken off the whole. The lines less the discount are exactly the
+ * quoted total, so the page charges what create-intent would have.
+ * 
+ * The provider translates the page itself; only our line names are
+ * translated here.
+ */
+
+import { Language } from './language.js';
+import { CheckoutLineItem } from './paymentGateway.js';
+import { PricingResult } from './pricingService.js';
+
+/**
+ * Line names in one language
+ */
+interface CheckoutLineText {
+  ticket: (eventName: string, ticketTypeName: string) => string;
+  serviceFee: string;
+  tax: (code: string, rate: string) => string;
+  discount: (code: string) => string;
+}
+
+const CHECKOUT_LINE_TEXT: Record<Language, CheckoutLineText> = {
+  en: {
+    ticket: (eventName, ticketTypeName) => `${eventName}: ${ticketTypeName}`,
+    serviceFee: 'Service fee',
+    tax: (code, rate) => `${code} (${rate}%)`,
+    discount: (code) => `Promo code ${code}`
+  },
+  es: {
+    ticket: (eventName, ticketTypeName) => `${eventName}: ${ticketTypeName}`,
+    serviceFee: 'Cargo por servicio',
+    tax: (code, rate) => `${code} (${rate} %)`,
+    discount: (code) => `Código promocional ${code}`
+  },
+  'pt-BR': {
+    ticket: (eventName, ticketTypeName) => `${eventName}: ${ticketTypeName}`,
+    serviceFee: 'Taxa de serviço',
+    tax: (code, rate) => `${code} (${rate}%)`,
+    discount: (code) => `Cupom ${code}`
+  }
+};
+
+/**
+ * Builds the checkout page lines for a priced order
+ * 
+ * @param eventName - The event, named on each ticket line
+ * @param pricing - The order's pricing
+ * @param language - Language of the line names
+ * @returns The lines (lines with nothing to charge left out) and the discount, if any
+ */
+export function checkoutLineItems(
+  eventName: string,
+  pricing: PricingResult,
+  language: Language
+): { lineItems: CheckoutLineItem[]; discount?: { name: string; amount: number } } {
+  const text = CHECKOUT_LINE_TEXT[language];
+  const lineItems: CheckoutLineItem[] = pricing.lines.map(line => ({
+    name: text.ticket(eventName, line.name),
+    unitAmount: line.unitAmount,
+    quantity: line.quantity
+  }));
+  
+  if (pricing.fee > 0) {
+    lineItems.push({ name: text.serviceFee, unitAmount: pricing.fee, quantity: 1 });
+  }
+  
+  for (const tax of pricing.taxes.filter(tax => tax.amount > 0)) {
+    lineItems.push({ name: text.tax(tax.code, tax.rate.toLocaleString(language)), unitAmount: tax.amount, quantity: 1 });
+  }
+  
+  return {
+    lineItems,
+    discount: pricing.discount && pricing.discount.amount > 0
+      ? { name: text.discount(pricing.discount.code), amount: pricing.discount.amount }
+      : undefined
+  };
+}
@@ -0,0 +1,171 @@
+/**
+ * Comp Service
+ * 
+ * Complimentary tickets ("comps") for promoters' guest lists. An admin
+ * issues them one guest at a time or from a CSV of names and emails.
+ * Every guest gets an order of their own (source 'comp', ID comp_...),
+ * with tickets issued exactly like paid ones, so they are scanned,
+ * transferred and reissued the same way.
+ * 
+ * Comps take up capacity like a sale, but nothing was paid: they have
+ * no totals and no PaymentIntent, and stay out of revenue.
+ */
+
+import crypto from 'node:crypto';
+import { Language } from './language.js';
+import { Order } from './orderStore.js';
+import { generateQRToken } from './qrService.js';
+import { issueTickets } from './ticketService.js';
+
+// Prefix of every comp order ID (paid orders use their PaymentIntent ID)
+export const COMP_ORDER_PREFIX = 'comp_';
+
+/**
+ * A guest on the list, as given (validated by the route)
+ */
+export interface GuestRow {
+  name: string;
+  email: string;
+  quantity?: string;  // Tickets for this guest (CSV only; 1 if missing)
+}
+
+/**
+ * Generates a comp order ID
+ * 
+ * @returns An order ID like "comp_3f9a1c0e5b7d2468"
+ */
+export function generateCompOrderId(): string {
+  return `${COMP_ORDER_PREFIX}${crypto.randomBytes(8).toString('hex')}`;
+}
+
+/**
+ * Reads a guest list CSV.
+ * 
+ * The first row names the columns: name and email are required,
+ * quantity is optional (in any order, case-insensitive). Fields may
+ * be quoted ("Smith, Jane"). Blank lines are skipped.
+ * 
+ * @param csv - The CSV text
+ * @returns The guests (one per row, with the row's line number), or what is wrong with the header
+ */
+export function parseGuestCsv(
+  csv: string
+): { ok: true; guests: Array<GuestRow & { line: number }> } | { ok: false; message: string } {
+  const [header, ...rows] = parseCsvRecords(csv);
+  
+  if (!header) {
+    return { ok: false, message: 'CSV is empty' };
+  }
+  
+  const columns = header.fields.map(field => field.trim().toLowerCase());
+  const nameColumn = columns.indexOf('name');
+  const emailColumn = columns.indexOf('email');
+  const quantityColumn = columns.indexOf('quantity');
+  
+  if (nameColumn === -1 || emailColumn === -1) {
+    return { ok: false, message: 'The first row must name the columns, including name and email' };
+  }
+  
+  return {
+    ok: true,
+    guests: rows.map(row => ({
+      line: row.line,
+      name: row.fields[nameColumn] ?? '',
+      email: row.fields[emailColumn] ?? '',
+      quantity: quantityColumn === -1 ? undefined : row.fields[quantityColumn] || undefined
+    }))
+  };
+}
+
+/**
+ * Splits CSV text into records, minding quoted fields
+ * 
+ * @returns Non-blank records with the line each one starts on
+ */
+function parseCsvRecords(csv: string): Array<{ line: number; fields: string[] }> {
+  const records: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+  
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.some(value => value.trim() !== '')) {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+  
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+    
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') {
+          line++;
+        }
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRecord();
+      line++;
+      recordLine = line;
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+  
+  endRecord();
+  
+  return records;
+}
+
+/**
+ * Builds a comp order for one guest.
+ * The first ticket carries the guest's name; the others are their plus-ones.
+ * 
+ * @param details - Who the tickets are for, and what for
+ * @returns The new (unsaved) order
+ */
+export function buildCompOrder(details: {
+  eventId: string;
+  ticketTypeId: string;
+  name: string;
+  email: string;
+  quantity: number;
+  language?: Language;
+  accessTokenHash: string;
+}): Order {
+  const items = [{ ticketTypeId: details.ticketTypeId, quantity: details.quantity }];
+  
+  return {
+    orderId: generateCompOrderId(),
+    source: 'comp',
+    // Order-wide token (never shown - each ticket has its own)
+    qrToken: generateQRToken(),
+    status: 'valid',
+    createdAt: new Date(),
+    eventId: details.eventId,
+    items,
+    tickets: issueTickets(items, { [details.ticketTypeId]: [details.name] }),
+    refunds: [],
+    transfers: [],
+    email: details.email,
+    buyerName: details.name,
+    language: details.language,
+    accessTokenHash: details.accessTokenHash
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * Console Mail Transport
+ * 
+ * Logs a summary of every message instead of sending it.
+ * The default in development, so nothing is ever emailed by accident.
+ */
+
+import { MailMessage, MailTransport } from './mailTransport.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'mail' });
+
+export class ConsoleMailTransport implements MailTransport {
+  /**
+   * Log the message
+   */
+  async send(message: MailMessage): Promise<void> {
+    log.info({
+      to: message.to,
+      subject: message.subject,
+      attachments: message.attachments.length,
+      text: message.text
+    }, 'Email (not sent)');
+  }
+}
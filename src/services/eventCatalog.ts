@@ -0,0 +1,64 @@
+/**
+ * Event Catalog
+ * 
+ * Defines the events we sell tickets for, and the ticket types
+ * (with prices) available for each one.
+ * 
+ * Like OrderStore, the catalog is an interface so the source
+ * can change later (file today, database or admin UI tomorrow).
+ */
+
+import { Province } from './taxService.js';
+
+/**
+ * A kind of ticket sold for an event (e.g. "Female", "Male", "VIP")
+ */
+export interface TicketType {
+  id: string;     // Stable identifier used in checkout requests and orders
+  name: string;   // Display name
+  price: number;  // Price per ticket (in cents)
+  capacity?: number;  // Max tickets of this type (no limit if missing)
+}
+
+/**
+ * An event (party) with its own ticket types
+ */
+export interface EventInfo {
+  id: string;                 // Stable identifier (e.g. "2026-03-14-rooftop")
+  name: string;               // Display name
+  startsAt: Date;             // Date and time doors open
+  venue: string;              // Venue name / address
+  currency: string;           // ISO currency code, lowercase (e.g. "cad")
+  province?: Province;        // Where it takes place, sets the sales taxes (none if missing)
+  onSale: boolean;            // Whether checkout accepts orders for it
+  capacity?: number;          // Max tickets across all types (no limit if missing)
+  ticketTypes: TicketType[];  // What can be bought
+}
+
+/**
+ * Interface for reading the event catalog.
+ */
+export interface EventCatalog {
+  /**
+   * List every event in the catalog, soonest first
+   */
+  listEvents(): Promise<EventInfo[]>;
+  
+  /**
+   * Get a single event
+   * @param eventId - The event ID
+   * @returns The event if found, null otherwise
+   */
+  getEvent(eventId: string): Promise<EventInfo | null>;
+}
+
+/**
+ * Finds a ticket type within an event
+ * 
+ * @param event - The event to search
+ * @param ticketTypeId - The ticket type ID
+ * @returns The ticket type if the event sells it, undefined otherwise
+ */
+export function findTicketType(event: EventInfo, ticketTypeId: string): TicketType | undefined {
+  return event.ticketTypes.find(ticketType => ticketType.id === ticketTypeId);
+}
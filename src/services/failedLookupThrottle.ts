@@ -0,0 +1,76 @@
+/**
+ * Failed Lookup Throttle
+ * 
+ * Counts failed order lookups (a wrong or missing access token) per
+ * client IP. Once an IP fails too often within a window, its lookups
+ * are refused until the window ends. This is much tighter than the
+ * global rate limiter (plugins/rateLimit.ts): a buyer with the right
+ * token never fails, so only someone guessing gets throttled.
+ * 
+ * Counts are kept in memory, per server process.
+ */
+
+// A client's failures in the current window
+interface FailureWindow {
+  count: number;
+  endsAt: number;  // Epoch ms
+}
+
+// Above this many tracked IPs, ended windows are pruned on the next failure
+const PRUNE_THRESHOLD = 10000;
+
+export class FailedLookupThrottle {
+  // Map of client IP -> Failures
+  private failures: Map<string, FailureWindow> = new Map();
+  
+  /**
+   * @param maxFailures - Failures allowed per window
+   * @param windowMs - Length of the window
+   */
+  constructor(private maxFailures: number, private windowMs: number) {}
+  
+  /**
+   * Checks whether an IP is throttled
+   * 
+   * @param ip - Client IP
+   * @returns Seconds until lookups are allowed again, or null if not throttled
+   */
+  retryAfterSeconds(ip: string, now: number = Date.now()): number | null {
+    const window = this.failures.get(ip);
+    
+    if (!window || window.endsAt <= now || window.count < this.maxFailures) {
+      return null;
+    }
+    
+    return Math.ceil((window.endsAt - now) / 1000);
+  }
+  
+  /**
+   * Counts a failed lookup
+   * 
+   * @param ip - Client IP
+   */
+  recordFailure(ip: string, now: number = Date.now()): void {
+    const window = this.failures.get(ip);
+    
+    if (window && window.endsAt > now) {
+      window.count++;
+    } else {
+      if (this.failures.size >= PRUNE_THRESHOLD) {
+        this.prune(now);
+      }
+      this.failures.set(ip, { count: 1, endsAt: now + this.windowMs });
+    }
+  }
+  
+  /**
+   * Forgets windows that have ended
+   */
+  private prune(now: number): void {
+    for (const [ip, window] of this.failures) {
+      if (window.endsAt <= now) {
+        this.failures.delete(ip);
+      }
+    }
+  }
+}
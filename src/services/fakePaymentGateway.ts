@@ -0,0 +1,423 @@
+/**
+ * Fake Payment Gateway
+ * 
+ * Takes pretend payments in memory, without a network connection or
+ * provider account. Nothing happens to a payment on its own: the
+ * dev-only endpoints (see routes/devPayments.ts) make it succeed,
+ * fail, get refunded or disputed, and the resulting events go through
+ * the same webhook handling as real ones.
+ * 
+ * Checkout sessions have no page to pay on: their URL is a placeholder,
+ * and the dev endpoints complete or expire them instead. Completing
+ * one creates a succeeded payment, which can then be refunded.
+ * 
+ * WARNING: Payments are lost when the server restarts!
+ * This is only for development/testing, never production.
+ */
+
+import crypto from 'node:crypto';
+import {
+  CheckoutSessionDetails,
+  CheckoutSessionRequest,
+  CheckoutSessionStatus,
+  CreatedCheckoutSession,
+  CreatedPayment,
+  GatewayEvent,
+  GatewayRefund,
+  PaymentDetails,
+  PaymentGateway,
+  PaymentGatewayError,
+  PaymentRequest,
+  RefundRequest
+} from './paymentGateway.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'fakePayments' });
+
+// Where a fake payment is
+type FakePaymentStatus = 'requires_payment' | 'succeeded' | 'canceled';
+
+// A fake payment, its refunds and its open dispute (if any)
+interface FakePayment {
+  request: PaymentRequest;
+  status: FakePaymentStatus;
+  refunds: GatewayRefund[];
+  disputeId?: string;
+}
+
+// A fake checkout session, and the payment made on it
+interface FakeCheckoutSession {
+  request: CheckoutSessionRequest;
+  status: CheckoutSessionStatus;
+  paymentIntentId: string | null;
+}
+
+/**
+ * Generates a random ID with a prefix (e.g. "pi_fake_3f9a1c0e5b7d2468")
+ */
+function fakeId(prefix: string): string {
+  return `${prefix}_fake_${crypto.randomBytes(8).toString('hex')}`;
+}
+
+export class FakePaymentGateway implements PaymentGateway {
+  // Map of payment ID -> Payment
+  private payments: Map<string, FakePayment> = new Map();
+  
+  // Map of session ID -> Checkout session
+  private sessions: Map<string, FakeCheckoutSession> = new Map();
+  
+  // Map of idempotency key -> Payment, session or refund ID
+  private idempotencyKeys: Map<string, string> = new Map();
+  
+  /**
+   * Start a fake payment (it waits for a simulated outcome).
+   * A repeated idempotency key returns the payment it created.
+   */
+  async createPayment(request: PaymentRequest): Promise<CreatedPayment> {
+    const existingId = request.idempotencyKey ? this.idempotencyKeys.get(request.idempotencyKey) : undefined;
+    
+    if (existingId) {
+      return {
+        paymentIntentId: existingId,
+        clientSecret: `${existingId}_secret_fake`
+      };
+    }
+    
+    const paymentIntentId = fakeId('pi');
+    
+    this.payments.set(paymentIntentId, { request, status: 'requires_payment', refunds: [] });
+    if (request.idempotencyKey) {
+      this.idempotencyKeys.set(request.idempotencyKey, paymentIntentId);
+    }
+    log.info({ paymentIntentId, amount: request.amount, currency: request.currency }, 'Created payment');
+    
+    return {
+      paymentIntentId,
+      clientSecret: `${paymentIntentId}_secret_fake`
+    };
+  }
+  
+  /**
+   * The client secret of a fake payment
+   */
+  async getClientSecret(paymentIntentId: string): Promise<string> {
+    this.getPayment(paymentIntentId);
+    return `${paymentIntentId}_secret_fake`;
+  }
+  
+  /**
+   * Start a fake checkout session (it waits for a simulated outcome).
+   * A repeated idempotency key returns the session it created.
+   */
+  async createCheckoutSession(request: CheckoutSessionRequest): Promise<CreatedCheckoutSession> {
+    const existingId = request.idempotencyKey ? this.idempotencyKeys.get(request.idempotencyKey) : undefined;
+    const existing = existingId ? this.sessions.get(existingId) : undefined;
+    
+    if (existingId && existing) {
+      return { sessionId: existingId, url: this.sessionUrl(existingId), expiresAt: existing.request.expiresAt };
+    }
+    
+    const sessionId = fakeId('cs');
+    
+    this.sessions.set(sessionId, { request, status: 'open', paymentIntentId: null });
+    if (request.idempotencyKey) {
+      this.idempotencyKeys.set(request.idempotencyKey, sessionId);
+    }
+    log.info({ sessionId, amount: request.amount, currency: request.currency }, 'Created checkout session');
+    
+    return { sessionId, url: this.sessionUrl(sessionId), expiresAt: request.expiresAt };
+  }
+  
+  /**
+   * Look up a fake checkout session
+   */
+  async getCheckoutSession(sessionId: string): Promise<CheckoutSessionDetails | null> {
+    const session = this.sessions.get(sessionId);
+    
+    return session
+      ? { sessionId, status: session.status, paymentIntentId: session.paymentIntentId }
+      : null;
+  }
+  
+  /**
+   * Fake sessions keep nothing at a provider to clean up
+   */
+  async discardCheckoutSession(): Promise<void> {}
+  
+  /**
+   * Refund a fake payment (succeeds immediately)
+   */
+  async createRefund(request: RefundRequest): Promise<GatewayRefund> {
+    const payment = this.getPayment(request.paymentIntentId);
+    const existingId = request.idempotencyKey ? this.idempotencyKeys.get(request.idempotencyKey) : undefined;
+    const existing = payment.refunds.find(refund => refund.refundId === existingId);
+    
+    if (existing) {
+      return existing;
+    }
+    
+    if (payment.status !== 'succeeded') {
+      throw new PaymentGatewayError(`Payment ${request.paymentIntentId} has not succeeded`, 409);
+    }
+    
+    const remaining = payment.request.amount - this.refundedAmount(payment);
+    const amount = request.amount ?? remaining;
+    
+    if (amount <= 0 || amount > remaining) {
+      throw new PaymentGatewayError(`Refund of ${amount} exceeds the ${remaining} left on payment ${request.paymentIntentId}`, 400);
+    }
+    
+    const refund: GatewayRefund = {
+      refundId: fakeId('re'),
+      paymentIntentId: request.paymentIntentId,
+      amount,
+      status: 'succeeded',
+      metadata: request.metadata,
+      createdAt: new Date()
+    };
+    payment.refunds.push(refund);
+    if (request.idempotencyKey) {
+      this.idempotencyKeys.set(request.idempotencyKey, refund.refundId);
+    }
+    
+    return refund;
+  }
+  
+  /**
+   * List every refund of a fake payment
+   */
+  async listRefunds(paymentIntentId: string): Promise<GatewayRefund[]> {
+    return this.payments.get(paymentIntentId)?.refunds ?? [];
+  }
+  
+  /**
+   * The fake gateway has no webhooks: events come from the simulate methods
+   */
+  verifyWebhook(): GatewayEvent {
+    throw new Error('The fake payment gateway does not receive webhooks (use the /api/dev/payments endpoints)');
+  }
+  
+  /**
+   * Parse a stored fake event
+   */
+  parseEvent(payload: string): GatewayEvent {
+    const event = JSON.parse(payload) as GatewayEvent;
+    
+    // e.g. a Stripe event logged before switching to the fake gateway
+    if (!event.data?.type) {
+      throw new Error(`Event ${event.id} was not created by the fake payment gateway`);
+    }
+    
+    return event;
+  }
+  
+  /**
+   * Simulate the customer paying
+   * @returns The payment_intent.succeeded event
+   */
+  simulateSuccess(paymentIntentId: string): GatewayEvent {
+    const payment = this.getPayment(paymentIntentId);
+    
+    if (payment.status !== 'requires_payment') {
+      throw new PaymentGatewayError(`Payment ${paymentIntentId} already ${payment.status}`, 409);
+    }
+    
+    payment.status = 'succeeded';
+    
+    return {
+      id: fakeId('evt'),
+      type: 'payment_intent.succeeded',
+      data: { type: 'payment_succeeded', payment: this.toPaymentDetails(paymentIntentId, payment, null) }
+    };
+  }
+  
+  /**
+   * Simulate a declined payment, or (final) the payment being canceled
+   * @returns The payment_intent.payment_failed or payment_intent.canceled event
+   */
+  simulateFailure(paymentIntentId: string, final: boolean): GatewayEvent {
+    const payment = this.getPayment(paymentIntentId);
+    
+    if (payment.status !== 'requires_payment') {
+      throw new PaymentGatewayError(`Payment ${paymentIntentId} already ${payment.status}`, 409);
+    }
+    
+    if (final) {
+      payment.status = 'canceled';
+    }
+    
+    const failureMessage = final ? null : 'Your card was declined. (simulated)';
+    
+    return {
+      id: fakeId('evt'),
+      type: final ? 'payment_intent.canceled' : 'payment_intent.payment_failed',
+      data: { type: 'payment_failed', payment: this.toPaymentDetails(paymentIntentId, payment, failureMessage), final }
+    };
+  }
+  
+  /**
+   * Simulate a refund made outside our API (e.g. from a dashboard)
+   * @param amount - In cents (everything left if missing)
+   * @returns The charge.refunded event
+   */
+  async simulateRefund(paymentIntentId: string, amount?: number): Promise<GatewayEvent> {
+    const payment = this.getPayment(paymentIntentId);
+    
+    await this.createRefund({ paymentIntentId, amount, metadata: {} });
+    const amountRefunded = this.refundedAmount(payment);
+    
+    return {
+      id: fakeId('evt'),
+      type: 'charge.refunded',
+      data: {
+        type: 'charge_refunded',
+        paymentIntentId,
+        chargeId: paymentIntentId.replace(/^pi_/, 'ch_'),
+        amount: payment.request.amount,
+        amountRefunded,
+        fullyRefunded: amountRefunded === payment.request.amount
+      }
+    };
+  }
+  
+  /**
+   * Simulate the customer disputing a payment with their bank
+   * @returns The charge.dispute.created event
+   */
+  simulateDispute(paymentIntentId: string): GatewayEvent {
+    const payment = this.getPayment(paymentIntentId);
+    
+    if (payment.status !== 'succeeded') {
+      throw new PaymentGatewayError(`Payment ${paymentIntentId} was not paid`, 409);
+    }
+    
+    if (payment.disputeId) {
+      throw new PaymentGatewayError(`Payment ${paymentIntentId} is already disputed`, 409);
+    }
+    
+    payment.disputeId = fakeId('dp');
+    
+    return {
+      id: fakeId('evt'),
+      type: 'charge.dispute.created',
+      data: { type: 'dispute_created', paymentIntentId, disputeId: payment.disputeId }
+    };
+  }
+  
+  /**
+   * Simulate the bank deciding a dispute
+   * @param won - Whether we won it (the payment is kept)
+   * @returns The charge.dispute.closed event
+   */
+  simulateDisputeClosed(paymentIntentId: string, won: boolean): GatewayEvent {
+    const payment = this.getPayment(paymentIntentId);
+    const { disputeId } = payment;
+    
+    if (!disputeId) {
+      throw new PaymentGatewayError(`Payment ${paymentIntentId} has no open dispute`, 409);
+    }
+    
+    payment.disputeId = undefined;
+    
+    return {
+      id: fakeId('evt'),
+      type: 'charge.dispute.closed',
+      data: { type: 'dispute_closed', paymentIntentId, disputeId, status: won ? 'won' : 'lost', won }
+    };
+  }
+  
+  /**
+   * Simulate the customer paying on the checkout page
+   * @returns The checkout.session.completed event
+   */
+  simulateCheckoutCompleted(sessionId: string): GatewayEvent {
+    const session = this.getOpenSession(sessionId);
+    const paymentIntentId = fakeId('pi');
+    const payment: FakePayment = { request: session.request, status: 'succeeded', refunds: [] };
+    
+    this.payments.set(paymentIntentId, payment);
+    session.status = 'complete';
+    session.paymentIntentId = paymentIntentId;
+    
+    return {
+      id: fakeId('evt'),
+      type: 'checkout.session.completed',
+      data: { type: 'payment_succeeded', payment: this.toPaymentDetails(paymentIntentId, payment, null) }
+    };
+  }
+  
+  /**
+   * Simulate the checkout page running out without being paid
+   * @returns The checkout.session.expired event
+   */
+  simulateCheckoutExpired(sessionId: string): GatewayEvent {
+    const session = this.getOpenSession(sessionId);
+    
+    session.status = 'expired';
+    
+    return {
+      id: fakeId('evt'),
+      type: 'checkout.session.expired',
+      data: { type: 'checkout_expired', sessionId, paymentIntentId: null, metadata: session.request.metadata }
+    };
+  }
+  
+  /**
+   * Gets a fake checkout session that can still be paid
+   * @throws PaymentGatewayError (404) if there is no such session, or (409) if it is over
+   */
+  private getOpenSession(sessionId: string): FakeCheckoutSession {
+    const session = this.sessions.get(sessionId);
+    
+    if (!session) {
+      throw new PaymentGatewayError(`No such checkout session: ${sessionId}`, 404);
+    }
+    
+    if (session.status !== 'open') {
+      throw new PaymentGatewayError(`Checkout session ${sessionId} already ${session.status}`, 409);
+    }
+    
+    return session;
+  }
+  
+  /**
+   * The placeholder URL of a fake checkout page
+   */
+  private sessionUrl(sessionId: string): string {
+    return `fake://checkout/${sessionId}`;
+  }
+  
+  /**
+   * Gets a fake payment
+   * @throws PaymentGatewayError (404) if there is no such payment
+   */
+  private getPayment(paymentIntentId: string): FakePayment {
+    const payment = this.payments.get(paymentIntentId);
+    
+    if (!payment) {
+      throw new PaymentGatewayError(`No such payment: ${paymentIntentId}`, 404);
+    }
+    
+    return payment;
+  }
+  
+  /**
+   * Total refunded so far (in cents)
+   */
+  private refundedAmount(payment: FakePayment): number {
+    return payment.refunds.reduce((sum, refund) => sum + refund.amount, 0);
+  }
+  
+  /**
+   * Builds the payment details carried by an event
+   */
+  private toPaymentDetails(paymentIntentId: string, payment: FakePayment, failureMessage: string | null): PaymentDetails {
+    return {
+      paymentIntentId,
+      amount: payment.request.amount,
+      currency: payment.request.currency,
+      metadata: payment.request.metadata,
+      failureMessage
+    };
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * File Mail Transport
+ * 
+ * Writes every message to a folder instead of sending it:
+ * an .html file to open in a browser (images inlined) and a
+ * .json file with the headers and text body.
+ * 
+ * For local development and testing without a mail server.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { MailMessage, MailTransport } from './mailTransport.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'mail' });
+
+export class FileMailTransport implements MailTransport {
+  constructor(private directory: string) {}
+  
+  /**
+   * Write a message to the outbox folder
+   */
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    
+    const baseName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}`;
+    
+    // Swap cid: references for data URLs so the HTML opens on its own
+    let html = message.html;
+    for (const attachment of message.attachments) {
+      if (attachment.cid) {
+        const dataUrl = `data:${attachment.contentType};base64,${attachment.content.toString('base64')}`;
+        html = html.split(`cid:${attachment.cid}`).join(dataUrl);
+      }
+    }
+    
+    await fs.writeFile(path.join(this.directory, `${baseName}.html`), html);
+    await fs.writeFile(path.join(this.directory, `${baseName}.json`), JSON.stringify({
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      attachments: message.attachments.map(attachment => attachment.filename)
+    }, null, 2));
+    
+    log.info({ subject: message.subject, file: `${path.join(this.directory, baseName)}.html` }, 'Email written to file');
+  }
+}
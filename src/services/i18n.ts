@@ -0,0 +1,454 @@
+/**
+ * API Messages
+ * 
+ * The text of buyer-facing API responses (and of door check-in, for
+ * staff scanning with their phones) in every supported language, and
+ * the language each request is answered in (see negotiateLanguage).
+ * 
+ * Error responses keep `error` in English, so clients can rely on it.
+ * The `message` (and every validation `details[].message`) is in the
+ * request's language, for showing to people.
+ * 
+ * Every catalog is typed with ApiText, so a language that is missing
+ * a message fails the type check. Ticket and email text is kept next
+ * to the code that lays it out, typed the same way.
+ */
+
+import { IncomingHttpHeaders } from 'node:http';
+import { z } from 'zod';
+import { Language, negotiateLanguage } from './language.js';
+import { TransferStatus } from './orderStore.js';
+import { PromoRejection } from './promoService.js';
+import { CheckinRejection } from './ticketService.js';
+import { TransferBlockReason } from './ticketTransferService.js';
+
+/**
+ * Validation messages in one language. The generic ones describe
+ * zod's own checks; the rest are named by schemas (see localizedMessage).
+ */
+interface ValidationText {
+  required: string;
+  invalid: string;
+  invalidEmail: string;
+  invalidDate: string;
+  notInteger: string;
+  tooShort: (minimum: number) => string;
+  tooLong: (maximum: number) => string;
+  tooSmall: (minimum: number) => string;
+  tooLarge: (maximum: number) => string;
+  tooFew: (minimum: number) => string;
+  tooMany: (maximum: number) => string;
+  oneOf: (options: string[]) => string;
+  invalidPhone: string;
+  noTicketsSelected: string;
+  duplicateTicketType: string;
+  moreAttendeeNamesThanTickets: string;
+  attendeeNamesTooLong: string;
+  unknownTicketType: (ticketTypeId: string) => string;
+  invalidIdempotencyKey: string;
+  alreadyTicketHolder: string;
+  redirectNotAllowed: string;
+}
+
+/**
+ * Messages of the buyer-facing API (and door check-in) in one language
+ */
+export interface ApiText {
+  validation: ValidationText;
+  rateLimited: (seconds: number) => string;
+  unexpectedError: string;
+  eventNotFound: string;
+  eventNotOnSale: string;
+  promoRejected: Record<PromoRejection, string>;
+  soldOut: string;
+  ticketTypeSoldOut: string;
+  paymentFailed: string;
+  checkoutSessionNotFound: string;
+  idempotencyKeyReused: string;
+  requestInProgress: string;
+  tooManyFailedLookups: (seconds: number) => string;
+  tooManyFailedAttempts: (seconds: number) => string;
+  invalidOrderAccessToken: string;
+  invalidOrderReference: string;
+  orderPending: string;
+  orderCancelled: string;
+  ticketsUnavailable: string;
+  ticketNotFound: string;
+  ticketRefunded: string;
+  resendAccepted: string;
+  notTicketHolder: string;
+  transferBlocked: Record<TransferBlockReason, string>;
+  ticketNoLongerTransferable: string;
+  transferNotFound: string;
+  transferClosed: Record<Exclude<TransferStatus, 'pending'>, string>;
+  transferNoLongerPending: string;
+  invalidTransferCode: string;
+  transferFailed: string;
+  checkinRejected: Record<CheckinRejection, string>;
+  checkinKeyForOtherEvent: (eventId: string) => string;
+}
+
+const API_TEXT: Record<Language, ApiText> = {
+  en: {
+    validation: {
+      required: 'Required',
+      invalid: 'Invalid value',
+      invalidEmail: 'Invalid email address',
+      invalidDate: 'Invalid date',
+      notInteger: 'Must be a whole number',
+      tooShort: (minimum) => `Must be at least ${minimum} characters`,
+      tooLong: (maximum) => `Must be at most ${maximum} characters`,
+      tooSmall: (minimum) => `Must be at least ${minimum}`,
+      tooLarge: (maximum) => `Must be at most ${maximum}`,
+      tooFew: (minimum) => `Must have at least ${minimum} ${minimum === 1 ? 'entry' : 'entries'}`,
+      tooMany: (maximum) => `Must have at most ${maximum} ${maximum === 1 ? 'entry' : 'entries'}`,
+      oneOf: (options) => `Must be one of: ${options.join(', ')}`,
+      invalidPhone: 'Invalid phone number',
+      noTicketsSelected: 'At least one ticket must be selected',
+      duplicateTicketType: 'Each ticket type can only be listed once',
+      moreAttendeeNamesThanTickets: 'More attendee names than tickets',
+      attendeeNamesTooLong: 'Attendee names are too long for one order',
+      unknownTicketType: (ticketTypeId) => `Unknown ticket type: ${ticketTypeId}`,
+      invalidIdempotencyKey: 'Idempotency-Key must be 1-255 printable characters',
+      alreadyTicketHolder: 'This ticket is already held by this email address',
+      redirectNotAllowed: 'Must be a page of this site'
+    },
+    rateLimited: (seconds) => `Rate limit exceeded. Try again in ${seconds} seconds.`,
+    unexpectedError: 'An unexpected error occurred.',
+    eventNotFound: 'This event does not exist.',
+    eventNotOnSale: 'This event is not on sale.',
+    promoRejected: {
+      not_found: 'This promo code does not exist.',
+      inactive: 'This promo code is no longer available.',
+      not_started: 'This promo code is not active yet.',
+      expired: 'This promo code has expired.',
+      wrong_event: 'This promo code is not valid for this event.',
+      no_eligible_tickets: 'This promo code does not apply to the selected tickets.',
+      email_required: 'Enter your email to use this promo code.',
+      usage_limit_reached: 'This promo code has been fully redeemed.',
+      customer_limit_reached: 'You have already used this promo code.'
+    },
+    soldOut: 'This event is sold out.',
+    ticketTypeSoldOut: 'Not enough tickets of this type are left.',
+    paymentFailed: 'Failed to create payment. Please try again.',
+    checkoutSessionNotFound: 'This checkout session does not exist.',
+    idempotencyKeyReused: 'This Idempotency-Key was already used with a different request body.',
+    requestInProgress: 'A request with this Idempotency-Key is still being processed. Retry shortly.',
+    tooManyFailedLookups: (seconds) => `Too many failed order lookups. Try again in ${seconds} seconds.`,
+    tooManyFailedAttempts: (seconds) => `Too many failed attempts. Try again in ${seconds} seconds.`,
+    invalidOrderAccessToken: 'Send the orderAccessToken from checkout (or the holderAccessToken of a transferred ticket) in the X-Order-Access-Token header.',
+    invalidOrderReference: 'This is not a valid order reference.',
+    orderPending: 'The payment may still be processing.',
+    orderCancelled: 'This order was cancelled.',
+    ticketsUnavailable: 'Your tickets could not be generated. Please try again.',
+    ticketNotFound: 'This ticket does not exist.',
+    ticketRefunded: 'This ticket was refunded.',
+    resendAccepted: 'If there are tickets for this email address, they are on their way.',
+    notTicketHolder: 'Only the current holder of this ticket can transfer it.',
+    transferBlocked: {
+      order_cancelled: 'This order has been cancelled.',
+      ticket_used: 'This ticket has already been used.',
+      ticket_cancelled: 'This ticket has been cancelled.',
+      cutoff_passed: 'Transfers are closed for this event.'
+    },
+    ticketNoLongerTransferable: 'This ticket can no longer be transferred.',
+    transferNotFound: 'This transfer does not exist.',
+    transferClosed: {
+      accepted: 'This transfer is already accepted.',
+      cancelled: 'This transfer is already cancelled.'
+    },
+    transferNoLongerPending: 'This transfer is no longer pending.',
+    invalidTransferCode: 'Check the code in the transfer email.',
+    transferFailed: 'The ticket could not be transferred. Please try again.',
+    checkinRejected: {
+      unknown_token: 'Ticket not found',
+      invalid_signature: 'Ticket could not be verified',
+      expired: 'Ticket has expired',
+      wrong_event: 'Ticket is for a different event',
+      already_used: 'Ticket has already been used',
+      cancelled: 'Ticket has been cancelled',
+      transferred: 'Ticket was transferred to someone else'
+    },
+    checkinKeyForOtherEvent: (eventId) => `This key can only check in for event ${eventId}.`
+  },
+  es: {
+    validation: {
+      required: 'Obligatorio',
+      invalid: 'Valor no válido',
+      invalidEmail: 'Correo electrónico no válido',
+      invalidDate: 'Fecha no válida',
+      notInteger: 'Debe ser un número entero',
+      tooShort: (minimum) => `Debe tener al menos ${minimum} caracteres`,
+      tooLong: (maximum) => `Debe tener como máximo ${maximum} caracteres`,
+      tooSmall: (minimum) => `Debe ser al menos ${minimum}`,
+      tooLarge: (maximum) => `Debe ser como máximo ${maximum}`,
+      tooFew: (minimum) => `Debe tener al menos ${minimum} ${minimum === 1 ? 'elemento' : 'elementos'}`,
+      tooMany: (maximum) => `Debe tener como máximo ${maximum} ${maximum === 1 ? 'elemento' : 'elementos'}`,
+      oneOf: (options) => `Debe ser uno de: ${options.join(', ')}`,
+      invalidPhone: 'Número de teléfono no válido',
+      noTicketsSelected: 'Selecciona al menos una entrada',
+      duplicateTicketType: 'Cada tipo de entrada solo puede aparecer una vez',
+      moreAttendeeNamesThanTickets: 'Hay más nombres de asistentes que entradas',
+      attendeeNamesTooLong: 'Los nombres de los asistentes son demasiado largos para un pedido',
+      unknownTicketType: (ticketTypeId) => `Tipo de entrada desconocido: ${ticketTypeId}`,
+      invalidIdempotencyKey: 'Idempotency-Key debe tener entre 1 y 255 caracteres imprimibles',
+      alreadyTicketHolder: 'Esta entrada ya pertenece a este correo electrónico',
+      redirectNotAllowed: 'Debe ser una página de este sitio'
+    },
+    rateLimited: (seconds) => `Demasiadas solicitudes. Inténtalo de nuevo en ${seconds} segundos.`,
+    unexpectedError: 'Ocurrió un error inesperado.',
+    eventNotFound: 'Este evento no existe.',
+    eventNotOnSale: 'Este evento no está a la venta.',
+    promoRejected: {
+      not_found: 'Este código promocional no existe.',
+      inactive: 'Este código promocional ya no está disponible.',
+      not_started: 'Este código promocional todavía no está activo.',
+      expired: 'Este código promocional ha caducado.',
+      wrong_event: 'Este código promocional no es válido para este evento.',
+      no_eligible_tickets: 'Este código promocional no se aplica a las entradas seleccionadas.',
+      email_required: 'Introduce tu correo electrónico para usar este código promocional.',
+      usage_limit_reached: 'Este código promocional ya se ha agotado.',
+      customer_limit_reached: 'Ya has usado este código promocional.'
+    },
+    soldOut: 'Las entradas para este evento están agotadas.',
+    ticketTypeSoldOut: 'No quedan suficientes entradas de este tipo.',
+    paymentFailed: 'No se pudo crear el pago. Inténtalo de nuevo.',
+    checkoutSessionNotFound: 'Esta sesión de pago no existe.',
+    idempotencyKeyReused: 'Esta Idempotency-Key ya se usó con otro cuerpo de solicitud.',
+    requestInProgress: 'Una solicitud con esta Idempotency-Key todavía se está procesando. Inténtalo de nuevo en breve.',
+    tooManyFailedLookups: (seconds) => `Demasiadas consultas de pedidos fallidas. Inténtalo de nuevo en ${seconds} segundos.`,
+    tooManyFailedAttempts: (seconds) => `Demasiados intentos fallidos. Inténtalo de nuevo en ${seconds} segundos.`,
+    invalidOrderAccessToken: 'Envía el orderAccessToken del pago (o el holderAccessToken de una entrada transferida) en la cabecera X-Order-Access-Token.',
+    invalidOrderReference: 'Esta no es una referencia de pedido válida.',
+    orderPending: 'Es posible que el pago todavía se esté procesando.',
+    orderCancelled: 'Este pedido fue cancelado.',
+    ticketsUnavailable: 'No se pudieron generar tus entradas. Inténtalo de nuevo.',
+    ticketNotFound: 'Esta entrada no existe.',
+    ticketRefunded: 'Esta entrada fue reembolsada.',
+    resendAccepted: 'Si hay entradas para este correo electrónico, ya van en camino.',
+    notTicketHolder: 'Solo quien tiene esta entrada puede transferirla.',
+    transferBlocked: {
+      order_cancelled: 'Este pedido fue cancelado.',
+      ticket_used: 'Esta entrada ya fue usada.',
+      ticket_cancelled: 'Esta entrada fue cancelada.',
+      cutoff_passed: 'Las transferencias para este evento están cerradas.'
+    },
+    ticketNoLongerTransferable: 'Esta entrada ya no se puede transferir.',
+    transferNotFound: 'Esta transferencia no existe.',
+    transferClosed: {
+      accepted: 'Esta transferencia ya fue aceptada.',
+      cancelled: 'Esta transferencia ya fue cancelada.'
+    },
+    transferNoLongerPending: 'Esta transferencia ya no está pendiente.',
+    invalidTransferCode: 'Revisa el código del correo de transferencia.',
+    transferFailed: 'No se pudo transferir la entrada. Inténtalo de nuevo.',
+    checkinRejected: {
+      unknown_token: 'Entrada no encontrada',
+      invalid_signature: 'No se pudo verificar la entrada',
+      expired: 'La entrada ha caducado',
+      wrong_event: 'La entrada es para otro evento',
+      already_used: 'La entrada ya fue usada',
+      cancelled: 'La entrada fue cancelada',
+      transferred: 'La entrada fue transferida a otra persona'
+    },
+    checkinKeyForOtherEvent: (eventId) => `Esta clave solo puede registrar entradas del evento ${eventId}.`
+  },
+  'pt-BR': {
+    validation: {
+      required: 'Obrigatório',
+      invalid: 'Valor inválido',
+      invalidEmail: 'E-mail inválido',
+      invalidDate: 'Data inválida',
+      notInteger: 'Deve ser um número inteiro',
+      tooShort: (minimum) => `Deve ter pelo menos ${minimum} caracteres`,
+      tooLong: (maximum) => `Deve ter no máximo ${maximum} caracteres`,
+      tooSmall: (minimum) => `Deve ser pelo menos ${minimum}`,
+      tooLarge: (maximum) => `Deve ser no máximo ${maximum}`,
+      tooFew: (minimum) => `Deve ter pelo menos ${minimum} ${minimum === 1 ? 'item' : 'itens'}`,
+      tooMany: (maximum) => `Deve ter no máximo ${maximum} ${maximum === 1 ? 'item' : 'itens'}`,
+      oneOf: (options) => `Deve ser um destes: ${options.join(', ')}`,
+      invalidPhone: 'Número de telefone inválido',
+      noTicketsSelected: 'Selecione pelo menos um ingresso',
+      duplicateTicketType: 'Cada tipo de ingresso só pode aparecer uma vez',
+      moreAttendeeNamesThanTickets: 'Há mais nomes de participantes do que ingressos',
+      attendeeNamesTooLong: 'Os nomes dos participantes são longos demais para um pedido',
+      unknownTicketType: (ticketTypeId) => `Tipo de ingresso desconhecido: ${ticketTypeId}`,
+      invalidIdempotencyKey: 'Idempotency-Key deve ter de 1 a 255 caracteres imprimíveis',
+      alreadyTicketHolder: 'Este ingresso já pertence a este e-mail',
+      redirectNotAllowed: 'Deve ser uma página deste site'
+    },
+    rateLimited: (seconds) => `Muitas solicitações. Tente novamente em ${seconds} segundos.`,
+    unexpectedError: 'Ocorreu um erro inesperado.',
+    eventNotFound: 'Este evento não existe.',
+    eventNotOnSale: 'Este evento não está à venda.',
+    promoRejected: {
+      not_found: 'Este código promocional não existe.',
+      inactive: 'Este código promocional não está mais disponível.',
+      not_started: 'Este código promocional ainda não está ativo.',
+      expired: 'Este código promocional expirou.',
+      wrong_event: 'Este código promocional não é válido para este evento.',
+      no_eligible_tickets: 'Este código promocional não se aplica aos ingressos selecionados.',
+      email_required: 'Informe seu e-mail para usar este código promocional.',
+      usage_limit_reached: 'Este código promocional já se esgotou.',
+      customer_limit_reached: 'Você já usou este código promocional.'
+    },
+    soldOut: 'Os ingressos para este evento esgotaram.',
+    ticketTypeSoldOut: 'Não restam ingressos suficientes deste tipo.',
+    paymentFailed: 'Não foi possível criar o pagamento. Tente novamente.',
+    checkoutSessionNotFound: 'Esta sessão de pagamento não existe.',
+    idempotencyKeyReused: 'Esta Idempotency-Key já foi usada com outro corpo de requisição.',
+    requestInProgress: 'Uma requisição com esta Idempotency-Key ainda está sendo processada. Tente novamente em instantes.',
+    tooManyFailedLookups: (seconds) => `Muitas consultas de pedido com falha. Tente novamente em ${seconds} segundos.`,
+    tooManyFailedAttempts: (seconds) => `Muitas tentativas com falha. Tente novamente em ${seconds} segundos.`,
+    invalidOrderAccessToken: 'Envie o orderAccessToken do pagamento (ou o holderAccessToken de um ingresso transferido) no cabeçalho X-Order-Access-Token.',
+    invalidOrderReference: 'Esta não é uma referência de pedido válida.',
+    orderPending: 'O pagamento ainda pode estar em processamento.',
+    orderCancelled: 'Este pedido foi cancelado.',
+    ticketsUnavailable: 'Não foi possível gerar seus ingressos. Tente novamente.',
+    ticketNotFound: 'Este ingresso não existe.',
+    ticketRefunded: 'Este ingresso foi reembolsado.',
+    resendAccepted: 'Se houver ingressos para este e-mail, eles já estão a caminho.',
+    notTicketHolder: 'Só quem está com este ingresso pode transferi-lo.',
+    transferBlocked: {
+      order_cancelled: 'Este pedido foi cancelado.',
+      ticket_used: 'Este ingresso já foi usado.',
+      ticket_cancelled: 'Este ingresso foi cancelado.',
+      cutoff_passed: 'As transferências para este evento estão encerradas.'
+    },
+    ticketNoLongerTransferable: 'Este ingresso não pode mais ser transferido.',
+    transferNotFound: 'Esta transferência não existe.',
+    transferClosed: {
+      accepted: 'Esta transferência já foi aceita.',
+      cancelled: 'Esta transferência já foi cancelada.'
+    },
+    transferNoLongerPending: 'Esta transferência não está mais pendente.',
+    invalidTransferCode: 'Confira o código no e-mail de transferência.',
+    transferFailed: 'Não foi possível transferir o ingresso. Tente novamente.',
+    checkinRejected: {
+      unknown_token: 'Ingresso não encontrado',
+      invalid_signature: 'Não foi possível verificar o ingresso',
+      expired: 'O ingresso expirou',
+      wrong_event: 'O ingresso é de outro evento',
+      already_used: 'O ingresso já foi usado',
+      cancelled: 'O ingresso foi cancelado',
+      transferred: 'O ingresso foi transferido para outra pessoa'
+    },
+    checkinKeyForOtherEvent: (eventId) => `Esta chave só pode fazer check-in no evento ${eventId}.`
+  }
+};
+
+/**
+ * Validation messages a schema can name: the ones that take no parameters
+ */
+type ValidationMessage = {
+  [K in keyof ValidationText]: ValidationText[K] extends string ? K : never
+}[keyof ValidationText];
+
+/**
+ * Gets the API messages in a language
+ * 
+ * @param language - The language
+ * @returns Every message, in that language
+ */
+export function apiText(language: Language): ApiText {
+  return API_TEXT[language];
+}
+
+/**
+ * Picks the language to answer a request in (see negotiateLanguage),
+ * from the body's "language" field or the Accept-Language header
+ * 
+ * @param request - The request (its body may not be parsed yet)
+ * @returns A supported language
+ */
+export function requestLanguage(request: { body?: unknown; headers: IncomingHttpHeaders }): Language {
+  const { body } = request;
+  const requested = typeof body === 'object' && body !== null
+    ? (body as { language?: unknown }).language
+    : undefined;
+  
+  return negotiateLanguage(requested, request.headers['accept-language']);
+}
+
+/**
+ * Names a validation message for use in a zod schema. The name is
+ * translated when the error is reported (see validationErrorResponse).
+ * 
+ * @param key - The message
+ * @returns The message's name, to pass as the schema's message
+ */
+export function localizedMessage(key: ValidationMessage): string {
+  return key;
+}
+
+/**
+ * Translates one zod issue: a message named by the schema, or a
+ * generic message for zod's own check
+ */
+function localizeIssue(issue: z.ZodIssue, text: ValidationText): string {
+  if (issue.message in text) {
+    const named = text[issue.message as keyof ValidationText];
+    
+    if (typeof named === 'string') {
+      return named;
+    }
+  }
+  
+  switch (issue.code) {
+    case 'invalid_type':
+      if (issue.received === 'undefined') {
+        return text.required;
+      }
+      return issue.expected === 'integer' ? text.notInteger : text.invalid;
+    
+    case 'invalid_string':
+      return issue.validation === 'email' ? text.invalidEmail : text.invalid;
+    
+    case 'invalid_enum_value':
+      return text.oneOf(issue.options.map(String));
+    
+    case 'invalid_date':
+      return text.invalidDate;
+    
+    case 'too_small': {
+      const minimum = Number(issue.minimum);
+      
+      if (issue.type === 'string') {
+        return minimum <= 1 ? text.required : text.tooShort(minimum);
+      }
+      return issue.type === 'array' ? text.tooFew(minimum) : text.tooSmall(minimum);
+    }
+    
+    case 'too_big': {
+      const maximum = Number(issue.maximum);
+      
+      if (issue.type === 'string') {
+        return text.tooLong(maximum);
+      }
+      return issue.type === 'array' ? text.tooMany(maximum) : text.tooLarge(maximum);
+    }
+    
+    default:
+      return text.invalid;
+  }
+}
+
+/**
+ * Builds the usual validation error response, with every message in
+ * the request's language
+ * 
+ * @param error - The failed validation
+ * @param language - Language to write the messages in
+ * @returns The response body
+ */
+export function validationErrorResponse(error: z.ZodError, language: Language) {
+  const text = API_TEXT[language].validation;
+  
+  return {
+    error: 'Validation failed',
+    details: error.errors.map(issue => ({
+      field: issue.path.join('.'),
+      message: localizeIssue(issue, text)
+    }))
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * Idempotency Store Interface
+ * 
+ * Defines the contract for short-lived idempotency keys.
+ * 
+ * A client sends the same Idempotency-Key header when it retries a
+ * request (a timeout, a double-click). The first request claims the
+ * key; once it succeeds its response is stored with a fingerprint of
+ * the request body, and repeats get that response back instead of
+ * doing the work again.
+ */
+
+import crypto from 'node:crypto';
+
+/**
+ * Where a keyed request is:
+ * - in_progress: claimed, the first request is still running
+ * - completed: finished, the response is stored
+ */
+export type IdempotencyKeyStatus = 'in_progress' | 'completed';
+
+/**
+ * A claimed idempotency key
+ */
+export interface IdempotencyRecord {
+  key: string;
+  fingerprint: string;           // Hash of the request body (see fingerprintRequest)
+  status: IdempotencyKeyStatus;
+  statusCode?: number;           // Response status (completed only)
+  responseBody?: string;         // Response body as JSON (completed only)
+  createdAt: Date;               // When the key was claimed
+  expiresAt: Date;               // After this the key is forgotten and can be used again
+}
+
+/**
+ * Result of claiming a key:
+ * - claimed: the caller owns the key and must complete or release it
+ * - not claimed: the key is taken, here is what it holds
+ */
+export type IdempotencyClaim =
+  | { claimed: true }
+  | { claimed: false; record: IdempotencyRecord };
+
+/**
+ * Interface for idempotency key storage operations.
+ */
+export interface IdempotencyStore {
+  /**
+   * Claim a key for a request (atomic: only one concurrent caller wins).
+   * Expired keys, and keys left in progress since before staleBefore
+   * (the request that claimed them crashed), can be claimed again.
+   * @param claim - The key, the request fingerprint and the key's lifetime
+   * @param staleBefore - Keys still in progress that were claimed before this are abandoned
+   * @returns Whether the key was claimed, or the record holding it
+   */
+  claimKey(
+    claim: { key: string; fingerprint: string; createdAt: Date; expiresAt: Date },
+    staleBefore: Date
+  ): Promise<IdempotencyClaim>;
+  
+  /**
+   * Store the response of a claimed key
+   * @param key - The claimed key
+   * @param response - Status code and body (JSON) to replay
+   */
+  completeKey(key: string, response: { statusCode: number; responseBody: string }): Promise<void>;
+  
+  /**
+   * Give up a claimed key without a response, so the request can be retried
+   * @param key - The claimed key
+   */
+  releaseKey(key: string): Promise<void>;
+  
+  /**
+   * Delete keys that expired before a time
+   * @param now - The current time
+   * @returns How many keys were deleted
+   */
+  deleteExpired(now: Date): Promise<number>;
+}
+
+/**
+ * Hashes a request body, ignoring key order, so a retry of the same
+ * request matches and a different request under the same key does not
+ * 
+ * @param body - The parsed request body
+ * @returns Hex SHA-256 of the body's canonical JSON
+ */
+export function fingerprintRequest(body: unknown): string {
+  return crypto.createHash('sha256').update(canonicalJson(body)).digest('hex');
+}
+
+/**
+ * JSON with object keys sorted, at every level
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(',')}}`;
+  }
+  
+  return JSON.stringify(value ?? null);
+}
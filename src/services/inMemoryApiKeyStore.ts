@@ -0,0 +1,75 @@
+/**
+ * In-Memory API Key Store
+ * 
+ * Stores API keys in memory.
+ * 
+ * WARNING: Data is lost when the server restarts!
+ * This is only for development/testing.
+ */
+
+import { ApiKey, ApiKeyStore } from './apiKeyStore.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'apiKeyStore' });
+
+export class InMemoryApiKeyStore implements ApiKeyStore {
+  // Map of key ID -> Key
+  private keys: Map<string, ApiKey> = new Map();
+  
+  /**
+   * Store a new key
+   */
+  async createKey(apiKey: ApiKey): Promise<void> {
+    this.keys.set(apiKey.keyId, { ...apiKey });
+    log.info({ keyId: apiKey.keyId, role: apiKey.role, eventId: apiKey.eventId }, 'API key created');
+  }
+  
+  /**
+   * Find a key by its hash
+   */
+  async getKeyByHash(keyHash: string): Promise<ApiKey | null> {
+    for (const apiKey of this.keys.values()) {
+      if (apiKey.keyHash === keyHash) {
+        return apiKey;
+      }
+    }
+    
+    return null;
+  }
+  
+  /**
+   * List every key, newest first
+   */
+  async listKeys(): Promise<ApiKey[]> {
+    return [...this.keys.values()].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  /**
+   * Revoke a key
+   */
+  async revokeKey(keyId: string, revokedAt: Date): Promise<ApiKey | null> {
+    const apiKey = this.keys.get(keyId);
+    
+    if (!apiKey) {
+      return null;
+    }
+    
+    if (!apiKey.revokedAt) {
+      apiKey.revokedAt = revokedAt;
+      log.info({ keyId }, 'API key revoked');
+    }
+    
+    return apiKey;
+  }
+  
+  /**
+   * Record that a key was just used
+   */
+  async recordUse(keyId: string, usedAt: Date): Promise<void> {
+    const apiKey = this.keys.get(keyId);
+    
+    if (apiKey) {
+      apiKey.lastUsedAt = usedAt;
+    }
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * In-Memory Event Catalog
+ * 
+ * Holds the event catalog in memory. Events are loaded once at
+ * startup from a JSON file (EVENTS_FILE), validated with zod.
+ * 
+ * If no file is configured, a single "default" event is used with
+ * the original Female ($1.00) / Male ($2.00) ticket types.
+ * 
+ * Prices in the file are in dollars (e.g. 15.00) and are converted
+ * to cents here, so nothing downstream deals with fractions.
+ */
+
+import fs from 'node:fs';
+import { z } from 'zod';
+import { EventCatalog, EventInfo } from './eventCatalog.js';
+import { PROVINCES } from './taxService.js';
+
+// Validation schema for the events file
+const eventsFileSchema = z.array(z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  startsAt: z.string().datetime({ offset: true }),
+  venue: z.string().min(1),
+  currency: z.string().length(3).transform(currency => currency.toLowerCase()).default('cad'),
+  province: z.enum(PROVINCES).optional(),
+  onSale: z.boolean().default(true),
+  capacity: z.number().int().positive().optional(),
+  ticketTypes: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    price: z.number().positive()
+      .refine(price => Number.isInteger(Math.round(price * 100 * 1e6) / 1e6), 'Price cannot have more than 2 decimals')
+      .transform(price => Math.round(price * 100)),
+    capacity: z.number().int().positive().optional()
+  })).min(1)
+}));
+
+// Used when EVENTS_FILE is not set
+const DEFAULT_EVENTS: EventInfo[] = [
+  {
+    id: 'default',
+    name: 'Nomada Party',
+    startsAt: new Date('2030-01-01T22:00:00-05:00'),
+    venue: 'TBA',
+    currency: 'cad',
+    province: 'QC',
+    onSale: true,
+    ticketTypes: [
+      { id: 'female', name: 'Female', price: 100 },
+      { id: 'male', name: 'Male', price: 200 }
+    ]
+  }
+];
+
+export class InMemoryEventCatalog implements EventCatalog {
+  // Map of event ID -> Event
+  private events: Map<string, EventInfo> = new Map();
+  
+  constructor(events: EventInfo[]) {
+    for (const event of events) {
+      if (this.events.has(event.id)) {
+        throw new Error(`Duplicate event ID in catalog: ${event.id}`);
+      }
+      
+      const ticketTypeIds = new Set(event.ticketTypes.map(ticketType => ticketType.id));
+      if (ticketTypeIds.size !== event.ticketTypes.length) {
+        throw new Error(`Duplicate ticket type ID in event: ${event.id}`);
+      }
+      
+      this.events.set(event.id, event);
+    }
+  }
+  
+  /**
+   * List every event, soonest first
+   */
+  async listEvents(): Promise<EventInfo[]> {
+    return [...this.events.values()].sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  }
+  
+  /**
+   * Get an event by ID
+   */
+  async getEvent(eventId: string): Promise<EventInfo | null> {
+    return this.events.get(eventId) || null;
+  }
+}
+
+/**
+ * Loads the catalog from a JSON file, or the default event if no file is given.
+ * 
+ * @param filePath - Path to the events JSON file (optional)
+ * @returns The validated events
+ * @throws Error if the file is missing or invalid
+ */
+export function loadEvents(filePath: string | undefined): EventInfo[] {
+  if (!filePath) {
+    return DEFAULT_EVENTS;
+  }
+  
+  const raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  const result = eventsFileSchema.safeParse(raw);
+  
+  if (!result.success) {
+    const problems = result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join('; ');
+    throw new Error(`Invalid events file ${filePath}: ${problems}`);
+  }
+  
+  return result.data.map(event => ({
+    ...event,
+    startsAt: new Date(event.startsAt)
+  }));
+}
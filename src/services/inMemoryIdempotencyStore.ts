@@ -0,0 +1,73 @@
+/**
+ * In-Memory Idempotency Store
+ * 
+ * Stores idempotency keys in memory.
+ * 
+ * WARNING: Data is lost when the server restarts!
+ * This is only for development/testing.
+ */
+
+import { IdempotencyClaim, IdempotencyRecord, IdempotencyStore } from './idempotencyStore.js';
+
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  // Map of key -> Record
+  private keys: Map<string, IdempotencyRecord> = new Map();
+  
+  /**
+   * Claim a key for a request
+   */
+  async claimKey(
+    claim: { key: string; fingerprint: string; createdAt: Date; expiresAt: Date },
+    staleBefore: Date
+  ): Promise<IdempotencyClaim> {
+    const existing = this.keys.get(claim.key);
+    const abandoned = existing && (
+      existing.expiresAt <= claim.createdAt ||
+      (existing.status === 'in_progress' && existing.createdAt < staleBefore)
+    );
+    
+    if (existing && !abandoned) {
+      return { claimed: false, record: existing };
+    }
+    
+    this.keys.set(claim.key, { ...claim, status: 'in_progress' });
+    
+    return { claimed: true };
+  }
+  
+  /**
+   * Store the response of a claimed key
+   */
+  async completeKey(key: string, response: { statusCode: number; responseBody: string }): Promise<void> {
+    const record = this.keys.get(key);
+    
+    if (record) {
+      this.keys.set(key, { ...record, ...response, status: 'completed' });
+    }
+  }
+  
+  /**
+   * Give up a claimed key
+   */
+  async releaseKey(key: string): Promise<void> {
+    if (this.keys.get(key)?.status === 'in_progress') {
+      this.keys.delete(key);
+    }
+  }
+  
+  /**
+   * Delete expired keys
+   */
+  async deleteExpired(now: Date): Promise<number> {
+    let deleted = 0;
+    
+    for (const [key, record] of this.keys) {
+      if (record.expiresAt <= now) {
+        this.keys.delete(key);
+        deleted++;
+      }
+    }
+    
+    return deleted;
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * In-Memory Inventory Store
+ * 
+ * Keeps inventory holds in memory.
+ * 
+ * WARNING: Data is lost when the server restarts!
+ * This is only for development/testing.
+ */
+
+import crypto from 'node:crypto';
+import { EventInfo } from './eventCatalog.js';
+import { OrderItem } from './orderStore.js';
+import { InventoryHold, InventoryStore, Sale, assertCapacity } from './inventoryStore.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'inventory' });
+
+export class InMemoryInventoryStore implements InventoryStore {
+  // Map of hold ID -> Hold
+  private holds: Map<string, InventoryHold> = new Map();
+  
+  // Map of hold ID -> ticket type ID -> sold tickets released (refunded or cancelled)
+  private released: Map<string, Map<string, number>> = new Map();
+  
+  /**
+   * Place a hold if there is capacity.
+   * Counting and inserting happen without an await in between,
+   * so this is atomic within a single Node.js process.
+   */
+  async createHold(event: EventInfo, items: OrderItem[], expiresAt: Date): Promise<InventoryHold> {
+    assertCapacity(event, this.countTaken(event.id), items);
+    
+    const hold: InventoryHold = {
+      id: crypto.randomUUID(),
+      eventId: event.id,
+      items,
+      status: 'active',
+      createdAt: new Date(),
+      expiresAt
+    };
+    
+    this.holds.set(hold.id, hold);
+    log.info({ holdId: hold.id, eventId: event.id }, 'Hold placed');
+    
+    return hold;
+  }
+  
+  /**
+   * Release an active hold
+   */
+  async releaseHold(holdId: string): Promise<boolean> {
+    const hold = this.holds.get(holdId);
+    
+    if (!hold || hold.status !== 'active') {
+      return false;
+    }
+    
+    hold.status = 'released';
+    log.info({ holdId }, 'Hold released');
+    
+    return true;
+  }
+  
+  /**
+   * Turn a hold into a sale (or record a sale without a hold)
+   */
+  async convertHoldToSale(sale: Sale): Promise<void> {
+    const hold = sale.holdId ? this.holds.get(sale.holdId) : undefined;
+    
+    if (hold) {
+      if (hold.status !== 'active' && hold.status !== 'confirmed') {
+        log.warn({ holdId: hold.id, holdStatus: hold.status }, 'Hold ended before payment succeeded - capacity may be exceeded');
+      }
+      
+      hold.status = 'confirmed';
+      hold.orderId = sale.orderId;
+      log.info({ holdId: hold.id, orderId: sale.orderId }, 'Hold converted to sale');
+      return;
+    }
+    
+    const id = `sale_${sale.orderId}`;
+    this.holds.set(id, {
+      id,
+      eventId: sale.eventId,
+      items: sale.items,
+      status: 'confirmed',
+      createdAt: new Date(),
+      expiresAt: new Date(),
+      orderId: sale.orderId
+    });
+    log.info({ orderId: sale.orderId }, 'Sale recorded without hold');
+  }
+  
+  /**
+   * Release a confirmed sale
+   */
+  async releaseSale(orderId: string): Promise<boolean> {
+    const hold = [...this.holds.values()].find(h => h.orderId === orderId && h.status === 'confirmed');
+    
+    if (!hold) {
+      return false;
+    }
+    
+    hold.status = 'released';
+    log.info({ orderId }, 'Sale released');
+    
+    return true;
+  }
+  
+  /**
+   * Sets how many of an order's sold tickets still take up capacity:
+   * its admitted tickets, or none once the order is cancelled. The rest
+   * of the sale is released. InMemoryOrderStore calls this with the
+   * order change, without an await in between.
+   * 
+   * @param orderId - The order the tickets were sold to
+   * @param items - Tickets that still count, per ticket type
+   */
+  setSoldItems(orderId: string, items: OrderItem[]): void {
+    const unplaced = new Map(items.map(item => [item.ticketTypeId, item.quantity]));
+    
+    for (const hold of this.holds.values()) {
+      if (hold.orderId !== orderId || hold.status !== 'confirmed') {
+        continue;
+      }
+      
+      const released = new Map<string, number>();
+      
+      for (const item of hold.items) {
+        const kept = Math.min(item.quantity, unplaced.get(item.ticketTypeId) ?? 0);
+        unplaced.set(item.ticketTypeId, (unplaced.get(item.ticketTypeId) ?? 0) - kept);
+        released.set(item.ticketTypeId, item.quantity - kept);
+      }
+      
+      this.released.set(hold.id, released);
+      log.info({ orderId, holdId: hold.id }, 'Sold tickets released');
+    }
+  }
+  
+  /**
+   * Count tickets taken per ticket type
+   */
+  async getTakenCounts(eventId: string): Promise<Map<string, number>> {
+    return this.countTaken(eventId);
+  }
+  
+  /**
+   * Mark active holds past their expiry as expired
+   */
+  async expireHolds(): Promise<number> {
+    const now = Date.now();
+    let expired = 0;
+    
+    for (const hold of this.holds.values()) {
+      if (hold.status === 'active' && hold.expiresAt.getTime() <= now) {
+        hold.status = 'expired';
+        expired++;
+      }
+    }
+    
+    return expired;
+  }
+  
+  /**
+   * Sums confirmed holds and unexpired active holds for an event
+   */
+  private countTaken(eventId: string): Map<string, number> {
+    const now = Date.now();
+    const taken = new Map<string, number>();
+    
+    for (const hold of this.holds.values()) {
+      const counts = hold.status === 'confirmed' ||
+        (hold.status === 'active' && hold.expiresAt.getTime() > now);
+      
+      if (hold.eventId !== eventId || !counts) {
+        continue;
+      }
+      
+      const released = this.released.get(hold.id);
+      
+      for (const item of hold.items) {
+        const quantity = item.quantity - (released?.get(item.ticketTypeId) ?? 0);
+        taken.set(item.ticketTypeId, (taken.get(item.ticketTypeId) || 0) + quantity);
+      }
+    }
+    
+    return taken;
+  }
+}
@@ -6,49 +6,446 @@
  * WARNING: Data is lost when the server restarts!
  * This is only for development/testing.
  * 
- * For production, replace with PostgresOrderStore.
+ * For production, use SqliteOrderStore (ORDER_STORE=sqlite).
+ * 
+ * Given the inventory store, refunds and cancellations release the
+ * order's sold tickets with the order change (see
+ * InMemoryInventoryStore.setSoldItems).
  */
 
-import { Order, OrderStore } from './orderStore.js';
+import {
+  CancellationReason,
+  Order,
+  OrderActor,
+  OrderAuditAction,
+  OrderAuditEntry,
+  OrderFilter,
+  OrderPage,
+  OrderRefund,
+  OrderStore,
+  TicketTransfer,
+  orderStatusFromTickets,
+  selectRefundedTickets,
+  subtractItems
+} from './orderStore.js';
+import { InMemoryInventoryStore } from './inMemoryInventoryStore.js';
+import { buildAuditEntry } from './orderAuditService.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'orderStore' });
+
+/**
+ * Checks an order against every filter that is set
+ */
+function matchesFilter(order: Order, filter: OrderFilter): boolean {
+  return (!filter.status || order.status === filter.status)
+    && (!filter.source || order.source === filter.source)
+    && (!filter.eventId || order.eventId === filter.eventId)
+    && (!filter.ticketTypeId || order.tickets.some(ticket => ticket.ticketTypeId === filter.ticketTypeId))
+    && (!filter.email || order.email?.toLowerCase() === filter.email.toLowerCase())
+    && (!filter.buyerName || !!order.buyerName?.toLowerCase().includes(filter.buyerName.toLowerCase()))
+    && (!filter.buyerPhone || order.buyerPhone === filter.buyerPhone)
+    && (!filter.createdFrom || order.createdAt >= filter.createdFrom)
+    && (!filter.createdBefore || order.createdAt < filter.createdBefore);
+}
 
 export class InMemoryOrderStore implements OrderStore {
-  // Map of PaymentIntent ID -> Order
+  // Map of order ID -> Order
   private orders: Map<string, Order> = new Map();
   
+  // Map of QR token (order-wide and per ticket) -> order ID (for door check-in lookups)
+  private qrTokenIndex: Map<string, string> = new Map();
+  
+  // Map of transfer ID -> order ID
+  private transferIndex: Map<string, string> = new Map();
+  
   // Set of processed PaymentIntent IDs (for idempotency)
   private processedPaymentIntents: Set<string> = new Set();
   
+  // Map of order ID -> audit log, oldest first
+  private history: Map<string, OrderAuditEntry[]> = new Map();
+  
+  constructor(private inventory?: InMemoryInventoryStore) {}
+  
+  /**
+   * Stores a change to an order and records it in the audit log
+   */
+  private commit(action: OrderAuditAction, actor: OrderActor, before: Order | null, updated: Order): void {
+    this.orders.set(updated.orderId, updated);
+    this.history.set(updated.orderId, [
+      ...(this.history.get(updated.orderId) ?? []),
+      buildAuditEntry(action, actor, before, updated)
+    ]);
+  }
+  
   /**
    * Save a new order to memory
    */
-  async saveOrder(order: Order): Promise<void> {
-    this.orders.set(order.paymentIntentId, order);
-    console.log(`[OrderStore] Saved order for PaymentIntent: ${order.paymentIntentId}`);
+  async saveOrder(order: Order, actor: OrderActor): Promise<boolean> {
+    if (this.orders.has(order.orderId) ||
+        (order.paymentIntentId && this.processedPaymentIntents.has(order.paymentIntentId))) {
+      return false;
+    }
+    
+    if (order.paymentIntentId) {
+      this.processedPaymentIntents.add(order.paymentIntentId);
+    }
+    this.commit('created', actor, null, order);
+    this.qrTokenIndex.set(order.qrToken, order.orderId);
+    for (const ticket of order.tickets) {
+      this.qrTokenIndex.set(ticket.qrToken, order.orderId);
+    }
+    log.info({ orderId: order.orderId, source: order.source }, 'Order saved');
+    return true;
   }
   
   /**
-   * Get an order by PaymentIntent ID
+   * Get an order by ID
+   */
+  async getOrder(orderId: string): Promise<Order | null> {
+    return this.orders.get(orderId) || null;
+  }
+  
+  /**
+   * Get a paid order by PaymentIntent ID (its order ID)
    */
   async getOrderByPaymentIntentId(paymentIntentId: string): Promise<Order | null> {
     const order = this.orders.get(paymentIntentId);
-    return order || null;
+    return order?.paymentIntentId === paymentIntentId ? order : null;
   }
   
   /**
-   * Check if a PaymentIntent has already been processed
+   * List orders matching a filter, newest first
    */
-  async isPaymentIntentProcessed(paymentIntentId: string): Promise<boolean> {
-    return this.processedPaymentIntents.has(paymentIntentId);
+  async listOrders(filter: OrderFilter, page?: { limit: number; offset: number }): Promise<OrderPage> {
+    const matching = Array.from(this.orders.values())
+      .filter(order => matchesFilter(order, filter))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    
+    return {
+      orders: page ? matching.slice(page.offset, page.offset + page.limit) : matching,
+      total: matching.length
+    };
   }
   
   /**
-   * Mark a PaymentIntent as processed
+   * Get an order by its QR token
    */
-  async markPaymentIntentProcessed(paymentIntentId: string): Promise<void> {
-    this.processedPaymentIntents.add(paymentIntentId);
-    console.log(`[OrderStore] Marked PaymentIntent as processed: ${paymentIntentId}`);
+  async getOrderByQrToken(qrToken: string): Promise<Order | null> {
+    const orderId = this.qrTokenIndex.get(qrToken);
+    
+    if (!orderId) {
+      return null;
+    }
+    
+    return this.orders.get(orderId) || null;
   }
-}
-
-// Create a single instance to be used throughout the application
-export const orderStore = new InMemoryOrderStore();
\ No newline at end of file
+  
+  /**
+   * Compare-and-set tickets from valid to used.
+   * There is no await between the check and the write,
+   * so this is atomic within a single Node.js process.
+   */
+  async redeemTickets(orderId: string, ticketIds: string[], actor: OrderActor): Promise<Order | null> {
+    const order = this.orders.get(orderId);
+    
+    if (!order || order.status === 'cancelled') {
+      return null;
+    }
+    
+    const redeemable = ticketIds.length > 0 && ticketIds.every(ticketId =>
+      order.tickets.some(ticket => ticket.ticketId === ticketId && ticket.status === 'valid')
+    );
+    
+    if (!redeemable) {
+      return null;
+    }
+    
+    const now = new Date();
+    const tickets = order.tickets.map(ticket =>
+      ticketIds.includes(ticket.ticketId) ? { ...ticket, status: 'used' as const, usedAt: now } : ticket
+    );
+    
+    const updated: Order = {
+      ...order,
+      tickets,
+      status: orderStatusFromTickets(tickets),
+      usedAt: order.usedAt || now
+    };
+    
+    this.commit('checked_in', actor, order, updated);
+    log.info({ orderId, ticketIds }, 'Tickets redeemed');
+    
+    return updated;
+  }
+  
+  /**
+   * Give a ticket a new QR token
+   */
+  async reissueTicket(
+    orderId: string,
+    ticketId: string,
+    changes: { qrToken: string; attendeeName?: string },
+    actor: OrderActor
+  ): Promise<Order | null> {
+    const order = this.orders.get(orderId);
+    const ticket = order?.tickets.find(t => t.ticketId === ticketId);
+    
+    if (!order || order.status === 'cancelled' || !ticket || ticket.status !== 'valid') {
+      return null;
+    }
+    
+    const updated: Order = {
+      ...order,
+      tickets: order.tickets.map(t => t.ticketId === ticketId
+        ? { ...t, qrToken: changes.qrToken, attendeeName: changes.attendeeName ?? t.attendeeName }
+        : t
+      )
+    };
+    
+    this.commit('ticket_reissued', actor, order, updated);
+    this.qrTokenIndex.delete(ticket.qrToken);
+    this.qrTokenIndex.set(changes.qrToken, orderId);
+    log.info({ orderId, ticketId }, 'Ticket reissued');
+    
+    return updated;
+  }
+  
+  /**
+   * Get the order a transfer belongs to
+   */
+  async getOrderByTransferId(transferId: string): Promise<Order | null> {
+    const orderId = this.transferIndex.get(transferId);
+    
+    if (!orderId) {
+      return null;
+    }
+    
+    return this.orders.get(orderId) || null;
+  }
+  
+  /**
+   * Start a transfer, replacing a pending one for the same ticket
+   */
+  async startTransfer(orderId: string, transfer: TicketTransfer, actor: OrderActor): Promise<Order | null> {
+    const order = this.orders.get(orderId);
+    const ticket = order?.tickets.find(t => t.ticketId === transfer.ticketId);
+    
+    if (!order || order.status === 'cancelled' || !ticket || ticket.status !== 'valid') {
+      return null;
+    }
+    
+    const now = new Date();
+    const updated: Order = {
+      ...order,
+      transfers: [
+        ...order.transfers.map(t => t.ticketId === transfer.ticketId && t.status === 'pending'
+          ? { ...t, status: 'cancelled' as const, cancelledAt: now }
+          : t
+        ),
+        transfer
+      ]
+    };
+    
+    this.commit('transfer_started', actor, order, updated);
+    this.transferIndex.set(transfer.transferId, orderId);
+    log.info({ orderId, transferId: transfer.transferId, ticketId: transfer.ticketId }, 'Transfer started');
+    
+    return updated;
+  }
+  
+  /**
+   * Accept a transfer: new QR token and holder for the ticket
+   */
+  async acceptTransfer(
+    orderId: string,
+    transferId: string,
+    changes: { qrToken: string; holderTokenHash: string; attendeeName?: string },
+    actor: OrderActor
+  ): Promise<Order | null> {
+    const order = this.orders.get(orderId);
+    const transfer = order?.transfers.find(t => t.transferId === transferId);
+    const ticket = order?.tickets.find(t => t.ticketId === transfer?.ticketId);
+    
+    if (!order || order.status === 'cancelled' || transfer?.status !== 'pending' || !ticket || ticket.status !== 'valid') {
+      return null;
+    }
+    
+    const updated: Order = {
+      ...order,
+      tickets: order.tickets.map(t => t.ticketId === ticket.ticketId
+        ? {
+            ...t,
+            qrToken: changes.qrToken,
+            attendeeName: changes.attendeeName,
+            holderEmail: transfer.toEmail,
+            holderTokenHash: changes.holderTokenHash
+          }
+        : t
+      ),
+      transfers: order.transfers.map(t => t.transferId === transferId
+        ? { ...t, status: 'accepted' as const, acceptedAt: new Date() }
+        : t
+      )
+    };
+    
+    this.commit('transfer_accepted', actor, order, updated);
+    this.qrTokenIndex.delete(ticket.qrToken);
+    this.qrTokenIndex.set(changes.qrToken, orderId);
+    log.info({ orderId, transferId, ticketId: ticket.ticketId }, 'Transfer accepted, ticket reissued');
+    
+    return updated;
+  }
+  
+  /**
+   * Withdraw a pending transfer
+   */
+  async cancelTransfer(orderId: string, transferId: string, actor: OrderActor): Promise<Order | null> {
+    const order = this.orders.get(orderId);
+    
+    if (!order || !order.transfers.some(t => t.transferId === transferId && t.status === 'pending')) {
+      return null;
+    }
+    
+    const updated: Order = {
+      ...order,
+      transfers: order.transfers.map(t => t.transferId === transferId
+        ? { ...t, status: 'cancelled' as const, cancelledAt: new Date() }
+        : t
+      )
+    };
+    
+    this.commit('transfer_cancelled', actor, order, updated);
+    log.info({ orderId, transferId }, 'Transfer cancelled');
+    
+    return updated;
+  }
+  
+  /**
+   * Apply a refund (idempotent per refund ID)
+   */
+  async applyRefund(orderId: string, refund: OrderRefund, actor: OrderActor): Promise<Order | null> {
+    const order = this.orders.get(orderId);
+    
+    if (!order) {
+      return null;
+    }
+    
+    if (order.refunds.some(r => r.refundId === refund.refundId)) {
+      return order;
+    }
+    
+    const items = subtractItems(order.items, refund.items);
+    const fullyRefunded = items.length === 0;
+    
+    const now = new Date();
+    const ticketIds = selectRefundedTickets(order.tickets, refund);
+    const tickets = order.tickets.map(ticket =>
+      ticketIds.includes(ticket.ticketId) && ticket.status !== 'cancelled'
+        ? { ...ticket, status: 'cancelled' as const, cancelledAt: now }
+        : ticket
+    );
+    
+    const updated: Order = {
+      ...order,
+      items,
+      tickets,
+      refunds: [...order.refunds, { ...refund, ticketIds }],
+      status: fullyRefunded || order.status === 'cancelled' ? 'cancelled' : orderStatusFromTickets(tickets),
+      cancelledAt: fullyRefunded ? (order.cancelledAt || now) : order.cancelledAt,
+      cancellationReason: fullyRefunded ? (order.cancellationReason || 'refunded') : order.cancellationReason
+    };
+    
+    this.commit('refunded', actor, order, updated);
+    this.inventory?.setSoldItems(orderId, updated.status === 'cancelled' ? [] : items);
+    log.info({ orderId, refundId: refund.refundId }, 'Refund applied');
+    
+    return updated;
+  }
+  
+  /**
+   * Cancel an order
+   */
+  async cancelOrder(orderId: string, reason: CancellationReason, actor: OrderActor): Promise<Order | null> {
+    const order = this.orders.get(orderId);
+    
+    if (!order) {
+      return null;
+    }
+    
+    if (order.status === 'cancelled') {
+      return order;
+    }
+    
+    const updated: Order = {
+      ...order,
+      status: 'cancelled',
+      cancelledAt: new Date(),
+      cancellationReason: reason
+    };
+    
+    this.commit('cancelled', actor, order, updated);
+    this.inventory?.setSoldItems(orderId, []);
+    log.info({ orderId, reason }, 'Order cancelled');
+    
+    return updated;
+  }
+  
+  /**
+   * Undo a dispute cancellation
+   */
+  async reinstateOrder(orderId: string, actor: OrderActor): Promise<Order | null> {
+    const order = this.orders.get(orderId);
+    
+    if (!order || order.status !== 'cancelled' || order.cancellationReason !== 'disputed') {
+      return null;
+    }
+    
+    const updated: Order = {
+      ...order,
+      status: orderStatusFromTickets(order.tickets),
+      cancelledAt: undefined,
+      cancellationReason: undefined
+    };
+    
+    this.commit('reinstated', actor, order, updated);
+    
+    // Counted again even if they were sold on meanwhile: the buyer keeps their tickets
+    this.inventory?.setSoldItems(orderId, updated.items);
+    log.info({ orderId, status: updated.status }, 'Order reinstated');
+    
+    return updated;
+  }
+  
+  /**
+   * Give a legacy order its first access token
+   */
+  async issueAccessToken(orderId: string, accessTokenHash: string, actor: OrderActor): Promise<Order | null> {
+    const order = this.orders.get(orderId);
+    
+    if (!order || order.accessTokenHash) {
+      return null;
+    }
+    
+    const updated: Order = { ...order, accessTokenHash };
+    
+    this.commit('access_token_issued', actor, order, updated);
+    log.info({ orderId }, 'Access token issued');
+    
+    return updated;
+  }
+  
+  /**
+   * Get an order's audit log
+   */
+  async getOrderHistory(orderId: string): Promise<OrderAuditEntry[]> {
+    return this.history.get(orderId) ?? [];
+  }
+  
+  /**
+   * Check if a PaymentIntent has already been processed
+   */
+  async isPaymentIntentProcessed(paymentIntentId: string): Promise<boolean> {
+    return this.processedPaymentIntents.has(paymentIntentId);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,104 @@
+/**
+ * In-Memory Promo Code Store
+ * 
+ * Stores promo codes and redemptions in memory.
+ * 
+ * WARNING: Data is lost when the server restarts!
+ * This is only for development/testing.
+ */
+
+import { PromoCode, PromoRedemption, PromoStore, normalizePromoCode } from './promoStore.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'promoStore' });
+
+export class InMemoryPromoStore implements PromoStore {
+  // Map of code -> Promo code
+  private promoCodes: Map<string, PromoCode> = new Map();
+  
+  // Map of PaymentIntent ID -> Redemption (one redemption per payment)
+  private redemptions: Map<string, PromoRedemption> = new Map();
+  
+  /**
+   * Create a promo code
+   */
+  async createPromoCode(promo: PromoCode): Promise<boolean> {
+    const code = normalizePromoCode(promo.code);
+    
+    if (this.promoCodes.has(code)) {
+      return false;
+    }
+    
+    this.promoCodes.set(code, { ...promo, code });
+    log.info({ promoCode: code }, 'Promo code created');
+    
+    return true;
+  }
+  
+  /**
+   * Get a promo code
+   */
+  async getPromoCode(code: string): Promise<PromoCode | null> {
+    return this.promoCodes.get(normalizePromoCode(code)) || null;
+  }
+  
+  /**
+   * List every promo code, newest first
+   */
+  async listPromoCodes(): Promise<PromoCode[]> {
+    return [...this.promoCodes.values()].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  /**
+   * Switch a promo code on or off
+   */
+  async setPromoCodeActive(code: string, active: boolean): Promise<PromoCode | null> {
+    const promo = this.promoCodes.get(normalizePromoCode(code));
+    
+    if (!promo) {
+      return null;
+    }
+    
+    promo.active = active;
+    log.info({ promoCode: promo.code }, active ? 'Promo code activated' : 'Promo code deactivated');
+    
+    return promo;
+  }
+  
+  /**
+   * Count successful redemptions of a code
+   */
+  async countRedemptions(code: string, customerKey?: string): Promise<{ total: number; customer: number }> {
+    const normalized = normalizePromoCode(code);
+    let total = 0;
+    let customer = 0;
+    
+    for (const redemption of this.redemptions.values()) {
+      if (redemption.code !== normalized) {
+        continue;
+      }
+      
+      total++;
+      if (customerKey && redemption.customerKey === customerKey) {
+        customer++;
+      }
+    }
+    
+    return { total, customer };
+  }
+  
+  /**
+   * Record a successful redemption
+   */
+  async recordRedemption(redemption: PromoRedemption): Promise<void> {
+    if (this.redemptions.has(redemption.paymentIntentId)) {
+      return;
+    }
+    
+    this.redemptions.set(redemption.paymentIntentId, {
+      ...redemption,
+      code: normalizePromoCode(redemption.code)
+    });
+    log.info({ promoCode: normalizePromoCode(redemption.code), paymentIntentId: redemption.paymentIntentId }, 'Promo code redeemed');
+  }
+}
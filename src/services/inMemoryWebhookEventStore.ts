@@ -0,0 +1,89 @@
+/**
+ * In-Memory Webhook Event Store
+ * 
+ * Stores the webhook event log in memory.
+ * 
+ * WARNING: Data is lost when the server restarts!
+ * This is only for development/testing.
+ */
+
+import { WebhookEventPage, WebhookEventRecord, WebhookEventStatus, WebhookEventStore } from './webhookEventStore.js';
+
+export class InMemoryWebhookEventStore implements WebhookEventStore {
+  // Map of Stripe event ID -> Event
+  private events: Map<string, WebhookEventRecord> = new Map();
+  
+  /**
+   * Store a newly received event
+   */
+  async recordEvent(event: { eventId: string; type: string; payload: string; receivedAt: Date }): Promise<WebhookEventRecord> {
+    const existing = this.events.get(event.eventId);
+    
+    if (existing) {
+      return existing;
+    }
+    
+    const record: WebhookEventRecord = { ...event, status: 'received', attempts: 0 };
+    this.events.set(event.eventId, record);
+    
+    return record;
+  }
+  
+  /**
+   * Get an event
+   */
+  async getEvent(eventId: string): Promise<WebhookEventRecord | null> {
+    return this.events.get(eventId) || null;
+  }
+  
+  /**
+   * List events, newest first
+   */
+  async listEvents(status: WebhookEventStatus | undefined, page: { limit: number; offset: number }): Promise<WebhookEventPage> {
+    const matching = [...this.events.values()]
+      .filter(event => !status || event.status === status)
+      .sort((a, b) => b.receivedAt.getTime() - a.receivedAt.getTime());
+    
+    return {
+      events: matching.slice(page.offset, page.offset + page.limit),
+      total: matching.length
+    };
+  }
+  
+  /**
+   * Record a successful attempt
+   */
+  async markProcessed(eventId: string): Promise<WebhookEventRecord | null> {
+    const event = this.events.get(eventId);
+    
+    if (!event) {
+      return null;
+    }
+    
+    const now = new Date();
+    event.status = 'processed';
+    event.attempts++;
+    event.lastAttemptAt = now;
+    event.processedAt = now;
+    
+    return event;
+  }
+  
+  /**
+   * Record a failed attempt
+   */
+  async markFailed(eventId: string, error: string, maxAttempts: number): Promise<WebhookEventRecord | null> {
+    const event = this.events.get(eventId);
+    
+    if (!event) {
+      return null;
+    }
+    
+    event.attempts++;
+    event.status = event.attempts >= maxAttempts ? 'dead_letter' : 'failed';
+    event.lastError = error;
+    event.lastAttemptAt = new Date();
+    
+    return event;
+  }
+}
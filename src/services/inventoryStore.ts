@@ -0,0 +1,199 @@
+/**
+ * Inventory Store Interface
+ * 
+ * Tracks how many tickets are taken for each event, so we never
+ * sell more than the venue (or a ticket type) can hold.
+ * 
+ * Tickets are taken in two steps:
+ * 1. create-intent places a time-limited HOLD on the tickets
+ * 2. payment_intent.succeeded turns the hold into a SALE
+ * 
+ * Holds are released when the payment fails or is canceled,
+ * and stop counting as soon as they expire.
+ * 
+ * Comps (complimentary tickets) take the same two steps at once when
+ * an admin issues them, and give their tickets back when revoked.
+ * 
+ * Refunded tickets, and every ticket of a cancelled order (a refund or
+ * a dispute), stop counting as sold. The order stores release them in
+ * the same transaction as the order change, and count them again if a
+ * dispute is won (see setSoldItems in the store implementations).
+ */
+
+import { EventInfo, findTicketType } from './eventCatalog.js';
+import { OrderItem } from './orderStore.js';
+
+/**
+ * Lifecycle of a hold:
+ * - active: waiting for payment (counts until expiresAt)
+ * - confirmed: paid, permanently counts as sold
+ * - released: payment failed or was canceled
+ * - expired: was not paid in time
+ */
+export type HoldStatus = 'active' | 'confirmed' | 'released' | 'expired';
+
+/**
+ * Tickets set aside for one checkout
+ */
+export interface InventoryHold {
+  id: string;                // Random hold ID (stored in PaymentIntent metadata)
+  eventId: string;           // Event the tickets are for
+  items: OrderItem[];        // Tickets held, per ticket type
+  status: HoldStatus;        // Hold status
+  createdAt: Date;           // When the hold was placed
+  expiresAt: Date;           // When an active hold stops counting
+  orderId?: string;          // Set once the hold becomes a sale
+}
+
+/**
+ * A sale to record when a payment succeeds (or a comp is issued)
+ */
+export interface Sale {
+  holdId?: string;          // Hold placed at checkout (missing for older PaymentIntents)
+  orderId: string;          // The order the tickets went to
+  eventId: string;
+  items: OrderItem[];
+}
+
+/**
+ * Remaining tickets for an event (null = no limit)
+ */
+export interface Availability {
+  eventId: string;
+  remaining: number | null;  // Remaining across the whole event
+  ticketTypes: Array<{
+    ticketTypeId: string;
+    remaining: number | null;
+    soldOut: boolean;
+  }>;
+}
+
+/**
+ * Thrown when a hold cannot be placed because there are not enough tickets left
+ */
+export class SoldOutError extends Error {
+  constructor(
+    public readonly eventId: string,
+    public readonly ticketTypeId: string | null  // null when the whole event is full
+  ) {
+    super(ticketTypeId
+      ? `Ticket type ${ticketTypeId} is sold out for event ${eventId}`
+      : `Event ${eventId} is sold out`);
+    this.name = 'SoldOutError';
+  }
+}
+
+/**
+ * Interface for inventory storage operations.
+ * createHold MUST check capacity and record the hold atomically.
+ */
+export interface InventoryStore {
+  /**
+   * Place a hold on tickets, if there are enough left
+   * @param event - The event (provides the capacities)
+   * @param items - Tickets to hold
+   * @param expiresAt - When the hold stops counting if unpaid
+   * @returns The new hold
+   * @throws SoldOutError if the event or a ticket type does not have enough left
+   */
+  createHold(event: EventInfo, items: OrderItem[], expiresAt: Date): Promise<InventoryHold>;
+  
+  /**
+   * Release an active hold (payment failed or was canceled)
+   * @param holdId - The hold ID
+   * @returns true if an active hold was released
+   */
+  releaseHold(holdId: string): Promise<boolean>;
+  
+  /**
+   * Record a sale, turning its hold (if any) into confirmed tickets.
+   * The sale is recorded even if the hold was released or expired:
+   * the customer has paid, so they get their tickets.
+   * Recording the same sale twice is a no-op.
+   * @param sale - The sale to record
+   */
+  convertHoldToSale(sale: Sale): Promise<void>;
+  
+  /**
+   * Give a sale's tickets back (a comp was revoked)
+   * @param orderId - The order the tickets went to
+   * @returns true if a sale was released
+   */
+  releaseSale(orderId: string): Promise<boolean>;
+  
+  /**
+   * Count tickets taken (sold + actively held) per ticket type
+   * @param eventId - The event ID
+   * @returns Map of ticket type ID -> tickets taken
+   */
+  getTakenCounts(eventId: string): Promise<Map<string, number>>;
+  
+  /**
+   * Mark active holds past their expiry as expired
+   * @returns Number of holds expired
+   */
+  expireHolds(): Promise<number>;
+}
+
+/**
+ * Checks whether the requested tickets fit in what is left.
+ * 
+ * @param event - The event (provides the capacities)
+ * @param taken - Tickets already taken per ticket type
+ * @param items - Tickets requested
+ * @throws SoldOutError if they do not fit
+ */
+export function assertCapacity(event: EventInfo, taken: Map<string, number>, items: OrderItem[]): void {
+  for (const item of items) {
+    const ticketType = findTicketType(event, item.ticketTypeId);
+    
+    if (ticketType?.capacity !== undefined &&
+        (taken.get(item.ticketTypeId) || 0) + item.quantity > ticketType.capacity) {
+      throw new SoldOutError(event.id, item.ticketTypeId);
+    }
+  }
+  
+  if (event.capacity !== undefined) {
+    const totalTaken = [...taken.values()].reduce((sum, quantity) => sum + quantity, 0);
+    const totalRequested = items.reduce((sum, item) => sum + item.quantity, 0);
+    
+    if (totalTaken + totalRequested > event.capacity) {
+      throw new SoldOutError(event.id, null);
+    }
+  }
+}
+
+/**
+ * Calculates remaining tickets for an event and each of its ticket types.
+ * 
+ * @param event - The event (provides the capacities)
+ * @param taken - Tickets already taken per ticket type
+ * @returns Remaining tickets (null = no limit)
+ */
+export function calculateAvailability(event: EventInfo, taken: Map<string, number>): Availability {
+  const totalTaken = [...taken.values()].reduce((sum, quantity) => sum + quantity, 0);
+  const eventRemaining = event.capacity !== undefined
+    ? Math.max(event.capacity - totalTaken, 0)
+    : null;
+  
+  return {
+    eventId: event.id,
+    remaining: eventRemaining,
+    ticketTypes: event.ticketTypes.map(ticketType => {
+      const typeRemaining = ticketType.capacity !== undefined
+        ? Math.max(ticketType.capacity - (taken.get(ticketType.id) || 0), 0)
+        : null;
+      
+      // A ticket type can never have more left than the event itself
+      const remaining = typeRemaining === null ? eventRemaining
+        : eventRemaining === null ? typeRemaining
+        : Math.min(typeRemaining, eventRemaining);
+      
+      return {
+        ticketTypeId: ticketType.id,
+        remaining,
+        soldOut: remaining === 0
+      };
+    })
+  };
+}
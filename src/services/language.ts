@@ -0,0 +1,64 @@
+/**
+ * Languages
+ * 
+ * The languages the storefront, API messages and ticket emails are
+ * available in.
+ */
+
+export const LANGUAGES = ['en', 'es', 'pt-BR'] as const;
+
+export type Language = typeof LANGUAGES[number];
+
+// Used when an order has no (or an unknown) language
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+/**
+ * Reads a language code, falling back to the default
+ * 
+ * @param value - Language code (e.g. from PaymentIntent metadata)
+ * @returns A supported language
+ */
+export function parseLanguage(value: string | undefined): Language {
+  return LANGUAGES.find(language => language === value) ?? DEFAULT_LANGUAGE;
+}
+
+/**
+ * Picks the language to answer a request in: the language the client
+ * asked for (e.g. the checkout body's "language"), else the best
+ * supported match in its Accept-Language header, else the default.
+ * 
+ * Accept-Language matches ignore case, and a tag matches on its
+ * primary language alone too ("es-MX" -> "es", "pt" -> "pt-BR").
+ * 
+ * @param requested - Language code the client sent, if any
+ * @param acceptLanguage - The Accept-Language header, if any
+ * @returns A supported language
+ */
+export function negotiateLanguage(requested: unknown, acceptLanguage: string | undefined): Language {
+  const exact = LANGUAGES.find(language => language === requested);
+  
+  if (exact) {
+    return exact;
+  }
+  
+  const ranges = (acceptLanguage ?? '')
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.map(p => p.trim()).find(p => p.startsWith('q='));
+      return { tag: tag.trim().toLowerCase(), quality: q ? Number(q.slice(2)) : 1, index };
+    })
+    .filter(range => range.tag && range.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+  
+  for (const { tag } of ranges) {
+    const match = LANGUAGES.find(language => language.toLowerCase() === tag)
+      ?? LANGUAGES.find(language => language.split('-')[0] === tag.split('-')[0]);
+    
+    if (match) {
+      return match;
+    }
+  }
+  
+  return DEFAULT_LANGUAGE;
+}
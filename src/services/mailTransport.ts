@@ -0,0 +1,44 @@
+/**
+ * Mail Transport Interface
+ * 
+ * Defines the contract for sending email.
+ * Implementations:
+ * - SmtpMailTransport: real delivery through an SMTP server
+ * - FileMailTransport: writes each message to a folder (offline testing)
+ * - ConsoleMailTransport: logs a summary of each message (development)
+ */
+
+/**
+ * A file attached to an email.
+ * Set `cid` to show an image inline (<img src="cid:...">).
+ */
+export interface MailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+  cid?: string;
+}
+
+/**
+ * An email ready to send
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  attachments: MailAttachment[];
+}
+
+/**
+ * Interface for sending email.
+ * Implementations throw if the message could not be handed over,
+ * so callers can retry.
+ */
+export interface MailTransport {
+  /**
+   * Send a message
+   * @param message - The message to send
+   */
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,184 @@
+/**
+ * Metrics
+ * 
+ * Counters and histograms served at GET /metrics in the Prometheus
+ * text exposition format (see plugins/metrics.ts).
+ * 
+ * Values are kept in memory, per server process, and start from zero
+ * on every restart (Prometheus handles counter resets). Label values
+ * come from our own data (event and ticket type IDs, status codes),
+ * never from raw request input, so the number of series stays small.
+ */
+
+// Label names and values of one series
+type Labels = Record<string, string>;
+
+// Latency buckets, in seconds: 5ms to 10s
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Escapes a label value for the exposition format
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Formats labels as {name="value",...} (empty without labels)
+ */
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Identifies a series by its labels, whatever order they were given in
+ */
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * A value that only goes up, per set of labels
+ */
+export class Counter {
+  // Map of series key -> Labels and value
+  private series: Map<string, { labels: Labels; value: number }> = new Map();
+  
+  constructor(readonly name: string, readonly help: string) {}
+  
+  /**
+   * Adds to the counter
+   * 
+   * @param labels - Which series to add to
+   * @param amount - How much to add (default 1, never negative)
+   */
+  inc(labels: Labels = {}, amount: number = 1): void {
+    const key = seriesKey(labels);
+    const entry = this.series.get(key);
+    
+    if (entry) {
+      entry.value += amount;
+    } else {
+      this.series.set(key, { labels, value: amount });
+    }
+  }
+  
+  /**
+   * Renders the counter in the exposition format
+   */
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    
+    for (const { labels, value } of this.series.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    }
+    
+    return lines.join('\n');
+  }
+}
+
+/**
+ * Observed values (e.g. latencies) counted into buckets, per set of labels
+ */
+export class Histogram {
+  // Map of series key -> Labels, count per bucket, sum and count
+  private series: Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }> = new Map();
+  
+  constructor(readonly name: string, readonly help: string, private bucketBounds: number[] = LATENCY_BUCKETS) {}
+  
+  /**
+   * Records one value
+   * 
+   * @param labels - Which series to record it in
+   * @param value - The value (seconds, for latencies)
+   */
+  observe(labels: Labels, value: number): void {
+    const key = seriesKey(labels);
+    let entry = this.series.get(key);
+    
+    if (!entry) {
+      entry = { labels, buckets: this.bucketBounds.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, entry);
+    }
+    
+    this.bucketBounds.forEach((bound, index) => {
+      if (value <= bound) {
+        entry.buckets[index]++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+  
+  /**
+   * Starts timing something
+   * 
+   * @returns A function that records the seconds elapsed since, in the given series
+   */
+  startTimer(): (labels: Labels) => void {
+    const started = process.hrtime.bigint();
+    
+    return (labels) => {
+      this.observe(labels, Number(process.hrtime.bigint() - started) / 1e9);
+    };
+  }
+  
+  /**
+   * Renders the histogram in the exposition format
+   */
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    
+    for (const { labels, buckets, sum, count } of this.series.values()) {
+      this.bucketBounds.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: bound.toString() })} ${buckets[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    
+    return lines.join('\n');
+  }
+}
+
+/**
+ * Everything the app measures
+ */
+export interface Metrics {
+  ticketsSold: Counter;             // event_id, ticket_type
+  revenue: Counter;                 // event_id, currency (in cents)
+  createIntentDuration: Histogram;  // status_code
+  webhookDuration: Histogram;       // event_type
+  webhookFailures: Counter;         // event_type
+  qrRequests: Counter;              // result
+  checkins: Counter;                // result
+  rateLimitRejections: Counter;     // route
+}
+
+/**
+ * Creates the app's metrics, all starting from zero
+ */
+export function createMetrics(): Metrics {
+  return {
+    ticketsSold: new Counter('tickets_sold_total', 'Tickets sold, by event and ticket type'),
+    revenue: new Counter('ticket_revenue_cents_total', 'Amount paid for orders (taxes and fees included), in cents, by event and currency'),
+    createIntentDuration: new Histogram('create_intent_duration_seconds', 'Time to answer POST /api/checkout/create-intent, by status code'),
+    webhookDuration: new Histogram('webhook_duration_seconds', 'Time to answer a payment webhook, by event type'),
+    webhookFailures: new Counter('webhook_failures_total', 'Payment webhook events that failed to process, by event type'),
+    qrRequests: new Counter('qr_requests_total', 'Requests for an order\'s QR codes, by result'),
+    checkins: new Counter('checkins_total', 'Tickets scanned at the door, by result'),
+    rateLimitRejections: new Counter('rate_limit_rejections_total', 'Requests refused by the rate limiter, by route')
+  };
+}
+
+/**
+ * Renders every metric in the Prometheus text exposition format
+ * 
+ * @param metrics - The app's metrics
+ * @returns The body for GET /metrics
+ */
+export function renderMetrics(metrics: Metrics): string {
+  return Object.values(metrics).map(metric => metric.render()).join('\n') + '\n';
+}
@@ -0,0 +1,164 @@
+/**
+ * Notification Service
+ * 
+ * Delivers tickets to buyers by email, and transferred tickets to
+ * their new holders.
+ * 
+ * Mail servers fail now and then, so sends are retried with
+ * exponential backoff (MAIL_MAX_ATTEMPTS, MAIL_RETRY_DELAY_MS).
+ * Retries happen in the background and do not survive a restart.
+ */
+
+import { EventInfo } from './eventCatalog.js';
+import { parseLanguage } from './language.js';
+import { MailMessage, MailTransport } from './mailTransport.js';
+import { Order, Ticket, TicketTransfer } from './orderStore.js';
+import { buildTicketEmail } from './ticketEmailService.js';
+import { buildTransferOfferEmail } from './transferEmailService.js';
+import { buyerHeldOrder, holderHeldOrder, transferCutoff } from './ticketTransferService.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'notifications' });
+
+// How many times a send is attempted before giving up (default: 5)
+const MAIL_MAX_ATTEMPTS = parseInt(process.env.MAIL_MAX_ATTEMPTS || '5', 10);
+
+// Delay before the first retry; doubles after every failure (default: 2 seconds)
+const MAIL_RETRY_DELAY_MS = parseInt(process.env.MAIL_RETRY_DELAY_MS || '2000', 10);
+
+/**
+ * Sends a message, retrying on failure
+ * 
+ * @param transport - Where to send it
+ * @param message - The message to send
+ * @returns true if the message was sent, false if every attempt failed
+ */
+export async function sendWithRetry(transport: MailTransport, message: MailMessage): Promise<boolean> {
+  for (let attempt = 1; attempt <= MAIL_MAX_ATTEMPTS; attempt++) {
+    try {
+      await transport.send(message);
+      return true;
+    } catch (error) {
+      log.error({ err: error, subject: message.subject, attempt, maxAttempts: MAIL_MAX_ATTEMPTS }, 'Email send attempt failed');
+      
+      if (attempt < MAIL_MAX_ATTEMPTS) {
+        const delay = MAIL_RETRY_DELAY_MS * 2 ** (attempt - 1);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+  
+  return false;
+}
+
+/**
+ * Emails an order's tickets to the buyer, in the order's language.
+ * Tickets transferred to someone else are left out.
+ * 
+ * @param transport - Where to send the email
+ * @param order - The order to deliver
+ * @param event - The event the order is for
+ * @param accessToken - A newly issued order access token to include, if any
+ * @returns true if the email was sent
+ */
+export async function deliverTickets(
+  transport: MailTransport,
+  order: Order,
+  event: EventInfo,
+  accessToken?: string
+): Promise<boolean> {
+  if (!order.email) {
+    log.info({ orderId: order.orderId }, 'No email address - tickets not sent');
+    return false;
+  }
+  
+  const message = await buildTicketEmail(buyerHeldOrder(order), event, order.email, parseLanguage(order.language), false, accessToken);
+  const sent = await sendWithRetry(transport, message);
+  
+  if (sent) {
+    log.info({ orderId: order.orderId }, 'Tickets sent');
+  } else {
+    log.error({ orderId: order.orderId }, 'Giving up on ticket email');
+  }
+  
+  return sent;
+}
+
+/**
+ * Emails a transfer's recipient the code that accepts it, in the order's language
+ * 
+ * @param transport - Where to send the email
+ * @param order - The order the ticket belongs to
+ * @param transfer - The pending transfer
+ * @param acceptToken - The code that accepts it
+ * @param event - The event the order is for
+ * @returns true if the email was sent
+ */
+export async function deliverTransferOffer(
+  transport: MailTransport,
+  order: Order,
+  transfer: TicketTransfer,
+  acceptToken: string,
+  event: EventInfo
+): Promise<boolean> {
+  const ticket = order.tickets.find(t => t.ticketId === transfer.ticketId);
+  
+  if (!ticket) {
+    return false;
+  }
+  
+  const message = buildTransferOfferEmail(
+    transfer,
+    acceptToken,
+    ticket,
+    event,
+    transferCutoff(event),
+    parseLanguage(order.language)
+  );
+  const sent = await sendWithRetry(transport, message);
+  
+  if (sent) {
+    log.info({ transferId: transfer.transferId }, 'Transfer offer sent');
+  } else {
+    log.error({ transferId: transfer.transferId }, 'Giving up on transfer offer email');
+  }
+  
+  return sent;
+}
+
+/**
+ * Emails a transferred ticket (with its new QR code) to its new holder
+ * 
+ * @param transport - Where to send the email
+ * @param order - The order the ticket belongs to
+ * @param ticket - The ticket, as reissued to the new holder
+ * @param event - The event the order is for
+ * @returns true if the email was sent
+ */
+export async function deliverTransferredTicket(
+  transport: MailTransport,
+  order: Order,
+  ticket: Ticket,
+  event: EventInfo
+): Promise<boolean> {
+  if (!ticket.holderEmail) {
+    return false;
+  }
+  
+  const message = await buildTicketEmail(
+    holderHeldOrder(order, ticket),
+    event,
+    ticket.holderEmail,
+    parseLanguage(order.language),
+    true
+  );
+  const sent = await sendWithRetry(transport, message);
+  
+  if (sent) {
+    log.info({ ticketId: ticket.ticketId }, 'Transferred ticket sent');
+  } else {
+    log.error({ ticketId: ticket.ticketId }, 'Giving up on transferred ticket email');
+  }
+  
+  return sent;
+}
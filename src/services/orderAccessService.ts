@@ -0,0 +1,148 @@
+/**
+ * Order Access Service
+ * 
+ * Every order gets a random access token at checkout (comps when an
+ * admin issues them). Only the buyer's browser receives it, and the
+ * buyer-facing order routes (QR codes, event stream, downloads)
+ * require it, so knowing an order ID (which shows up in logs and
+ * browser history) is not enough to see someone's tickets.
+ * 
+ * A ticket transferred to someone else gets its own holder token
+ * instead: from then on the buyer's token no longer opens it.
+ * 
+ * Only a SHA-256 hash of a token is stored (in the payment metadata,
+ * then on the order), and hashes are compared in constant time. A
+ * checkout sent with an Idempotency-Key derives its token from the key
+ * and a server secret (ORDER_TOKEN_SECRET) instead, so a replay can
+ * hand the same token back without it ever being stored (see
+ * accessTokenForIdempotencyKey).
+ */
+
+import crypto from 'node:crypto';
+import { Order, Ticket } from './orderStore.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'orderAccess' });
+
+// Loaded lazily on first use
+let tokenSecret: Buffer | null = null;
+
+/**
+ * Loads the secret idempotent checkouts derive their tokens with.
+ * In development, an ephemeral secret is generated if none is configured.
+ */
+function getTokenSecret(): Buffer {
+  if (tokenSecret) {
+    return tokenSecret;
+  }
+  
+  const configured = process.env.ORDER_TOKEN_SECRET;
+  
+  if (configured) {
+    if (configured.length < 32) {
+      throw new Error('ORDER_TOKEN_SECRET must be at least 32 characters');
+    }
+    tokenSecret = Buffer.from(configured);
+  } else {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('ORDER_TOKEN_SECRET environment variable is required');
+    }
+    
+    // Development only: a replay after a restart gets a token that no longer opens its order
+    tokenSecret = crypto.randomBytes(32);
+    log.warn('ORDER_TOKEN_SECRET not set - using an ephemeral development secret');
+  }
+  
+  return tokenSecret;
+}
+
+/**
+ * Generates a new access token
+ * 
+ * @returns The token (handed to the buyer or holder) and its hash (stored)
+ */
+export function createAccessToken(): { token: string; hash: string } {
+  const token = crypto.randomBytes(32).toString('base64url');
+  
+  return { token, hash: hashAccessToken(token) };
+}
+
+/**
+ * Derives the access token of a checkout sent with an Idempotency-Key:
+ * an HMAC of the key, route and request fingerprint under the server's
+ * ORDER_TOKEN_SECRET. Knowing (or guessing) the key is not enough to
+ * work the token out; only a repeat of the same request gets it again.
+ * 
+ * @param idempotencyKey - The Idempotency-Key header, as sent
+ * @param route - The checkout route it was sent to (keys are per route)
+ * @param fingerprint - The request body's fingerprint (see fingerprintRequest)
+ * @returns The token and its hash, the same for every repeat
+ */
+export function accessTokenForIdempotencyKey(
+  idempotencyKey: string,
+  route: string,
+  fingerprint: string
+): { token: string; hash: string } {
+  const token = crypto.createHmac('sha256', getTokenSecret())
+    .update(JSON.stringify(['orderAccessToken', route, idempotencyKey, fingerprint]))
+    .digest('base64url');
+  
+  return { token, hash: hashAccessToken(token) };
+}
+
+/**
+ * Hashes an access token for storage
+ * 
+ * @param token - The token
+ * @returns Hex SHA-256 of the token
+ */
+export function hashAccessToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Checks a token against a stored hash, in constant time
+ * 
+ * @param hash - The stored hash (nothing matches if missing)
+ * @param token - The token the caller sent (if any)
+ * @returns Whether the token matches
+ */
+export function verifyAccessToken(hash: string | undefined, token: string | undefined): boolean {
+  if (!hash || !token) {
+    return false;
+  }
+  
+  // Both sides are SHA-256 digests, so the lengths always match
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.createHash('sha256').update(token).digest();
+  
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Checks an access token against an order.
+ * Orders placed before access tokens existed cannot be opened with one
+ * until a resend of their tickets issues them one (see OrderStore.issueAccessToken).
+ * 
+ * @param order - The order being accessed
+ * @param token - The token the caller sent (if any)
+ * @returns Whether the token opens the order
+ */
+export function verifyOrderAccessToken(order: Order, token: string | undefined): boolean {
+  return verifyAccessToken(order.accessTokenHash, token);
+}
+
+/**
+ * Checks an access token against whoever holds a ticket now:
+ * the holder it was transferred to, or else the buyer
+ * 
+ * @param order - The order the ticket belongs to
+ * @param ticket - The ticket being accessed
+ * @param token - The token the caller sent (if any)
+ * @returns Whether the token opens the ticket
+ */
+export function verifyTicketHolderToken(order: Order, ticket: Ticket, token: string | undefined): boolean {
+  return ticket.holderTokenHash
+    ? verifyAccessToken(ticket.holderTokenHash, token)
+    : verifyOrderAccessToken(order, token);
+}
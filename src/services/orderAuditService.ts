@@ -0,0 +1,133 @@
+/**
+ * Order Audit Service
+ * 
+ * Builds the entries of an order's audit log (see OrderAuditEntry):
+ * who changed the order, and what it changed.
+ * 
+ * An order is flattened to the values worth auditing - its status,
+ * items, and each ticket, refund and transfer - and an entry keeps
+ * the ones that differ before and after the change. QR tokens are
+ * secret, so only a short hash of each is kept: enough to see when a
+ * ticket got a new QR code.
+ */
+
+import { Principal } from './authService.js';
+import { hashAccessToken } from './orderAccessService.js';
+import { AuditValues, Order, OrderActor, OrderAuditAction, OrderAuditEntry } from './orderStore.js';
+
+// Hex characters of a QR token's hash kept in the log
+const QR_TOKEN_HASH_LENGTH = 12;
+
+/**
+ * The actor for a change made while handling a payment gateway event
+ * 
+ * @param webhookEventId - The event's ID (e.g. evt_...)
+ */
+export function webhookActor(webhookEventId: string): OrderActor {
+  return { type: 'webhook', id: webhookEventId };
+}
+
+/**
+ * The actor for a change made by staff with an API key
+ * 
+ * @param principal - The caller (request.principal)
+ */
+export function staffActor(principal: Principal): OrderActor {
+  return {
+    type: principal.role === 'door' ? 'door' : 'admin',
+    id: principal.keyId,
+    name: principal.name
+  };
+}
+
+/**
+ * The actor for a change made by a buyer or ticket holder
+ * 
+ * @param email - Their email ("unknown" if the order has none)
+ */
+export function customerActor(email: string | undefined): OrderActor {
+  return { type: 'customer', id: email ?? 'unknown' };
+}
+
+/**
+ * Flattens an order to its audited values
+ * 
+ * @param order - The order
+ * @returns The values, keyed by path
+ */
+export function auditValues(order: Order): AuditValues {
+  const values: AuditValues = {
+    status: order.status,
+    cancellationReason: order.cancellationReason ?? null
+  };
+  
+  for (const item of order.items) {
+    values[`items.${item.ticketTypeId}`] = item.quantity;
+  }
+  
+  for (const ticket of order.tickets) {
+    const path = `tickets.${ticket.ticketId}`;
+    values[`${path}.status`] = ticket.status;
+    values[`${path}.attendeeName`] = ticket.attendeeName ?? null;
+    values[`${path}.holderEmail`] = ticket.holderEmail ?? null;
+    values[`${path}.qrTokenHash`] = hashAccessToken(ticket.qrToken).slice(0, QR_TOKEN_HASH_LENGTH);
+  }
+  
+  for (const refund of order.refunds) {
+    values[`refunds.${refund.refundId}.amount`] = refund.amount;
+  }
+  
+  for (const transfer of order.transfers) {
+    const path = `transfers.${transfer.transferId}`;
+    values[`${path}.ticketId`] = transfer.ticketId;
+    values[`${path}.toEmail`] = transfer.toEmail;
+    values[`${path}.status`] = transfer.status;
+  }
+  
+  return values;
+}
+
+/**
+ * Builds the audit entry for a change
+ * 
+ * @param action - What the change did
+ * @param actor - Who made it
+ * @param before - The order before the change (null when it was just created)
+ * @param after - The order after the change
+ * @returns The entry, with only the values that changed (missing ones as null)
+ */
+export function buildAuditEntry(
+  action: OrderAuditAction,
+  actor: OrderActor,
+  before: Order | null,
+  after: Order
+): OrderAuditEntry {
+  const afterValues = auditValues(after);
+  
+  if (!before) {
+    return { orderId: after.orderId, action, actor, before: null, after: afterValues, createdAt: new Date() };
+  }
+  
+  const beforeValues = auditValues(before);
+  const changedBefore: AuditValues = {};
+  const changedAfter: AuditValues = {};
+  
+  for (const path of new Set([...Object.keys(beforeValues), ...Object.keys(afterValues)])) {
+    const was = beforeValues[path] ?? null;
+    const is = afterValues[path] ?? null;
+    
+    if (was !== is) {
+      changedBefore[path] = was;
+      changedAfter[path] = is;
+    }
+  }
+  
+  return {
+    orderId: after.orderId,
+    action,
+    actor,
+    before: changedBefore,
+    after: changedAfter,
+    createdAt: new Date()
+  };
+}
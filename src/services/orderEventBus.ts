@@ -0,0 +1,55 @@
+/**
+ * Order Event Bus
+ * 
+ * In-process publish/subscribe for order changes, keyed by order
+ * ID (a paid order's is its PaymentIntent ID, which is known before
+ * the order exists). The order store publishes every change (see
+ * publishingOrderStore.ts) and the webhook publishes failed payments,
+ * so open order event streams can update the buyer right away.
+ * 
+ * Events only reach subscribers in this process. With more than one
+ * server instance, a buyer connected to another instance will not see
+ * them until they reconnect (the stream starts with the current state).
+ */
+
+import { EventEmitter } from 'node:events';
+import { Order } from './orderStore.js';
+
+/**
+ * Something that happened to an order or its payment
+ * - order_updated: the order was created or changed
+ * - payment_failed: the payment did not go through (final if the PaymentIntent was canceled)
+ */
+export type OrderEvent =
+  | { type: 'order_updated'; order: Order }
+  | { type: 'payment_failed'; message: string | null; final: boolean };
+
+export type OrderEventListener = (event: OrderEvent) => void;
+
+export class OrderEventBus {
+  private emitter = new EventEmitter();
+  
+  constructor() {
+    // One listener per open stream, so the default warning at 10 would be noise
+    this.emitter.setMaxListeners(0);
+  }
+  
+  /**
+   * Publish an event to everyone watching an order
+   */
+  publish(orderId: string, event: OrderEvent): void {
+    this.emitter.emit(orderId, event);
+  }
+  
+  /**
+   * Watch an order
+   * @returns A function that stops watching
+   */
+  subscribe(orderId: string, listener: OrderEventListener): () => void {
+    this.emitter.on(orderId, listener);
+    
+    return () => {
+      this.emitter.off(orderId, listener);
+    };
+  }
+}
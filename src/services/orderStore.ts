@@ -6,47 +6,476 @@
  * from in-memory storage to a database (like Postgres) later.
  */
 
+import { Language } from './language.js';
+import { Province, TaxCode } from './taxService.js';
+
+/**
+ * Where an order came from:
+ * - paid: bought through checkout (a Stripe PaymentIntent succeeded)
+ * - comp: complimentary tickets issued by an admin (guest lists)
+ */
+export type OrderSource = 'paid' | 'comp';
+
+/**
+ * Lifecycle of an order:
+ * - valid: paid or issued, at least one ticket not yet scanned at the door
+ * - used: every remaining ticket has been scanned
+ * - cancelled: no longer admits anyone
+ */
+export type OrderStatus = 'valid' | 'used' | 'cancelled';
+
+/**
+ * Lifecycle of a single ticket:
+ * - valid: not yet scanned at the door
+ * - used: scanned and admitted (cannot be scanned again)
+ * - cancelled: refunded, no longer admits anyone
+ */
+export type TicketStatus = 'valid' | 'used' | 'cancelled';
+
+/**
+ * Why an order was cancelled
+ */
+export type CancellationReason = 'refunded' | 'disputed' | 'revoked';
+
+/**
+ * Lifecycle of a ticket transfer:
+ * - pending: waiting for the recipient to accept
+ * - accepted: the recipient holds the ticket (it has a new QR code)
+ * - cancelled: withdrawn by the holder, or replaced by a newer transfer
+ */
+export type TransferStatus = 'pending' | 'accepted' | 'cancelled';
+
+/**
+ * A quantity of one ticket type within an order
+ */
+export interface OrderItem {
+  ticketTypeId: string;  // Ticket type ID from the event catalog
+  quantity: number;      // Number of tickets of this type
+}
+
+/**
+ * The price of one ticket type on an order, as quoted at checkout (amounts in cents)
+ */
+export interface OrderLine {
+  ticketTypeId: string;
+  quantity: number;    // Tickets bought (not reduced by refunds)
+  unitAmount: number;  // Price per ticket
+  amount: number;      // unitAmount x quantity
+}
+
+/**
+ * A sales tax charged on an order
+ */
+export interface OrderTax {
+  code: TaxCode;                   // e.g. "GST", "QST"
+  jurisdiction: 'CA' | Province;   // Who collects it ("CA" for federal)
+  rate: number;                    // Percent (e.g. 9.975)
+  amount: number;                  // In cents
+}
+
+/**
+ * What the buyer paid for an order (amounts in cents).
+ * total = subtotal - discount + fee + tax, and is what was charged.
+ */
+export interface OrderTotals {
+  currency: string;   // ISO currency code (e.g. "cad")
+  lines: OrderLine[]; // Price per ticket type (empty for orders placed before lines were recorded)
+  subtotal: number;   // Tickets before discount
+  discount: number;   // Promo code discount
+  fee: number;        // Service fee
+  taxes: OrderTax[];  // Sales taxes by jurisdiction (empty if none were charged)
+  tax: number;        // Sum of the taxes
+  total: number;      // Amount charged
+}
+
+/**
+ * One attendee's ticket, with its own QR code
+ */
+export interface Ticket {
+  ticketId: string;         // Public ticket reference (tkt_...)
+  qrToken: string;          // Random token encoded in this ticket's QR code
+  ticketTypeId: string;     // Ticket type ID from the event catalog
+  status: TicketStatus;     // Ticket status
+  attendeeName?: string;    // Who the ticket is for (optional)
+  usedAt?: Date;            // When the ticket was checked in at the door
+  cancelledAt?: Date;       // When the ticket was refunded
+  holderEmail?: string;     // Who the ticket was transferred to (missing while the buyer holds it)
+  holderTokenHash?: string; // SHA-256 of the holder's access token (set with holderEmail)
+}
+
 /**
- * Represents a completed order with QR code
+ * A ticket passed from its holder to someone else.
+ * Accepted and cancelled transfers are kept as the ticket's history.
+ */
+export interface TicketTransfer {
+  transferId: string;       // Public transfer reference (trf_...)
+  ticketId: string;         // The ticket being transferred
+  fromEmail?: string;       // Who held the ticket when the transfer started
+  toEmail: string;          // Who the ticket is for
+  status: TransferStatus;   // Transfer status
+  acceptTokenHash: string;  // SHA-256 of the code emailed to the recipient
+  createdAt: Date;          // When the transfer was started
+  acceptedAt?: Date;        // When the recipient accepted
+  cancelledAt?: Date;       // When the transfer was withdrawn or replaced
+}
+
+/**
+ * A refund applied to an order (full or partial)
+ */
+export interface OrderRefund {
+  refundId: string;     // Stripe Refund ID
+  amount: number;       // Amount refunded (in cents)
+  items: OrderItem[];   // Tickets no longer admitted because of this refund
+  ticketIds: string[];  // The exact tickets refunded (picked automatically if empty)
+  createdAt: Date;      // When the refund was applied
+}
+
+/**
+ * Represents a completed order and its tickets.
+ * A paid order's ID is its PaymentIntent ID, so buyers can follow it
+ * (and its webhook can find it) before it exists; comps get comp_... IDs.
  */
 export interface Order {
-  paymentIntentId: string;  // Stripe PaymentIntent ID
-  qrToken: string;          // Random token encoded in QR code
-  status: 'valid' | 'used' | 'cancelled';  // Order status
+  orderId: string;          // Order ID (the PaymentIntent ID for paid orders, comp_... for comps)
+  source: OrderSource;      // Paid at checkout or issued as a comp
+  paymentIntentId?: string; // Stripe PaymentIntent ID (paid orders only)
+  qrToken: string;          // Order-wide token. Only handed out before per-attendee tickets; still admits the whole order
+  status: OrderStatus;      // Order status
   createdAt: Date;          // When the order was created
-  femaleQty: number;        // Number of female tickets
-  maleQty: number;          // Number of male tickets
+  usedAt?: Date;            // When the first ticket was checked in at the door
+  eventId: string;          // Event the tickets are for
+  items: OrderItem[];       // Tickets admitted, per ticket type (reduced by partial refunds)
+  tickets: Ticket[];        // One ticket per attendee (refunded ones are kept as cancelled)
+  refunds: OrderRefund[];   // Refunds applied so far
+  transfers: TicketTransfer[]; // Ticket transfers, oldest first
+  cancelledAt?: Date;       // When the order was cancelled
+  cancellationReason?: CancellationReason;  // Why the order was cancelled
+  promoCode?: string;       // Promo code used at checkout
+  email?: string;           // Where the tickets are emailed
+  buyerName?: string;       // Who placed the order
+  buyerPhone?: string;      // Buyer's phone number (digits, with a leading + if given)
+  language?: Language;      // Language the buyer checked out in
+  totals?: OrderTotals;     // What was paid (missing for comps and for orders placed before totals were recorded)
+  accessTokenHash?: string; // SHA-256 of the buyer's order access token (missing for orders placed before tokens)
+}
+
+/**
+ * Filters for listing orders (all optional, combined with AND)
+ */
+export interface OrderFilter {
+  status?: OrderStatus;    // Order status
+  source?: OrderSource;    // Paid orders or comps
+  eventId?: string;        // Event the tickets are for
+  ticketTypeId?: string;   // Orders that included at least one ticket of this type
+  email?: string;          // Buyer email (case-insensitive)
+  buyerName?: string;      // Part of the buyer's name (case-insensitive)
+  buyerPhone?: string;     // Buyer phone number, as stored
+  createdFrom?: Date;      // Created at or after this time
+  createdBefore?: Date;    // Created before this time
+}
+
+/**
+ * A page of orders
+ */
+export interface OrderPage {
+  orders: Order[];  // Newest first
+  total: number;    // Number of orders matching the filter (all pages)
+}
+
+/**
+ * Who changed an order:
+ * - webhook: a payment gateway event
+ * - admin, door: staff, by API key (door devices use door keys)
+ * - customer: a buyer or ticket holder, with their access token
+ */
+export type OrderActorType = 'webhook' | 'admin' | 'door' | 'customer';
+
+/**
+ * The actor recorded with a change (see OrderAuditEntry)
+ */
+export interface OrderActor {
+  type: OrderActorType;
+  id: string;       // Webhook event ID, API key ID ("bootstrap" for ADMIN_API_KEY) or the customer's email
+  name?: string;    // API key name (e.g. "Door scanner 1")
+}
+
+/**
+ * What a change did to an order
+ */
+export type OrderAuditAction =
+  | 'created'
+  | 'checked_in'
+  | 'ticket_reissued'
+  | 'transfer_started'
+  | 'transfer_accepted'
+  | 'transfer_cancelled'
+  | 'refunded'
+  | 'cancelled'
+  | 'reinstated'
+  | 'access_token_issued';
+
+/**
+ * Audited values of an order, keyed by path
+ * (e.g. "status", "items.female", "tickets.tkt_3f9a1c0e5b7d2468.status")
+ */
+export type AuditValues = Record<string, string | number | null>;
+
+/**
+ * One change to an order, in its append-only audit log
+ */
+export interface OrderAuditEntry {
+  orderId: string;
+  action: OrderAuditAction;
+  actor: OrderActor;
+  before: AuditValues | null;  // The values that changed, as they were (null when the order was created)
+  after: AuditValues;          // The same values afterwards
+  createdAt: Date;             // When the change was made
 }
 
 /**
  * Interface for order storage operations.
  * Implement this interface to create different storage backends.
+ * 
+ * Every change is recorded in the order's audit log, with the actor
+ * who made it, in the same write as the change itself.
  */
 export interface OrderStore {
   /**
-   * Save a new order
+   * Save a new order and mark its PaymentIntent (if any) as processed,
+   * both or neither
    * @param order - The order to save
+   * @param actor - Who created it
+   * @returns false if the PaymentIntent was already processed or the
+   *          order ID is taken (nothing is saved)
    */
-  saveOrder(order: Order): Promise<void>;
+  saveOrder(order: Order, actor: OrderActor): Promise<boolean>;
   
   /**
-   * Get an order by PaymentIntent ID
+   * Get an order by ID
+   * @param orderId - The order ID
+   * @returns The order if found, null otherwise
+   */
+  getOrder(orderId: string): Promise<Order | null>;
+  
+  /**
+   * Get a paid order by PaymentIntent ID
    * @param paymentIntentId - The Stripe PaymentIntent ID
    * @returns The order if found, null otherwise
    */
   getOrderByPaymentIntentId(paymentIntentId: string): Promise<Order | null>;
   
+  /**
+   * List orders matching a filter, newest first
+   * @param filter - Which orders to include
+   * @param page - Which slice to return (all matching orders if missing)
+   * @returns The orders, and how many match in total
+   */
+  listOrders(filter: OrderFilter, page?: { limit: number; offset: number }): Promise<OrderPage>;
+  
+  /**
+   * Get an order by a token encoded in one of its QR codes
+   * (a ticket's token, or the order-wide token of older orders)
+   * @param qrToken - The scanned QR token
+   * @returns The order if found, null otherwise
+   */
+  getOrderByQrToken(qrToken: string): Promise<Order | null>;
+  
+  /**
+   * Atomically mark tickets as used (compare-and-set).
+   * The update only happens if every listed ticket is still valid and
+   * the order is not cancelled, so two scanners redeeming the same
+   * ticket cannot both succeed.
+   * @param orderId - The order ID
+   * @param ticketIds - The tickets being admitted
+   * @param actor - Who checked them in
+   * @returns The updated order, or null if the order does not exist
+   *          or one of the tickets can no longer be redeemed
+   */
+  redeemTickets(orderId: string, ticketIds: string[], actor: OrderActor): Promise<Order | null>;
+  
+  /**
+   * Give a ticket a new QR token (and optionally a new attendee name).
+   * The old token stops working immediately. Only valid tickets of
+   * orders that are not cancelled can be reissued.
+   * @param orderId - The order ID
+   * @param ticketId - The ticket to reissue
+   * @param changes - The new token, and the new attendee name (kept if missing)
+   * @param actor - Who reissued it
+   * @returns The updated order, or null if the ticket cannot be reissued
+   */
+  reissueTicket(
+    orderId: string,
+    ticketId: string,
+    changes: { qrToken: string; attendeeName?: string },
+    actor: OrderActor
+  ): Promise<Order | null>;
+  
+  /**
+   * Get the order a ticket transfer belongs to
+   * @param transferId - The transfer ID
+   * @returns The order if found, null otherwise
+   */
+  getOrderByTransferId(transferId: string): Promise<Order | null>;
+  
+  /**
+   * Start a ticket transfer. A pending transfer of the same ticket is
+   * cancelled (only the newest one can be accepted). Only valid tickets
+   * of orders that are not cancelled can be transferred.
+   * @param orderId - The order ID
+   * @param transfer - The new (pending) transfer
+   * @param actor - The ticket's holder
+   * @returns The updated order, or null if the ticket cannot be transferred
+   */
+  startTransfer(orderId: string, transfer: TicketTransfer, actor: OrderActor): Promise<Order | null>;
+  
+  /**
+   * Accept a pending transfer: the ticket gets a new QR token and holder
+   * in the same write, so the old QR code stops working immediately.
+   * @param orderId - The order ID
+   * @param transferId - The transfer being accepted
+   * @param changes - The new token, the new holder's token hash, and the attendee name (cleared if missing)
+   * @param actor - The recipient
+   * @returns The updated order, or null if the transfer is not pending
+   *          or the ticket can no longer be transferred
+   */
+  acceptTransfer(
+    orderId: string,
+    transferId: string,
+    changes: { qrToken: string; holderTokenHash: string; attendeeName?: string },
+    actor: OrderActor
+  ): Promise<Order | null>;
+  
+  /**
+   * Withdraw a pending transfer
+   * @param orderId - The order ID
+   * @param transferId - The transfer to cancel
+   * @param actor - The ticket's holder
+   * @returns The updated order, or null if the transfer is not pending
+   */
+  cancelTransfer(orderId: string, transferId: string, actor: OrderActor): Promise<Order | null>;
+  
+  /**
+   * Apply a refund to an order.
+   * Refunded tickets are removed from `items` and cancelled; when none
+   * are left the order is cancelled. Applying the same refund twice is a no-op.
+   * @param orderId - The order ID
+   * @param refund - The refund to apply
+   * @param actor - Who refunded it (the admin, or the webhook for refunds made at Stripe)
+   * @returns The updated order, or null if the order does not exist
+   */
+  applyRefund(orderId: string, refund: OrderRefund, actor: OrderActor): Promise<Order | null>;
+  
+  /**
+   * Cancel an order (whatever its current status)
+   * @param orderId - The order ID
+   * @param reason - Why the order is cancelled
+   * @param actor - Who cancelled it
+   * @returns The updated order, or null if the order does not exist
+   */
+  cancelOrder(orderId: string, reason: CancellationReason, actor: OrderActor): Promise<Order | null>;
+  
+  /**
+   * Undo a cancellation caused by a dispute (the dispute was won).
+   * The order goes back to 'valid' if it has unused tickets, 'used' otherwise.
+   * @param orderId - The order ID
+   * @param actor - Who reinstated it
+   * @returns The updated order, or null if the order does not exist
+   *          or was not cancelled because of a dispute
+   */
+  reinstateOrder(orderId: string, actor: OrderActor): Promise<Order | null>;
+  
+  /**
+   * Give an order placed before access tokens existed its first one
+   * @param orderId - The order ID
+   * @param accessTokenHash - SHA-256 of the new token
+   * @param actor - Who asked for it
+   * @returns The updated order, or null if the order does not exist
+   *          or already has a token
+   */
+  issueAccessToken(orderId: string, accessTokenHash: string, actor: OrderActor): Promise<Order | null>;
+  
+  /**
+   * Get an order's audit log
+   * @param orderId - The order ID
+   * @returns Every recorded change, oldest first (empty for unknown orders)
+   */
+  getOrderHistory(orderId: string): Promise<OrderAuditEntry[]>;
+  
   /**
    * Check if a PaymentIntent has already been processed
-   * Used for webhook idempotency
+   * Used for webhook idempotency. A PaymentIntent only counts as
+   * processed once its order is saved (see saveOrder).
    * @param paymentIntentId - The Stripe PaymentIntent ID
    * @returns true if already processed
    */
   isPaymentIntentProcessed(paymentIntentId: string): Promise<boolean>;
+}
+
+/**
+ * Checks that a string looks like an order ID (a PaymentIntent ID or a comp's ID)
+ * 
+ * @param orderId - The ID from the request
+ * @returns Whether it is worth looking up
+ */
+export function isOrderId(orderId: string): boolean {
+  return orderId.startsWith('pi_') || orderId.startsWith('comp_');
+}
+
+/**
+ * Removes refunded tickets from a list of items.
+ * Ticket types with nothing left are dropped.
+ * 
+ * @param items - Current items
+ * @param removed - Items to take away
+ * @returns The remaining items
+ */
+export function subtractItems(items: OrderItem[], removed: OrderItem[]): OrderItem[] {
+  return items
+    .map(item => {
+      const removedQty = removed
+        .filter(r => r.ticketTypeId === item.ticketTypeId)
+        .reduce((sum, r) => sum + r.quantity, 0);
+      
+      return { ...item, quantity: Math.max(item.quantity - removedQty, 0) };
+    })
+    .filter(item => item.quantity > 0);
+}
+
+/**
+ * Works out the status of an order that is not cancelled from its tickets
+ * 
+ * @param tickets - The order's tickets
+ * @returns 'valid' while a ticket is left to scan, 'used' otherwise
+ */
+export function orderStatusFromTickets(tickets: Ticket[]): OrderStatus {
+  return tickets.some(ticket => ticket.status === 'valid') ? 'valid' : 'used';
+}
+
+/**
+ * Picks the tickets a refund cancels.
+ * Refunds from the admin API name their tickets. For the others, unused
+ * tickets go first (newest first), so people already inside keep theirs.
+ * 
+ * @param tickets - The order's tickets
+ * @param refund - The refund being applied
+ * @returns IDs of the tickets to cancel
+ */
+export function selectRefundedTickets(tickets: Ticket[], refund: OrderRefund): string[] {
+  if (refund.ticketIds.length > 0) {
+    return refund.ticketIds;
+  }
   
-  /**
-   * Mark a PaymentIntent as processed
-   * @param paymentIntentId - The Stripe PaymentIntent ID
-   */
-  markPaymentIntentProcessed(paymentIntentId: string): Promise<void>;
-}
\ No newline at end of file
+  const selected: string[] = [];
+  
+  for (const item of refund.items) {
+    const ofType = tickets.filter(ticket => ticket.ticketTypeId === item.ticketTypeId).reverse();
+    const candidates = [
+      ...ofType.filter(ticket => ticket.status === 'valid'),
+      ...ofType.filter(ticket => ticket.status === 'used')
+    ];
+    
+    selected.push(...candidates.slice(0, item.quantity).map(ticket => ticket.ticketId));
+  }
+  
+  return selected;
+}
@@ -0,0 +1,245 @@
+/**
+ * Payment Gateway Interface
+ * 
+ * Defines the contract for taking payments, so routes never talk to
+ * a payment provider directly.
+ * 
+ * Provider webhooks are turned into PaymentEvents, which are all the
+ * webhook handlers see. Payments keep the provider's ID (for Stripe,
+ * the PaymentIntent ID), which is what orders are stored under.
+ * 
+ * A payment is started either by our frontend (createPayment, paid
+ * with Stripe Elements) or on the provider's hosted checkout page
+ * (createCheckoutSession). Both carry the same metadata, so the
+ * payment_succeeded event that follows builds the same order.
+ * 
+ * Implementations:
+ * - StripePaymentGateway: real payments through Stripe
+ * - FakePaymentGateway: offline payments for development and tests
+ */
+
+import { IncomingHttpHeaders } from 'node:http';
+import { Language } from './language.js';
+
+/**
+ * Who is paying
+ */
+export interface PaymentCustomer {
+  email: string;   // Where the provider sends its receipt
+  name: string;
+  phone?: string;
+}
+
+/**
+ * A payment to start at checkout
+ */
+export interface PaymentRequest {
+  amount: number;                    // Amount to charge, in cents
+  currency: string;                  // ISO currency code (e.g. "cad")
+  metadata: Record<string, string>;  // Order details, read back when the payment succeeds
+  customer?: PaymentCustomer;        // The buyer, kept by the provider with the payment
+  idempotencyKey?: string;           // Repeats with the same key return the same payment
+}
+
+/**
+ * A payment waiting for the customer to pay
+ */
+export interface CreatedPayment {
+  paymentIntentId: string;  // Provider payment ID
+  clientSecret: string;     // Handed to the frontend to confirm the payment
+}
+
+/**
+ * A line on the hosted checkout page
+ */
+export interface CheckoutLineItem {
+  name: string;
+  unitAmount: number;  // In cents
+  quantity: number;
+}
+
+/**
+ * A payment to take on the provider's hosted checkout page
+ */
+export interface CheckoutSessionRequest extends PaymentRequest {
+  lineItems: CheckoutLineItem[];                 // Add up to amount, before the discount
+  discount?: { name: string; amount: number };  // Taken off the whole (in cents)
+  locale: Language;                              // Language of the page
+  successUrl: string;                            // Where the customer goes after paying
+  cancelUrl: string;                             // Where the customer goes if they give up
+  expiresAt: Date;                               // When the page stops taking payment
+}
+
+/**
+ * A hosted checkout page waiting for the customer
+ */
+export interface CreatedCheckoutSession {
+  sessionId: string;  // Provider session ID (e.g. cs_...)
+  url: string;        // Where to send the customer
+  expiresAt: Date;
+}
+
+/**
+ * Where a checkout session is:
+ * - open: waiting for the customer
+ * - complete: the customer paid (or a delayed payment method is pending)
+ * - expired: it can no longer be paid
+ */
+export type CheckoutSessionStatus = 'open' | 'complete' | 'expired';
+
+/**
+ * A checkout session, as looked up after the customer comes back
+ */
+export interface CheckoutSessionDetails {
+  sessionId: string;
+  status: CheckoutSessionStatus;
+  paymentIntentId: string | null;  // Set once the customer has tried to pay (the paid order's ID)
+}
+
+/**
+ * A payment, as reported in a payment event
+ */
+export interface PaymentDetails {
+  paymentIntentId: string;
+  amount: number;                     // Amount charged, in cents
+  currency: string;
+  metadata: Record<string, string>;   // As given in the PaymentRequest
+  failureMessage: string | null;      // Why the latest attempt failed (failed payments only)
+}
+
+/**
+ * A refund to make
+ */
+export interface RefundRequest {
+  paymentIntentId: string;
+  amount?: number;                    // In cents (everything left if missing)
+  metadata: Record<string, string>;   // Which tickets it covers, read back by the webhook
+  idempotencyKey?: string;            // Repeats with the same key return the same refund
+}
+
+/**
+ * A refund made through the gateway (or the provider's dashboard)
+ */
+export interface GatewayRefund {
+  refundId: string;
+  paymentIntentId: string;
+  amount: number;                     // In cents
+  status: string;                     // pending, succeeded, failed or canceled
+  metadata: Record<string, string>;   // As given in the RefundRequest (empty for dashboard refunds)
+  createdAt: Date;
+}
+
+/**
+ * Something that happened to a payment:
+ * - payment_succeeded: the customer paid
+ * - payment_failed: an attempt failed (final if the payment can no longer be retried)
+ * - charge_refunded: some or all of the payment was refunded
+ * - dispute_created / dispute_closed: the customer disputed the charge
+ * - checkout_expired: a checkout session ran out without being paid
+ * - ignored: an event we don't act on
+ */
+export type PaymentEvent =
+  | { type: 'payment_succeeded'; payment: PaymentDetails }
+  | { type: 'payment_failed'; payment: PaymentDetails; final: boolean }
+  | { type: 'charge_refunded'; paymentIntentId: string | null; chargeId: string; amount: number; amountRefunded: number; fullyRefunded: boolean }
+  | { type: 'dispute_created'; paymentIntentId: string | null; disputeId: string }
+  | { type: 'dispute_closed'; paymentIntentId: string | null; disputeId: string; status: string; won: boolean }
+  | { type: 'checkout_expired'; sessionId: string; paymentIntentId: string | null; metadata: Record<string, string> }
+  | { type: 'ignored' };
+
+/**
+ * A webhook event from the gateway
+ */
+export interface GatewayEvent {
+  id: string;          // Provider event ID (events are handled once per ID)
+  type: string;        // Provider event type, for logs (e.g. payment_intent.succeeded)
+  data: PaymentEvent;
+}
+
+/**
+ * Thrown when the payment provider rejects a request or cannot be reached
+ */
+export class PaymentGatewayError extends Error {
+  constructor(message: string, public readonly statusCode: number = 502) {
+    super(message);
+    this.name = 'PaymentGatewayError';
+  }
+}
+
+/**
+ * Interface for payment providers.
+ */
+export interface PaymentGateway {
+  /**
+   * Start a payment
+   * @param request - Amount, currency and order details
+   * @returns The payment ID and the client secret for the frontend
+   * @throws PaymentGatewayError if the provider refuses
+   */
+  createPayment(request: PaymentRequest): Promise<CreatedPayment>;
+  
+  /**
+   * Get the client secret of a payment again (it is never stored)
+   * @param paymentIntentId - The payment ID
+   * @returns The client secret for the frontend
+   * @throws PaymentGatewayError if the provider refuses
+   */
+  getClientSecret(paymentIntentId: string): Promise<string>;
+  
+  /**
+   * Start a payment on the provider's hosted checkout page
+   * @param request - The payment, the lines to show and where to send the customer back to
+   * @returns The session ID and the page's URL
+   * @throws PaymentGatewayError if the provider refuses
+   */
+  createCheckoutSession(request: CheckoutSessionRequest): Promise<CreatedCheckoutSession>;
+  
+  /**
+   * Look up a checkout session
+   * @param sessionId - The session ID
+   * @returns The session, or null if there is no such session
+   * @throws PaymentGatewayError if the provider cannot be reached
+   */
+  getCheckoutSession(sessionId: string): Promise<CheckoutSessionDetails | null>;
+  
+  /**
+   * Clean up after a checkout session that expired unpaid, such as
+   * the discount made for it. Safe to repeat.
+   * @param sessionId - The session ID
+   * @throws PaymentGatewayError if the provider cannot be reached
+   */
+  discardCheckoutSession(sessionId: string): Promise<void>;
+  
+  /**
+   * Refund a payment, fully or partially
+   * @param request - The payment, amount and ticket details
+   * @returns The refund
+   * @throws PaymentGatewayError if the provider refuses
+   */
+  createRefund(request: RefundRequest): Promise<GatewayRefund>;
+  
+  /**
+   * List every refund of a payment
+   * @param paymentIntentId - The payment ID
+   * @returns The refunds, including ones made outside our API
+   */
+  listRefunds(paymentIntentId: string): Promise<GatewayRefund[]>;
+  
+  /**
+   * Verify a webhook request and turn it into a payment event.
+   * Must be called with the RAW request body.
+   * @param payload - Raw request body
+   * @param headers - Request headers (carrying the signature)
+   * @returns The event
+   * @throws Error if the request is not authentic
+   */
+  verifyWebhook(payload: Buffer, headers: IncomingHttpHeaders): GatewayEvent;
+  
+  /**
+   * Turn a stored webhook payload back into a payment event, for
+   * replays. The payload must have been verified when it arrived.
+   * @param payload - The raw body stored in the webhook event log
+   * @returns The event
+   */
+  parseEvent(payload: string): GatewayEvent;
+}
@@ -1,52 +1,181 @@
 /**
  * Pricing Service
  * 
- * Calculates ticket prices and fees.
- * Prices are in CAD (Canadian Dollars).
+ * Calculates ticket prices, fees and sales taxes.
+ * Prices come from the event's ticket types (see eventCatalog.ts),
+ * in the event's currency.
  * 
- * Current pricing:
- * - Female ticket: $1.00 CAD
- * - Male ticket: $2.00 CAD
- * - Fee: 8% of subtotal (TODO: Replace with real payment processor fee)
+ * Every amount is an integer number of cents. Rounding happens in
+ * exactly three places, each half up to the cent (see percentOf):
+ * 1. A percentage promo discount, on the eligible lines
+ * 2. The percentage part of the service fee, on the discounted subtotal
+ * 3. Each sales tax, on the discounted subtotal plus the fee
+ * 
+ * So: total = subtotal - discount + fee + sum of taxes, to the cent,
+ * and the total is exactly the amount the payment gateway charges.
+ */
+
+import { EventInfo, findTicketType } from './eventCatalog.js';
+import { Order, OrderItem, OrderTax, OrderTotals } from './orderStore.js';
+import { PromoCode } from './promoStore.js';
+import { SalesTax, salesTaxesFor } from './taxService.js';
+
+// Service fee: a percentage of the discounted subtotal, plus a fixed amount per ticket
+const SERVICE_FEE_PERCENT = parseFloat(process.env.SERVICE_FEE_PERCENT || '8'); // 8%
+const SERVICE_FEE_PER_TICKET_CENTS = parseInt(process.env.SERVICE_FEE_PER_TICKET_CENTS || '0', 10); // None
+
+/**
+ * One priced line of the breakdown (amounts in cents)
  */
+export interface PricingLine {
+  ticketTypeId: string;
+  name: string;        // Ticket type display name
+  quantity: number;
+  unitAmount: number;  // Price per ticket
+  amount: number;      // unitAmount x quantity
+}
 
-// Price per ticket type in dollars
-const FEMALE_TICKET_PRICE = 1.00; // CAD
-const MALE_TICKET_PRICE = 2.00;   // CAD
+/**
+ * Discount from a promo code
+ */
+export interface PricingDiscount {
+  code: string;         // Promo code applied
+  description: string;  // e.g. "20% off" or "CA$5.00 off"
+  amount: number;       // Amount taken off (in cents, positive)
+}
 
-// Fee percentage (TODO: Replace with actual Stripe fee calculation later)
-const FEE_PERCENTAGE = 0.08; // 8%
+/**
+ * A sales tax charged on the order
+ */
+export interface PricingTax extends SalesTax {
+  amount: number;  // In cents
+}
 
 export interface PricingResult {
-  subtotal: number;  // Total before fees (in dollars)
-  fee: number;       // Processing fee (in dollars)
-  total: number;     // Final amount (in dollars)
+  currency: string;      // ISO currency code, lowercase
+  lines: PricingLine[];  // One line per ticket type
+  subtotal: number;      // Total before discount, fee and taxes (in cents)
+  discount: PricingDiscount | null;  // Promo code discount, if any
+  fee: number;           // Service fee (in cents)
+  taxes: PricingTax[];   // Sales taxes for the event's province (empty if none)
+  tax: number;           // Sum of the taxes (in cents)
+  total: number;         // Final amount (in cents)
 }
 
 /**
  * Calculates the pricing breakdown for a ticket order.
  * 
- * @param femaleQty - Number of female tickets
- * @param maleQty - Number of male tickets
- * @returns Pricing breakdown with subtotal, fee, and total
+ * @param event - The event the tickets are for
+ * @param items - Requested quantities per ticket type (zero quantities are skipped)
+ * @param promo - Promo code to apply (already validated, see promoService)
+ * @returns Pricing breakdown with lines, subtotal, discount, fee, taxes, and total
+ * @throws Error if a ticket type is not sold for this event
  */
-export function calculatePricing(femaleQty: number, maleQty: number): PricingResult {
-  // Calculate subtotal
-  const subtotal = (femaleQty * FEMALE_TICKET_PRICE) + (maleQty * MALE_TICKET_PRICE);
+export function calculatePricing(event: EventInfo, items: OrderItem[], promo: PromoCode | null = null): PricingResult {
+  const lines: PricingLine[] = items
+    .filter(item => item.quantity > 0)
+    .map(item => {
+      const ticketType = findTicketType(event, item.ticketTypeId);
+      
+      if (!ticketType) {
+        throw new Error(`Unknown ticket type "${item.ticketTypeId}" for event ${event.id}`);
+      }
+      
+      return {
+        ticketTypeId: ticketType.id,
+        name: ticketType.name,
+        quantity: item.quantity,
+        unitAmount: ticketType.price,
+        amount: ticketType.price * item.quantity
+      };
+    });
+  
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+  
+  // Apply the promo code, if any
+  const discount = promo ? calculateDiscount(promo, lines, event.currency) : null;
+  const discountedSubtotal = subtotal - (discount?.amount || 0);
   
-  // Calculate fee (rounded to 2 decimal places)
-  const fee = Math.round(subtotal * FEE_PERCENTAGE * 100) / 100;
+  // Nothing to pay, no fee (e.g. a 100% promo code)
+  const ticketCount = lines.reduce((sum, line) => sum + line.quantity, 0);
+  const fee = discountedSubtotal > 0
+    ? percentOf(discountedSubtotal, SERVICE_FEE_PERCENT) + SERVICE_FEE_PER_TICKET_CENTS * ticketCount
+    : 0;
   
-  // Calculate total
-  const total = subtotal + fee;
+  // The fee is part of the taxable supply. Each tax is worked out on the
+  // same amount (QST is not charged on GST) and rounded on its own.
+  const taxableAmount = discountedSubtotal + fee;
+  const taxes = salesTaxesFor(event.province).map(salesTax => ({
+    ...salesTax,
+    amount: percentOf(taxableAmount, salesTax.rate)
+  }));
+  const tax = taxes.reduce((sum, salesTax) => sum + salesTax.amount, 0);
   
   return {
+    currency: event.currency,
+    lines,
     subtotal,
+    discount,
     fee,
-    total
+    taxes,
+    tax,
+    total: taxableAmount + tax
   };
 }
 
+/**
+ * Calculates the discount a promo code gives on priced lines.
+ * Only lines for the code's ticket types count, and the discount
+ * never exceeds what those lines cost.
+ * 
+ * @param promo - The promo code
+ * @param lines - The priced lines
+ * @param currency - The event's currency (for the description)
+ * @returns The discount line
+ */
+function calculateDiscount(promo: PromoCode, lines: PricingLine[], currency: string): PricingDiscount {
+  const eligibleAmount = lines
+    .filter(line => !promo.ticketTypeIds || promo.ticketTypeIds.includes(line.ticketTypeId))
+    .reduce((sum, line) => sum + line.amount, 0);
+  
+  const amount = promo.discountType === 'percentage'
+    ? percentOf(eligibleAmount, promo.value)
+    : Math.min(promo.value, eligibleAmount);
+  
+  return {
+    code: promo.code,
+    description: promo.discountType === 'percentage'
+      ? `${promo.value}% off`
+      : `${formatAmount(promo.value, currency)} off`,
+    amount
+  };
+}
+
+/**
+ * Formats an amount for people to read (e.g. "CA$5.00" for 500 cad)
+ * 
+ * @param amount - Amount in cents
+ * @param currency - ISO currency code (any case)
+ * @returns The amount with its currency symbol
+ */
+export function formatAmount(amount: number, currency: string): string {
+  return new Intl.NumberFormat('en', { style: 'currency', currency: currency.toUpperCase() }).format(amount / 100);
+}
+
+/**
+ * Takes a percentage of an amount, rounding half up to the cent.
+ * The rate is scaled to thousandths of a percent (enough for 9.975%)
+ * so the math is done on integers, without floating point drift.
+ * 
+ * @param amount - Amount in cents (not negative)
+ * @param percent - Rate in percent (e.g. 13 or 9.975)
+ * @returns The percentage of the amount, in cents
+ */
+export function percentOf(amount: number, percent: number): number {
+  const rate = Math.round(percent * 1000);
+  return Math.floor((amount * rate + 50000) / 100000);
+}
+
 /**
  * Converts a dollar amount to cents (for Stripe).
  * Stripe requires amounts in the smallest currency unit.
@@ -56,4 +185,166 @@ export function calculatePricing(femaleQty: number, maleQty: number): PricingRes
  */
 export function dollarsToCents(dollars: number): number {
   return Math.round(dollars * 100);
-}
\ No newline at end of file
+}
+
+/**
+ * Builds the payment metadata that records a breakdown, so the order
+ * created when the payment succeeds has exactly what was quoted.
+ * Amounts are in cents.
+ * 
+ * @param pricing - The breakdown the customer is charged
+ * @returns Metadata entries (merged with the rest of the payment's metadata)
+ */
+export function pricingToMetadata(pricing: PricingResult): Record<string, string> {
+  const taxes: OrderTax[] = pricing.taxes.map(({ code, jurisdiction, rate, amount }) => ({ code, jurisdiction, rate, amount }));
+  
+  return {
+    unitAmounts: JSON.stringify(Object.fromEntries(pricing.lines.map(line => [line.ticketTypeId, line.unitAmount]))),
+    subtotalCents: pricing.subtotal.toString(),
+    discountCents: (pricing.discount?.amount ?? 0).toString(),
+    feeCents: pricing.fee.toString(),
+    taxes: JSON.stringify(taxes)
+  };
+}
+
+/**
+ * Reads a breakdown back from payment metadata (see pricingToMetadata)
+ * 
+ * @param metadata - The payment's metadata
+ * @param items - The tickets bought
+ * @param charged - Amount (in cents) and currency actually charged
+ * @returns The order totals
+ */
+export function orderTotalsFromMetadata(
+  metadata: Record<string, string>,
+  items: OrderItem[],
+  charged: { amount: number; currency: string }
+): OrderTotals {
+  // Payments created before amounts were recorded in cents carry dollars and no taxes
+  if (metadata.subtotalCents === undefined) {
+    return {
+      currency: charged.currency,
+      lines: [],
+      subtotal: dollarsToCents(parseFloat(metadata.subtotal || '0')),
+      discount: dollarsToCents(parseFloat(metadata.discount || '0')),
+      fee: dollarsToCents(parseFloat(metadata.fee || '0')),
+      taxes: [],
+      tax: 0,
+      total: charged.amount
+    };
+  }
+  
+  const unitAmounts = JSON.parse(metadata.unitAmounts || '{}') as Record<string, number>;
+  const taxes = JSON.parse(metadata.taxes || '[]') as OrderTax[];
+  
+  return {
+    currency: charged.currency,
+    lines: items
+      .filter(item => item.quantity > 0)
+      .map(item => ({
+        ticketTypeId: item.ticketTypeId,
+        quantity: item.quantity,
+        unitAmount: unitAmounts[item.ticketTypeId] ?? 0,
+        amount: (unitAmounts[item.ticketTypeId] ?? 0) * item.quantity
+      })),
+    subtotal: parseInt(metadata.subtotalCents, 10),
+    discount: parseInt(metadata.discountCents || '0', 10),
+    fee: parseInt(metadata.feeCents || '0', 10),
+    taxes,
+    tax: taxes.reduce((sum, tax) => sum + tax.amount, 0),
+    total: charged.amount
+  };
+}
+
+/**
+ * Works out what one ticket of each type on an order cost the buyer,
+ * from what the order was charged (see OrderTotals). Each ticket's
+ * share of the total is in proportion to its price, so it carries its
+ * share of the discount, the fee and the taxes alike.
+ * 
+ * Orders placed before lines were recorded use today's catalog prices
+ * for the proportions; orders placed before totals were recorded are
+ * priced from the catalog altogether (one ticket, fee and taxes included).
+ * 
+ * @param order - The order
+ * @param event - The order's event (null if it is missing from the catalog)
+ * @returns Amount in cents (not rounded) per ticket type; types with no known price are missing
+ */
+export function chargedPerTicket(order: Order, event: EventInfo | null): Map<string, number> {
+  const { totals } = order;
+  
+  if (!totals) {
+    return new Map((event?.ticketTypes ?? []).map(ticketType => [
+      ticketType.id,
+      calculatePricing(event!, [{ ticketTypeId: ticketType.id, quantity: 1 }]).total
+    ]));
+  }
+  
+  const unitAmounts: [string, number][] = totals.lines.length > 0
+    ? totals.lines.map(line => [line.ticketTypeId, line.unitAmount])
+    : (event?.ticketTypes ?? []).map(ticketType => [ticketType.id, ticketType.price]);
+  
+  return new Map(unitAmounts.map(([ticketTypeId, unitAmount]) => [
+    ticketTypeId,
+    totals.subtotal > 0 ? unitAmount * totals.total / totals.subtotal : 0
+  ]));
+}
+
+/**
+ * Works out what some of an order's tickets cost the buyer
+ * 
+ * @param charged - What one ticket of each type cost (see chargedPerTicket)
+ * @param items - The tickets
+ * @returns Amount in cents, rounded to the cent, or null if a ticket type has no known price
+ */
+export function chargedForItems(charged: Map<string, number>, items: OrderItem[]): number | null {
+  let amount = 0;
+  
+  for (const item of items) {
+    const unitTotal = charged.get(item.ticketTypeId);
+    
+    if (unitTotal === undefined) {
+      return null;
+    }
+    
+    amount += unitTotal * item.quantity;
+  }
+  
+  return Math.round(amount);
+}
+
+/**
+ * Works out which tickets a refund amount pays back.
+ * Used for refunds made outside our admin API (e.g. the Stripe Dashboard),
+ * which only tell us an amount.
+ * 
+ * Whole tickets are taken away, most expensive first, as long as the
+ * amount still covers what the ticket cost the buyer (see chargedPerTicket).
+ * 
+ * @param charged - What one ticket of each type cost (see chargedPerTicket)
+ * @param items - Tickets currently on the order
+ * @param amountInCents - Amount refunded
+ * @returns The tickets covered by the amount
+ */
+export function itemsCoveredByAmount(charged: Map<string, number>, items: OrderItem[], amountInCents: number): OrderItem[] {
+  const candidates = items
+    .filter(item => charged.has(item.ticketTypeId))
+    .map(item => ({ item, unitTotal: charged.get(item.ticketTypeId)! }))
+    .filter(({ unitTotal }) => unitTotal > 0)
+    .sort((a, b) => b.unitTotal - a.unitTotal);
+  
+  // Half a cent of slack, for amounts rounded to the cent
+  let remaining = amountInCents + 0.5;
+  const covered: OrderItem[] = [];
+  
+  for (const { item, unitTotal } of candidates) {
+    const quantity = Math.min(item.quantity, Math.floor(remaining / unitTotal));
+    
+    if (quantity > 0) {
+      covered.push({ ticketTypeId: item.ticketTypeId, quantity });
+      remaining -= quantity * unitTotal;
+    }
+  }
+  
+  return covered;
+}
@@ -0,0 +1,101 @@
+/**
+ * Promo Code Service
+ * 
+ * Checks whether a promo code can be used for a checkout:
+ * active, within its validity window, for this event, covering
+ * at least one requested ticket, and under its usage caps.
+ * 
+ * Caps only count redemptions of PAID orders, so a handful of
+ * customers paying at the same moment can push a code slightly
+ * past its cap. Their payments are honored.
+ */
+
+import { OrderItem } from './orderStore.js';
+import { PromoCode, PromoStore, normalizeCustomerKey } from './promoStore.js';
+
+export type PromoRejection =
+  | 'not_found'
+  | 'inactive'
+  | 'not_started'
+  | 'expired'
+  | 'wrong_event'
+  | 'no_eligible_tickets'
+  | 'email_required'
+  | 'usage_limit_reached'
+  | 'customer_limit_reached';
+
+export type PromoCheckResult =
+  | { valid: true; promo: PromoCode }
+  | { valid: false; reason: PromoRejection };
+
+/**
+ * What the promo code is being used for
+ */
+export interface PromoCheckContext {
+  eventId: string;
+  items: OrderItem[];
+  customerEmail?: string;
+  now?: Date;
+}
+
+/**
+ * Checks a promo code against its rules.
+ * 
+ * @param promoStore - Where promo codes are stored
+ * @param code - The code the customer typed
+ * @param context - The checkout it is being used for
+ * @returns The promo code if it can be used, or why not
+ */
+export async function checkPromoCode(
+  promoStore: PromoStore,
+  code: string,
+  context: PromoCheckContext
+): Promise<PromoCheckResult> {
+  const now = context.now || new Date();
+  const promo = await promoStore.getPromoCode(code);
+  
+  if (!promo) {
+    return { valid: false, reason: 'not_found' };
+  }
+  
+  if (!promo.active) {
+    return { valid: false, reason: 'inactive' };
+  }
+  
+  if (promo.validFrom && now < promo.validFrom) {
+    return { valid: false, reason: 'not_started' };
+  }
+  
+  if (promo.validUntil && now > promo.validUntil) {
+    return { valid: false, reason: 'expired' };
+  }
+  
+  if (promo.eventIds && !promo.eventIds.includes(context.eventId)) {
+    return { valid: false, reason: 'wrong_event' };
+  }
+  
+  const hasEligibleTickets = context.items.some(item =>
+    item.quantity > 0 && (!promo.ticketTypeIds || promo.ticketTypeIds.includes(item.ticketTypeId))
+  );
+  
+  if (!hasEligibleTickets) {
+    return { valid: false, reason: 'no_eligible_tickets' };
+  }
+  
+  if (promo.maxUsesPerCustomer !== undefined && !context.customerEmail) {
+    return { valid: false, reason: 'email_required' };
+  }
+  
+  const customerKey = context.customerEmail ? normalizeCustomerKey(context.customerEmail) : undefined;
+  const usage = await promoStore.countRedemptions(promo.code, customerKey);
+  
+  if (promo.maxUses !== undefined && usage.total >= promo.maxUses) {
+    return { valid: false, reason: 'usage_limit_reached' };
+  }
+  
+  if (promo.maxUsesPerCustomer !== undefined && usage.customer >= promo.maxUsesPerCustomer) {
+    return { valid: false, reason: 'customer_limit_reached' };
+  }
+  
+  return { valid: true, promo };
+}
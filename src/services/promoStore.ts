@@ -0,0 +1,102 @@
+/**
+ * Promo Code Store Interface
+ * 
+ * Defines the contract for storing promo codes and their redemptions.
+ * 
+ * A redemption is only recorded once a payment succeeds, so codes
+ * used in abandoned checkouts do not count against usage caps.
+ */
+
+/**
+ * How a promo code discounts an order:
+ * - percentage: `value` percent off the eligible tickets
+ * - fixed: `value` cents off the eligible tickets, in the event's currency
+ */
+export type DiscountType = 'percentage' | 'fixed';
+
+/**
+ * A promo code and its rules
+ */
+export interface PromoCode {
+  code: string;                 // What customers type (stored upper-case)
+  discountType: DiscountType;   // Percentage or fixed amount
+  value: number;                // Percent (0-100) or amount (in cents)
+  eventIds?: string[];          // Only valid for these events (all if missing)
+  ticketTypeIds?: string[];     // Only discounts these ticket types (all if missing)
+  maxUses?: number;             // Total redemptions allowed (no limit if missing)
+  maxUsesPerCustomer?: number;  // Redemptions allowed per customer email (no limit if missing)
+  validFrom?: Date;             // Not usable before this date
+  validUntil?: Date;            // Not usable after this date
+  active: boolean;              // Can be switched off without deleting
+  createdAt: Date;              // When the code was created
+}
+
+/**
+ * One successful use of a promo code
+ */
+export interface PromoRedemption {
+  code: string;             // Promo code used
+  paymentIntentId: string;  // Payment it was used for
+  customerKey?: string;     // Normalized customer email (for per-customer limits)
+  redeemedAt: Date;         // When the payment succeeded
+}
+
+/**
+ * Interface for promo code storage operations.
+ */
+export interface PromoStore {
+  /**
+   * Create a promo code
+   * @param promo - The promo code to create
+   * @returns false if the code already exists
+   */
+  createPromoCode(promo: PromoCode): Promise<boolean>;
+  
+  /**
+   * Get a promo code
+   * @param code - The code (any case)
+   * @returns The promo code if found, null otherwise
+   */
+  getPromoCode(code: string): Promise<PromoCode | null>;
+  
+  /**
+   * List every promo code, newest first
+   */
+  listPromoCodes(): Promise<PromoCode[]>;
+  
+  /**
+   * Switch a promo code on or off
+   * @param code - The code (any case)
+   * @param active - Whether it can be used
+   * @returns The updated promo code, or null if not found
+   */
+  setPromoCodeActive(code: string, active: boolean): Promise<PromoCode | null>;
+  
+  /**
+   * Count successful redemptions of a code
+   * @param code - The code (any case)
+   * @param customerKey - Also count this customer's redemptions (optional)
+   * @returns Total redemptions, and the customer's redemptions (0 if no customer given)
+   */
+  countRedemptions(code: string, customerKey?: string): Promise<{ total: number; customer: number }>;
+  
+  /**
+   * Record a successful redemption (idempotent per PaymentIntent)
+   * @param redemption - The redemption to record
+   */
+  recordRedemption(redemption: PromoRedemption): Promise<void>;
+}
+
+/**
+ * Normalizes a promo code for storage and lookups
+ */
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Normalizes a customer email for per-customer limits
+ */
+export function normalizeCustomerKey(email: string): string {
+  return email.trim().toLowerCase();
+}
@@ -0,0 +1,117 @@
+/**
+ * Publishing Order Store
+ * 
+ * Wraps another order store and publishes every change to the
+ * order event bus, whichever backend is in use. Reads go straight
+ * through to the wrapped store.
+ */
+
+import { OrderEventBus } from './orderEventBus.js';
+import {
+  CancellationReason,
+  Order,
+  OrderActor,
+  OrderAuditEntry,
+  OrderFilter,
+  OrderPage,
+  OrderRefund,
+  OrderStore,
+  TicketTransfer
+} from './orderStore.js';
+
+export class PublishingOrderStore implements OrderStore {
+  constructor(private store: OrderStore, private events: OrderEventBus) {}
+  
+  /**
+   * Publish the new state of an order (if it changed)
+   */
+  private published(order: Order | null): Order | null {
+    if (order) {
+      this.events.publish(order.orderId, { type: 'order_updated', order });
+    }
+    return order;
+  }
+  
+  async saveOrder(order: Order, actor: OrderActor): Promise<boolean> {
+    const saved = await this.store.saveOrder(order, actor);
+    
+    if (saved) {
+      this.published(order);
+    }
+    return saved;
+  }
+  
+  async getOrder(orderId: string): Promise<Order | null> {
+    return this.store.getOrder(orderId);
+  }
+  
+  async getOrderByPaymentIntentId(paymentIntentId: string): Promise<Order | null> {
+    return this.store.getOrderByPaymentIntentId(paymentIntentId);
+  }
+  
+  async listOrders(filter: OrderFilter, page?: { limit: number; offset: number }): Promise<OrderPage> {
+    return this.store.listOrders(filter, page);
+  }
+  
+  async getOrderByQrToken(qrToken: string): Promise<Order | null> {
+    return this.store.getOrderByQrToken(qrToken);
+  }
+  
+  async redeemTickets(orderId: string, ticketIds: string[], actor: OrderActor): Promise<Order | null> {
+    return this.published(await this.store.redeemTickets(orderId, ticketIds, actor));
+  }
+  
+  async reissueTicket(
+    orderId: string,
+    ticketId: string,
+    changes: { qrToken: string; attendeeName?: string },
+    actor: OrderActor
+  ): Promise<Order | null> {
+    return this.published(await this.store.reissueTicket(orderId, ticketId, changes, actor));
+  }
+  
+  async getOrderByTransferId(transferId: string): Promise<Order | null> {
+    return this.store.getOrderByTransferId(transferId);
+  }
+  
+  async startTransfer(orderId: string, transfer: TicketTransfer, actor: OrderActor): Promise<Order | null> {
+    return this.published(await this.store.startTransfer(orderId, transfer, actor));
+  }
+  
+  async acceptTransfer(
+    orderId: string,
+    transferId: string,
+    changes: { qrToken: string; holderTokenHash: string; attendeeName?: string },
+    actor: OrderActor
+  ): Promise<Order | null> {
+    return this.published(await this.store.acceptTransfer(orderId, transferId, changes, actor));
+  }
+  
+  async cancelTransfer(orderId: string, transferId: string, actor: OrderActor): Promise<Order | null> {
+    return this.published(await this.store.cancelTransfer(orderId, transferId, actor));
+  }
+  
+  async applyRefund(orderId: string, refund: OrderRefund, actor: OrderActor): Promise<Order | null> {
+    return this.published(await this.store.applyRefund(orderId, refund, actor));
+  }
+  
+  async cancelOrder(orderId: string, reason: CancellationReason, actor: OrderActor): Promise<Order | null> {
+    return this.published(await this.store.cancelOrder(orderId, reason, actor));
+  }
+  
+  async reinstateOrder(orderId: string, actor: OrderActor): Promise<Order | null> {
+    return this.published(await this.store.reinstateOrder(orderId, actor));
+  }
+  
+  async issueAccessToken(orderId: string, accessTokenHash: string, actor: OrderActor): Promise<Order | null> {
+    return this.published(await this.store.issueAccessToken(orderId, accessTokenHash, actor));
+  }
+  
+  async getOrderHistory(orderId: string): Promise<OrderAuditEntry[]> {
+    return this.store.getOrderHistory(orderId);
+  }
+  
+  async isPaymentIntentProcessed(paymentIntentId: string): Promise<boolean> {
+    return this.store.isPaymentIntentProcessed(paymentIntentId);
+  }
+}
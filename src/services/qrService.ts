@@ -7,6 +7,15 @@
 
 import crypto from 'node:crypto';
 import QRCode from 'qrcode';
+import { EventInfo } from './eventCatalog.js';
+import { Order, Ticket } from './orderStore.js';
+import { signTicketPayload } from './qrSigningService.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'qr' });
+
+// How long a signed QR code stays valid after the event starts (default: 24 hours)
+const QR_VALID_HOURS_AFTER_START = parseInt(process.env.QR_VALID_HOURS_AFTER_START || '24', 10);
 
 /**
  * Generates a cryptographically secure random token.
@@ -19,17 +28,79 @@ export function generateQRToken(): string {
   return crypto.randomBytes(32).toString('hex');
 }
 
+/**
+ * Builds the signed code for one ticket.
+ * This is what goes in the QR image, so door devices can
+ * check it offline (see qrSigningService).
+ * 
+ * @param order - The order the ticket belongs to
+ * @param ticket - The ticket to encode
+ * @param event - The event the order is for (sets the expiry)
+ * @returns The signed ticket code
+ */
+export function createSignedTicketCode(order: Order, ticket: Ticket, event: EventInfo): string {
+  const expiresAt = event.startsAt.getTime() + QR_VALID_HOURS_AFTER_START * 60 * 60 * 1000;
+  
+  return signTicketPayload({
+    oid: order.orderId,
+    tok: ticket.qrToken,
+    evt: order.eventId,
+    it: { [ticket.ticketTypeId]: 1 },
+    exp: Math.floor(expiresAt / 1000)
+  });
+}
+
+/**
+ * Generates a QR code image as PNG bytes (for email attachments and downloads).
+ * 
+ * @param content - The signed ticket code to encode
+ * @param width - Image width and height in pixels
+ * @returns The PNG image
+ */
+export async function generateQRCodePng(content: string, width: number = 300): Promise<Buffer> {
+  try {
+    return await QRCode.toBuffer(content, {
+      errorCorrectionLevel: 'M',
+      type: 'png',
+      width: width,
+      margin: 2
+    });
+  } catch (error) {
+    log.error({ err: error }, 'Failed to generate QR code');
+    throw new Error('Failed to generate QR code image');
+  }
+}
+
+/**
+ * Generates a QR code as an SVG document (scales to any size).
+ * 
+ * @param content - The signed ticket code to encode
+ * @returns The SVG markup
+ */
+export async function generateQRCodeSvg(content: string): Promise<string> {
+  try {
+    return await QRCode.toString(content, {
+      errorCorrectionLevel: 'M',
+      type: 'svg',
+      margin: 0
+    });
+  } catch (error) {
+    log.error({ err: error }, 'Failed to generate QR code');
+    throw new Error('Failed to generate QR code image');
+  }
+}
+
 /**
  * Generates a QR code image as a data URL.
  * The image can be displayed directly in an <img> tag.
  * 
- * @param token - The token to encode in the QR code
+ * @param content - The signed ticket code (or bare token) to encode
  * @returns A data URL string (data:image/png;base64,...)
  */
-export async function generateQRCodeDataUrl(token: string): Promise<string> {
+export async function generateQRCodeDataUrl(content: string): Promise<string> {
   try {
     // Generate PNG image as data URL
-    const dataUrl = await QRCode.toDataURL(token, {
+    const dataUrl = await QRCode.toDataURL(content, {
       errorCorrectionLevel: 'M',  // Medium error correction
       type: 'image/png',
       width: 300,                  // 300x300 pixels
@@ -42,7 +113,7 @@ export async function generateQRCodeDataUrl(token: string): Promise<string> {
     
     return dataUrl;
   } catch (error) {
-    console.error('[QRService] Failed to generate QR code:', error);
+    log.error({ err: error }, 'Failed to generate QR code');
     throw new Error('Failed to generate QR code image');
   }
 }
\ No newline at end of file
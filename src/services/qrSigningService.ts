@@ -0,0 +1,197 @@
+/**
+ * QR Signing Service
+ * 
+ * Signs ticket payloads so door devices can validate a QR code
+ * offline, using only our public keys.
+ * 
+ * Signed code format (fits comfortably in a QR code):
+ *   NT1.<kid>.<base64url(JSON payload)>.<base64url(Ed25519 signature)>
+ * 
+ * The signature covers everything before the last dot.
+ * 
+ * Keys (QR_SIGNING_KEYS) are listed as "kid:base64-pkcs8-der", comma separated.
+ * The FIRST key signs new tickets. The others are only used to verify,
+ * so a key can be rotated without breaking tickets that are already out.
+ * Retired keys whose private half has been destroyed can be kept for
+ * verification through QR_VERIFY_KEYS ("kid:base64-spki-der").
+ */
+
+import crypto from 'node:crypto';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'qrSigning' });
+
+// Prefix identifying our signed ticket codes (and the format version)
+const CODE_PREFIX = 'NT1';
+
+/**
+ * Data carried inside a signed QR code
+ */
+export interface TicketPayload {
+  oid: string;   // Order ID
+  tok: string;   // QR token redeemed at check-in (one ticket, or a whole order for older codes)
+  evt: string;   // Event ID
+  it: Record<string, number>;  // Ticket type ID -> quantity
+  exp: number;   // Expiry (Unix time, seconds)
+}
+
+export type VerifyResult =
+  | { valid: true; kid: string; payload: TicketPayload }
+  | { valid: false; reason: 'malformed' | 'unknown_key' | 'bad_signature' | 'expired' };
+
+interface SigningKey {
+  kid: string;
+  publicKey: crypto.KeyObject;
+  privateKey?: crypto.KeyObject;  // Missing for verify-only keys
+}
+
+// Loaded lazily on first use
+let keyring: SigningKey[] | null = null;
+
+/**
+ * Parses a "kid:base64" comma-separated list from an environment variable
+ */
+function parseKeyList(value: string | undefined): Array<{ kid: string; der: Buffer }> {
+  if (!value) {
+    return [];
+  }
+  
+  return value.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const separator = entry.indexOf(':');
+    
+    if (separator <= 0) {
+      throw new Error('QR signing keys must be formatted as "kid:base64"');
+    }
+    
+    return {
+      kid: entry.slice(0, separator),
+      der: Buffer.from(entry.slice(separator + 1), 'base64')
+    };
+  });
+}
+
+/**
+ * Loads the signing keys from the environment.
+ * In development, an ephemeral key is generated if none is configured.
+ */
+function loadKeyring(): SigningKey[] {
+  const keys: SigningKey[] = parseKeyList(process.env.QR_SIGNING_KEYS).map(({ kid, der }) => {
+    const privateKey = crypto.createPrivateKey({ key: der, format: 'der', type: 'pkcs8' });
+    return { kid, privateKey, publicKey: crypto.createPublicKey(privateKey) };
+  });
+  
+  for (const { kid, der } of parseKeyList(process.env.QR_VERIFY_KEYS)) {
+    keys.push({ kid, publicKey: crypto.createPublicKey({ key: der, format: 'der', type: 'spki' }) });
+  }
+  
+  if (keys.length === 0) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('QR_SIGNING_KEYS environment variable is required');
+    }
+    
+    // Development only: QR codes stop verifying after a restart
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+    keys.push({ kid: 'dev', privateKey, publicKey });
+    log.warn('QR_SIGNING_KEYS not set - using an ephemeral development key');
+  }
+  
+  if (!keys[0].privateKey) {
+    throw new Error('The first QR signing key must include a private key');
+  }
+  
+  log.info({ keys: keys.length, signingKid: keys[0].kid }, 'QR signing keys loaded');
+  
+  return keys;
+}
+
+function getKeyring(): SigningKey[] {
+  if (!keyring) {
+    keyring = loadKeyring();
+  }
+  return keyring;
+}
+
+/**
+ * Checks whether a scanned string looks like a signed ticket code
+ * (as opposed to a bare QR token).
+ */
+export function isSignedTicketCode(code: string): boolean {
+  return code.startsWith(`${CODE_PREFIX}.`);
+}
+
+/**
+ * Signs a ticket payload with the active key.
+ * 
+ * @param payload - The ticket data to sign
+ * @returns The signed code to encode in the QR image
+ */
+export function signTicketPayload(payload: TicketPayload): string {
+  const activeKey = getKeyring()[0];
+  
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  const signedPart = `${CODE_PREFIX}.${activeKey.kid}.${body}`;
+  const signature = crypto.sign(null, Buffer.from(signedPart), activeKey.privateKey!);
+  
+  return `${signedPart}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Verifies a signed ticket code.
+ * 
+ * @param code - The scanned code
+ * @param now - Current time (for testing expiry)
+ * @returns The payload if the code is authentic and not expired
+ */
+export function verifyTicketCode(code: string, now: Date = new Date()): VerifyResult {
+  const parts = code.split('.');
+  
+  if (parts.length !== 4 || parts[0] !== CODE_PREFIX) {
+    return { valid: false, reason: 'malformed' };
+  }
+  
+  const [, kid, body, signature] = parts;
+  const key = getKeyring().find(k => k.kid === kid);
+  
+  if (!key) {
+    return { valid: false, reason: 'unknown_key' };
+  }
+  
+  const signedPart = `${CODE_PREFIX}.${kid}.${body}`;
+  const isAuthentic = crypto.verify(
+    null,
+    Buffer.from(signedPart),
+    key.publicKey,
+    Buffer.from(signature, 'base64url')
+  );
+  
+  if (!isAuthentic) {
+    return { valid: false, reason: 'bad_signature' };
+  }
+  
+  let payload: TicketPayload;
+  
+  try {
+    payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+  } catch {
+    return { valid: false, reason: 'malformed' };
+  }
+  
+  if (payload.exp * 1000 < now.getTime()) {
+    return { valid: false, reason: 'expired' };
+  }
+  
+  return { valid: true, kid, payload };
+}
+
+/**
+ * Exports every verification key as a JSON Web Key.
+ * Door devices download these to validate codes offline.
+ */
+export function getPublicKeys(): crypto.JsonWebKey[] {
+  return getKeyring().map(key => ({
+    ...key.publicKey.export({ format: 'jwk' }),
+    kid: key.kid,
+    alg: 'EdDSA',
+    use: 'sig'
+  }));
+}
@@ -0,0 +1,66 @@
+/**
+ * Refund Service
+ * 
+ * Turns gateway refunds into order refunds: works out which tickets
+ * a refund covers, so they stop being admitted at the door.
+ */
+
+import crypto from 'node:crypto';
+import { EventInfo } from './eventCatalog.js';
+import { Order, OrderItem, OrderRefund } from './orderStore.js';
+import { GatewayRefund } from './paymentGateway.js';
+import { chargedPerTicket, itemsCoveredByAmount } from './pricingService.js';
+
+/**
+ * Idempotency key for refunding tickets of an order, as the order
+ * stands now. Sending the same refund again before the order records
+ * the first one (a double submit, or a retry after the order update
+ * failed) gets the same key, so the gateway makes the refund only once.
+ * Once the order records it, the next refund gets a new key.
+ * 
+ * @param order - The order being refunded
+ * @param items - Tickets refunded, per ticket type
+ * @param ticketIds - The exact tickets refunded (if given)
+ * @returns The key to pass to the payment gateway
+ */
+export function refundIdempotencyKey(order: Order, items: OrderItem[], ticketIds: string[] | undefined): string {
+  const refund = JSON.stringify({
+    items,
+    ticketIds: ticketIds ?? null,
+    refunded: order.refunds.map(r => r.refundId)
+  });
+  
+  return `refund:${order.orderId}:${crypto.createHash('sha256').update(refund).digest('hex')}`;
+}
+
+/**
+ * Builds the order refund for a gateway refund.
+ * 
+ * Refunds created through our admin API list their tickets in
+ * metadata (items, and the exact ticket IDs). Any other refund only has an amount, so the tickets
+ * are worked out from what the order was charged (see itemsCoveredByAmount).
+ * 
+ * @param refund - The refund from the payment gateway
+ * @param order - The order being refunded
+ * @param event - The order's event (null if it is missing from the catalog)
+ * @returns The refund to apply to the order
+ */
+export function toOrderRefund(refund: GatewayRefund, order: Order, event: EventInfo | null): OrderRefund {
+  let items: OrderItem[] = [];
+  const ticketIds: string[] = refund.metadata.ticketIds ? JSON.parse(refund.metadata.ticketIds) : [];
+  
+  if (refund.metadata.items) {
+    items = JSON.parse(refund.metadata.items) as OrderItem[];
+  } else {
+    items = itemsCoveredByAmount(chargedPerTicket(order, event), order.items, refund.amount);
+  }
+  
+  return {
+    refundId: refund.refundId,
+    amount: refund.amount,
+    items,
+    ticketIds,
+    createdAt: refund.createdAt
+  };
+}
+
@@ -0,0 +1,257 @@
+/**
+ * Sales Report Service
+ * 
+ * Summarizes orders for the back office: revenue, fees, sales taxes
+ * and ticket counts, plus a CSV export for bookkeeping.
+ * 
+ * Amounts come from what was actually charged (Order.totals), so they
+ * match the payouts. Orders placed before totals were recorded still
+ * count towards tickets, but not towards revenue.
+ * 
+ * Comps (complimentary tickets) were not sold: they are counted on
+ * their own and stay out of revenue, ticket sales and daily sales.
+ */
+
+import { Order, OrderTax } from './orderStore.js';
+import { TAX_CODES, TaxCode } from './taxService.js';
+
+/**
+ * Revenue in one currency (amounts in cents)
+ */
+export interface CurrencyRevenue {
+  currency: string;
+  gross: number;      // Amount charged
+  discounts: number;  // Promo code discounts given
+  fees: number;       // Service fees included in gross
+  taxes: number;      // Sales taxes included in gross
+  taxesByCode: Partial<Record<TaxCode, number>>;  // taxes, split by tax (e.g. GST and QST are remitted separately)
+  refunded: number;   // Amount refunded
+  net: number;        // gross - refunded
+}
+
+/**
+ * Ticket counts for one ticket type
+ */
+export interface TicketTypeSales {
+  ticketTypeId: string;
+  sold: number;      // Tickets issued
+  refunded: number;  // Tickets refunded since
+  comped: number;    // Complimentary tickets issued
+}
+
+/**
+ * Sales on one day (UTC), in one currency
+ */
+export interface DailySales {
+  date: string;      // YYYY-MM-DD
+  currency: string | null;  // null for orders without recorded totals
+  orders: number;
+  tickets: number;   // Tickets issued
+  gross: number;     // Amount charged (in cents)
+}
+
+/**
+ * Summary of a set of orders
+ */
+export interface SalesSummary {
+  orders: number;               // Paid orders
+  comps: number;                // Comp orders
+  ordersWithoutTotals: number;  // Orders left out of revenue (placed before totals were recorded)
+  revenue: CurrencyRevenue[];
+  ticketTypes: TicketTypeSales[];
+  days: DailySales[];
+}
+
+/**
+ * Summarizes orders by currency, ticket type and day
+ * 
+ * @param orders - The orders to summarize
+ * @returns The summary, with ticket types by ID and days in date order
+ */
+export function summarizeSales(orders: Order[]): SalesSummary {
+  const revenue = new Map<string, CurrencyRevenue>();
+  const ticketTypes = new Map<string, TicketTypeSales>();
+  const days = new Map<string, DailySales>();
+  let ordersWithoutTotals = 0;
+  let comps = 0;
+  
+  for (const order of orders) {
+    if (order.source === 'comp') {
+      comps++;
+      for (const ticket of order.tickets) {
+        ticketTypeSales(ticketTypes, ticket.ticketTypeId).comped++;
+      }
+      continue;
+    }
+    
+    const { totals } = order;
+    
+    if (totals) {
+      const currency = revenue.get(totals.currency) ?? {
+        currency: totals.currency,
+        gross: 0,
+        discounts: 0,
+        fees: 0,
+        taxes: 0,
+        taxesByCode: {},
+        refunded: 0,
+        net: 0
+      };
+      const refunded = order.refunds.reduce((sum, refund) => sum + refund.amount, 0);
+      
+      currency.gross += totals.total;
+      currency.discounts += totals.discount;
+      currency.fees += totals.fee;
+      currency.taxes += totals.tax;
+      for (const tax of totals.taxes) {
+        currency.taxesByCode[tax.code] = (currency.taxesByCode[tax.code] ?? 0) + tax.amount;
+      }
+      currency.refunded += refunded;
+      currency.net += totals.total - refunded;
+      revenue.set(totals.currency, currency);
+    } else {
+      ordersWithoutTotals++;
+    }
+    
+    for (const ticket of order.tickets) {
+      ticketTypeSales(ticketTypes, ticket.ticketTypeId).sold++;
+    }
+    
+    for (const refund of order.refunds) {
+      for (const item of refund.items) {
+        ticketTypeSales(ticketTypes, item.ticketTypeId).refunded += item.quantity;
+      }
+    }
+    
+    const date = order.createdAt.toISOString().slice(0, 10);
+    const key = `${date}|${totals?.currency ?? ''}`;
+    const day = days.get(key) ?? { date, currency: totals?.currency ?? null, orders: 0, tickets: 0, gross: 0 };
+    
+    day.orders++;
+    day.tickets += order.tickets.length;
+    day.gross += totals?.total ?? 0;
+    days.set(key, day);
+  }
+  
+  return {
+    orders: orders.length - comps,
+    comps,
+    ordersWithoutTotals,
+    revenue: [...revenue.values()],
+    ticketTypes: [...ticketTypes.values()].sort((a, b) => a.ticketTypeId.localeCompare(b.ticketTypeId)),
+    days: [...days.values()].sort((a, b) => a.date.localeCompare(b.date))
+  };
+}
+
+/**
+ * Gets (or starts) the counts for a ticket type
+ */
+function ticketTypeSales(ticketTypes: Map<string, TicketTypeSales>, ticketTypeId: string): TicketTypeSales {
+  let sales = ticketTypes.get(ticketTypeId);
+  
+  if (!sales) {
+    sales = { ticketTypeId, sold: 0, refunded: 0, comped: 0 };
+    ticketTypes.set(ticketTypeId, sales);
+  }
+  
+  return sales;
+}
+
+// Columns of the CSV export, in order
+const CSV_COLUMNS = [
+  'created_at',
+  'order_id',
+  'source',
+  'payment_intent_id',
+  'event_id',
+  'status',
+  'email',
+  'buyer_name',
+  'buyer_phone',
+  'promo_code',
+  'tickets',
+  'tickets_refunded',
+  'currency',
+  'subtotal',
+  'discount',
+  'fee',
+  ...TAX_CODES.map(code => code.toLowerCase()),
+  'tax',
+  'total',
+  'refunded'
+];
+
+/**
+ * Builds a CSV export of orders, one row per order
+ * 
+ * Amounts are in major units (e.g. dollars) with two decimals, and
+ * are left empty for orders without recorded totals.
+ * 
+ * @param orders - The orders to export
+ * @returns CSV text with a header row
+ */
+export function ordersToCsv(orders: Order[]): string {
+  const rows = orders.map(order => {
+    const refunded = order.refunds.reduce((sum, refund) => sum + refund.amount, 0);
+    const ticketsRefunded = order.refunds.reduce(
+      (sum, refund) => sum + refund.items.reduce((count, item) => count + item.quantity, 0),
+      0
+    );
+    const { totals } = order;
+    
+    return [
+      order.createdAt.toISOString(),
+      order.orderId,
+      order.source,
+      order.paymentIntentId ?? '',
+      order.eventId,
+      order.status,
+      order.email ?? '',
+      order.buyerName ?? '',
+      order.buyerPhone ?? '',
+      order.promoCode ?? '',
+      order.tickets.length.toString(),
+      ticketsRefunded.toString(),
+      totals?.currency.toUpperCase() ?? '',
+      totals ? formatCents(totals.subtotal) : '',
+      totals ? formatCents(totals.discount) : '',
+      totals ? formatCents(totals.fee) : '',
+      ...TAX_CODES.map(code => totals ? formatCents(taxAmount(totals.taxes, code)) : ''),
+      totals ? formatCents(totals.tax) : '',
+      totals ? formatCents(totals.total) : '',
+      totals ? formatCents(refunded) : ''
+    ];
+  });
+  
+  return [CSV_COLUMNS, ...rows]
+    .map(row => row.map(escapeCsvField).join(','))
+    .join('\r\n') + '\r\n';
+}
+
+/**
+ * Adds up the taxes of one kind charged on an order
+ */
+function taxAmount(taxes: OrderTax[], code: TaxCode): number {
+  return taxes
+    .filter(tax => tax.code === code)
+    .reduce((sum, tax) => sum + tax.amount, 0);
+}
+
+/**
+ * Formats cents as a decimal amount (e.g. 1250 -> "12.50")
+ */
+function formatCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+/**
+ * Quotes a CSV field when needed.
+ * 
+ * Fields starting with a formula character get a leading quote mark,
+ * so spreadsheets don't run buyer-supplied text (e.g. an email) as a formula.
+ */
+function escapeCsvField(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
@@ -0,0 +1,58 @@
+/**
+ * SMTP Mail Transport
+ * 
+ * Delivers email through an SMTP server (e.g. SendGrid, Mailgun,
+ * Amazon SES or Postmark, which all offer SMTP).
+ */
+
+import nodemailer, { Transporter } from 'nodemailer';
+import { MailMessage, MailTransport } from './mailTransport.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'mail' });
+
+/**
+ * SMTP connection settings
+ */
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;  // true for implicit TLS (port 465), false to upgrade with STARTTLS
+  user?: string;
+  password?: string;
+  from: string;     // Sender, e.g. "Tickets <tickets@example.com>"
+}
+
+export class SmtpMailTransport implements MailTransport {
+  private transporter: Transporter;
+  
+  constructor(private config: SmtpConfig) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.password } : undefined
+    });
+  }
+  
+  /**
+   * Send a message through the SMTP server
+   */
+  async send(message: MailMessage): Promise<void> {
+    const info = await this.transporter.sendMail({
+      from: this.config.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      attachments: message.attachments.map(attachment => ({
+        filename: attachment.filename,
+        content: attachment.content,
+        contentType: attachment.contentType,
+        cid: attachment.cid
+      }))
+    });
+    
+    log.info({ subject: message.subject, messageId: info.messageId }, 'Email sent via SMTP');
+  }
+}
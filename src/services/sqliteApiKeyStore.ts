@@ -0,0 +1,113 @@
+/**
+ * SQLite API Key Store
+ * 
+ * Stores API keys (their hashes) in the SQLite database.
+ */
+
+import Database from 'better-sqlite3';
+import { ApiKey, ApiKeyStore, Role } from './apiKeyStore.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'apiKeyStore' });
+
+// Shape of a row in the api_keys table
+interface ApiKeyRow {
+  key_id: string;
+  name: string;
+  role: Role;
+  event_id: string | null;
+  key_hash: string;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+/**
+ * Converts a database row to an ApiKey
+ */
+function rowToApiKey(row: ApiKeyRow): ApiKey {
+  return {
+    keyId: row.key_id,
+    name: row.name,
+    role: row.role,
+    eventId: row.event_id ?? undefined,
+    keyHash: row.key_hash,
+    createdAt: new Date(row.created_at),
+    lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : undefined,
+    revokedAt: row.revoked_at ? new Date(row.revoked_at) : undefined
+  };
+}
+
+export class SqliteApiKeyStore implements ApiKeyStore {
+  constructor(private db: Database.Database) {}
+  
+  /**
+   * Store a new key
+   */
+  async createKey(apiKey: ApiKey): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO api_keys (key_id, name, role, event_id, key_hash, created_at)
+      VALUES (@keyId, @name, @role, @eventId, @keyHash, @createdAt)
+    `).run({
+      keyId: apiKey.keyId,
+      name: apiKey.name,
+      role: apiKey.role,
+      eventId: apiKey.eventId ?? null,
+      keyHash: apiKey.keyHash,
+      createdAt: apiKey.createdAt.toISOString()
+    });
+    
+    log.info({ keyId: apiKey.keyId, role: apiKey.role, eventId: apiKey.eventId }, 'API key created');
+  }
+  
+  /**
+   * Find a key by its hash
+   */
+  async getKeyByHash(keyHash: string): Promise<ApiKey | null> {
+    const row = this.db
+      .prepare('SELECT * FROM api_keys WHERE key_hash = ?')
+      .get(keyHash) as ApiKeyRow | undefined;
+    
+    return row ? rowToApiKey(row) : null;
+  }
+  
+  /**
+   * List every key, newest first
+   */
+  async listKeys(): Promise<ApiKey[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM api_keys ORDER BY created_at DESC')
+      .all() as ApiKeyRow[];
+    
+    return rows.map(rowToApiKey);
+  }
+  
+  /**
+   * Revoke a key (a key already revoked keeps its first revocation time)
+   */
+  async revokeKey(keyId: string, revokedAt: Date): Promise<ApiKey | null> {
+    const revoked = this.db
+      .prepare('UPDATE api_keys SET revoked_at = ? WHERE key_id = ? AND revoked_at IS NULL')
+      .run(revokedAt.toISOString(), keyId)
+      .changes > 0;
+    
+    if (revoked) {
+      log.info({ keyId }, 'API key revoked');
+    }
+    
+    const row = this.db
+      .prepare('SELECT * FROM api_keys WHERE key_id = ?')
+      .get(keyId) as ApiKeyRow | undefined;
+    
+    return row ? rowToApiKey(row) : null;
+  }
+  
+  /**
+   * Record that a key was just used
+   */
+  async recordUse(keyId: string, usedAt: Date): Promise<void> {
+    this.db
+      .prepare('UPDATE api_keys SET last_used_at = ? WHERE key_id = ?')
+      .run(usedAt.toISOString(), keyId);
+  }
+}
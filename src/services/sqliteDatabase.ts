@@ -0,0 +1,77 @@
+/**
+ * SQLite Database
+ * 
+ * Opens the SQLite database file and brings its schema up to date.
+ * 
+ * Migrations are tracked in the `schema_migrations` table, so each
+ * one runs exactly once, in its own transaction.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import { migrations } from './sqliteMigrations.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'database' });
+
+/**
+ * Opens (or creates) the database file and applies pending migrations.
+ * 
+ * @param filePath - Path to the database file (use ':memory:' for a throwaway database)
+ * @returns The open database connection
+ */
+export function openDatabase(filePath: string): Database.Database {
+  if (filePath !== ':memory:') {
+    // Make sure the parent folder exists (e.g. ./data)
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+  
+  const db = new Database(filePath);
+  
+  // WAL gives better concurrency and crash safety for a single server
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  
+  runMigrations(db);
+  
+  log.info({ filePath }, 'Opened SQLite database');
+  
+  return db;
+}
+
+/**
+ * Applies every migration that has not been applied yet.
+ * 
+ * @param db - The database connection
+ */
+export function runMigrations(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version    INTEGER PRIMARY KEY,
+      name       TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+  
+  const row = db.prepare('SELECT MAX(version) AS version FROM schema_migrations').get() as { version: number | null };
+  const currentVersion = row.version ?? 0;
+  
+  const pending = migrations
+    .filter(migration => migration.version > currentVersion)
+    .sort((a, b) => a.version - b.version);
+  
+  const recordMigration = db.prepare(
+    'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)'
+  );
+  
+  for (const migration of pending) {
+    // Each migration is all-or-nothing
+    db.transaction(() => {
+      db.exec(migration.up);
+      recordMigration.run(migration.version, migration.name, new Date().toISOString());
+    })();
+    
+    log.info({ version: migration.version, name: migration.name }, 'Applied migration');
+  }
+}
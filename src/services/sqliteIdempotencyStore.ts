@@ -0,0 +1,110 @@
+/**
+ * SQLite Idempotency Store
+ * 
+ * Stores idempotency keys in the SQLite database, so a retry after a
+ * restart still gets the original response.
+ */
+
+import Database from 'better-sqlite3';
+import { IdempotencyClaim, IdempotencyKeyStatus, IdempotencyRecord, IdempotencyStore } from './idempotencyStore.js';
+
+// Shape of a row in the idempotency_keys table
+interface IdempotencyKeyRow {
+  key: string;
+  fingerprint: string;
+  status: IdempotencyKeyStatus;
+  status_code: number | null;
+  response_body: string | null;
+  created_at: string;
+  expires_at: string;
+}
+
+/**
+ * Converts a database row to an IdempotencyRecord
+ */
+function rowToRecord(row: IdempotencyKeyRow): IdempotencyRecord {
+  return {
+    key: row.key,
+    fingerprint: row.fingerprint,
+    status: row.status,
+    statusCode: row.status_code ?? undefined,
+    responseBody: row.response_body ?? undefined,
+    createdAt: new Date(row.created_at),
+    expiresAt: new Date(row.expires_at)
+  };
+}
+
+export class SqliteIdempotencyStore implements IdempotencyStore {
+  constructor(private db: Database.Database) {}
+  
+  /**
+   * Claim a key for a request.
+   * Runs in one transaction, so two concurrent requests cannot both claim it.
+   */
+  async claimKey(
+    claim: { key: string; fingerprint: string; createdAt: Date; expiresAt: Date },
+    staleBefore: Date
+  ): Promise<IdempotencyClaim> {
+    const deleteAbandoned = this.db.prepare(`
+      DELETE FROM idempotency_keys
+      WHERE key = @key
+        AND (expires_at <= @now OR (status = 'in_progress' AND created_at < @staleBefore))
+    `);
+    const insertKey = this.db.prepare(`
+      INSERT OR IGNORE INTO idempotency_keys (key, fingerprint, status, created_at, expires_at)
+      VALUES (@key, @fingerprint, 'in_progress', @createdAt, @expiresAt)
+    `);
+    const selectKey = this.db.prepare('SELECT * FROM idempotency_keys WHERE key = ?');
+    
+    return this.db.transaction((): IdempotencyClaim => {
+      deleteAbandoned.run({
+        key: claim.key,
+        now: claim.createdAt.toISOString(),
+        staleBefore: staleBefore.toISOString()
+      });
+      
+      const inserted = insertKey.run({
+        key: claim.key,
+        fingerprint: claim.fingerprint,
+        createdAt: claim.createdAt.toISOString(),
+        expiresAt: claim.expiresAt.toISOString()
+      }).changes > 0;
+      
+      if (inserted) {
+        return { claimed: true };
+      }
+      
+      return { claimed: false, record: rowToRecord(selectKey.get(claim.key) as IdempotencyKeyRow) };
+    }).immediate();
+  }
+  
+  /**
+   * Store the response of a claimed key
+   */
+  async completeKey(key: string, response: { statusCode: number; responseBody: string }): Promise<void> {
+    this.db.prepare(`
+      UPDATE idempotency_keys
+      SET status = 'completed', status_code = ?, response_body = ?
+      WHERE key = ?
+    `).run(response.statusCode, response.responseBody, key);
+  }
+  
+  /**
+   * Give up a claimed key
+   */
+  async releaseKey(key: string): Promise<void> {
+    this.db
+      .prepare(`DELETE FROM idempotency_keys WHERE key = ? AND status = 'in_progress'`)
+      .run(key);
+  }
+  
+  /**
+   * Delete expired keys
+   */
+  async deleteExpired(now: Date): Promise<number> {
+    return this.db
+      .prepare('DELETE FROM idempotency_keys WHERE expires_at <= ?')
+      .run(now.toISOString())
+      .changes;
+  }
+}
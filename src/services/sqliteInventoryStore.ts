@@ -0,0 +1,210 @@
+/**
+ * SQLite Inventory Store
+ * 
+ * Keeps inventory holds in the SQLite database, next to the orders.
+ * 
+ * createHold counts and inserts inside one transaction. better-sqlite3
+ * is synchronous, so no other request can slip in between.
+ * 
+ * SqliteOrderStore calls setSoldItems inside its own transactions, so
+ * refunded and cancelled tickets are released with the order change.
+ */
+
+import crypto from 'node:crypto';
+import Database from 'better-sqlite3';
+import { EventInfo } from './eventCatalog.js';
+import { OrderItem } from './orderStore.js';
+import { InventoryHold, InventoryStore, Sale, assertCapacity } from './inventoryStore.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'inventory' });
+
+/**
+ * Sets how many of an order's sold tickets still take up capacity:
+ * its admitted tickets, or none once the order is cancelled. The rest
+ * of the sale is released (call inside a transaction).
+ * 
+ * @param db - The database
+ * @param orderId - The order the tickets were sold to
+ * @param items - Tickets that still count, per ticket type
+ */
+export function setSoldItems(db: Database.Database, orderId: string, items: OrderItem[]): void {
+  const saleItems = db.prepare(`
+    SELECT i.hold_id, i.ticket_type_id, i.quantity, i.released
+    FROM inventory_hold_items i
+    JOIN inventory_holds h ON h.id = i.hold_id
+    WHERE h.order_id = ? AND h.status = 'confirmed'
+  `).all(orderId) as Array<{ hold_id: string; ticket_type_id: string; quantity: number; released: number }>;
+  const updateReleased = db.prepare(`
+    UPDATE inventory_hold_items SET released = ? WHERE hold_id = ? AND ticket_type_id = ?
+  `);
+  const unplaced = new Map(items.map(item => [item.ticketTypeId, item.quantity]));
+  
+  for (const item of saleItems) {
+    const kept = Math.min(item.quantity, unplaced.get(item.ticket_type_id) ?? 0);
+    unplaced.set(item.ticket_type_id, (unplaced.get(item.ticket_type_id) ?? 0) - kept);
+    
+    if (item.released !== item.quantity - kept) {
+      updateReleased.run(item.quantity - kept, item.hold_id, item.ticket_type_id);
+      log.info({ orderId, ticketTypeId: item.ticket_type_id, released: item.quantity - kept }, 'Sold tickets released');
+    }
+  }
+}
+
+export class SqliteInventoryStore implements InventoryStore {
+  constructor(private db: Database.Database) {}
+  
+  /**
+   * Place a hold if there is capacity
+   */
+  async createHold(event: EventInfo, items: OrderItem[], expiresAt: Date): Promise<InventoryHold> {
+    const hold: InventoryHold = {
+      id: crypto.randomUUID(),
+      eventId: event.id,
+      items,
+      status: 'active',
+      createdAt: new Date(),
+      expiresAt
+    };
+    
+    this.db.transaction(() => {
+      assertCapacity(event, this.countTaken(event.id), items);
+      this.insertHold(hold);
+    }).immediate();
+    
+    log.info({ holdId: hold.id, eventId: event.id }, 'Hold placed');
+    
+    return hold;
+  }
+  
+  /**
+   * Release an active hold
+   */
+  async releaseHold(holdId: string): Promise<boolean> {
+    const result = this.db
+      .prepare(`UPDATE inventory_holds SET status = 'released' WHERE id = ? AND status = 'active'`)
+      .run(holdId);
+    
+    if (result.changes > 0) {
+      log.info({ holdId }, 'Hold released');
+    }
+    
+    return result.changes > 0;
+  }
+  
+  /**
+   * Turn a hold into a sale (or record a sale without a hold)
+   */
+  async convertHoldToSale(sale: Sale): Promise<void> {
+    const hold = sale.holdId
+      ? this.db.prepare('SELECT id, status FROM inventory_holds WHERE id = ?').get(sale.holdId) as
+          { id: string; status: string } | undefined
+      : undefined;
+    
+    if (hold) {
+      if (hold.status !== 'active' && hold.status !== 'confirmed') {
+        log.warn({ holdId: hold.id, holdStatus: hold.status }, 'Hold ended before payment succeeded - capacity may be exceeded');
+      }
+      
+      this.db
+        .prepare(`UPDATE inventory_holds SET status = 'confirmed', order_id = ? WHERE id = ?`)
+        .run(sale.orderId, hold.id);
+      log.info({ holdId: hold.id, orderId: sale.orderId }, 'Hold converted to sale');
+      return;
+    }
+    
+    // Already recorded (the webhook was retried)
+    if (this.db.prepare('SELECT 1 FROM inventory_holds WHERE id = ?').get(`sale_${sale.orderId}`)) {
+      return;
+    }
+    
+    const now = new Date();
+    this.db.transaction(() => {
+      this.insertHold({
+        id: `sale_${sale.orderId}`,
+        eventId: sale.eventId,
+        items: sale.items,
+        status: 'confirmed',
+        createdAt: now,
+        expiresAt: now,
+        orderId: sale.orderId
+      });
+    })();
+    log.info({ orderId: sale.orderId }, 'Sale recorded without hold');
+  }
+  
+  /**
+   * Release a confirmed sale
+   */
+  async releaseSale(orderId: string): Promise<boolean> {
+    const result = this.db
+      .prepare(`UPDATE inventory_holds SET status = 'released' WHERE order_id = ? AND status = 'confirmed'`)
+      .run(orderId);
+    
+    if (result.changes > 0) {
+      log.info({ orderId }, 'Sale released');
+    }
+    
+    return result.changes > 0;
+  }
+  
+  /**
+   * Count tickets taken per ticket type
+   */
+  async getTakenCounts(eventId: string): Promise<Map<string, number>> {
+    return this.countTaken(eventId);
+  }
+  
+  /**
+   * Mark active holds past their expiry as expired
+   */
+  async expireHolds(): Promise<number> {
+    const result = this.db
+      .prepare(`UPDATE inventory_holds SET status = 'expired' WHERE status = 'active' AND expires_at <= ?`)
+      .run(new Date().toISOString());
+    
+    return result.changes;
+  }
+  
+  /**
+   * Sums confirmed holds and unexpired active holds for an event
+   */
+  private countTaken(eventId: string): Map<string, number> {
+    const rows = this.db.prepare(`
+      SELECT i.ticket_type_id, SUM(i.quantity - i.released) AS quantity
+      FROM inventory_hold_items i
+      JOIN inventory_holds h ON h.id = i.hold_id
+      WHERE h.event_id = @eventId
+        AND (h.status = 'confirmed' OR (h.status = 'active' AND h.expires_at > @now))
+      GROUP BY i.ticket_type_id
+    `).all({ eventId, now: new Date().toISOString() }) as Array<{ ticket_type_id: string; quantity: number }>;
+    
+    return new Map(rows.map(row => [row.ticket_type_id, row.quantity]));
+  }
+  
+  /**
+   * Inserts a hold and its items (call inside a transaction)
+   */
+  private insertHold(hold: InventoryHold): void {
+    this.db.prepare(`
+      INSERT INTO inventory_holds (id, event_id, order_id, status, created_at, expires_at)
+      VALUES (@id, @eventId, @orderId, @status, @createdAt, @expiresAt)
+    `).run({
+      id: hold.id,
+      eventId: hold.eventId,
+      orderId: hold.orderId ?? null,
+      status: hold.status,
+      createdAt: hold.createdAt.toISOString(),
+      expiresAt: hold.expiresAt.toISOString()
+    });
+    
+    const insertItem = this.db.prepare(`
+      INSERT INTO inventory_hold_items (hold_id, ticket_type_id, quantity)
+      VALUES (?, ?, ?)
+    `);
+    
+    for (const item of hold.items) {
+      insertItem.run(hold.id, item.ticketTypeId, item.quantity);
+    }
+  }
+}
@@ -0,0 +1,411 @@
+/**
+ * SQLite Schema Migrations
+ * 
+ * Ordered list of schema changes for the SQLite database.
+ * 
+ * RULES:
+ * - Never edit a migration that has already been released.
+ *   Add a new one with the next version number instead.
+ * - Versions must be strictly increasing.
+ */
+
+export interface Migration {
+  version: number;  // Applied in ascending order
+  name: string;     // Short description (stored in schema_migrations)
+  up: string;       // SQL to apply
+}
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'create_orders',
+    up: `
+      CREATE TABLE orders (
+        payment_intent_id TEXT PRIMARY KEY,
+        qr_token          TEXT NOT NULL UNIQUE,
+        status            TEXT NOT NULL CHECK (status IN ('valid', 'used', 'cancelled')),
+        created_at        TEXT NOT NULL,
+        used_at           TEXT,
+        female_qty        INTEGER NOT NULL,
+        male_qty          INTEGER NOT NULL
+      );
+      
+      CREATE TABLE processed_payment_intents (
+        payment_intent_id TEXT PRIMARY KEY,
+        processed_at      TEXT NOT NULL
+      );
+    `
+  },
+  {
+    version: 2,
+    name: 'orders_by_event_and_ticket_type',
+    up: `
+      ALTER TABLE orders ADD COLUMN event_id TEXT NOT NULL DEFAULT 'default';
+      
+      CREATE TABLE order_items (
+        payment_intent_id TEXT NOT NULL REFERENCES orders (payment_intent_id),
+        ticket_type_id    TEXT NOT NULL,
+        quantity          INTEGER NOT NULL CHECK (quantity > 0),
+        PRIMARY KEY (payment_intent_id, ticket_type_id)
+      );
+      
+      -- Existing orders were all for the default event's female/male tickets
+      INSERT INTO order_items (payment_intent_id, ticket_type_id, quantity)
+        SELECT payment_intent_id, 'female', female_qty FROM orders WHERE female_qty > 0;
+      INSERT INTO order_items (payment_intent_id, ticket_type_id, quantity)
+        SELECT payment_intent_id, 'male', male_qty FROM orders WHERE male_qty > 0;
+      
+      ALTER TABLE orders DROP COLUMN female_qty;
+      ALTER TABLE orders DROP COLUMN male_qty;
+    `
+  },
+  {
+    version: 3,
+    name: 'create_inventory_holds',
+    up: `
+      CREATE TABLE inventory_holds (
+        id                TEXT PRIMARY KEY,
+        event_id          TEXT NOT NULL,
+        payment_intent_id TEXT UNIQUE,
+        status            TEXT NOT NULL CHECK (status IN ('active', 'confirmed', 'released', 'expired')),
+        created_at        TEXT NOT NULL,
+        expires_at        TEXT NOT NULL
+      );
+      
+      CREATE INDEX idx_inventory_holds_event_status ON inventory_holds (event_id, status);
+      
+      CREATE TABLE inventory_hold_items (
+        hold_id        TEXT NOT NULL REFERENCES inventory_holds (id),
+        ticket_type_id TEXT NOT NULL,
+        quantity       INTEGER NOT NULL CHECK (quantity > 0),
+        PRIMARY KEY (hold_id, ticket_type_id)
+      );
+      
+      -- Orders sold before capacity tracking still take up space
+      INSERT INTO inventory_holds (id, event_id, payment_intent_id, status, created_at, expires_at)
+        SELECT 'sale_' || payment_intent_id, event_id, payment_intent_id, 'confirmed', created_at, created_at
+        FROM orders;
+      INSERT INTO inventory_hold_items (hold_id, ticket_type_id, quantity)
+        SELECT 'sale_' || payment_intent_id, ticket_type_id, quantity
+        FROM order_items;
+    `
+  },
+  {
+    version: 4,
+    name: 'order_refunds_and_cancellation',
+    up: `
+      ALTER TABLE orders ADD COLUMN cancelled_at TEXT;
+      ALTER TABLE orders ADD COLUMN cancellation_reason TEXT
+        CHECK (cancellation_reason IN ('refunded', 'disputed'));
+      
+      CREATE TABLE order_refunds (
+        refund_id         TEXT PRIMARY KEY,
+        payment_intent_id TEXT NOT NULL REFERENCES orders (payment_intent_id),
+        amount            INTEGER NOT NULL,
+        items             TEXT NOT NULL,  -- JSON array of { ticketTypeId, quantity }
+        created_at        TEXT NOT NULL
+      );
+      
+      CREATE INDEX idx_order_refunds_payment_intent ON order_refunds (payment_intent_id);
+    `
+  },
+  {
+    version: 5,
+    name: 'create_promo_codes',
+    up: `
+      CREATE TABLE promo_codes (
+        code                  TEXT PRIMARY KEY,
+        discount_type         TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+        value                 REAL NOT NULL CHECK (value > 0),
+        event_ids             TEXT,  -- JSON array, NULL = all events
+        ticket_type_ids       TEXT,  -- JSON array, NULL = all ticket types
+        max_uses              INTEGER,
+        max_uses_per_customer INTEGER,
+        valid_from            TEXT,
+        valid_until           TEXT,
+        active                INTEGER NOT NULL DEFAULT 1,
+        created_at            TEXT NOT NULL
+      );
+      
+      CREATE TABLE promo_redemptions (
+        payment_intent_id TEXT PRIMARY KEY,
+        code              TEXT NOT NULL REFERENCES promo_codes (code),
+        customer_key      TEXT,
+        redeemed_at       TEXT NOT NULL
+      );
+      
+      CREATE INDEX idx_promo_redemptions_code ON promo_redemptions (code, customer_key);
+      
+      ALTER TABLE orders ADD COLUMN promo_code TEXT;
+    `
+  },
+  {
+    version: 6,
+    name: 'create_order_tickets',
+    up: `
+      CREATE TABLE order_tickets (
+        ticket_id         TEXT PRIMARY KEY,
+        payment_intent_id TEXT NOT NULL REFERENCES orders (payment_intent_id),
+        qr_token          TEXT NOT NULL UNIQUE,
+        ticket_type_id    TEXT NOT NULL,
+        status            TEXT NOT NULL CHECK (status IN ('valid', 'used', 'cancelled')),
+        attendee_name     TEXT,
+        used_at           TEXT,
+        cancelled_at      TEXT
+      );
+      
+      CREATE INDEX idx_order_tickets_payment_intent ON order_tickets (payment_intent_id);
+      
+      ALTER TABLE order_refunds ADD COLUMN ticket_ids TEXT NOT NULL DEFAULT '[]';  -- JSON array
+      
+      -- Split existing orders into one ticket per remaining unit.
+      -- Their QR codes carry the order-wide token, which keeps admitting the whole order.
+      WITH RECURSIVE unit (n) AS (
+        SELECT 1
+        UNION ALL
+        SELECT n + 1 FROM unit WHERE n < (SELECT COALESCE(MAX(quantity), 0) FROM order_items)
+      )
+      INSERT INTO order_tickets (ticket_id, payment_intent_id, qr_token, ticket_type_id, status, used_at)
+      SELECT
+        'tkt_' || lower(hex(randomblob(8))),
+        i.payment_intent_id,
+        lower(hex(randomblob(32))),
+        i.ticket_type_id,
+        CASE WHEN o.used_at IS NULL THEN 'valid' ELSE 'used' END,
+        o.used_at
+      FROM order_items i
+      JOIN orders o ON o.payment_intent_id = i.payment_intent_id
+      JOIN unit ON unit.n <= i.quantity
+      ORDER BY i.rowid, unit.n;
+    `
+  },
+  {
+    version: 7,
+    name: 'order_email_and_language',
+    up: `
+      ALTER TABLE orders ADD COLUMN email TEXT;
+      ALTER TABLE orders ADD COLUMN language TEXT;
+    `
+  },
+  {
+    version: 8,
+    name: 'order_totals_and_admin_indexes',
+    up: `
+      -- Amounts in cents. NULL for orders placed before totals were recorded.
+      ALTER TABLE orders ADD COLUMN currency TEXT;
+      ALTER TABLE orders ADD COLUMN subtotal_cents INTEGER;
+      ALTER TABLE orders ADD COLUMN discount_cents INTEGER;
+      ALTER TABLE orders ADD COLUMN fee_cents INTEGER;
+      ALTER TABLE orders ADD COLUMN total_cents INTEGER;
+      
+      CREATE INDEX idx_orders_created_at ON orders (created_at);
+      CREATE INDEX idx_orders_email ON orders (lower(email));
+    `
+  },
+  {
+    version: 9,
+    name: 'create_webhook_events',
+    up: `
+      -- Every verified Stripe event, with how processing went
+      CREATE TABLE webhook_events (
+        event_id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        received_at TEXT NOT NULL,
+        last_attempt_at TEXT,
+        processed_at TEXT
+      );
+      
+      CREATE INDEX idx_webhook_events_status ON webhook_events (status, received_at);
+    `
+  },
+  {
+    version: 10,
+    name: 'order_pricing_breakdown',
+    up: `
+      -- Price per ticket type and sales taxes charged, as JSON (NULL for older orders)
+      ALTER TABLE orders ADD COLUMN pricing_lines TEXT;
+      ALTER TABLE orders ADD COLUMN taxes TEXT;
+      ALTER TABLE orders ADD COLUMN tax_cents INTEGER;
+    `
+  },
+  {
+    version: 11,
+    name: 'create_idempotency_keys',
+    up: `
+      -- Idempotency-Key headers and the response they replay
+      CREATE TABLE idempotency_keys (
+        key TEXT PRIMARY KEY,
+        fingerprint TEXT NOT NULL,
+        status TEXT NOT NULL,
+        status_code INTEGER,
+        response_body TEXT,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      );
+      
+      CREATE INDEX idx_idempotency_keys_expires_at ON idempotency_keys (expires_at);
+    `
+  },
+  {
+    version: 12,
+    name: 'order_access_token',
+    up: `
+      -- SHA-256 of the buyer's order access token. NULL for orders placed before tokens.
+      ALTER TABLE orders ADD COLUMN access_token_hash TEXT;
+    `
+  },
+  {
+    version: 13,
+    name: 'create_ticket_transfers',
+    up: `
+      -- Who a ticket was transferred to. NULL while the buyer holds it.
+      ALTER TABLE order_tickets ADD COLUMN holder_email TEXT;
+      ALTER TABLE order_tickets ADD COLUMN holder_token_hash TEXT;
+      
+      -- Every transfer started, kept as the ticket's history
+      CREATE TABLE ticket_transfers (
+        transfer_id       TEXT PRIMARY KEY,
+        payment_intent_id TEXT NOT NULL REFERENCES orders (payment_intent_id),
+        ticket_id         TEXT NOT NULL REFERENCES order_tickets (ticket_id),
+        from_email        TEXT,
+        to_email          TEXT NOT NULL,
+        status            TEXT NOT NULL CHECK (status IN ('pending', 'accepted', 'cancelled')),
+        accept_token_hash TEXT NOT NULL,
+        created_at        TEXT NOT NULL,
+        accepted_at       TEXT,
+        cancelled_at      TEXT
+      );
+      
+      CREATE INDEX idx_ticket_transfers_payment_intent ON ticket_transfers (payment_intent_id);
+    `
+  },
+  {
+    version: 14,
+    name: 'order_buyer_details',
+    up: `
+      -- Who placed the order. NULL for orders placed before they were collected.
+      ALTER TABLE orders ADD COLUMN buyer_name TEXT;
+      ALTER TABLE orders ADD COLUMN buyer_phone TEXT;
+      
+      CREATE INDEX idx_orders_buyer_phone ON orders (buyer_phone);
+    `
+  },
+  {
+    version: 15,
+    name: 'create_api_keys',
+    up: `
+      -- Staff API keys. Only a hash of each key is stored.
+      CREATE TABLE api_keys (
+        key_id       TEXT PRIMARY KEY,
+        name         TEXT NOT NULL,
+        role         TEXT NOT NULL CHECK (role IN ('admin', 'door', 'readonly')),
+        event_id     TEXT,
+        key_hash     TEXT NOT NULL UNIQUE,
+        created_at   TEXT NOT NULL,
+        last_used_at TEXT,
+        revoked_at   TEXT
+      );
+    `
+  },
+  {
+    version: 16,
+    name: 'orders_keyed_by_order_id',
+    up: `
+      -- Orders are keyed by order ID, so comps (which have no PaymentIntent)
+      -- fit in. Paid orders keep their PaymentIntent ID as their order ID.
+      -- Renaming a column also renames it in the foreign keys that point at it.
+      ALTER TABLE orders RENAME COLUMN payment_intent_id TO order_id;
+      ALTER TABLE order_items RENAME COLUMN payment_intent_id TO order_id;
+      ALTER TABLE order_tickets RENAME COLUMN payment_intent_id TO order_id;
+      ALTER TABLE order_refunds RENAME COLUMN payment_intent_id TO order_id;
+      ALTER TABLE ticket_transfers RENAME COLUMN payment_intent_id TO order_id;
+      ALTER TABLE inventory_holds RENAME COLUMN payment_intent_id TO order_id;
+      
+      ALTER TABLE orders ADD COLUMN source TEXT NOT NULL DEFAULT 'paid' CHECK (source IN ('paid', 'comp'));
+      ALTER TABLE orders ADD COLUMN payment_intent_id TEXT;  -- NULL for comps
+      UPDATE orders SET payment_intent_id = order_id;
+      CREATE UNIQUE INDEX idx_orders_payment_intent ON orders (payment_intent_id);
+      
+      -- Comps can be revoked. A CHECK cannot be changed in place, so the column is swapped.
+      ALTER TABLE orders ADD COLUMN cancellation_reason_new TEXT
+        CHECK (cancellation_reason_new IN ('refunded', 'disputed', 'revoked'));
+      UPDATE orders SET cancellation_reason_new = cancellation_reason;
+      ALTER TABLE orders DROP COLUMN cancellation_reason;
+      ALTER TABLE orders RENAME COLUMN cancellation_reason_new TO cancellation_reason;
+    `
+  },
+  {
+    version: 17,
+    name: 'create_order_audit_log',
+    up: `
+      -- Every change to an order, with who made it. Written in the same
+      -- transaction as the change, and never updated or deleted.
+      CREATE TABLE order_audit_log (
+        entry_id   INTEGER PRIMARY KEY AUTOINCREMENT,
+        order_id   TEXT NOT NULL REFERENCES orders (order_id),
+        action     TEXT NOT NULL,
+        actor_type TEXT NOT NULL CHECK (actor_type IN ('webhook', 'admin', 'door', 'customer')),
+        actor_id   TEXT NOT NULL,
+        actor_name TEXT,
+        before     TEXT,           -- JSON of the values that changed (NULL on creation)
+        after      TEXT NOT NULL,  -- JSON of the same values afterwards
+        created_at TEXT NOT NULL
+      );
+      
+      CREATE INDEX idx_order_audit_log_order ON order_audit_log (order_id, entry_id);
+      
+      CREATE TRIGGER order_audit_log_no_update BEFORE UPDATE ON order_audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'order_audit_log is append-only');
+      END;
+      
+      CREATE TRIGGER order_audit_log_no_delete BEFORE DELETE ON order_audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'order_audit_log is append-only');
+      END;
+    `
+  },
+  {
+    version: 18,
+    name: 'forget_stored_checkout_secrets',
+    up: `
+      -- Stored checkout responses held the order access token and the
+      -- client secret. Keys are now stored hashed and responses without
+      -- them, so the old rows could never be replayed anyway.
+      DELETE FROM idempotency_keys;
+    `
+  },
+  {
+    version: 19,
+    name: 'fixed_promo_values_in_cents',
+    up: `
+      -- Fixed promo amounts were stored as dollars (REAL). They are now
+      -- integer cents, like every other amount.
+      UPDATE promo_codes SET value = MAX(1, CAST(ROUND(value * 100) AS INTEGER)) WHERE discount_type = 'fixed';
+    `
+  },
+  {
+    version: 20,
+    name: 'release_refunded_capacity',
+    up: `
+      -- Sold tickets that no longer take up capacity (refunded, or the order was cancelled)
+      ALTER TABLE inventory_hold_items ADD COLUMN released INTEGER NOT NULL DEFAULT 0;
+      
+      -- Orders refunded or cancelled before this gave nothing back
+      UPDATE inventory_hold_items
+      SET released = quantity - MIN(quantity, COALESCE((
+        SELECT oi.quantity FROM order_items oi
+        JOIN inventory_holds h ON h.order_id = oi.order_id
+        JOIN orders o ON o.order_id = oi.order_id
+        WHERE h.id = inventory_hold_items.hold_id
+          AND oi.ticket_type_id = inventory_hold_items.ticket_type_id
+          AND o.status != 'cancelled'
+      ), 0))
+      WHERE hold_id IN (SELECT id FROM inventory_holds WHERE status = 'confirmed' AND order_id IS NOT NULL);
+    `
+  }
+];
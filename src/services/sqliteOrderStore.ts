@@ -0,0 +1,879 @@
+/**
+ * SQLite Order Store
+ * 
+ * Stores orders in a SQLite database file, so tickets survive
+ * restarts and redeploys.
+ * 
+ * The schema is managed by the migrations in sqliteMigrations.ts.
+ * better-sqlite3 is synchronous, so every method below runs to
+ * completion without yielding - transactions are truly atomic.
+ * 
+ * Every change writes its audit log entry (order_audit_log) in the
+ * same transaction, so a change is never missing from the log.
+ */
+
+import Database from 'better-sqlite3';
+import { Language } from './language.js';
+import {
+  AuditValues,
+  CancellationReason,
+  Order,
+  OrderActor,
+  OrderActorType,
+  OrderAuditAction,
+  OrderAuditEntry,
+  OrderFilter,
+  OrderItem,
+  OrderLine,
+  OrderPage,
+  OrderRefund,
+  OrderSource,
+  OrderStatus,
+  OrderStore,
+  OrderTax,
+  Ticket,
+  TicketStatus,
+  TicketTransfer,
+  TransferStatus,
+  orderStatusFromTickets,
+  selectRefundedTickets,
+  subtractItems
+} from './orderStore.js';
+import { setSoldItems } from './sqliteInventoryStore.js';
+import { buildAuditEntry } from './orderAuditService.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'orderStore' });
+
+// Shape of a row in the orders table
+interface OrderRow {
+  order_id: string;
+  source: OrderSource;
+  payment_intent_id: string | null;
+  qr_token: string;
+  status: OrderStatus;
+  created_at: string;
+  used_at: string | null;
+  event_id: string;
+  cancelled_at: string | null;
+  cancellation_reason: CancellationReason | null;
+  promo_code: string | null;
+  email: string | null;
+  buyer_name: string | null;
+  buyer_phone: string | null;
+  language: Language | null;
+  currency: string | null;
+  subtotal_cents: number | null;
+  discount_cents: number | null;
+  fee_cents: number | null;
+  total_cents: number | null;
+  pricing_lines: string | null;
+  taxes: string | null;
+  tax_cents: number | null;
+  access_token_hash: string | null;
+}
+
+// Shape of a row in the order_items table
+interface OrderItemRow {
+  ticket_type_id: string;
+  quantity: number;
+}
+
+// Shape of a row in the order_tickets table
+interface TicketRow {
+  ticket_id: string;
+  qr_token: string;
+  ticket_type_id: string;
+  status: TicketStatus;
+  attendee_name: string | null;
+  used_at: string | null;
+  cancelled_at: string | null;
+  holder_email: string | null;
+  holder_token_hash: string | null;
+}
+
+// Shape of a row in the order_refunds table
+interface OrderRefundRow {
+  refund_id: string;
+  amount: number;
+  items: string;
+  ticket_ids: string;
+  created_at: string;
+}
+
+// Shape of a row in the ticket_transfers table
+interface TicketTransferRow {
+  transfer_id: string;
+  ticket_id: string;
+  from_email: string | null;
+  to_email: string;
+  status: TransferStatus;
+  accept_token_hash: string;
+  created_at: string;
+  accepted_at: string | null;
+  cancelled_at: string | null;
+}
+
+// Shape of a row in the order_audit_log table
+interface OrderAuditRow {
+  order_id: string;
+  action: OrderAuditAction;
+  actor_type: OrderActorType;
+  actor_id: string;
+  actor_name: string | null;
+  before: string | null;
+  after: string;
+  created_at: string;
+}
+
+/**
+ * Converts a database row to a Ticket
+ */
+function rowToTicket(row: TicketRow): Ticket {
+  return {
+    ticketId: row.ticket_id,
+    qrToken: row.qr_token,
+    ticketTypeId: row.ticket_type_id,
+    status: row.status,
+    attendeeName: row.attendee_name ?? undefined,
+    usedAt: row.used_at ? new Date(row.used_at) : undefined,
+    cancelledAt: row.cancelled_at ? new Date(row.cancelled_at) : undefined,
+    holderEmail: row.holder_email ?? undefined,
+    holderTokenHash: row.holder_token_hash ?? undefined
+  };
+}
+
+/**
+ * Converts a database row to a TicketTransfer
+ */
+function rowToTransfer(row: TicketTransferRow): TicketTransfer {
+  return {
+    transferId: row.transfer_id,
+    ticketId: row.ticket_id,
+    fromEmail: row.from_email ?? undefined,
+    toEmail: row.to_email,
+    status: row.status,
+    acceptTokenHash: row.accept_token_hash,
+    createdAt: new Date(row.created_at),
+    acceptedAt: row.accepted_at ? new Date(row.accepted_at) : undefined,
+    cancelledAt: row.cancelled_at ? new Date(row.cancelled_at) : undefined
+  };
+}
+
+/**
+ * Converts a database row to an OrderAuditEntry
+ */
+function rowToAuditEntry(row: OrderAuditRow): OrderAuditEntry {
+  return {
+    orderId: row.order_id,
+    action: row.action,
+    actor: {
+      type: row.actor_type,
+      id: row.actor_id,
+      name: row.actor_name ?? undefined
+    },
+    before: row.before ? JSON.parse(row.before) as AuditValues : null,
+    after: JSON.parse(row.after) as AuditValues,
+    createdAt: new Date(row.created_at)
+  };
+}
+
+/**
+ * Converts database rows to an Order
+ */
+function rowToOrder(
+  row: OrderRow,
+  itemRows: OrderItemRow[],
+  ticketRows: TicketRow[],
+  refundRows: OrderRefundRow[],
+  transferRows: TicketTransferRow[]
+): Order {
+  return {
+    orderId: row.order_id,
+    source: row.source,
+    paymentIntentId: row.payment_intent_id ?? undefined,
+    qrToken: row.qr_token,
+    status: row.status,
+    createdAt: new Date(row.created_at),
+    usedAt: row.used_at ? new Date(row.used_at) : undefined,
+    eventId: row.event_id,
+    items: itemRows.map(item => ({
+      ticketTypeId: item.ticket_type_id,
+      quantity: item.quantity
+    })),
+    tickets: ticketRows.map(rowToTicket),
+    refunds: refundRows.map(refund => ({
+      refundId: refund.refund_id,
+      amount: refund.amount,
+      items: JSON.parse(refund.items) as OrderItem[],
+      ticketIds: JSON.parse(refund.ticket_ids) as string[],
+      createdAt: new Date(refund.created_at)
+    })),
+    transfers: transferRows.map(rowToTransfer),
+    cancelledAt: row.cancelled_at ? new Date(row.cancelled_at) : undefined,
+    cancellationReason: row.cancellation_reason ?? undefined,
+    promoCode: row.promo_code ?? undefined,
+    email: row.email ?? undefined,
+    buyerName: row.buyer_name ?? undefined,
+    buyerPhone: row.buyer_phone ?? undefined,
+    language: row.language ?? undefined,
+    totals: row.currency !== null && row.total_cents !== null
+      ? {
+          currency: row.currency,
+          lines: row.pricing_lines ? JSON.parse(row.pricing_lines) as OrderLine[] : [],
+          subtotal: row.subtotal_cents ?? 0,
+          discount: row.discount_cents ?? 0,
+          fee: row.fee_cents ?? 0,
+          taxes: row.taxes ? JSON.parse(row.taxes) as OrderTax[] : [],
+          tax: row.tax_cents ?? 0,
+          total: row.total_cents
+        }
+      : undefined,
+    accessTokenHash: row.access_token_hash ?? undefined
+  };
+}
+
+export class SqliteOrderStore implements OrderStore {
+  constructor(private db: Database.Database) {}
+  
+  /**
+   * Save a new order.
+   * A paid order's PaymentIntent is marked as processed in the same
+   * transaction, so an order can never exist without its idempotency record.
+   */
+  async saveOrder(order: Order, actor: OrderActor): Promise<boolean> {
+    const insertOrder = this.db.prepare(`
+      INSERT INTO orders (
+        order_id, source, payment_intent_id, qr_token, status, created_at, used_at, event_id, promo_code, email, language,
+        currency, pricing_lines, subtotal_cents, discount_cents, fee_cents, taxes, tax_cents, total_cents,
+        access_token_hash, buyer_name, buyer_phone
+      ) VALUES (
+        @orderId, @source, @paymentIntentId, @qrToken, @status, @createdAt, @usedAt, @eventId, @promoCode, @email, @language,
+        @currency, @lines, @subtotal, @discount, @fee, @taxes, @tax, @total,
+        @accessTokenHash, @buyerName, @buyerPhone
+      )
+    `);
+    const insertTicket = this.db.prepare(`
+      INSERT INTO order_tickets (ticket_id, order_id, qr_token, ticket_type_id, status, attendee_name)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    const markProcessed = this.db.prepare(`
+      INSERT OR IGNORE INTO processed_payment_intents (payment_intent_id, processed_at)
+      VALUES (?, ?)
+    `);
+    const orderExists = this.db.prepare('SELECT 1 FROM orders WHERE order_id = ?');
+    
+    // Claiming the PaymentIntent first makes a duplicate save a no-op
+    const saved = this.db.transaction(() => {
+      if (order.paymentIntentId
+        ? markProcessed.run(order.paymentIntentId, new Date().toISOString()).changes === 0
+        : orderExists.get(order.orderId) !== undefined) {
+        return false;
+      }
+      
+      insertOrder.run({
+        orderId: order.orderId,
+        source: order.source,
+        paymentIntentId: order.paymentIntentId ?? null,
+        qrToken: order.qrToken,
+        status: order.status,
+        createdAt: order.createdAt.toISOString(),
+        usedAt: order.usedAt ? order.usedAt.toISOString() : null,
+        eventId: order.eventId,
+        promoCode: order.promoCode ?? null,
+        email: order.email ?? null,
+        language: order.language ?? null,
+        currency: order.totals?.currency ?? null,
+        lines: order.totals ? JSON.stringify(order.totals.lines) : null,
+        subtotal: order.totals?.subtotal ?? null,
+        discount: order.totals?.discount ?? null,
+        fee: order.totals?.fee ?? null,
+        taxes: order.totals ? JSON.stringify(order.totals.taxes) : null,
+        tax: order.totals?.tax ?? null,
+        total: order.totals?.total ?? null,
+        accessTokenHash: order.accessTokenHash ?? null,
+        buyerName: order.buyerName ?? null,
+        buyerPhone: order.buyerPhone ?? null
+      });
+      this.replaceItems(order.orderId, order.items);
+      for (const ticket of order.tickets) {
+        insertTicket.run(
+          ticket.ticketId,
+          order.orderId,
+          ticket.qrToken,
+          ticket.ticketTypeId,
+          ticket.status,
+          ticket.attendeeName ?? null
+        );
+      }
+      this.appendAudit(buildAuditEntry('created', actor, null, order));
+      return true;
+    }).immediate();
+    
+    if (saved) {
+      log.info({ orderId: order.orderId, source: order.source }, 'Order saved');
+    }
+    
+    return saved;
+  }
+  
+  /**
+   * Get an order by ID
+   */
+  async getOrder(orderId: string): Promise<Order | null> {
+    return this.loadOrder(orderId);
+  }
+  
+  /**
+   * Get a paid order by PaymentIntent ID
+   */
+  async getOrderByPaymentIntentId(paymentIntentId: string): Promise<Order | null> {
+    const row = this.db
+      .prepare('SELECT * FROM orders WHERE payment_intent_id = ?')
+      .get(paymentIntentId) as OrderRow | undefined;
+    
+    return row ? this.hydrate(row) : null;
+  }
+  
+  /**
+   * List orders matching a filter, newest first
+   */
+  async listOrders(filter: OrderFilter, page?: { limit: number; offset: number }): Promise<OrderPage> {
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = {};
+    
+    if (filter.status) {
+      conditions.push('status = @status');
+      params.status = filter.status;
+    }
+    if (filter.source) {
+      conditions.push('source = @source');
+      params.source = filter.source;
+    }
+    if (filter.eventId) {
+      conditions.push('event_id = @eventId');
+      params.eventId = filter.eventId;
+    }
+    if (filter.ticketTypeId) {
+      conditions.push(`order_id IN (
+        SELECT order_id FROM order_tickets WHERE ticket_type_id = @ticketTypeId
+      )`);
+      params.ticketTypeId = filter.ticketTypeId;
+    }
+    if (filter.email) {
+      conditions.push('lower(email) = lower(@email)');
+      params.email = filter.email;
+    }
+    if (filter.buyerName) {
+      conditions.push(`instr(lower(buyer_name), lower(@buyerName)) > 0`);
+      params.buyerName = filter.buyerName;
+    }
+    if (filter.buyerPhone) {
+      conditions.push('buyer_phone = @buyerPhone');
+      params.buyerPhone = filter.buyerPhone;
+    }
+    if (filter.createdFrom) {
+      conditions.push('created_at >= @createdFrom');
+      params.createdFrom = filter.createdFrom.toISOString();
+    }
+    if (filter.createdBefore) {
+      conditions.push('created_at < @createdBefore');
+      params.createdBefore = filter.createdBefore.toISOString();
+    }
+    
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    
+    const { count } = this.db
+      .prepare(`SELECT COUNT(*) AS count FROM orders ${where}`)
+      .get(params) as { count: number };
+    
+    const limit = page ? 'LIMIT @limit OFFSET @offset' : '';
+    const rows = this.db
+      .prepare(`SELECT * FROM orders ${where} ORDER BY created_at DESC, rowid DESC ${limit}`)
+      .all(page ? { ...params, limit: page.limit, offset: page.offset } : params) as OrderRow[];
+    
+    return {
+      orders: rows.map(row => this.hydrate(row)),
+      total: count
+    };
+  }
+  
+  /**
+   * Get an order by a ticket's QR token or the order-wide token
+   */
+  async getOrderByQrToken(qrToken: string): Promise<Order | null> {
+    const row = this.db.prepare(`
+      SELECT * FROM orders
+      WHERE qr_token = @qrToken
+         OR order_id = (SELECT order_id FROM order_tickets WHERE qr_token = @qrToken)
+    `).get({ qrToken }) as OrderRow | undefined;
+    
+    return row ? this.hydrate(row) : null;
+  }
+  
+  /**
+   * Compare-and-set tickets from valid to used.
+   * The check and the updates run in one IMMEDIATE transaction,
+   * so a second scanner waits and then sees the tickets as used.
+   */
+  async redeemTickets(orderId: string, ticketIds: string[], actor: OrderActor): Promise<Order | null> {
+    const redeemed = this.db.transaction((): Order | null => {
+      const order = this.loadOrder(orderId);
+      
+      if (!order || order.status === 'cancelled' || ticketIds.length === 0) {
+        return null;
+      }
+      
+      const redeemable = ticketIds.every(ticketId =>
+        order.tickets.some(ticket => ticket.ticketId === ticketId && ticket.status === 'valid')
+      );
+      
+      if (!redeemable) {
+        return null;
+      }
+      
+      const now = new Date().toISOString();
+      const markUsed = this.db.prepare(`
+        UPDATE order_tickets SET status = 'used', used_at = ?
+        WHERE ticket_id = ? AND order_id = ?
+      `);
+      
+      for (const ticketId of ticketIds) {
+        markUsed.run(now, ticketId, orderId);
+      }
+      
+      this.updateStatusFromTickets(orderId);
+      this.db.prepare('UPDATE orders SET used_at = COALESCE(used_at, ?) WHERE order_id = ?')
+        .run(now, orderId);
+      
+      return this.audited('checked_in', actor, order);
+    }).immediate();
+    
+    if (redeemed) {
+      log.info({ orderId, ticketIds }, 'Tickets redeemed');
+    }
+    
+    return redeemed;
+  }
+  
+  /**
+   * Give a ticket a new QR token.
+   * The conditions are in the WHERE clause, so the update itself is atomic.
+   */
+  async reissueTicket(
+    orderId: string,
+    ticketId: string,
+    changes: { qrToken: string; attendeeName?: string },
+    actor: OrderActor
+  ): Promise<Order | null> {
+    const update = this.db.prepare(`
+      UPDATE order_tickets
+      SET qr_token = @qrToken, attendee_name = COALESCE(@attendeeName, attendee_name)
+      WHERE ticket_id = @ticketId
+        AND order_id = @orderId
+        AND status = 'valid'
+        AND order_id IN (SELECT order_id FROM orders WHERE status != 'cancelled')
+    `);
+    
+    const reissued = this.db.transaction((): Order | null => {
+      const order = this.loadOrder(orderId);
+      const result = update.run({
+        orderId,
+        ticketId,
+        qrToken: changes.qrToken,
+        attendeeName: changes.attendeeName ?? null
+      });
+      
+      return order && result.changes > 0 ? this.audited('ticket_reissued', actor, order) : null;
+    }).immediate();
+    
+    if (reissued) {
+      log.info({ orderId, ticketId }, 'Ticket reissued');
+    }
+    
+    return reissued;
+  }
+  
+  /**
+   * Get the order a transfer belongs to
+   */
+  async getOrderByTransferId(transferId: string): Promise<Order | null> {
+    const row = this.db.prepare(`
+      SELECT * FROM orders
+      WHERE order_id = (SELECT order_id FROM ticket_transfers WHERE transfer_id = ?)
+    `).get(transferId) as OrderRow | undefined;
+    
+    return row ? this.hydrate(row) : null;
+  }
+  
+  /**
+   * Start a transfer, replacing a pending one for the same ticket.
+   * The check and both writes run in one IMMEDIATE transaction.
+   */
+  async startTransfer(orderId: string, transfer: TicketTransfer, actor: OrderActor): Promise<Order | null> {
+    const started = this.db.transaction((): Order | null => {
+      const order = this.loadOrder(orderId);
+      const ticket = order?.tickets.find(t => t.ticketId === transfer.ticketId);
+      
+      if (!order || order.status === 'cancelled' || !ticket || ticket.status !== 'valid') {
+        return null;
+      }
+      
+      this.db.prepare(`
+        UPDATE ticket_transfers SET status = 'cancelled', cancelled_at = ?
+        WHERE order_id = ? AND ticket_id = ? AND status = 'pending'
+      `).run(transfer.createdAt.toISOString(), orderId, transfer.ticketId);
+      
+      this.db.prepare(`
+        INSERT INTO ticket_transfers (
+          transfer_id, order_id, ticket_id, from_email, to_email, status, accept_token_hash, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        transfer.transferId,
+        orderId,
+        transfer.ticketId,
+        transfer.fromEmail ?? null,
+        transfer.toEmail,
+        transfer.status,
+        transfer.acceptTokenHash,
+        transfer.createdAt.toISOString()
+      );
+      
+      return this.audited('transfer_started', actor, order);
+    }).immediate();
+    
+    if (started) {
+      log.info({ orderId, transferId: transfer.transferId, ticketId: transfer.ticketId }, 'Transfer started');
+    }
+    
+    return started;
+  }
+  
+  /**
+   * Accept a transfer: new QR token and holder for the ticket.
+   * The ticket and the transfer are updated in one IMMEDIATE transaction.
+   */
+  async acceptTransfer(
+    orderId: string,
+    transferId: string,
+    changes: { qrToken: string; holderTokenHash: string; attendeeName?: string },
+    actor: OrderActor
+  ): Promise<Order | null> {
+    const accepted = this.db.transaction((): Order | null => {
+      const order = this.loadOrder(orderId);
+      const transfer = order?.transfers.find(t => t.transferId === transferId);
+      const ticket = order?.tickets.find(t => t.ticketId === transfer?.ticketId);
+      
+      if (!order || order.status === 'cancelled' || transfer?.status !== 'pending' || !ticket || ticket.status !== 'valid') {
+        return null;
+      }
+      
+      this.db.prepare(`
+        UPDATE order_tickets
+        SET qr_token = ?, attendee_name = ?, holder_email = ?, holder_token_hash = ?
+        WHERE ticket_id = ? AND order_id = ?
+      `).run(
+        changes.qrToken,
+        changes.attendeeName ?? null,
+        transfer.toEmail,
+        changes.holderTokenHash,
+        ticket.ticketId,
+        orderId
+      );
+      
+      this.db.prepare(`
+        UPDATE ticket_transfers SET status = 'accepted', accepted_at = ?
+        WHERE transfer_id = ?
+      `).run(new Date().toISOString(), transferId);
+      
+      return this.audited('transfer_accepted', actor, order);
+    }).immediate();
+    
+    if (accepted) {
+      const ticketId = accepted.transfers.find(t => t.transferId === transferId)?.ticketId;
+      log.info({ orderId, transferId, ticketId }, 'Transfer accepted, ticket reissued');
+    }
+    
+    return accepted;
+  }
+  
+  /**
+   * Withdraw a pending transfer.
+   * The condition is in the WHERE clause, so the update itself is atomic.
+   */
+  async cancelTransfer(orderId: string, transferId: string, actor: OrderActor): Promise<Order | null> {
+    const cancelled = this.db.transaction((): Order | null => {
+      const order = this.loadOrder(orderId);
+      const result = this.db.prepare(`
+        UPDATE ticket_transfers SET status = 'cancelled', cancelled_at = ?
+        WHERE transfer_id = ? AND order_id = ? AND status = 'pending'
+      `).run(new Date().toISOString(), transferId, orderId);
+      
+      return order && result.changes > 0 ? this.audited('transfer_cancelled', actor, order) : null;
+    }).immediate();
+    
+    if (cancelled) {
+      log.info({ orderId, transferId }, 'Transfer cancelled');
+    }
+    
+    return cancelled;
+  }
+  
+  /**
+   * Apply a refund (idempotent per refund ID).
+   * The refund record, the remaining items and the status change
+   * are written in one transaction.
+   */
+  async applyRefund(orderId: string, refund: OrderRefund, actor: OrderActor): Promise<Order | null> {
+    const applied = this.db.transaction((): boolean => {
+      const order = this.loadOrder(orderId);
+      
+      if (!order || order.refunds.some(r => r.refundId === refund.refundId)) {
+        return false;
+      }
+      
+      const ticketIds = selectRefundedTickets(order.tickets, refund);
+      
+      this.db.prepare(`
+        INSERT INTO order_refunds (refund_id, order_id, amount, items, ticket_ids, created_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(
+        refund.refundId,
+        orderId,
+        refund.amount,
+        JSON.stringify(refund.items),
+        JSON.stringify(ticketIds),
+        refund.createdAt.toISOString()
+      );
+      
+      const items = subtractItems(order.items, refund.items);
+      this.replaceItems(orderId, items);
+      setSoldItems(this.db, orderId, order.status === 'cancelled' ? [] : items);
+      
+      const cancelTicket = this.db.prepare(`
+        UPDATE order_tickets SET status = 'cancelled', cancelled_at = ?
+        WHERE ticket_id = ? AND order_id = ? AND status != 'cancelled'
+      `);
+      const now = new Date().toISOString();
+      
+      for (const ticketId of ticketIds) {
+        cancelTicket.run(now, ticketId, orderId);
+      }
+      
+      if (items.length > 0) {
+        this.updateStatusFromTickets(orderId);
+      } else {
+        this.db.prepare(`
+          UPDATE orders
+          SET status = 'cancelled',
+              cancelled_at = COALESCE(cancelled_at, ?),
+              cancellation_reason = COALESCE(cancellation_reason, 'refunded')
+          WHERE order_id = ?
+        `).run(now, orderId);
+      }
+      
+      this.audited('refunded', actor, order);
+      return true;
+    }).immediate();
+    
+    if (applied) {
+      log.info({ orderId, refundId: refund.refundId }, 'Refund applied');
+    }
+    
+    return this.loadOrder(orderId);
+  }
+  
+  /**
+   * Cancel an order
+   */
+  async cancelOrder(orderId: string, reason: CancellationReason, actor: OrderActor): Promise<Order | null> {
+    const cancelled = this.db.transaction((): boolean => {
+      const order = this.loadOrder(orderId);
+      const result = this.db.prepare(`
+        UPDATE orders
+        SET status = 'cancelled', cancelled_at = ?, cancellation_reason = ?
+        WHERE order_id = ? AND status != 'cancelled'
+      `).run(new Date().toISOString(), reason, orderId);
+      
+      if (!order || result.changes === 0) {
+        return false;
+      }
+      
+      setSoldItems(this.db, orderId, []);
+      this.audited('cancelled', actor, order);
+      return true;
+    }).immediate();
+    
+    if (cancelled) {
+      log.info({ orderId, reason }, 'Order cancelled');
+    }
+    
+    return this.loadOrder(orderId);
+  }
+  
+  /**
+   * Undo a dispute cancellation
+   */
+  async reinstateOrder(orderId: string, actor: OrderActor): Promise<Order | null> {
+    const reinstated = this.db.transaction((): Order | null => {
+      const order = this.loadOrder(orderId);
+      const result = this.db.prepare(`
+        UPDATE orders
+        SET status = 'valid', cancelled_at = NULL, cancellation_reason = NULL
+        WHERE order_id = ? AND status = 'cancelled' AND cancellation_reason = 'disputed'
+      `).run(orderId);
+      
+      if (!order || result.changes === 0) {
+        return null;
+      }
+      
+      this.updateStatusFromTickets(orderId);
+      
+      // Counted again even if they were sold on meanwhile: the buyer keeps their tickets
+      setSoldItems(this.db, orderId, order.items);
+      
+      return this.audited('reinstated', actor, order);
+    }).immediate();
+    
+    if (reinstated) {
+      log.info({ orderId, status: reinstated.status }, 'Order reinstated');
+    }
+    
+    return reinstated;
+  }
+  
+  /**
+   * Give a legacy order its first access token
+   */
+  async issueAccessToken(orderId: string, accessTokenHash: string, actor: OrderActor): Promise<Order | null> {
+    const issued = this.db.transaction((): Order | null => {
+      const order = this.loadOrder(orderId);
+      const result = this.db
+        .prepare('UPDATE orders SET access_token_hash = ? WHERE order_id = ? AND access_token_hash IS NULL')
+        .run(accessTokenHash, orderId);
+      
+      return order && result.changes > 0 ? this.audited('access_token_issued', actor, order) : null;
+    }).immediate();
+    
+    if (issued) {
+      log.info({ orderId }, 'Access token issued');
+    }
+    
+    return issued;
+  }
+  
+  /**
+   * Get an order's audit log
+   */
+  async getOrderHistory(orderId: string): Promise<OrderAuditEntry[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM order_audit_log WHERE order_id = ? ORDER BY entry_id')
+      .all(orderId) as OrderAuditRow[];
+    
+    return rows.map(rowToAuditEntry);
+  }
+  
+  /**
+   * Check if a PaymentIntent has already been processed
+   */
+  async isPaymentIntentProcessed(paymentIntentId: string): Promise<boolean> {
+    const row = this.db
+      .prepare('SELECT 1 FROM processed_payment_intents WHERE payment_intent_id = ?')
+      .get(paymentIntentId);
+    
+    return row !== undefined;
+  }
+  
+  /**
+   * Reloads an order after a change and records the change in its
+   * audit log (call inside the transaction making the change)
+   * 
+   * @param before - The order as it was before the change
+   * @returns The order after the change
+   */
+  private audited(action: OrderAuditAction, actor: OrderActor, before: Order): Order {
+    const after = this.loadOrder(before.orderId)!;
+    
+    this.appendAudit(buildAuditEntry(action, actor, before, after));
+    
+    return after;
+  }
+  
+  /**
+   * Appends an entry to the audit log (call inside a transaction)
+   */
+  private appendAudit(entry: OrderAuditEntry): void {
+    this.db.prepare(`
+      INSERT INTO order_audit_log (order_id, action, actor_type, actor_id, actor_name, before, after, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      entry.orderId,
+      entry.action,
+      entry.actor.type,
+      entry.actor.id,
+      entry.actor.name ?? null,
+      entry.before ? JSON.stringify(entry.before) : null,
+      JSON.stringify(entry.after),
+      entry.createdAt.toISOString()
+    );
+  }
+  
+  /**
+   * Loads an order synchronously (usable inside transactions)
+   */
+  private loadOrder(orderId: string): Order | null {
+    const row = this.db
+      .prepare('SELECT * FROM orders WHERE order_id = ?')
+      .get(orderId) as OrderRow | undefined;
+    
+    return row ? this.hydrate(row) : null;
+  }
+  
+  /**
+   * Loads the items, tickets, refunds and transfers of an order row and builds the Order
+   */
+  private hydrate(row: OrderRow): Order {
+    const itemRows = this.db
+      .prepare('SELECT ticket_type_id, quantity FROM order_items WHERE order_id = ? ORDER BY rowid')
+      .all(row.order_id) as OrderItemRow[];
+    const ticketRows = this.db
+      .prepare('SELECT * FROM order_tickets WHERE order_id = ? ORDER BY rowid')
+      .all(row.order_id) as TicketRow[];
+    const refundRows = this.db
+      .prepare('SELECT refund_id, amount, items, ticket_ids, created_at FROM order_refunds WHERE order_id = ? ORDER BY created_at')
+      .all(row.order_id) as OrderRefundRow[];
+    const transferRows = this.db
+      .prepare('SELECT * FROM ticket_transfers WHERE order_id = ? ORDER BY created_at, rowid')
+      .all(row.order_id) as TicketTransferRow[];
+    
+    return rowToOrder(row, itemRows, ticketRows, refundRows, transferRows);
+  }
+  
+  /**
+   * Sets a non-cancelled order's status from its tickets (call inside a transaction)
+   */
+  private updateStatusFromTickets(orderId: string): void {
+    const ticketRows = this.db
+      .prepare('SELECT * FROM order_tickets WHERE order_id = ?')
+      .all(orderId) as TicketRow[];
+    
+    this.db.prepare(`UPDATE orders SET status = ? WHERE order_id = ? AND status != 'cancelled'`)
+      .run(orderStatusFromTickets(ticketRows.map(rowToTicket)), orderId);
+  }
+  
+  /**
+   * Replaces the items of an order (call inside a transaction)
+   */
+  private replaceItems(orderId: string, items: OrderItem[]): void {
+    this.db.prepare('DELETE FROM order_items WHERE order_id = ?').run(orderId);
+    
+    const insertItem = this.db.prepare(`
+      INSERT INTO order_items (order_id, ticket_type_id, quantity)
+      VALUES (?, ?, ?)
+    `);
+    
+    for (const item of items) {
+      insertItem.run(orderId, item.ticketTypeId, item.quantity);
+    }
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * SQLite Promo Code Store
+ * 
+ * Stores promo codes and redemptions in the SQLite database.
+ * Ticket type and event restrictions are stored as JSON arrays.
+ */
+
+import Database from 'better-sqlite3';
+import { DiscountType, PromoCode, PromoRedemption, PromoStore, normalizePromoCode } from './promoStore.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'promoStore' });
+
+// Shape of a row in the promo_codes table
+interface PromoCodeRow {
+  code: string;
+  discount_type: DiscountType;
+  value: number;
+  event_ids: string | null;
+  ticket_type_ids: string | null;
+  max_uses: number | null;
+  max_uses_per_customer: number | null;
+  valid_from: string | null;
+  valid_until: string | null;
+  active: number;
+  created_at: string;
+}
+
+/**
+ * Converts a database row to a PromoCode
+ */
+function rowToPromoCode(row: PromoCodeRow): PromoCode {
+  return {
+    code: row.code,
+    discountType: row.discount_type,
+    value: row.value,
+    eventIds: row.event_ids ? JSON.parse(row.event_ids) : undefined,
+    ticketTypeIds: row.ticket_type_ids ? JSON.parse(row.ticket_type_ids) : undefined,
+    maxUses: row.max_uses ?? undefined,
+    maxUsesPerCustomer: row.max_uses_per_customer ?? undefined,
+    validFrom: row.valid_from ? new Date(row.valid_from) : undefined,
+    validUntil: row.valid_until ? new Date(row.valid_until) : undefined,
+    active: row.active === 1,
+    createdAt: new Date(row.created_at)
+  };
+}
+
+export class SqlitePromoStore implements PromoStore {
+  constructor(private db: Database.Database) {}
+  
+  /**
+   * Create a promo code
+   */
+  async createPromoCode(promo: PromoCode): Promise<boolean> {
+    const result = this.db.prepare(`
+      INSERT OR IGNORE INTO promo_codes (
+        code, discount_type, value, event_ids, ticket_type_ids, max_uses,
+        max_uses_per_customer, valid_from, valid_until, active, created_at
+      ) VALUES (
+        @code, @discountType, @value, @eventIds, @ticketTypeIds, @maxUses,
+        @maxUsesPerCustomer, @validFrom, @validUntil, @active, @createdAt
+      )
+    `).run({
+      code: normalizePromoCode(promo.code),
+      discountType: promo.discountType,
+      value: promo.value,
+      eventIds: promo.eventIds ? JSON.stringify(promo.eventIds) : null,
+      ticketTypeIds: promo.ticketTypeIds ? JSON.stringify(promo.ticketTypeIds) : null,
+      maxUses: promo.maxUses ?? null,
+      maxUsesPerCustomer: promo.maxUsesPerCustomer ?? null,
+      validFrom: promo.validFrom ? promo.validFrom.toISOString() : null,
+      validUntil: promo.validUntil ? promo.validUntil.toISOString() : null,
+      active: promo.active ? 1 : 0,
+      createdAt: promo.createdAt.toISOString()
+    });
+    
+    if (result.changes > 0) {
+      log.info({ promoCode: normalizePromoCode(promo.code) }, 'Promo code created');
+    }
+    
+    return result.changes > 0;
+  }
+  
+  /**
+   * Get a promo code
+   */
+  async getPromoCode(code: string): Promise<PromoCode | null> {
+    const row = this.db
+      .prepare('SELECT * FROM promo_codes WHERE code = ?')
+      .get(normalizePromoCode(code)) as PromoCodeRow | undefined;
+    
+    return row ? rowToPromoCode(row) : null;
+  }
+  
+  /**
+   * List every promo code, newest first
+   */
+  async listPromoCodes(): Promise<PromoCode[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM promo_codes ORDER BY created_at DESC')
+      .all() as PromoCodeRow[];
+    
+    return rows.map(rowToPromoCode);
+  }
+  
+  /**
+   * Switch a promo code on or off
+   */
+  async setPromoCodeActive(code: string, active: boolean): Promise<PromoCode | null> {
+    const result = this.db
+      .prepare('UPDATE promo_codes SET active = ? WHERE code = ?')
+      .run(active ? 1 : 0, normalizePromoCode(code));
+    
+    if (result.changes === 0) {
+      return null;
+    }
+    
+    log.info({ promoCode: normalizePromoCode(code) }, active ? 'Promo code activated' : 'Promo code deactivated');
+    
+    return this.getPromoCode(code);
+  }
+  
+  /**
+   * Count successful redemptions of a code
+   */
+  async countRedemptions(code: string, customerKey?: string): Promise<{ total: number; customer: number }> {
+    const row = this.db.prepare(`
+      SELECT COUNT(*) AS total,
+             COALESCE(SUM(CASE WHEN customer_key = @customerKey THEN 1 ELSE 0 END), 0) AS customer
+      FROM promo_redemptions
+      WHERE code = @code
+    `).get({ code: normalizePromoCode(code), customerKey: customerKey ?? null }) as { total: number; customer: number };
+    
+    return { total: row.total, customer: row.customer };
+  }
+  
+  /**
+   * Record a successful redemption
+   */
+  async recordRedemption(redemption: PromoRedemption): Promise<void> {
+    const result = this.db.prepare(`
+      INSERT OR IGNORE INTO promo_redemptions (payment_intent_id, code, customer_key, redeemed_at)
+      VALUES (?, ?, ?, ?)
+    `).run(
+      redemption.paymentIntentId,
+      normalizePromoCode(redemption.code),
+      redemption.customerKey ?? null,
+      redemption.redeemedAt.toISOString()
+    );
+    
+    if (result.changes > 0) {
+      log.info({ promoCode: normalizePromoCode(redemption.code), paymentIntentId: redemption.paymentIntentId }, 'Promo code redeemed');
+    }
+  }
+}
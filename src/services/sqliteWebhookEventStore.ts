@@ -0,0 +1,117 @@
+/**
+ * SQLite Webhook Event Store
+ * 
+ * Stores the webhook event log in the SQLite database.
+ */
+
+import Database from 'better-sqlite3';
+import { WebhookEventPage, WebhookEventRecord, WebhookEventStatus, WebhookEventStore } from './webhookEventStore.js';
+
+// Shape of a row in the webhook_events table
+interface WebhookEventRow {
+  event_id: string;
+  type: string;
+  payload: string;
+  status: WebhookEventStatus;
+  attempts: number;
+  last_error: string | null;
+  received_at: string;
+  last_attempt_at: string | null;
+  processed_at: string | null;
+}
+
+/**
+ * Converts a database row to a WebhookEventRecord
+ */
+function rowToEvent(row: WebhookEventRow): WebhookEventRecord {
+  return {
+    eventId: row.event_id,
+    type: row.type,
+    payload: row.payload,
+    status: row.status,
+    attempts: row.attempts,
+    lastError: row.last_error ?? undefined,
+    receivedAt: new Date(row.received_at),
+    lastAttemptAt: row.last_attempt_at ? new Date(row.last_attempt_at) : undefined,
+    processedAt: row.processed_at ? new Date(row.processed_at) : undefined
+  };
+}
+
+export class SqliteWebhookEventStore implements WebhookEventStore {
+  constructor(private db: Database.Database) {}
+  
+  /**
+   * Store a newly received event
+   */
+  async recordEvent(event: { eventId: string; type: string; payload: string; receivedAt: Date }): Promise<WebhookEventRecord> {
+    this.db.prepare(`
+      INSERT OR IGNORE INTO webhook_events (event_id, type, payload, status, attempts, received_at)
+      VALUES (?, ?, ?, 'received', 0, ?)
+    `).run(event.eventId, event.type, event.payload, event.receivedAt.toISOString());
+    
+    return (await this.getEvent(event.eventId))!;
+  }
+  
+  /**
+   * Get an event
+   */
+  async getEvent(eventId: string): Promise<WebhookEventRecord | null> {
+    const row = this.db
+      .prepare('SELECT * FROM webhook_events WHERE event_id = ?')
+      .get(eventId) as WebhookEventRow | undefined;
+    
+    return row ? rowToEvent(row) : null;
+  }
+  
+  /**
+   * List events, newest first
+   */
+  async listEvents(status: WebhookEventStatus | undefined, page: { limit: number; offset: number }): Promise<WebhookEventPage> {
+    const where = status ? 'WHERE status = @status' : '';
+    const params = status ? { status } : {};
+    
+    const { count } = this.db
+      .prepare(`SELECT COUNT(*) AS count FROM webhook_events ${where}`)
+      .get(params) as { count: number };
+    
+    const rows = this.db
+      .prepare(`SELECT * FROM webhook_events ${where} ORDER BY received_at DESC LIMIT @limit OFFSET @offset`)
+      .all({ ...params, limit: page.limit, offset: page.offset }) as WebhookEventRow[];
+    
+    return {
+      events: rows.map(rowToEvent),
+      total: count
+    };
+  }
+  
+  /**
+   * Record a successful attempt
+   */
+  async markProcessed(eventId: string): Promise<WebhookEventRecord | null> {
+    const now = new Date().toISOString();
+    
+    this.db.prepare(`
+      UPDATE webhook_events
+      SET status = 'processed', attempts = attempts + 1, last_attempt_at = ?, processed_at = ?
+      WHERE event_id = ?
+    `).run(now, now, eventId);
+    
+    return this.getEvent(eventId);
+  }
+  
+  /**
+   * Record a failed attempt
+   */
+  async markFailed(eventId: string, error: string, maxAttempts: number): Promise<WebhookEventRecord | null> {
+    this.db.prepare(`
+      UPDATE webhook_events
+      SET status = CASE WHEN attempts + 1 >= @maxAttempts THEN 'dead_letter' ELSE 'failed' END,
+          attempts = attempts + 1,
+          last_error = @error,
+          last_attempt_at = @now
+      WHERE event_id = @eventId
+    `).run({ eventId, error, maxAttempts, now: new Date().toISOString() });
+    
+    return this.getEvent(eventId);
+  }
+}
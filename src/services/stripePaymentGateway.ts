@@ -0,0 +1,418 @@
+/**
+ * Stripe Payment Gateway
+ * 
+ * Takes payments through Stripe PaymentIntents, and turns Stripe
+ * webhook events into payment events.
+ * 
+ * Payments are started with a PaymentIntent (paid with Elements on our
+ * frontend) or a Checkout Session (paid on Stripe's hosted page). A
+ * session's metadata is copied onto the PaymentIntent it creates, so
+ * its payment, refunds and disputes are handled like any other.
+ * 
+ * The buyer is attached as a Stripe Customer (one per email address),
+ * and Stripe emails them its receipt.
+ */
+
+import { IncomingHttpHeaders } from 'node:http';
+import Stripe from 'stripe';
+import {
+  CheckoutSessionDetails,
+  CheckoutSessionRequest,
+  CreatedCheckoutSession,
+  CreatedPayment,
+  GatewayEvent,
+  GatewayRefund,
+  PaymentDetails,
+  PaymentEvent,
+  PaymentGateway,
+  PaymentCustomer,
+  PaymentGatewayError,
+  PaymentRequest,
+  RefundRequest
+} from './paymentGateway.js';
+
+// Marks the coupons made for one Checkout Session, deleted when it expires
+const SESSION_COUPON_METADATA = { checkoutSessionDiscount: 'true' };
+
+/**
+ * Stripe settings
+ */
+export interface StripeConfig {
+  secretKey: string;
+  webhookSecret?: string;  // Required to receive webhooks
+}
+
+/**
+ * Gets the PaymentIntent ID from a Stripe field that may be expanded
+ */
+function getPaymentIntentId(paymentIntent: string | Stripe.PaymentIntent | null): string | null {
+  if (!paymentIntent) {
+    return null;
+  }
+  
+  return typeof paymentIntent === 'string' ? paymentIntent : paymentIntent.id;
+}
+
+/**
+ * Converts a Stripe PaymentIntent to payment details
+ */
+function toPaymentDetails(paymentIntent: Stripe.PaymentIntent): PaymentDetails {
+  return {
+    paymentIntentId: paymentIntent.id,
+    amount: paymentIntent.amount,
+    currency: paymentIntent.currency,
+    metadata: paymentIntent.metadata,
+    failureMessage: paymentIntent.last_payment_error?.message ?? null
+  };
+}
+
+/**
+ * Converts a paid Checkout Session to payment details (of the
+ * PaymentIntent it created)
+ */
+function sessionToPaymentDetails(session: Stripe.Checkout.Session, paymentIntentId: string): PaymentDetails {
+  return {
+    paymentIntentId,
+    amount: session.amount_total ?? 0,
+    currency: session.currency ?? '',
+    metadata: session.metadata ?? {},
+    failureMessage: null
+  };
+}
+
+/**
+ * Converts a Stripe refund to a gateway refund
+ */
+function toGatewayRefund(refund: Stripe.Refund): GatewayRefund {
+  return {
+    refundId: refund.id,
+    paymentIntentId: getPaymentIntentId(refund.payment_intent) ?? '',
+    amount: refund.amount,
+    status: refund.status ?? 'pending',
+    metadata: refund.metadata ?? {},
+    createdAt: new Date(refund.created * 1000)
+  };
+}
+
+/**
+ * Converts a Stripe event to a payment event
+ */
+function toPaymentEvent(event: Stripe.Event): PaymentEvent {
+  switch (event.type) {
+    case 'payment_intent.succeeded':
+      return { type: 'payment_succeeded', payment: toPaymentDetails(event.data.object) };
+    
+    case 'payment_intent.payment_failed':
+    case 'payment_intent.canceled':
+      return {
+        type: 'payment_failed',
+        payment: toPaymentDetails(event.data.object),
+        final: event.type === 'payment_intent.canceled'
+      };
+    
+    case 'charge.refunded': {
+      const charge = event.data.object;
+      return {
+        type: 'charge_refunded',
+        paymentIntentId: getPaymentIntentId(charge.payment_intent),
+        chargeId: charge.id,
+        amount: charge.amount,
+        amountRefunded: charge.amount_refunded,
+        fullyRefunded: charge.refunded
+      };
+    }
+    
+    case 'charge.dispute.created':
+      return {
+        type: 'dispute_created',
+        paymentIntentId: getPaymentIntentId(event.data.object.payment_intent),
+        disputeId: event.data.object.id
+      };
+    
+    case 'charge.dispute.closed':
+      return {
+        type: 'dispute_closed',
+        paymentIntentId: getPaymentIntentId(event.data.object.payment_intent),
+        disputeId: event.data.object.id,
+        status: event.data.object.status,
+        won: event.data.object.status === 'won'
+      };
+    
+    case 'checkout.session.completed':
+    case 'checkout.session.async_payment_succeeded': {
+      // Delayed payment methods complete the session unpaid, and succeed later
+      const session = event.data.object;
+      const paymentIntentId = getPaymentIntentId(session.payment_intent);
+      
+      if (session.payment_status !== 'paid' || !paymentIntentId) {
+        return { type: 'ignored' };
+      }
+      return { type: 'payment_succeeded', payment: sessionToPaymentDetails(session, paymentIntentId) };
+    }
+    
+    case 'checkout.session.expired':
+      return {
+        type: 'checkout_expired',
+        sessionId: event.data.object.id,
+        paymentIntentId: getPaymentIntentId(event.data.object.payment_intent),
+        metadata: event.data.object.metadata ?? {}
+      };
+    
+    default:
+      return { type: 'ignored' };
+  }
+}
+
+/**
+ * Wraps Stripe API errors, so callers only deal with PaymentGatewayError
+ */
+function toGatewayError(error: unknown): unknown {
+  if (error instanceof Stripe.errors.StripeError) {
+    return new PaymentGatewayError(error.message);
+  }
+  return error;
+}
+
+export class StripePaymentGateway implements PaymentGateway {
+  private stripe: Stripe;
+  
+  constructor(private config: StripeConfig) {
+    this.stripe = new Stripe(config.secretKey, {
+      apiVersion: '2025-12-15.clover',  // Use the latest API version
+      typescript: true,
+    });
+  }
+  
+  /**
+   * Create a PaymentIntent
+   */
+  async createPayment(request: PaymentRequest): Promise<CreatedPayment> {
+    try {
+      const customerId = request.customer
+        ? await this.findOrCreateCustomer(request.customer, request.idempotencyKey)
+        : undefined;
+      
+      const paymentIntent = await this.stripe.paymentIntents.create({
+        amount: request.amount,
+        currency: request.currency,
+        automatic_payment_methods: {
+          enabled: true,
+        },
+        customer: customerId,
+        receipt_email: request.customer?.email,
+        metadata: request.metadata
+      }, {
+        idempotencyKey: request.idempotencyKey
+      });
+      
+      return {
+        paymentIntentId: paymentIntent.id,
+        clientSecret: paymentIntent.client_secret!
+      };
+    } catch (error) {
+      throw toGatewayError(error);
+    }
+  }
+  
+  /**
+   * Retrieve a PaymentIntent's client secret
+   */
+  async getClientSecret(paymentIntentId: string): Promise<string> {
+    try {
+      const paymentIntent = await this.stripe.paymentIntents.retrieve(paymentIntentId);
+      return paymentIntent.client_secret!;
+    } catch (error) {
+      throw toGatewayError(error);
+    }
+  }
+  
+  /**
+   * Create a Checkout Session, with our pricing as its line items.
+   * A discount becomes a single-use coupon for exactly its amount
+   * (deleted by discardCheckoutSession if the session expires).
+   */
+  async createCheckoutSession(request: CheckoutSessionRequest): Promise<CreatedCheckoutSession> {
+    try {
+      const customerId = request.customer
+        ? await this.findOrCreateCustomer(request.customer, request.idempotencyKey)
+        : undefined;
+      
+      const coupon = request.discount
+        ? await this.stripe.coupons.create({
+          amount_off: request.discount.amount,
+          currency: request.currency,
+          duration: 'once',
+          max_redemptions: 1,
+          name: request.discount.name.slice(0, 40),  // Stripe's limit
+          metadata: SESSION_COUPON_METADATA
+        }, {
+          idempotencyKey: request.idempotencyKey ? `${request.idempotencyKey}:coupon` : undefined
+        })
+        : undefined;
+      
+      const session = await this.stripe.checkout.sessions.create({
+        mode: 'payment',
+        line_items: request.lineItems.map(item => ({
+          quantity: item.quantity,
+          price_data: {
+            currency: request.currency,
+            unit_amount: item.unitAmount,
+            product_data: { name: item.name }
+          }
+        })),
+        discounts: coupon ? [{ coupon: coupon.id }] : undefined,
+        customer: customerId,
+        locale: request.locale as Stripe.Checkout.SessionCreateParams.Locale,
+        success_url: request.successUrl,
+        cancel_url: request.cancelUrl,
+        expires_at: Math.floor(request.expiresAt.getTime() / 1000),
+        metadata: request.metadata,
+        payment_intent_data: {
+          // Read back by the payment_intent.* and charge.* events
+          metadata: request.metadata,
+          receipt_email: request.customer?.email
+        }
+      }, {
+        idempotencyKey: request.idempotencyKey
+      });
+      
+      return {
+        sessionId: session.id,
+        url: session.url!,
+        expiresAt: new Date(session.expires_at * 1000)
+      };
+    } catch (error) {
+      throw toGatewayError(error);
+    }
+  }
+  
+  /**
+   * Retrieve a Checkout Session
+   */
+  async getCheckoutSession(sessionId: string): Promise<CheckoutSessionDetails | null> {
+    try {
+      const session = await this.stripe.checkout.sessions.retrieve(sessionId);
+      
+      return {
+        sessionId: session.id,
+        status: session.status ?? 'open',
+        paymentIntentId: getPaymentIntentId(session.payment_intent)
+      };
+    } catch (error) {
+      if (error instanceof Stripe.errors.StripeInvalidRequestError && error.code === 'resource_missing') {
+        return null;
+      }
+      throw toGatewayError(error);
+    }
+  }
+  
+  /**
+   * Delete the coupon made for an expired Checkout Session
+   */
+  async discardCheckoutSession(sessionId: string): Promise<void> {
+    try {
+      const session = await this.stripe.checkout.sessions.retrieve(sessionId, { expand: ['discounts.coupon'] });
+      
+      for (const discount of session.discounts ?? []) {
+        const coupon = discount.coupon;
+        
+        if (coupon && typeof coupon !== 'string' &&
+            coupon.metadata?.checkoutSessionDiscount === SESSION_COUPON_METADATA.checkoutSessionDiscount) {
+          await this.stripe.coupons.del(coupon.id).catch((error: unknown) => {
+            // Already deleted by an earlier delivery of the event
+            if (!(error instanceof Stripe.errors.StripeInvalidRequestError && error.code === 'resource_missing')) {
+              throw error;
+            }
+          });
+        }
+      }
+    } catch (error) {
+      throw toGatewayError(error);
+    }
+  }
+  
+  /**
+   * Finds the Stripe Customer for an email address, or creates it.
+   * A returning buyer keeps one Customer, with their latest name and phone.
+   */
+  private async findOrCreateCustomer(customer: PaymentCustomer, idempotencyKey: string | undefined): Promise<string> {
+    const details = { email: customer.email, name: customer.name, phone: customer.phone };
+    const existing = await this.stripe.customers.list({ email: customer.email, limit: 1 });
+    
+    if (existing.data.length > 0) {
+      const { id } = existing.data[0];
+      await this.stripe.customers.update(id, details);
+      return id;
+    }
+    
+    const created = await this.stripe.customers.create(details, {
+      idempotencyKey: idempotencyKey ? `${idempotencyKey}:customer` : undefined
+    });
+    
+    return created.id;
+  }
+  
+  /**
+   * Refund a PaymentIntent
+   */
+  async createRefund(request: RefundRequest): Promise<GatewayRefund> {
+    try {
+      const refund = await this.stripe.refunds.create({
+        payment_intent: request.paymentIntentId,
+        amount: request.amount,
+        reason: 'requested_by_customer',
+        metadata: request.metadata
+      }, {
+        idempotencyKey: request.idempotencyKey
+      });
+      
+      return toGatewayRefund(refund);
+    } catch (error) {
+      throw toGatewayError(error);
+    }
+  }
+  
+  /**
+   * List every refund of a PaymentIntent
+   */
+  async listRefunds(paymentIntentId: string): Promise<GatewayRefund[]> {
+    try {
+      const refunds = await this.stripe.refunds.list({ payment_intent: paymentIntentId, limit: 100 });
+      return refunds.data.map(toGatewayRefund);
+    } catch (error) {
+      throw toGatewayError(error);
+    }
+  }
+  
+  /**
+   * Verify a Stripe webhook signature.
+   * 
+   * IMPORTANT: Stripe's signature verification requires the exact
+   * bytes that were sent, NOT the parsed JSON.
+   */
+  verifyWebhook(payload: Buffer, headers: IncomingHttpHeaders): GatewayEvent {
+    const signature = headers['stripe-signature'];
+    
+    if (!this.config.webhookSecret) {
+      throw new Error('STRIPE_WEBHOOK_SECRET environment variable is required');
+    }
+    
+    if (typeof signature !== 'string') {
+      throw new Error('Missing stripe-signature header');
+    }
+    
+    // This will throw an error if verification fails
+    const event = this.stripe.webhooks.constructEvent(payload, signature, this.config.webhookSecret);
+    
+    return { id: event.id, type: event.type, data: toPaymentEvent(event) };
+  }
+  
+  /**
+   * Parse a stored Stripe event
+   */
+  parseEvent(payload: string): GatewayEvent {
+    const event = JSON.parse(payload) as Stripe.Event;
+    
+    return { id: event.id, type: event.type, data: toPaymentEvent(event) };
+  }
+}
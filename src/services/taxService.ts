@@ -0,0 +1,60 @@
+/**
+ * Sales Tax Service
+ * 
+ * Canadian sales taxes on admission tickets, by the province or
+ * territory the event takes place in.
+ * 
+ * - GST (federal, 5%) everywhere without HST
+ * - HST (federal + provincial, harmonized) in ON, NB, NL, NS, PE
+ * - QST in Quebec, charged on the price before GST (not on top of it)
+ * - PST in Saskatchewan, which taxes admissions to entertainment events
+ * 
+ * British Columbia and Manitoba PST/RST do not apply to admissions,
+ * so only GST is charged there. Review this table when rates change.
+ */
+
+export const PROVINCES = ['AB', 'BC', 'MB', 'NB', 'NL', 'NS', 'NT', 'NU', 'ON', 'PE', 'QC', 'SK', 'YT'] as const;
+
+export type Province = typeof PROVINCES[number];
+
+export const TAX_CODES = ['GST', 'HST', 'PST', 'QST'] as const;
+
+export type TaxCode = typeof TAX_CODES[number];
+
+/**
+ * One sales tax charged in a jurisdiction
+ */
+export interface SalesTax {
+  code: TaxCode;
+  jurisdiction: 'CA' | Province;  // Who collects it ("CA" for federal)
+  rate: number;                    // Percent (e.g. 9.975)
+}
+
+const GST: SalesTax = { code: 'GST', jurisdiction: 'CA', rate: 5 };
+
+// Taxes per province or territory, in the order they appear on a receipt
+const SALES_TAXES: Record<Province, SalesTax[]> = {
+  AB: [GST],
+  BC: [GST],
+  MB: [GST],
+  NB: [{ code: 'HST', jurisdiction: 'NB', rate: 15 }],
+  NL: [{ code: 'HST', jurisdiction: 'NL', rate: 15 }],
+  NS: [{ code: 'HST', jurisdiction: 'NS', rate: 14 }],
+  NT: [GST],
+  NU: [GST],
+  ON: [{ code: 'HST', jurisdiction: 'ON', rate: 13 }],
+  PE: [{ code: 'HST', jurisdiction: 'PE', rate: 15 }],
+  QC: [GST, { code: 'QST', jurisdiction: 'QC', rate: 9.975 }],
+  SK: [GST, { code: 'PST', jurisdiction: 'SK', rate: 6 }],
+  YT: [GST]
+};
+
+/**
+ * Gets the sales taxes charged on tickets for an event
+ * 
+ * @param province - Where the event takes place (no taxes if missing)
+ * @returns The taxes, each applied to the same taxable amount
+ */
+export function salesTaxesFor(province: Province | undefined): SalesTax[] {
+  return province ? SALES_TAXES[province] : [];
+}
@@ -0,0 +1,176 @@
+/**
+ * Ticket Email Service
+ * 
+ * Builds the email that delivers an order's tickets, in the
+ * buyer's language, with every ticket's QR code embedded.
+ * The same email delivers a ticket to someone it was transferred to.
+ */
+
+import { EventInfo, findTicketType } from './eventCatalog.js';
+import { Language } from './language.js';
+import { MailAttachment, MailMessage } from './mailTransport.js';
+import { Order } from './orderStore.js';
+import { createSignedTicketCode, generateQRCodePng } from './qrService.js';
+
+/**
+ * Text of the ticket email in one language
+ */
+interface TicketEmailText {
+  subject: (eventName: string) => string;
+  greeting: string;
+  transferredGreeting: string;
+  intro: (count: number, eventName: string) => string;
+  when: string;
+  where: string;
+  ticket: string;
+  attendee: string;
+  orderReference: string;
+  accessCode: string;
+  accessCodeNote: string;
+  footer: string;
+}
+
+const TICKET_EMAIL_TEXT: Record<Language, TicketEmailText> = {
+  en: {
+    subject: (eventName) => `Your tickets for ${eventName}`,
+    greeting: 'Thanks for your order!',
+    transferredGreeting: 'A ticket was transferred to you!',
+    intro: (count, eventName) => `Here ${count === 1 ? 'is your ticket' : `are your ${count} tickets`} for ${eventName}. Show each QR code at the door.`,
+    when: 'When',
+    where: 'Where',
+    ticket: 'Ticket',
+    attendee: 'Attendee',
+    orderReference: 'Order reference',
+    accessCode: 'Order access code',
+    accessCodeNote: 'Use it with the order reference to see and download these tickets online.',
+    footer: 'Each QR code admits one person and can only be scanned once. Do not share it.'
+  },
+  es: {
+    subject: (eventName) => `Tus entradas para ${eventName}`,
+    greeting: '¡Gracias por tu compra!',
+    transferredGreeting: '¡Te transfirieron una entrada!',
+    intro: (count, eventName) => `${count === 1 ? 'Aquí está tu entrada' : `Aquí están tus ${count} entradas`} para ${eventName}. Muestra cada código QR en la puerta.`,
+    when: 'Cuándo',
+    where: 'Dónde',
+    ticket: 'Entrada',
+    attendee: 'Asistente',
+    orderReference: 'Referencia del pedido',
+    accessCode: 'Código de acceso al pedido',
+    accessCodeNote: 'Úsalo con la referencia del pedido para ver y descargar estas entradas en línea.',
+    footer: 'Cada código QR permite la entrada de una persona y solo se puede escanear una vez. No lo compartas.'
+  },
+  'pt-BR': {
+    subject: (eventName) => `Seus ingressos para ${eventName}`,
+    greeting: 'Obrigado pela sua compra!',
+    transferredGreeting: 'Um ingresso foi transferido para você!',
+    intro: (count, eventName) => `${count === 1 ? 'Aqui está seu ingresso' : `Aqui estão seus ${count} ingressos`} para ${eventName}. Mostre cada QR code na entrada.`,
+    when: 'Quando',
+    where: 'Onde',
+    ticket: 'Ingresso',
+    attendee: 'Participante',
+    orderReference: 'Referência do pedido',
+    accessCode: 'Código de acesso do pedido',
+    accessCodeNote: 'Use-o com a referência do pedido para ver e baixar estes ingressos online.',
+    footer: 'Cada QR code dá direito à entrada de uma pessoa e só pode ser lido uma vez. Não compartilhe.'
+  }
+};
+
+/**
+ * Escapes text for use in HTML
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Builds the ticket email for an order.
+ * Refunded tickets are left out.
+ * 
+ * @param order - The order to deliver
+ * @param event - The event the order is for
+ * @param to - Recipient email address
+ * @param language - Language to write the email in
+ * @param transferred - Whether the tickets were transferred to the recipient (rather than bought)
+ * @param accessToken - A newly issued order access token to include (only its hash is stored)
+ * @returns The message, with one inline QR image per ticket
+ */
+export async function buildTicketEmail(
+  order: Order,
+  event: EventInfo,
+  to: string,
+  language: Language,
+  transferred: boolean = false,
+  accessToken?: string
+): Promise<MailMessage> {
+  const text = TICKET_EMAIL_TEXT[language];
+  const greeting = transferred ? text.transferredGreeting : text.greeting;
+  const tickets = order.tickets.filter(ticket => ticket.status !== 'cancelled');
+  const startsAt = new Intl.DateTimeFormat(language, { dateStyle: 'full', timeStyle: 'short' }).format(event.startsAt);
+  
+  const attachments: MailAttachment[] = [];
+  const textLines: string[] = [];
+  const htmlBlocks: string[] = [];
+  
+  for (const [index, ticket] of tickets.entries()) {
+    const typeName = findTicketType(event, ticket.ticketTypeId)?.name || ticket.ticketTypeId;
+    const cid = `${ticket.ticketId}@tickets`;
+    
+    attachments.push({
+      filename: `${ticket.ticketId}.png`,
+      content: await generateQRCodePng(createSignedTicketCode(order, ticket, event)),
+      contentType: 'image/png',
+      cid
+    });
+    
+    const attendeeLine = ticket.attendeeName ? `${text.attendee}: ${ticket.attendeeName}` : '';
+    textLines.push(`${text.ticket} ${index + 1}: ${typeName} (${ticket.ticketId})${attendeeLine ? ` - ${attendeeLine}` : ''}`);
+    htmlBlocks.push(`
+      <div style="margin: 24px 0; text-align: center;">
+        <p style="margin: 0;"><strong>${text.ticket} ${index + 1}: ${escapeHtml(typeName)}</strong></p>
+        ${attendeeLine ? `<p style="margin: 4px 0;">${escapeHtml(attendeeLine)}</p>` : ''}
+        <img src="cid:${cid}" width="240" height="240" alt="${escapeHtml(ticket.ticketId)}">
+        <p style="margin: 0; color: #666; font-size: 12px;">${ticket.ticketId}</p>
+      </div>`);
+  }
+  
+  const plainText = [
+    greeting,
+    '',
+    text.intro(tickets.length, event.name),
+    '',
+    `${text.when}: ${startsAt}`,
+    `${text.where}: ${event.venue}`,
+    '',
+    ...textLines,
+    '',
+    `${text.orderReference}: ${order.orderId}`,
+    ...(accessToken ? [`${text.accessCode}: ${accessToken}`, text.accessCodeNote] : []),
+    '',
+    text.footer
+  ].join('\n');
+  
+  const html = `<!DOCTYPE html>
+<html lang="${language}">
+  <body style="font-family: Arial, sans-serif; color: #222; max-width: 600px; margin: 0 auto;">
+    <h1 style="font-size: 22px;">${escapeHtml(greeting)}</h1>
+    <p>${escapeHtml(text.intro(tickets.length, event.name))}</p>
+    <p><strong>${text.when}:</strong> ${escapeHtml(startsAt)}<br><strong>${text.where}:</strong> ${escapeHtml(event.venue)}</p>
+    ${htmlBlocks.join('')}
+    ${accessToken ? `<p><strong>${escapeHtml(text.accessCode)}:</strong> <code>${accessToken}</code><br>${escapeHtml(text.accessCodeNote)}</p>` : ''}
+    <p style="color: #666; font-size: 12px;">${text.orderReference}: ${order.orderId}<br>${escapeHtml(text.footer)}</p>
+  </body>
+</html>`;
+
+  return {
+    to,
+    subject: text.subject(event.name),
+    text: plainText,
+    html,
+    attachments
+  };
+}
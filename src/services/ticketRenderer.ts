@@ -0,0 +1,254 @@
+/**
+ * Ticket Renderer
+ * 
+ * Lays out printable tickets in the order's language:
+ * - PDF: one page per ticket, for printing or saving
+ * - SVG: a single ticket, sharp at any size, for an offline copy
+ * 
+ * Both show the event, date, venue, ticket type, attendee,
+ * order reference and the ticket's signed QR code.
+ */
+
+import PDFDocument from 'pdfkit';
+import { EventInfo, findTicketType } from './eventCatalog.js';
+import { Language } from './language.js';
+import { Order, Ticket } from './orderStore.js';
+import { createSignedTicketCode, generateQRCodePng, generateQRCodeSvg } from './qrService.js';
+
+/**
+ * Text printed on a ticket in one language
+ */
+interface TicketText {
+  ticketOf: (position: number, total: number) => string;
+  attendee: string;
+  when: string;
+  where: string;
+  ticketReference: string;
+  orderReference: string;
+  footer: string;
+}
+
+const TICKET_TEXT: Record<Language, TicketText> = {
+  en: {
+    ticketOf: (position, total) => `Ticket ${position} of ${total}`,
+    attendee: 'Attendee',
+    when: 'When',
+    where: 'Where',
+    ticketReference: 'Ticket',
+    orderReference: 'Order',
+    footer: 'Admits one. Valid for a single scan. Do not share this QR code.'
+  },
+  es: {
+    ticketOf: (position, total) => `Entrada ${position} de ${total}`,
+    attendee: 'Asistente',
+    when: 'Cuándo',
+    where: 'Dónde',
+    ticketReference: 'Entrada',
+    orderReference: 'Pedido',
+    footer: 'Válida para una persona y un solo escaneo. No compartas este código QR.'
+  },
+  'pt-BR': {
+    ticketOf: (position, total) => `Ingresso ${position} de ${total}`,
+    attendee: 'Participante',
+    when: 'Quando',
+    where: 'Onde',
+    ticketReference: 'Ingresso',
+    orderReference: 'Pedido',
+    footer: 'Válido para uma pessoa e uma única leitura. Não compartilhe este QR code.'
+  }
+};
+
+// PDF page size (A5, in points) and margin
+const PAGE_WIDTH = 420;
+const PAGE_HEIGHT = 595;
+const PAGE_MARGIN = 36;
+
+// Size of the QR code on the page (points) and of the image embedded for it (pixels, print quality)
+const QR_SIZE = 240;
+const QR_IMAGE_PIXELS = 720;
+
+/**
+ * Everything printed on one ticket
+ */
+interface TicketCard {
+  eventName: string;
+  when: string;
+  where: string;
+  heading: string;
+  attendee?: string;
+  ticketReference: string;
+  orderReference: string;
+  footer: string;
+  qrPayload: string;
+}
+
+/**
+ * Works out the text of one ticket
+ */
+function buildCard(
+  order: Order,
+  ticket: Ticket,
+  event: EventInfo,
+  language: Language,
+  position: number,
+  total: number
+): TicketCard {
+  const text = TICKET_TEXT[language];
+  const typeName = findTicketType(event, ticket.ticketTypeId)?.name || ticket.ticketTypeId;
+  const startsAt = new Intl.DateTimeFormat(language, { dateStyle: 'full', timeStyle: 'short' }).format(event.startsAt);
+  
+  return {
+    eventName: event.name,
+    when: `${text.when}: ${startsAt}`,
+    where: `${text.where}: ${event.venue}`,
+    heading: `${text.ticketOf(position, total)} · ${typeName}`,
+    attendee: ticket.attendeeName ? `${text.attendee}: ${ticket.attendeeName}` : undefined,
+    ticketReference: `${text.ticketReference}: ${ticket.ticketId}`,
+    orderReference: `${text.orderReference}: ${order.orderId}`,
+    footer: text.footer,
+    qrPayload: createSignedTicketCode(order, ticket, event)
+  };
+}
+
+/**
+ * Tickets that still admit someone (refunded ones are not printed)
+ */
+function printableTickets(order: Order): Ticket[] {
+  return order.tickets.filter(ticket => ticket.status !== 'cancelled');
+}
+
+/**
+ * Renders every ticket of an order as a PDF, one page per ticket
+ * 
+ * @param order - The order to print
+ * @param event - The event the order is for
+ * @param language - Language to print the tickets in
+ * @returns The PDF file
+ */
+export async function renderTicketPdf(order: Order, event: EventInfo, language: Language): Promise<Buffer> {
+  const tickets = printableTickets(order);
+  const cards = tickets.map((ticket, index) => buildCard(order, ticket, event, language, index + 1, tickets.length));
+  const qrImages = await Promise.all(cards.map(card => generateQRCodePng(card.qrPayload, QR_IMAGE_PIXELS)));
+  
+  const doc = new PDFDocument({
+    size: [PAGE_WIDTH, PAGE_HEIGHT],
+    margin: PAGE_MARGIN,
+    autoFirstPage: false,
+    info: { Title: event.name, Subject: order.orderId }
+  });
+  
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+  
+  const contentWidth = PAGE_WIDTH - PAGE_MARGIN * 2;
+  
+  for (const [index, card] of cards.entries()) {
+    doc.addPage();
+    
+    doc.font('Helvetica-Bold').fontSize(20).fillColor('#000000')
+      .text(card.eventName, { width: contentWidth, align: 'center' });
+    doc.moveDown(0.5);
+    doc.font('Helvetica').fontSize(11)
+      .text(card.when, { width: contentWidth, align: 'center' })
+      .text(card.where, { width: contentWidth, align: 'center' });
+    
+    doc.moveDown(1);
+    doc.moveTo(PAGE_MARGIN, doc.y).lineTo(PAGE_WIDTH - PAGE_MARGIN, doc.y).strokeColor('#cccccc').stroke();
+    doc.moveDown(1);
+    
+    doc.font('Helvetica-Bold').fontSize(14)
+      .text(card.heading, { width: contentWidth, align: 'center' });
+    if (card.attendee) {
+      doc.font('Helvetica').fontSize(12)
+        .text(card.attendee, { width: contentWidth, align: 'center' });
+    }
+    
+    const qrTop = doc.y + 16;
+    doc.image(qrImages[index], (PAGE_WIDTH - QR_SIZE) / 2, qrTop, { width: QR_SIZE, height: QR_SIZE });
+    doc.y = qrTop + QR_SIZE + 16;
+    
+    doc.font('Courier').fontSize(10)
+      .text(card.ticketReference, PAGE_MARGIN, doc.y, { width: contentWidth, align: 'center' })
+      .text(card.orderReference, { width: contentWidth, align: 'center' });
+    
+    doc.font('Helvetica').fontSize(8).fillColor('#666666')
+      .text(card.footer, PAGE_MARGIN, PAGE_HEIGHT - PAGE_MARGIN - 24, { width: contentWidth, align: 'center' });
+  }
+  
+  doc.end();
+  
+  return finished;
+}
+
+/**
+ * Escapes text for use in SVG
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Renders one ticket as an SVG image
+ * 
+ * @param order - The order the ticket belongs to
+ * @param ticket - The ticket to render
+ * @param event - The event the order is for
+ * @param language - Language to print the ticket in
+ * @returns The SVG document
+ */
+export async function renderTicketSvg(
+  order: Order,
+  ticket: Ticket,
+  event: EventInfo,
+  language: Language
+): Promise<string> {
+  const tickets = printableTickets(order);
+  const position = tickets.findIndex(t => t.ticketId === ticket.ticketId) + 1;
+  const card = buildCard(order, ticket, event, language, position, tickets.length);
+  
+  // Place the QR code's own <svg> inside the ticket
+  const qrX = (PAGE_WIDTH - QR_SIZE) / 2;
+  const qrSvg = (await generateQRCodeSvg(card.qrPayload))
+    .replace('<svg ', `<svg x="${qrX}" y="190" width="${QR_SIZE}" height="${QR_SIZE}" `);
+  
+  const line = (y: number, size: number, value: string, weight: string = 'normal', color: string = '#000000') =>
+    `<text x="${PAGE_WIDTH / 2}" y="${y}" font-size="${size}" font-weight="${weight}" fill="${color}" text-anchor="middle">${escapeXml(value)}</text>`;
+  
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${PAGE_WIDTH}" height="${PAGE_HEIGHT}" viewBox="0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}" font-family="Helvetica, Arial, sans-serif">`,
+    `<rect width="${PAGE_WIDTH}" height="${PAGE_HEIGHT}" fill="#ffffff"/>`,
+    line(60, 20, card.eventName, 'bold'),
+    line(88, 11, card.when),
+    line(104, 11, card.where),
+    `<line x1="${PAGE_MARGIN}" y1="124" x2="${PAGE_WIDTH - PAGE_MARGIN}" y2="124" stroke="#cccccc"/>`,
+    line(152, 14, card.heading, 'bold'),
+    card.attendee ? line(172, 12, card.attendee) : '',
+    qrSvg,
+    line(460, 10, card.ticketReference),
+    line(476, 10, card.orderReference),
+    line(PAGE_HEIGHT - PAGE_MARGIN, 8, card.footer, 'normal', '#666666'),
+    '</svg>'
+  ].join('\n');
+}
+
+/**
+ * Renders one ticket's QR code as a high-resolution PNG
+ * (for printing, or for wallets and phones that only take images)
+ * 
+ * @param order - The order the ticket belongs to
+ * @param ticket - The ticket to render
+ * @param event - The event the order is for
+ * @returns The PNG image
+ */
+export async function renderTicketPng(order: Order, ticket: Ticket, event: EventInfo): Promise<Buffer> {
+  return generateQRCodePng(createSignedTicketCode(order, ticket, event), 1200);
+}
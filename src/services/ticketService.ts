@@ -0,0 +1,66 @@
+/**
+ * Ticket Service
+ * 
+ * Splits a paid order into individual tickets, one per attendee,
+ * each with its own QR token.
+ */
+
+import crypto from 'node:crypto';
+import { AttendeeNames } from './buyerService.js';
+import { OrderItem, Ticket } from './orderStore.js';
+import { generateQRToken } from './qrService.js';
+
+// Why a ticket scanned at the door is turned away (see routes/checkin.ts)
+export type CheckinRejection =
+  | 'unknown_token'
+  | 'invalid_signature'
+  | 'expired'
+  | 'wrong_event'
+  | 'already_used'
+  | 'cancelled'
+  | 'transferred';
+
+/**
+ * Generates a public ticket reference.
+ * Unlike the QR token, this is safe to show and log.
+ * 
+ * @returns A ticket ID like "tkt_3f9a1c0e5b7d2468"
+ */
+export function generateTicketId(): string {
+  return `tkt_${crypto.randomBytes(8).toString('hex')}`;
+}
+
+/**
+ * Issues one ticket for every unit of every item
+ * 
+ * @param items - The tickets bought, per ticket type
+ * @param attendeeNames - Names given at checkout, per ticket type (optional)
+ * @returns The new tickets, in the same order as the items
+ */
+export function issueTickets(items: OrderItem[], attendeeNames: AttendeeNames = {}): Ticket[] {
+  return items.flatMap(item =>
+    Array.from({ length: item.quantity }, (_, index): Ticket => ({
+      ticketId: generateTicketId(),
+      qrToken: generateQRToken(),
+      ticketTypeId: item.ticketTypeId,
+      status: 'valid',
+      attendeeName: attendeeNames[item.ticketTypeId]?.[index]
+    }))
+  );
+}
+
+/**
+ * Counts tickets per ticket type
+ * 
+ * @param tickets - The tickets to count
+ * @returns The tickets as order items
+ */
+export function countTicketItems(tickets: Ticket[]): OrderItem[] {
+  const counts = new Map<string, number>();
+  
+  for (const ticket of tickets) {
+    counts.set(ticket.ticketTypeId, (counts.get(ticket.ticketTypeId) || 0) + 1);
+  }
+  
+  return Array.from(counts, ([ticketTypeId, quantity]) => ({ ticketTypeId, quantity }));
+}
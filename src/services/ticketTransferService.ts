@@ -0,0 +1,107 @@
+/**
+ * Ticket Transfer Service
+ * 
+ * Rules for passing a ticket on to someone else. The current holder
+ * starts a transfer to an email address; the recipient accepts it with
+ * the code emailed to them, and the ticket gets a new QR code.
+ * 
+ * Transfers close TRANSFER_CUTOFF_HOURS before the event starts, so
+ * door staff are not checking tickets that changed hands minutes ago.
+ */
+
+import crypto from 'node:crypto';
+import { EventInfo } from './eventCatalog.js';
+import { Order, Ticket } from './orderStore.js';
+
+// How long before the event starts transfers close (default: 2 hours)
+const TRANSFER_CUTOFF_HOURS = parseInt(process.env.TRANSFER_CUTOFF_HOURS || '2', 10);
+
+/**
+ * Why a ticket cannot be transferred
+ */
+export type TransferBlockReason = 'order_cancelled' | 'ticket_used' | 'ticket_cancelled' | 'cutoff_passed';
+
+/**
+ * Generates a public transfer reference
+ * 
+ * @returns A transfer ID like "trf_3f9a1c0e5b7d2468"
+ */
+export function generateTransferId(): string {
+  return `trf_${crypto.randomBytes(8).toString('hex')}`;
+}
+
+/**
+ * Works out when transfers close for an event
+ * 
+ * @param event - The event
+ * @returns The last moment a transfer can be started or accepted
+ */
+export function transferCutoff(event: EventInfo): Date {
+  return new Date(event.startsAt.getTime() - TRANSFER_CUTOFF_HOURS * 60 * 60 * 1000);
+}
+
+/**
+ * Checks whether a ticket can change hands right now
+ * 
+ * @param order - The order the ticket belongs to
+ * @param ticket - The ticket
+ * @param event - The event the order is for
+ * @param now - Current time
+ * @returns Why the ticket cannot be transferred, or null if it can
+ */
+export function transferBlockReason(
+  order: Order,
+  ticket: Ticket,
+  event: EventInfo,
+  now: Date = new Date()
+): TransferBlockReason | null {
+  if (order.status === 'cancelled') {
+    return 'order_cancelled';
+  }
+  
+  if (ticket.status === 'used') {
+    return 'ticket_used';
+  }
+  
+  if (ticket.status === 'cancelled') {
+    return 'ticket_cancelled';
+  }
+  
+  if (now >= transferCutoff(event)) {
+    return 'cutoff_passed';
+  }
+  
+  return null;
+}
+
+/**
+ * Who holds a ticket now
+ * 
+ * @param order - The order the ticket belongs to
+ * @param ticket - The ticket
+ * @returns The email of the last recipient, or the buyer's (if known)
+ */
+export function ticketHolderEmail(order: Order, ticket: Ticket): string | undefined {
+  return ticket.holderEmail ?? order.email;
+}
+
+/**
+ * The order as the buyer sees it: tickets transferred to someone else are left out
+ * 
+ * @param order - The order
+ * @returns The order with only the tickets the buyer still holds
+ */
+export function buyerHeldOrder(order: Order): Order {
+  return { ...order, tickets: order.tickets.filter(ticket => !ticket.holderEmail) };
+}
+
+/**
+ * The order as one ticket's holder sees it: just their ticket
+ * 
+ * @param order - The order
+ * @param ticket - The holder's ticket
+ * @returns The order with only that ticket
+ */
+export function holderHeldOrder(order: Order, ticket: Ticket): Order {
+  return { ...order, tickets: [ticket] };
+}
@@ -0,0 +1,120 @@
+/**
+ * Transfer Email Service
+ * 
+ * Builds the email that offers a transferred ticket to its recipient,
+ * with the code they need to accept it. The ticket itself (and its QR
+ * code) is only sent once they accept (see ticketEmailService).
+ */
+
+import { EventInfo, findTicketType } from './eventCatalog.js';
+import { Language } from './language.js';
+import { MailMessage } from './mailTransport.js';
+import { Ticket, TicketTransfer } from './orderStore.js';
+import { escapeHtml } from './ticketEmailService.js';
+
+/**
+ * Text of the transfer offer email in one language
+ */
+interface TransferEmailText {
+  subject: (eventName: string) => string;
+  intro: (from: string | undefined, ticketName: string, eventName: string) => string;
+  when: string;
+  where: string;
+  howToAccept: (cutoff: string) => string;
+  transferReference: string;
+  acceptCode: string;
+  footer: string;
+}
+
+const TRANSFER_EMAIL_TEXT: Record<Language, TransferEmailText> = {
+  en: {
+    subject: (eventName) => `A ticket for ${eventName} is waiting for you`,
+    intro: (from, ticketName, eventName) => `${from ?? 'Someone'} is transferring a ${ticketName} ticket for ${eventName} to you.`,
+    when: 'When',
+    where: 'Where',
+    howToAccept: (cutoff) => `To accept it, enter the transfer reference and code below before ${cutoff}. Your ticket and its QR code are emailed to you once you accept.`,
+    transferReference: 'Transfer reference',
+    acceptCode: 'Code',
+    footer: 'Not expecting this? Ignore this email and the ticket stays with the sender.'
+  },
+  es: {
+    subject: (eventName) => `Una entrada para ${eventName} te está esperando`,
+    intro: (from, ticketName, eventName) => `${from ?? 'Alguien'} te está transfiriendo una entrada ${ticketName} para ${eventName}.`,
+    when: 'Cuándo',
+    where: 'Dónde',
+    howToAccept: (cutoff) => `Para aceptarla, introduce la referencia de la transferencia y el código de abajo antes del ${cutoff}. Te enviaremos la entrada y su código QR por correo cuando la aceptes.`,
+    transferReference: 'Referencia de la transferencia',
+    acceptCode: 'Código',
+    footer: '¿No esperabas esto? Ignora este correo y la entrada seguirá siendo de quien la envió.'
+  },
+  'pt-BR': {
+    subject: (eventName) => `Um ingresso para ${eventName} está esperando por você`,
+    intro: (from, ticketName, eventName) => `${from ?? 'Alguém'} está transferindo um ingresso ${ticketName} para ${eventName} para você.`,
+    when: 'Quando',
+    where: 'Onde',
+    howToAccept: (cutoff) => `Para aceitar, informe a referência da transferência e o código abaixo antes de ${cutoff}. O ingresso e o QR code são enviados por e-mail assim que você aceitar.`,
+    transferReference: 'Referência da transferência',
+    acceptCode: 'Código',
+    footer: 'Não esperava por isso? Ignore este e-mail e o ingresso continua com quem enviou.'
+  }
+};
+
+/**
+ * Builds the email offering a ticket to its new holder
+ * 
+ * @param transfer - The pending transfer
+ * @param acceptToken - The code that accepts it (only its hash is stored)
+ * @param ticket - The ticket being transferred
+ * @param event - The event the ticket is for
+ * @param cutoff - When transfers close for the event
+ * @param language - Language to write the email in
+ * @returns The message
+ */
+export function buildTransferOfferEmail(
+  transfer: TicketTransfer,
+  acceptToken: string,
+  ticket: Ticket,
+  event: EventInfo,
+  cutoff: Date,
+  language: Language
+): MailMessage {
+  const text = TRANSFER_EMAIL_TEXT[language];
+  const dateFormat = new Intl.DateTimeFormat(language, { dateStyle: 'full', timeStyle: 'short' });
+  const startsAt = dateFormat.format(event.startsAt);
+  const typeName = findTicketType(event, ticket.ticketTypeId)?.name || ticket.ticketTypeId;
+  const intro = text.intro(transfer.fromEmail, typeName, event.name);
+  const howToAccept = text.howToAccept(dateFormat.format(cutoff));
+  
+  const plainText = [
+    intro,
+    '',
+    `${text.when}: ${startsAt}`,
+    `${text.where}: ${event.venue}`,
+    '',
+    howToAccept,
+    '',
+    `${text.transferReference}: ${transfer.transferId}`,
+    `${text.acceptCode}: ${acceptToken}`,
+    '',
+    text.footer
+  ].join('\n');
+  
+  const html = `<!DOCTYPE html>
+<html lang="${language}">
+  <body style="font-family: Arial, sans-serif; color: #222; max-width: 600px; margin: 0 auto;">
+    <p>${escapeHtml(intro)}</p>
+    <p><strong>${text.when}:</strong> ${escapeHtml(startsAt)}<br><strong>${text.where}:</strong> ${escapeHtml(event.venue)}</p>
+    <p>${escapeHtml(howToAccept)}</p>
+    <p><strong>${escapeHtml(text.transferReference)}:</strong> ${transfer.transferId}<br><strong>${escapeHtml(text.acceptCode)}:</strong> <code>${acceptToken}</code></p>
+    <p style="color: #666; font-size: 12px;">${escapeHtml(text.footer)}</p>
+  </body>
+</html>`;
+
+  return {
+    to: transfer.toEmail,
+    subject: text.subject(event.name),
+    text: plainText,
+    html,
+    attachments: []
+  };
+}
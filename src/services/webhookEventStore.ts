@@ -0,0 +1,85 @@
+/**
+ * Webhook Event Store Interface
+ * 
+ * Defines the contract for the log of Stripe webhook events.
+ * 
+ * Every event that passes signature verification is stored by its
+ * Stripe event ID before it is handled, so a failure can be looked
+ * into and replayed instead of being lost.
+ */
+
+/**
+ * Where an event is in processing:
+ * - received: stored, not handled yet
+ * - processed: handled successfully (later deliveries are ignored)
+ * - failed: handling threw; Stripe will deliver it again
+ * - dead_letter: failed too many times; only replayed by an admin
+ */
+export type WebhookEventStatus = 'received' | 'processed' | 'failed' | 'dead_letter';
+
+/**
+ * A Stripe event and how processing it went
+ */
+export interface WebhookEventRecord {
+  eventId: string;             // Stripe event ID (evt_...)
+  type: string;                // Stripe event type (e.g. payment_intent.succeeded)
+  payload: string;             // The event as received (JSON)
+  status: WebhookEventStatus;
+  attempts: number;            // Times handling was attempted
+  lastError?: string;          // Error from the latest failed attempt
+  receivedAt: Date;            // First delivery
+  lastAttemptAt?: Date;        // Latest attempt
+  processedAt?: Date;          // When handling succeeded
+}
+
+/**
+ * A page of webhook events
+ */
+export interface WebhookEventPage {
+  events: WebhookEventRecord[];  // Newest first
+  total: number;                 // Number of events matching the filter (all pages)
+}
+
+/**
+ * Interface for webhook event storage operations.
+ */
+export interface WebhookEventStore {
+  /**
+   * Store a newly received event (does nothing if it is already stored)
+   * @param event - The event ID, type and payload, and when it arrived
+   * @returns The stored event, with its status if it was seen before
+   */
+  recordEvent(event: { eventId: string; type: string; payload: string; receivedAt: Date }): Promise<WebhookEventRecord>;
+  
+  /**
+   * Get an event
+   * @param eventId - The Stripe event ID
+   * @returns The event if found, null otherwise
+   */
+  getEvent(eventId: string): Promise<WebhookEventRecord | null>;
+  
+  /**
+   * List events, newest first
+   * @param status - Only events with this status (all if missing)
+   * @param page - Which slice to return
+   * @returns The events, and how many match in total
+   */
+  listEvents(status: WebhookEventStatus | undefined, page: { limit: number; offset: number }): Promise<WebhookEventPage>;
+  
+  /**
+   * Record a successful attempt
+   * @param eventId - The Stripe event ID
+   * @returns The updated event, or null if it does not exist
+   */
+  markProcessed(eventId: string): Promise<WebhookEventRecord | null>;
+  
+  /**
+   * Record a failed attempt. The event goes to dead_letter once it
+   * has been attempted maxAttempts times, failed otherwise.
+   * @param eventId - The Stripe event ID
+   * @param error - What went wrong
+   * @param maxAttempts - Attempts allowed before dead-lettering
+   * @returns The updated event, or null if it does not exist
+   */
+  markFailed(eventId: string, error: string, maxAttempts: number): Promise<WebhookEventRecord | null>;
+}
@@ -0,0 +1,100 @@
+/**
+ * API Message Tests
+ * 
+ * Every language must have every message of the English catalog (the
+ * type check catches most gaps, but not a message typed as optional or
+ * an empty string), and responses must come in the request's language.
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { FastifyInstance } from 'fastify';
+import { ApiText, apiText } from '../src/services/i18n.js';
+import { LANGUAGES } from '../src/services/language.js';
+import { ADMIN_KEY, buildTestApp } from './testApp.js';
+
+/**
+ * Lists every message in a catalog by path, with its kind
+ * (e.g. "promoRejected.expired: string", "rateLimited: function")
+ */
+function messagePaths(catalog: object, prefix = ''): string[] {
+  return Object.entries(catalog).flatMap(([key, value]) =>
+    typeof value === 'object' && value !== null
+      ? messagePaths(value, `${prefix}${key}.`)
+      : [`${prefix}${key}: ${typeof value}`]
+  ).sort();
+}
+
+/**
+ * Lists the messages of a catalog that are empty strings
+ */
+function emptyMessages(catalog: ApiText): string[] {
+  return messagePaths(catalog)
+    .map(path => path.split(': ')[0])
+    .filter(path => path.split('.').reduce<unknown>((value, key) => (value as Record<string, unknown>)[key], catalog) === '');
+}
+
+describe('API message catalogs', () => {
+  const english = messagePaths(apiText('en'));
+  
+  for (const language of LANGUAGES) {
+    test(`${language} has every message`, () => {
+      assert.deepEqual(messagePaths(apiText(language)), english);
+      assert.deepEqual(emptyMessages(apiText(language)), []);
+    });
+  }
+});
+
+describe('response language', () => {
+  let app: FastifyInstance;
+  
+  before(async () => {
+    app = await buildTestApp();
+  });
+  
+  after(async () => {
+    await app.close();
+  });
+  
+  /**
+   * Scans an unknown QR token at the door
+   */
+  async function scanUnknown(acceptLanguage: string) {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/checkin',
+      headers: { authorization: `Bearer ${ADMIN_KEY}`, 'accept-language': acceptLanguage },
+      payload: { qrToken: 'no-such-token' }
+    });
+    
+    assert.equal(response.statusCode, 404);
+    
+    return response.json();
+  }
+  
+  test('check-in rejections follow Accept-Language', async () => {
+    for (const language of LANGUAGES) {
+      const body = await scanUnknown(language);
+      
+      assert.equal(body.reason, 'unknown_token');
+      assert.equal(body.message, apiText(language).checkinRejected.unknown_token);
+    }
+    
+    assert.equal((await scanUnknown('es-MX,es;q=0.9')).message, apiText('es').checkinRejected.unknown_token);
+  });
+  
+  test('check-in validation errors follow Accept-Language', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/checkin',
+      headers: { authorization: `Bearer ${ADMIN_KEY}`, 'accept-language': 'pt-BR' },
+      payload: {}
+    });
+    
+    assert.equal(response.statusCode, 400);
+    assert.deepEqual(response.json(), {
+      error: 'Validation failed',
+      details: [{ field: 'qrToken', message: apiText('pt-BR').validation.required }]
+    });
+  });
+});
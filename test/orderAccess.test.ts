@@ -0,0 +1,91 @@
+/**
+ * Order Access Tests
+ * 
+ * A checkout sent with an Idempotency-Key gets the same order access
+ * token back when it is repeated, and nobody holding only the key can
+ * work that token out.
+ */
+
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { after, before, describe, test } from 'node:test';
+import { FastifyInstance } from 'fastify';
+import { buildTestApp, simulate } from './testApp.js';
+
+describe('order access tokens', () => {
+  let app: FastifyInstance;
+  
+  before(async () => {
+    app = await buildTestApp();
+  });
+  
+  after(async () => {
+    await app.close();
+  });
+  
+  const payload = {
+    eventId: 'default',
+    items: [{ ticketTypeId: 'female', quantity: 1 }],
+    email: 'buyer@example.com',
+    name: 'Ana Buyer'
+  };
+  
+  /**
+   * Sends create-intent with an Idempotency-Key (a repeat replays the first response)
+   */
+  async function createIntent(idempotencyKey: string) {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/checkout/create-intent',
+      headers: { 'idempotency-key': idempotencyKey },
+      payload
+    });
+    
+    assert.equal(response.statusCode, 200);
+    
+    return response.json();
+  }
+  
+  /**
+   * Status of the buyer's /qr request with a token (checked once the order is paid)
+   */
+  async function qrStatus(orderId: string, token: string): Promise<number> {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/orders/${orderId}/qr`,
+      headers: { 'x-order-access-token': token }
+    });
+    
+    return response.statusCode;
+  }
+  
+  test('a repeated checkout returns a token that opens the order', async () => {
+    const first = await createIntent('retry-1');
+    const replay = await createIntent('retry-1');
+    
+    assert.equal(replay.paymentIntentId, first.paymentIntentId);
+    assert.equal(replay.orderAccessToken, first.orderAccessToken);
+    assert.equal(await simulate(app, first.paymentIntentId, 'succeed'), 'processed');
+    assert.equal(await qrStatus(replay.paymentIntentId, replay.orderAccessToken), 200);
+  });
+  
+  test('the token cannot be derived from the key alone', async () => {
+    const key = 'k';
+    const checkout = await createIntent(key);
+    assert.equal(await simulate(app, checkout.paymentIntentId, 'succeed'), 'processed');
+    
+    // What someone knowing the key could compute without the server secret
+    const guesses = [
+      crypto.createHmac('sha256', key).update('orderAccessToken:create-intent').digest('base64url'),
+      crypto.createHash('sha256').update(`create-intent:${key}`).digest('base64url'),
+      crypto.createHash('sha256').update(key).digest('base64url')
+    ];
+    
+    for (const guess of guesses) {
+      assert.notEqual(guess, checkout.orderAccessToken);
+      assert.equal(await qrStatus(checkout.paymentIntentId, guess), 403);
+    }
+    
+    assert.equal(await qrStatus(checkout.paymentIntentId, checkout.orderAccessToken), 200);
+  });
+});
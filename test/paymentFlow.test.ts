@@ -0,0 +1,236 @@
+/**
+ * Payment Flow Tests
+ * 
+ * Runs checkouts through the fake payment gateway, and each thing
+ * that can happen to the payment afterwards, through the same routes
+ * and webhook handling as in production.
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { FastifyInstance } from 'fastify';
+import { ADMIN_KEY, buildTestApp, simulate, startCheckout } from './testApp.js';
+
+describe('payment flow', () => {
+  let app: FastifyInstance;
+  
+  before(async () => {
+    app = await buildTestApp();
+  });
+  
+  after(async () => {
+    await app.close();
+  });
+  
+  /**
+   * What the buyer's /qr request answers
+   */
+  async function buyerView(paymentIntentId: string, orderAccessToken: string) {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/orders/${paymentIntentId}/qr`,
+      headers: { 'x-order-access-token': orderAccessToken }
+    });
+    
+    assert.equal(response.statusCode, 200);
+    
+    return response.json();
+  }
+  
+  /**
+   * Tickets of each type held for checkouts or sold
+   */
+  async function taken(ticketTypeId: string): Promise<number> {
+    return (await app.inventoryStore.getTakenCounts('default')).get(ticketTypeId) ?? 0;
+  }
+  
+  test('a successful payment issues a ticket per attendee', async () => {
+    const checkout = await startCheckout(app, [{ ticketTypeId: 'female', quantity: 2 }]);
+    
+    assert.equal((await buyerView(checkout.paymentIntentId, checkout.orderAccessToken)).status, 'pending');
+    assert.equal(await simulate(app, checkout.paymentIntentId, 'succeed'), 'processed');
+    
+    const view = await buyerView(checkout.paymentIntentId, checkout.orderAccessToken);
+    assert.equal(view.status, 'ready');
+    assert.equal(view.tickets.length, 2);
+    
+    const order = await app.orderStore.getOrder(checkout.paymentIntentId);
+    assert.equal(order?.status, 'valid');
+    assert.equal(order?.totals?.total, checkout.pricing.total);
+  });
+  
+  test('a repeated webhook event does not issue tickets twice', async () => {
+    const checkout = await startCheckout(app, [{ ticketTypeId: 'male', quantity: 1 }]);
+    await simulate(app, checkout.paymentIntentId, 'succeed');
+    
+    const again = await app.inject({ method: 'POST', url: `/api/dev/payments/${checkout.paymentIntentId}/succeed` });
+    assert.equal(again.statusCode, 409);
+    
+    const { orders } = await app.orderStore.listOrders({ email: 'buyer@example.com' });
+    assert.equal(orders.filter(order => order.paymentIntentId === checkout.paymentIntentId).length, 1);
+  });
+  
+  test('a failed payment releases the held tickets and issues none', async () => {
+    const takenBefore = await taken('male');
+    const checkout = await startCheckout(app, [{ ticketTypeId: 'male', quantity: 3 }]);
+    assert.equal(await taken('male'), takenBefore + 3);
+    
+    assert.equal(await simulate(app, checkout.paymentIntentId, 'fail', { final: true }), 'processed');
+    assert.equal(await taken('male'), takenBefore);
+    assert.equal(await app.orderStore.getOrder(checkout.paymentIntentId), null);
+    assert.equal((await buyerView(checkout.paymentIntentId, checkout.orderAccessToken)).status, 'pending');
+  });
+  
+  test('a payment that succeeds after a decline still issues the tickets', async () => {
+    const takenBefore = await taken('female');
+    const checkout = await startCheckout(app, [{ ticketTypeId: 'female', quantity: 2 }]);
+    
+    // Declined: the hold is released, but the buyer can retry with another card
+    assert.equal(await simulate(app, checkout.paymentIntentId, 'fail'), 'processed');
+    assert.equal(await taken('female'), takenBefore);
+    
+    assert.equal(await simulate(app, checkout.paymentIntentId, 'succeed'), 'processed');
+    assert.equal(await taken('female'), takenBefore + 2);
+    assert.equal((await buyerView(checkout.paymentIntentId, checkout.orderAccessToken)).tickets.length, 2);
+  });
+  
+  test('an admin refund cancels the refunded tickets, then the order', async () => {
+    const checkout = await startCheckout(app, [{ ticketTypeId: 'female', quantity: 1 }, { ticketTypeId: 'male', quantity: 1 }]);
+    await simulate(app, checkout.paymentIntentId, 'succeed');
+    
+    const order = await app.orderStore.getOrder(checkout.paymentIntentId);
+    const male = order!.tickets.find(ticket => ticket.ticketTypeId === 'male')!;
+    
+    const partial = await app.inject({
+      method: 'POST',
+      url: `/api/admin/orders/${checkout.paymentIntentId}/refund`,
+      headers: { authorization: `Bearer ${ADMIN_KEY}` },
+      payload: { ticketIds: [male.ticketId] }
+    });
+    assert.equal(partial.statusCode, 200);
+    assert.equal(partial.json().status, 'valid');
+    assert.deepEqual(partial.json().items, [{ ticketTypeId: 'female', quantity: 1 }]);
+    
+    // The male ticket is $2 of $3: two thirds of what was charged
+    assert.equal(partial.json().refund.amount, Math.round(checkout.pricing.total * 2 / 3));
+    
+    const view = await buyerView(checkout.paymentIntentId, checkout.orderAccessToken);
+    assert.deepEqual(view.tickets.map((ticket: { ticketTypeId: string }) => ticket.ticketTypeId), ['female']);
+    
+    const rest = await app.inject({
+      method: 'POST',
+      url: `/api/admin/orders/${checkout.paymentIntentId}/refund`,
+      headers: { authorization: `Bearer ${ADMIN_KEY}` },
+      payload: {}
+    });
+    assert.equal(rest.statusCode, 200);
+    assert.equal(rest.json().status, 'cancelled');
+    assert.equal(partial.json().refund.amount + rest.json().refund.amount, checkout.pricing.total);
+    
+    assert.deepEqual(await buyerView(checkout.paymentIntentId, checkout.orderAccessToken), { status: 'cancelled', reason: 'refunded' });
+  });
+  
+  test('a refund the order could not record is not made twice', async () => {
+    const checkout = await startCheckout(app, [{ ticketTypeId: 'female', quantity: 2 }]);
+    await simulate(app, checkout.paymentIntentId, 'succeed');
+    
+    const refund = () => app.inject({
+      method: 'POST',
+      url: `/api/admin/orders/${checkout.paymentIntentId}/refund`,
+      headers: { authorization: `Bearer ${ADMIN_KEY}` },
+      payload: { items: [{ ticketTypeId: 'female', quantity: 1 }] }
+    });
+    
+    // The refund is made, but the order update fails once
+    const applyRefund = app.orderStore.applyRefund;
+    app.orderStore.applyRefund = async () => {
+      throw new Error('SQLITE_BUSY: database is locked');
+    };
+    
+    let first;
+    try {
+      first = await refund();
+    } finally {
+      app.orderStore.applyRefund = applyRefund;
+    }
+    
+    assert.equal(first.statusCode, 202);
+    assert.doesNotMatch(first.body, /SQLITE/);
+    
+    // The admin tries again: the same refund comes back, and the order records it
+    const retry = await refund();
+    assert.equal(retry.statusCode, 200);
+    assert.equal(retry.json().refund.id, first.json().refund.id);
+    assert.deepEqual(retry.json().items, [{ ticketTypeId: 'female', quantity: 1 }]);
+    assert.equal((await app.paymentGateway.listRefunds(checkout.paymentIntentId)).length, 1);
+  });
+  
+  test('refunded tickets can be sold again', async () => {
+    const takenBefore = await taken('male');
+    const checkout = await startCheckout(app, [{ ticketTypeId: 'male', quantity: 3 }]);
+    await simulate(app, checkout.paymentIntentId, 'succeed');
+    assert.equal(await taken('male'), takenBefore + 3);
+    
+    const refund = (payload: object) => app.inject({
+      method: 'POST',
+      url: `/api/admin/orders/${checkout.paymentIntentId}/refund`,
+      headers: { authorization: `Bearer ${ADMIN_KEY}` },
+      payload
+    });
+    
+    assert.equal((await refund({ items: [{ ticketTypeId: 'male', quantity: 2 }] })).statusCode, 200);
+    assert.equal(await taken('male'), takenBefore + 1);
+    
+    assert.equal((await refund({})).statusCode, 200);
+    assert.equal(await taken('male'), takenBefore);
+  });
+  
+  test('a refund made outside the API cancels the tickets it covers', async () => {
+    const checkout = await startCheckout(app, [{ ticketTypeId: 'female', quantity: 2 }]);
+    await simulate(app, checkout.paymentIntentId, 'succeed');
+    
+    // Half the charge pays back one of the two tickets
+    assert.equal(await simulate(app, checkout.paymentIntentId, 'refund', { amount: Math.round(checkout.pricing.total / 2) }), 'processed');
+    
+    let order = await app.orderStore.getOrder(checkout.paymentIntentId);
+    assert.equal(order?.status, 'valid');
+    assert.deepEqual(order?.items, [{ ticketTypeId: 'female', quantity: 1 }]);
+    
+    assert.equal(await simulate(app, checkout.paymentIntentId, 'refund'), 'processed');
+    
+    order = await app.orderStore.getOrder(checkout.paymentIntentId);
+    assert.equal(order?.status, 'cancelled');
+    assert.equal(order?.cancellationReason, 'refunded');
+  });
+  
+  test('a dispute cancels the order until it is won', async () => {
+    const checkout = await startCheckout(app, [{ ticketTypeId: 'male', quantity: 1 }]);
+    await simulate(app, checkout.paymentIntentId, 'succeed');
+    
+    const takenBefore = await taken('male');
+    
+    assert.equal(await simulate(app, checkout.paymentIntentId, 'dispute'), 'processed');
+    assert.deepEqual(await buyerView(checkout.paymentIntentId, checkout.orderAccessToken), { status: 'cancelled', reason: 'disputed' });
+    assert.equal(await taken('male'), takenBefore - 1);
+    
+    // Won: the buyer's ticket takes up its place again
+    assert.equal(await simulate(app, checkout.paymentIntentId, 'dispute/close', { won: true }), 'processed');
+    assert.equal(await taken('male'), takenBefore);
+    assert.equal((await buyerView(checkout.paymentIntentId, checkout.orderAccessToken)).status, 'ready');
+    assert.equal((await app.orderStore.getOrder(checkout.paymentIntentId))?.status, 'valid');
+  });
+  
+  test('a lost dispute leaves the order cancelled', async () => {
+    const takenBefore = await taken('female');
+    const checkout = await startCheckout(app, [{ ticketTypeId: 'female', quantity: 1 }]);
+    await simulate(app, checkout.paymentIntentId, 'succeed');
+    await simulate(app, checkout.paymentIntentId, 'dispute');
+    
+    assert.equal(await simulate(app, checkout.paymentIntentId, 'dispute/close', { won: false }), 'processed');
+    assert.equal(await taken('female'), takenBefore);
+    
+    const order = await app.orderStore.getOrder(checkout.paymentIntentId);
+    assert.equal(order?.status, 'cancelled');
+    assert.equal(order?.cancellationReason, 'disputed');
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Test App
+ * 
+ * Builds the whole app for a test file, the way the server does, with
+ * in-memory storage, the fake payment gateway and mail that is only
+ * logged (and the logs silenced). Each test file runs in its own
+ * process, so each gets a fresh app.
+ */
+
+import { FastifyInstance } from 'fastify';
+
+// The admin key the tests authenticate with
+export const ADMIN_KEY = 'test-admin-key';
+
+// Configuration is read when the modules are imported, so it is set first
+process.env.NODE_ENV = 'test';
+process.env.ORDER_STORE = 'memory';
+process.env.PAYMENT_GATEWAY = 'fake';
+process.env.MAIL_TRANSPORT = 'console';
+process.env.LOG_LEVEL = 'silent';
+process.env.ADMIN_API_KEY = ADMIN_KEY;
+delete process.env.EVENTS_FILE;
+
+/**
+ * Builds the app (see src/app.ts)
+ */
+export async function buildTestApp(): Promise<FastifyInstance> {
+  const { buildApp } = await import('../src/app.js');
+  
+  return buildApp();
+}
+
+/**
+ * Starts a checkout for the default event and returns what the buyer gets
+ * 
+ * @param items - Tickets per ticket type ("female" costs $1, "male" $2)
+ */
+export async function startCheckout(
+  app: FastifyInstance,
+  items: { ticketTypeId: string; quantity: number }[]
+): Promise<{ paymentIntentId: string; orderAccessToken: string; pricing: { total: number } }> {
+  const response = await app.inject({
+    method: 'POST',
+    url: '/api/checkout/create-intent',
+    payload: { eventId: 'default', items, email: 'buyer@example.com', name: 'Ana Buyer' }
+  });
+  
+  if (response.statusCode !== 200) {
+    throw new Error(`create-intent answered ${response.statusCode}: ${response.body}`);
+  }
+  
+  return response.json();
+}
+
+/**
+ * Plays the payment provider (see routes/devPayments.ts)
+ * 
+ * @param action - e.g. "succeed", "fail", "refund" or "dispute"
+ * @returns The delivered event's status in the webhook event log
+ */
+export async function simulate(
+  app: FastifyInstance,
+  paymentIntentId: string,
+  action: string,
+  payload: object = {}
+): Promise<string> {
+  const response = await app.inject({
+    method: 'POST',
+    url: `/api/dev/payments/${paymentIntentId}/${action}`,
+    payload
+  });
+  
+  if (response.statusCode !== 200) {
+    throw new Error(`${action} answered ${response.statusCode}: ${response.body}`);
+  }
+  
+  return response.json().status;
+}